@@ -26,10 +26,20 @@ const envSchema = z.object({
   // CORS Configuration
   CORS_ORIGIN: z.string().url(),
   FRONTEND_URL: z.string().url(), // Frontend URL for email links
+  PUBLIC_API_URL: z.string().url().default("http://localhost:3001"), // API URL for links that hit the backend directly, like unsubscribe
 
   // Security Configuration
   BCRYPT_ROUNDS: z.coerce.number().default(12),
   PASSWORD_RESET_EXPIRY_HOURS: z.coerce.number().default(1), // Password reset token expiry in hours
+  ADMIN_EMAILS: z
+    .string()
+    .default("")
+    .transform((value) =>
+      value
+        .split(",")
+        .map((email) => email.trim().toLowerCase())
+        .filter(Boolean)
+    ), // comma-separated emails of users who can see admin endpoints
 
   // Rate Limiting Configuration
   RATE_LIMIT_WINDOW_MS: z.coerce.number().default(60000), // 1 minute
@@ -45,11 +55,44 @@ const envSchema = z.object({
   MAX_PAGE_SIZE: z.coerce.number().default(100),
   DASHBOARD_STATS_LIMIT: z.coerce.number().default(10),
 
+  // Import Configuration
+  IMPORT_MAX_ROWS: z.coerce.number().default(5000), // max rows accepted per import file
+  IMPORT_BATCH_SIZE: z.coerce.number().default(500), // rows per INSERT when committing an import
+
+  // Export Configuration
+  EXPORT_BATCH_SIZE: z.coerce.number().default(1000), // rows fetched per query while streaming an export
+
+  // Recurring Transactions Configuration
+  RECURRING_SCHEDULE: z.string().default("0 * * * *"), // cron schedule (UTC) for materializing due occurrences and bill reminders
+
+  // Budget Alert Configuration
+  BUDGET_ALERT_DELAY_MS: z.coerce.number().default(5000), // wait after a transaction write before checking thresholds, so bulk writes are checked once
+
+  // Notification Configuration
+  UPCOMING_BILL_DAYS: z.coerce.number().default(3), // days ahead a recurring expense is reminded about
+  DIGEST_SCHEDULE: z.string().default("5 * * * *"), // cron schedule (UTC) for sending due digests
+  NOTIFICATION_EMAIL_MAX_ATTEMPTS: z.coerce.number().default(5), // tries at emailing a notification before it is marked failed
+
+  // Bill Configuration
+  BILL_MATCH_WINDOW_DAYS: z.coerce.number().default(7), // a payment may be this many days either side of the due date
+  BILL_ESTIMATE_TOLERANCE_PERCENT: z.coerce.number().default(20), // how far a payment may be from an estimated bill amount
+
+  // Job Scheduler Configuration
+  JOB_POLL_INTERVAL_SECONDS: z.coerce.number().default(15), // how often each instance looks for due jobs
+  JOB_LOCK_TIMEOUT_SECONDS: z.coerce.number().default(300), // a running job whose instance stops renewing its lock is retried after this
+  JOB_MAX_ATTEMPTS: z.coerce.number().default(5), // attempts before a run is marked failed
+  JOB_RETRY_BASE_SECONDS: z.coerce.number().default(30), // first retry delay, doubled on each further attempt
+  JOB_HISTORY_DAYS: z.coerce.number().default(30), // days finished runs are kept
+
+  // Category Suggestion Configuration
+  SUGGESTION_TRAINING_LIMIT: z.coerce.number().default(2000), // most recent categorized transactions learned from
+
   // Email Configuration
   SMTP_HOST: z.string(),
   SMTP_PORT: z.coerce.number(),
-  SMTP_USER: z.string(),
+  SMTP_USER: z.string(), // leave empty for servers without auth, like a local SMTP stand-in
   SMTP_PASS: z.string(),
+  EMAIL_FROM: z.string().optional(), // sender address, defaults to SMTP_USER
 
   // App Configuration
   APP_NAME: z.string().default("Budget Tracker"),
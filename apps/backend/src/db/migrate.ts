@@ -38,9 +38,23 @@ const schema = {
       id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
       user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
       name VARCHAR(100) NOT NULL,
-      budget DECIMAL(10,2) DEFAULT 0,
+      budget DECIMAL(10,2) NOT NULL DEFAULT 0, -- default monthly budget
       color VARCHAR(7) DEFAULT '#3B82F6',
       created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `,
+
+  // Accounts table (checking, savings, credit card, cash)
+  accounts: `
+    CREATE TABLE IF NOT EXISTS accounts (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name VARCHAR(100) NOT NULL,
+      type VARCHAR(20) NOT NULL CHECK (type IN ('checking', 'savings', 'credit_card', 'cash')),
+      opening_balance DECIMAL(12,2) NOT NULL DEFAULT 0,
+      currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
       updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
       UNIQUE(user_id, name)
     );
@@ -54,8 +68,9 @@ const schema = {
       category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
       amount DECIMAL(10,2) NOT NULL,
       description TEXT NOT NULL,
-      type VARCHAR(10) NOT NULL CHECK (type IN ('income', 'expense')),
+      type VARCHAR(10) NOT NULL CHECK (type IN ('income', 'expense', 'transfer')),
       date DATE NOT NULL DEFAULT CURRENT_DATE,
+      external_id VARCHAR(255),
       created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
       updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
     );
@@ -75,23 +90,458 @@ const schema = {
       UNIQUE(user_id, category_id, month, year)
     );
   `,
+
+  // Envelope budgeting ledger: money assigned from the "to be assigned" pool
+  // to a category's envelope for a month (negative to take it back). A move
+  // between envelopes is two rows sharing a move_id.
+  envelope_assignments: `
+    CREATE TABLE IF NOT EXISTS envelope_assignments (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      category_id UUID NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+      month INTEGER NOT NULL CHECK (month >= 1 AND month <= 12),
+      year INTEGER NOT NULL,
+      amount DECIMAL(10,2) NOT NULL CHECK (amount != 0),
+      move_id UUID,
+      note TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `,
+
+  // Budgets that repeat over their own period instead of calendar months,
+  // e.g. every week from a Monday or every month from the 15th. Periods are
+  // period_length units long and one of them starts on anchor_date.
+  period_budgets: `
+    CREATE TABLE IF NOT EXISTS period_budgets (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      category_id UUID NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+      period_unit VARCHAR(5) NOT NULL CHECK (period_unit IN ('day', 'week', 'month')),
+      period_length INTEGER NOT NULL CHECK (period_length >= 1 AND period_length <= 366),
+      anchor_date DATE NOT NULL,
+      limit_amount DECIMAL(10,2) NOT NULL CHECK (limit_amount > 0),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(user_id, category_id, period_unit, period_length)
+    );
+  `,
+
+  // Budget alert thresholds already reached, so each one fires once per
+  // period. Monthly budgets have no period_budget_id.
+  budget_alert_events: `
+    CREATE TABLE IF NOT EXISTS budget_alert_events (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      category_id UUID NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+      period_budget_id UUID REFERENCES period_budgets(id) ON DELETE CASCADE,
+      period_start DATE NOT NULL,
+      threshold INTEGER NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `,
+
+  // In-app notification feed
+  notifications: `
+    CREATE TABLE IF NOT EXISTS notifications (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      type VARCHAR(30) NOT NULL,
+      title VARCHAR(255) NOT NULL,
+      message TEXT NOT NULL,
+      link VARCHAR(255), -- frontend path to open from the notification
+      data JSONB,
+      read_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `,
+
+  // Which channels each notification event is delivered through. Events
+  // without a row use the defaults in NotificationService.
+  notification_preferences: `
+    CREATE TABLE IF NOT EXISTS notification_preferences (
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      event VARCHAR(30) NOT NULL,
+      in_app BOOLEAN NOT NULL,
+      email BOOLEAN NOT NULL,
+      digest BOOLEAN NOT NULL,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (user_id, event)
+    );
+  `,
+
+  // Named sets of category limits that can be applied to any month
+  budget_templates: `
+    CREATE TABLE IF NOT EXISTS budget_templates (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(user_id, name)
+    );
+  `,
+
+  budget_template_items: `
+    CREATE TABLE IF NOT EXISTS budget_template_items (
+      template_id UUID NOT NULL REFERENCES budget_templates(id) ON DELETE CASCADE,
+      category_id UUID NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+      limit_amount DECIMAL(10,2) NOT NULL CHECK (limit_amount > 0),
+      rollover_mode VARCHAR(10) NOT NULL DEFAULT 'none' CHECK (rollover_mode IN ('none', 'surplus', 'deficit', 'both')),
+      PRIMARY KEY (template_id, category_id)
+    );
+  `,
+  // Recurring transaction rules (templates materialized into transactions)
+  recurring_transactions: `
+    CREATE TABLE IF NOT EXISTS recurring_transactions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+      amount DECIMAL(10,2) NOT NULL,
+      description TEXT NOT NULL,
+      type VARCHAR(10) NOT NULL CHECK (type IN ('income', 'expense')),
+      frequency VARCHAR(10) NOT NULL CHECK (frequency IN ('daily', 'weekly', 'biweekly', 'monthly', 'yearly')),
+      day_of_month INTEGER CHECK (day_of_month >= 1 AND day_of_month <= 31),
+      start_date DATE NOT NULL,
+      end_date DATE,
+      max_occurrences INTEGER CHECK (max_occurrences > 0),
+      is_paused BOOLEAN NOT NULL DEFAULT FALSE,
+      materialized_through DATE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `,
+
+  // Per-occurrence skips and overrides for recurring rules
+  recurring_exceptions: `
+    CREATE TABLE IF NOT EXISTS recurring_exceptions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      recurring_id UUID NOT NULL REFERENCES recurring_transactions(id) ON DELETE CASCADE,
+      occurrence_date DATE NOT NULL,
+      action VARCHAR(10) NOT NULL CHECK (action IN ('skip', 'override')),
+      amount DECIMAL(10,2),
+      description TEXT,
+      category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(recurring_id, occurrence_date)
+    );
+  `,
+
+  // Lines of a transaction split across several categories; their amounts
+  // add up to the parent transaction's amount
+  transaction_splits: `
+    CREATE TABLE IF NOT EXISTS transaction_splits (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+      category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+      amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+      memo TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `,
+
+  // Free-form labels; a transaction can carry any number of them
+  tags: `
+    CREATE TABLE IF NOT EXISTS tags (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name VARCHAR(50) NOT NULL,
+      color VARCHAR(7),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(user_id, name)
+    );
+  `,
+
+  transaction_tags: `
+    CREATE TABLE IF NOT EXISTS transaction_tags (
+      transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+      tag_id UUID NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+      PRIMARY KEY (transaction_id, tag_id)
+    );
+  `,
+
+  // Auto-categorization rules, applied in ascending priority. A rule matches
+  // when all of its conditions hold; NULL conditions are ignored.
+  categorization_rules: `
+    CREATE TABLE IF NOT EXISTS categorization_rules (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name VARCHAR(100) NOT NULL,
+      priority INTEGER NOT NULL DEFAULT 0,
+      is_active BOOLEAN NOT NULL DEFAULT TRUE,
+      description_operator VARCHAR(12) CHECK (description_operator IN ('contains', 'starts_with', 'equals', 'regex')),
+      description_value TEXT,
+      min_amount DECIMAL(10,2),
+      max_amount DECIMAL(10,2),
+      match_type VARCHAR(10) CHECK (match_type IN ('income', 'expense')),
+      set_category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+      set_description TEXT,
+      add_tags JSONB NOT NULL DEFAULT '[]', -- tag names
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      CHECK ((description_operator IS NULL) = (description_value IS NULL))
+    );
+  `,
+
+  // Exchange rates loaded by the user: 1 from_currency = rate to_currency
+  exchange_rates: `
+    CREATE TABLE IF NOT EXISTS exchange_rates (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      from_currency VARCHAR(3) NOT NULL,
+      to_currency VARCHAR(3) NOT NULL,
+      rate DECIMAL(18,8) NOT NULL CHECK (rate > 0),
+      date DATE NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(user_id, from_currency, to_currency, date),
+      CHECK (from_currency != to_currency)
+    );
+  `,
+
+  // Bills and subscriptions with the rule for when each is due
+  bills: `
+    CREATE TABLE IF NOT EXISTS bills (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      payee VARCHAR(255) NOT NULL,
+      amount DECIMAL(12,2) NOT NULL CHECK (amount > 0), -- in the base currency
+      amount_type VARCHAR(10) NOT NULL DEFAULT 'fixed' CHECK (amount_type IN ('fixed', 'estimated')),
+      frequency VARCHAR(10) NOT NULL DEFAULT 'monthly' CHECK (frequency IN ('weekly', 'monthly', 'quarterly', 'yearly')),
+      due_day INTEGER NOT NULL CHECK (due_day BETWEEN 0 AND 31), -- weekday (0 = Sunday) for weekly bills, else day of month
+      due_month INTEGER CHECK (due_month BETWEEN 1 AND 12), -- quarterly and yearly only
+      autopay BOOLEAN NOT NULL DEFAULT FALSE,
+      match_text VARCHAR(255), -- text in the descriptions of payments, defaults to the payee
+      start_date DATE NOT NULL DEFAULT CURRENT_DATE, -- nothing is due before this
+      is_active BOOLEAN NOT NULL DEFAULT TRUE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `,
+
+  // A due date of a bill that has been paid, by a matched transaction or
+  // marked by hand
+  bill_payments: `
+    CREATE TABLE IF NOT EXISTS bill_payments (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      bill_id UUID NOT NULL REFERENCES bills(id) ON DELETE CASCADE,
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      due_date DATE NOT NULL,
+      transaction_id UUID REFERENCES transactions(id) ON DELETE CASCADE,
+      amount DECIMAL(12,2) NOT NULL,
+      paid_on DATE NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(bill_id, due_date)
+    );
+  `,
+
+  // Background job queue. Scheduled jobs get one row per run, which an
+  // instance claims by taking its lock.
+  jobs: `
+    CREATE TABLE IF NOT EXISTS jobs (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      name VARCHAR(100) NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+      run_at TIMESTAMP NOT NULL, -- not started before this; pushed back on retry
+      attempts INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER NOT NULL CHECK (max_attempts > 0),
+      locked_by VARCHAR(255), -- instance running the job
+      locked_until TIMESTAMP, -- renewed while the job runs
+      last_error TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(name, run_at)
+    );
+  `,
+
+  // One row per attempt at a job
+  job_runs: `
+    CREATE TABLE IF NOT EXISTS job_runs (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+      name VARCHAR(100) NOT NULL,
+      attempt INTEGER NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+      instance VARCHAR(255) NOT NULL,
+      result JSONB, -- whatever the job returned
+      error TEXT,
+      started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      finished_at TIMESTAMP
+    );
+  `,
+
+  // Columns added after tables were first created (safe to re-run)
+  alterations: `
+    ALTER TABLE transactions ADD COLUMN IF NOT EXISTS external_id VARCHAR(255);
+    ALTER TABLE transactions ADD COLUMN IF NOT EXISTS recurring_id UUID REFERENCES recurring_transactions(id) ON DELETE SET NULL;
+    ALTER TABLE transactions ADD COLUMN IF NOT EXISTS occurrence_date DATE;
+    ALTER TABLE transactions ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES accounts(id) ON DELETE SET NULL;
+    ALTER TABLE transactions ADD COLUMN IF NOT EXISTS transfer_id UUID;
+    ALTER TABLE transactions ADD COLUMN IF NOT EXISTS transfer_direction VARCHAR(3) CHECK (transfer_direction IN ('in', 'out'));
+    ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+    ALTER TABLE transactions ADD CONSTRAINT transactions_type_check CHECK (type IN ('income', 'expense', 'transfer'));
+    ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_transfer_check;
+    ALTER TABLE transactions ADD CONSTRAINT transactions_transfer_check CHECK ((type = 'transfer') = (transfer_id IS NOT NULL AND transfer_direction IS NOT NULL));
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS base_currency VARCHAR(3) NOT NULL DEFAULT 'USD';
+    ALTER TABLE transactions ADD COLUMN IF NOT EXISTS currency VARCHAR(3);
+    UPDATE transactions t SET currency = COALESCE((SELECT a.currency FROM accounts a WHERE a.id = t.account_id), 'USD') WHERE t.currency IS NULL;
+    ALTER TABLE transactions ALTER COLUMN currency SET NOT NULL;
+    ALTER TABLE transactions ADD COLUMN IF NOT EXISTS notes TEXT;
+    ALTER TABLE categories ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES categories(id) ON DELETE SET NULL;
+    ALTER TABLE categories DROP CONSTRAINT IF EXISTS categories_user_id_name_key;
+    ALTER TABLE categories DROP CONSTRAINT IF EXISTS categories_parent_check;
+    ALTER TABLE categories ADD CONSTRAINT categories_parent_check CHECK (parent_id != id);
+    ALTER TABLE categories ADD COLUMN IF NOT EXISTS is_archived BOOLEAN NOT NULL DEFAULT FALSE;
+    -- categories.budget is the default monthly budget, used for months without a budgets row
+    UPDATE categories SET budget = 0 WHERE budget IS NULL;
+    ALTER TABLE categories ALTER COLUMN budget SET NOT NULL;
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS envelope_budgeting BOOLEAN NOT NULL DEFAULT FALSE;
+    -- Percentages of a budget at which an alert fires; the category's apply to its monthly budget
+    ALTER TABLE categories ADD COLUMN IF NOT EXISTS alert_thresholds INTEGER[] NOT NULL DEFAULT '{100}';
+    ALTER TABLE period_budgets ADD COLUMN IF NOT EXISTS alert_thresholds INTEGER[] NOT NULL DEFAULT '{100}';
+    -- Notifications are kept for every channel: in_app says whether the feed shows it,
+    -- digest_status tracks it for the next digest and dedupe_key stops an event firing twice
+    ALTER TABLE notifications ADD COLUMN IF NOT EXISTS in_app BOOLEAN NOT NULL DEFAULT TRUE;
+    ALTER TABLE notifications ADD COLUMN IF NOT EXISTS digest_status VARCHAR(10) CHECK (digest_status IN ('pending', 'sent'));
+    ALTER TABLE notifications ADD COLUMN IF NOT EXISTS dedupe_key VARCHAR(255);
+    -- email_status tracks a notification's email: pending until it is sent, failed once retries run out
+    ALTER TABLE notifications ADD COLUMN IF NOT EXISTS email_status VARCHAR(10) CHECK (email_status IN ('pending', 'sent', 'failed'));
+    ALTER TABLE notifications ADD COLUMN IF NOT EXISTS email_attempts INTEGER NOT NULL DEFAULT 0;
+    -- Set when a user's transactions change and cleared once their budget alerts have been checked
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS budget_alerts_requested_at TIMESTAMP;
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS large_transaction_amount DECIMAL(12,2) NOT NULL DEFAULT 500;
+    -- Email digests: how often, and the last day of the latest period sent
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS digest_frequency VARCHAR(10) NOT NULL DEFAULT 'none' CHECK (digest_frequency IN ('none', 'weekly', 'monthly'));
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS digest_sent_through DATE;
+    ALTER TABLE budgets ADD COLUMN IF NOT EXISTS rollover_mode VARCHAR(10) NOT NULL DEFAULT 'none' CHECK (rollover_mode IN ('none', 'surplus', 'deficit', 'both'));
+    -- Budgets rows created by envelope assignments; only these follow the envelope ledger
+    ALTER TABLE budgets ADD COLUMN IF NOT EXISTS envelope_synced BOOLEAN NOT NULL DEFAULT FALSE;
+  `,
+
+  // Currency conversion. fx_rate uses the latest rate on or before the date,
+  // falling back to the closest later one, and 1 when no rate is known.
+  functions: `
+    CREATE OR REPLACE FUNCTION fx_rate(p_user_id UUID, p_from VARCHAR, p_to VARCHAR, p_date DATE)
+    RETURNS NUMERIC AS $$
+      SELECT CASE WHEN p_from = p_to THEN 1 ELSE COALESCE((
+        SELECT r.rate FROM (
+          SELECT rate, date FROM exchange_rates
+          WHERE user_id = p_user_id AND from_currency = p_from AND to_currency = p_to
+          UNION ALL
+          SELECT 1 / rate, date FROM exchange_rates
+          WHERE user_id = p_user_id AND from_currency = p_to AND to_currency = p_from
+        ) r
+        ORDER BY (r.date > p_date), ABS(r.date - p_date)
+        LIMIT 1
+      ), 1) END;
+    $$ LANGUAGE sql STABLE;
+
+    -- Every (ancestor, descendant) pair of a user's category tree, including
+    -- each category paired with itself at depth 0. Reports join through it
+    -- to roll subcategory spending up into their parents. Each row carries
+    -- the path walked so far, so a parent_id cycle ends the walk instead of
+    -- recursing forever.
+    CREATE OR REPLACE FUNCTION category_closure(p_user_id UUID)
+    RETURNS TABLE (ancestor_id UUID, descendant_id UUID, depth INTEGER) AS $$
+      WITH RECURSIVE closure(ancestor_id, descendant_id, depth, path) AS (
+        SELECT id, id, 0, ARRAY[id] FROM categories WHERE user_id = p_user_id
+        UNION ALL
+        SELECT cl.ancestor_id, c.id, cl.depth + 1, cl.path || c.id
+        FROM closure cl
+        JOIN categories c ON c.parent_id = cl.descendant_id
+        WHERE c.id <> ALL(cl.path)
+      )
+      SELECT ancestor_id, descendant_id, depth FROM closure;
+    $$ LANGUAGE sql STABLE;
+
+    -- Each category's budget for a month: its budgets row when there is one,
+    -- else its default monthly budget when that is set
+    CREATE OR REPLACE FUNCTION effective_budgets(p_user_id UUID, p_month INTEGER, p_year INTEGER)
+    RETURNS TABLE (category_id UUID, budget_id UUID, limit_amount NUMERIC, rollover_mode VARCHAR, is_default BOOLEAN) AS $$
+      SELECT b.category_id, b.id, b.limit_amount, b.rollover_mode, FALSE
+      FROM budgets b
+      WHERE b.user_id = p_user_id AND b.month = p_month AND b.year = p_year
+      UNION ALL
+      SELECT c.id, NULL, c.budget, 'none', TRUE
+      FROM categories c
+      WHERE c.user_id = p_user_id AND c.budget > 0 AND NOT c.is_archived
+        AND NOT EXISTS (
+          SELECT 1 FROM budgets b
+          WHERE b.category_id = c.id AND b.month = p_month AND b.year = p_year
+        );
+    $$ LANGUAGE sql STABLE;
+
+    CREATE OR REPLACE FUNCTION to_base_currency(p_user_id UUID, p_amount NUMERIC, p_currency VARCHAR, p_date DATE)
+    RETURNS NUMERIC AS $$
+      SELECT ROUND(p_amount * fx_rate(p_user_id, p_currency, u.base_currency, p_date), 2)
+      FROM users u WHERE u.id = p_user_id;
+    $$ LANGUAGE sql STABLE;
+  `,
+
+  // One row per category line: the splits of split transactions, and the
+  // transaction itself otherwise. Category reports aggregate over this view,
+  // summing base_amount (the line converted to the user's base currency).
+  views: `
+    CREATE OR REPLACE VIEW transaction_lines AS
+      SELECT
+        t.id as transaction_id, NULL::uuid as split_id, t.user_id, t.category_id,
+        t.account_id, t.amount, t.type, t.date, t.created_at, t.currency,
+        to_base_currency(t.user_id, t.amount, t.currency, t.date) as base_amount
+      FROM transactions t
+      WHERE NOT EXISTS (
+        SELECT 1 FROM transaction_splits s WHERE s.transaction_id = t.id
+      )
+      UNION ALL
+      SELECT
+        t.id as transaction_id, s.id as split_id, t.user_id, s.category_id,
+        t.account_id, s.amount, t.type, t.date, t.created_at, t.currency,
+        to_base_currency(t.user_id, s.amount, t.currency, t.date) as base_amount
+      FROM transaction_splits s
+      JOIN transactions t ON t.id = s.transaction_id;
+  `,
+
   // Indexes for better performance
   indexes: `
     CREATE INDEX IF NOT EXISTS idx_transactions_user_id ON transactions(user_id);
     CREATE INDEX IF NOT EXISTS idx_transactions_category_id ON transactions(category_id);
     CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions(date);
     CREATE INDEX IF NOT EXISTS idx_transactions_type ON transactions(type);
+    CREATE INDEX IF NOT EXISTS idx_transactions_account_id ON transactions(account_id, date);
+    CREATE INDEX IF NOT EXISTS idx_transactions_search ON transactions USING GIN (to_tsvector('simple', description || ' ' || COALESCE(notes, '')));
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_user_external_id ON transactions(user_id, external_id) WHERE external_id IS NOT NULL;
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_transfer_leg ON transactions(transfer_id, transfer_direction) WHERE transfer_id IS NOT NULL;
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_recurring_occurrence ON transactions(recurring_id, occurrence_date) WHERE recurring_id IS NOT NULL;
+    CREATE INDEX IF NOT EXISTS idx_transaction_splits_transaction_id ON transaction_splits(transaction_id);
+    CREATE INDEX IF NOT EXISTS idx_transaction_splits_category_id ON transaction_splits(category_id);
+    CREATE INDEX IF NOT EXISTS idx_transaction_tags_tag_id ON transaction_tags(tag_id);
+    CREATE INDEX IF NOT EXISTS idx_categorization_rules_user_id ON categorization_rules(user_id, priority);
+    CREATE INDEX IF NOT EXISTS idx_exchange_rates_lookup ON exchange_rates(user_id, from_currency, to_currency, date);
+    CREATE INDEX IF NOT EXISTS idx_recurring_transactions_user_id ON recurring_transactions(user_id);
     CREATE INDEX IF NOT EXISTS idx_categories_user_id ON categories(user_id);
+    CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON categories(parent_id);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_categories_sibling_name ON categories(user_id, COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'), name);
+    CREATE INDEX IF NOT EXISTS idx_accounts_user_id ON accounts(user_id);
     CREATE INDEX IF NOT EXISTS idx_budgets_user_id ON budgets(user_id);
     CREATE INDEX IF NOT EXISTS idx_budgets_category_id ON budgets(category_id);
+    CREATE INDEX IF NOT EXISTS idx_period_budgets_user_id ON period_budgets(user_id);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_budget_alert_events_once ON budget_alert_events(user_id, category_id, COALESCE(period_budget_id, category_id), period_start, threshold);
+    CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at DESC);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_dedupe ON notifications(user_id, dedupe_key) WHERE dedupe_key IS NOT NULL;
+    CREATE INDEX IF NOT EXISTS idx_notifications_email_pending ON notifications(created_at) WHERE email_status = 'pending';
+    CREATE INDEX IF NOT EXISTS idx_bills_user_id ON bills(user_id);
+    CREATE INDEX IF NOT EXISTS idx_bill_payments_user_due ON bill_payments(user_id, due_date);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_bill_payments_transaction ON bill_payments(transaction_id) WHERE transaction_id IS NOT NULL;
+    CREATE INDEX IF NOT EXISTS idx_jobs_status_run_at ON jobs(status, run_at);
+    CREATE INDEX IF NOT EXISTS idx_job_runs_name_started ON job_runs(name, started_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_envelope_assignments_user_month ON envelope_assignments(user_id, year, month);
     CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+    CREATE INDEX IF NOT EXISTS idx_users_budget_alerts_requested ON users(budget_alerts_requested_at) WHERE budget_alerts_requested_at IS NOT NULL;
     CREATE INDEX IF NOT EXISTS idx_user_tokens_user_id ON user_tokens(user_id);
     CREATE INDEX IF NOT EXISTS idx_user_tokens_token ON user_tokens(token);
     CREATE INDEX IF NOT EXISTS idx_user_tokens_type ON user_tokens(token_type);
     CREATE INDEX IF NOT EXISTS idx_user_tokens_expires_at ON user_tokens(expires_at);
   `,
 
-  // Triggers for updated_at
+  // Triggers for updated_at. Each is dropped first so the block can run
+  // again on an already migrated database.
   triggers: `
     CREATE OR REPLACE FUNCTION update_updated_at_column()
     RETURNS TRIGGER AS $$
@@ -101,17 +551,68 @@ const schema = {
     END;
     $$ language 'plpgsql';
 
+    DROP TRIGGER IF EXISTS update_users_updated_at ON users;
     CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users 
         FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
     
+    DROP TRIGGER IF EXISTS update_categories_updated_at ON categories;
     CREATE TRIGGER update_categories_updated_at BEFORE UPDATE ON categories 
         FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
     
+    DROP TRIGGER IF EXISTS update_accounts_updated_at ON accounts;
+    CREATE TRIGGER update_accounts_updated_at BEFORE UPDATE ON accounts 
+        FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+    
+    DROP TRIGGER IF EXISTS update_transactions_updated_at ON transactions;
     CREATE TRIGGER update_transactions_updated_at BEFORE UPDATE ON transactions 
         FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
     
+    DROP TRIGGER IF EXISTS update_budgets_updated_at ON budgets;
     CREATE TRIGGER update_budgets_updated_at BEFORE UPDATE ON budgets 
         FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+    DROP TRIGGER IF EXISTS update_budget_templates_updated_at ON budget_templates;
+    CREATE TRIGGER update_budget_templates_updated_at BEFORE UPDATE ON budget_templates 
+        FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+    DROP TRIGGER IF EXISTS update_period_budgets_updated_at ON period_budgets;
+    CREATE TRIGGER update_period_budgets_updated_at BEFORE UPDATE ON period_budgets 
+        FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+    DROP TRIGGER IF EXISTS update_recurring_transactions_updated_at ON recurring_transactions;
+    CREATE TRIGGER update_recurring_transactions_updated_at BEFORE UPDATE ON recurring_transactions 
+        FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+    DROP TRIGGER IF EXISTS update_categorization_rules_updated_at ON categorization_rules;
+    CREATE TRIGGER update_categorization_rules_updated_at BEFORE UPDATE ON categorization_rules 
+        FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+    DROP TRIGGER IF EXISTS update_bills_updated_at ON bills;
+    CREATE TRIGGER update_bills_updated_at BEFORE UPDATE ON bills 
+        FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+    DROP TRIGGER IF EXISTS update_jobs_updated_at ON jobs;
+    CREATE TRIGGER update_jobs_updated_at BEFORE UPDATE ON jobs 
+        FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+    -- Transactions default to their account's currency, else the user's base currency
+    CREATE OR REPLACE FUNCTION set_transaction_currency()
+    RETURNS TRIGGER AS $$
+    BEGIN
+        IF NEW.currency IS NULL THEN
+            NEW.currency := COALESCE(
+                (SELECT currency FROM accounts WHERE id = NEW.account_id),
+                (SELECT base_currency FROM users WHERE id = NEW.user_id),
+                'USD'
+            );
+        END IF;
+        RETURN NEW;
+    END;
+    $$ language 'plpgsql';
+
+    DROP TRIGGER IF EXISTS set_transactions_currency ON transactions;
+    CREATE TRIGGER set_transactions_currency BEFORE INSERT ON transactions 
+        FOR EACH ROW EXECUTE FUNCTION set_transaction_currency();
   `,
 };
 
@@ -129,12 +630,79 @@ export async function runMigrations(): Promise<void> {
     await sql`${schema.categories}`;
     console.log("✅ Categories table created");
 
+    await sql`${schema.accounts}`;
+    console.log("✅ Accounts table created");
+
     await sql`${schema.transactions}`;
     console.log("✅ Transactions table created");
 
     await sql`${schema.budgets}`;
     console.log("✅ Budgets table created");
 
+    await sql`${schema.period_budgets}`;
+    console.log("✅ Period budgets table created");
+
+    await sql`${schema.envelope_assignments}`;
+    console.log("✅ Envelope assignments table created");
+
+    await sql`${schema.budget_alert_events}`;
+    console.log("✅ Budget alert events table created");
+
+    await sql`${schema.notifications}`;
+    console.log("✅ Notifications table created");
+
+    await sql`${schema.notification_preferences}`;
+    console.log("✅ Notification preferences table created");
+
+    await sql`${schema.budget_templates}`;
+    console.log("✅ Budget templates table created");
+
+    await sql`${schema.budget_template_items}`;
+    console.log("✅ Budget template items table created");
+
+    await sql`${schema.recurring_transactions}`;
+    console.log("✅ Recurring transactions table created");
+
+    await sql`${schema.recurring_exceptions}`;
+    console.log("✅ Recurring exceptions table created");
+
+    await sql`${schema.transaction_splits}`;
+    console.log("✅ Transaction splits table created");
+
+    await sql`${schema.tags}`;
+    console.log("✅ Tags table created");
+
+    await sql`${schema.transaction_tags}`;
+    console.log("✅ Transaction tags table created");
+
+    await sql`${schema.categorization_rules}`;
+    console.log("✅ Categorization rules table created");
+
+    await sql`${schema.exchange_rates}`;
+    console.log("✅ Exchange rates table created");
+
+    await sql`${schema.bills}`;
+    console.log("✅ Bills table created");
+
+    await sql`${schema.bill_payments}`;
+    console.log("✅ Bill payments table created");
+
+    await sql`${schema.jobs}`;
+    console.log("✅ Jobs table created");
+
+    await sql`${schema.job_runs}`;
+    console.log("✅ Job runs table created");
+
+    // Add columns introduced after the initial schema
+    await sql`${schema.alterations}`;
+    console.log("✅ Table alterations applied");
+
+    await sql`${schema.functions}`;
+    console.log("✅ Functions created");
+
+    await sql`${schema.views}`;
+    console.log("✅ Views created");
+
     // Create indexes
     await sql`${schema.indexes}`;
     console.log("✅ Indexes created");
@@ -154,12 +722,37 @@ export async function runMigrations(): Promise<void> {
 export async function dropTables(): Promise<void> {
   try {
     console.log("🗑️  Dropping all tables...");
+    await sql`DROP VIEW IF EXISTS transaction_lines`;
+    await sql`DROP TABLE IF EXISTS job_runs CASCADE`;
+    await sql`DROP TABLE IF EXISTS jobs CASCADE`;
+    await sql`DROP TABLE IF EXISTS bill_payments CASCADE`;
+    await sql`DROP TABLE IF EXISTS bills CASCADE`;
+    await sql`DROP TABLE IF EXISTS envelope_assignments CASCADE`;
+    await sql`DROP TABLE IF EXISTS notification_preferences CASCADE`;
+    await sql`DROP TABLE IF EXISTS notifications CASCADE`;
+    await sql`DROP TABLE IF EXISTS budget_alert_events CASCADE`;
+    await sql`DROP TABLE IF EXISTS period_budgets CASCADE`;
+    await sql`DROP TABLE IF EXISTS budget_template_items CASCADE`;
+    await sql`DROP TABLE IF EXISTS budget_templates CASCADE`;
     await sql`DROP TABLE IF EXISTS budgets CASCADE`;
+    await sql`DROP TABLE IF EXISTS transaction_splits CASCADE`;
+    await sql`DROP TABLE IF EXISTS exchange_rates CASCADE`;
+    await sql`DROP TABLE IF EXISTS transaction_tags CASCADE`;
+    await sql`DROP TABLE IF EXISTS categorization_rules CASCADE`;
+    await sql`DROP TABLE IF EXISTS tags CASCADE`;
     await sql`DROP TABLE IF EXISTS transactions CASCADE`;
+    await sql`DROP TABLE IF EXISTS recurring_exceptions CASCADE`;
+    await sql`DROP TABLE IF EXISTS recurring_transactions CASCADE`;
+    await sql`DROP TABLE IF EXISTS accounts CASCADE`;
     await sql`DROP TABLE IF EXISTS user_tokens CASCADE`;
     await sql`DROP TABLE IF EXISTS categories CASCADE`;
     await sql`DROP TABLE IF EXISTS users CASCADE`;
     await sql`DROP FUNCTION IF EXISTS update_updated_at_column() CASCADE`;
+    await sql`DROP FUNCTION IF EXISTS set_transaction_currency() CASCADE`;
+    await sql`DROP FUNCTION IF EXISTS effective_budgets(UUID, INTEGER, INTEGER)`;
+    await sql`DROP FUNCTION IF EXISTS category_closure(UUID)`;
+    await sql`DROP FUNCTION IF EXISTS to_base_currency(UUID, NUMERIC, VARCHAR, DATE)`;
+    await sql`DROP FUNCTION IF EXISTS fx_rate(UUID, VARCHAR, VARCHAR, DATE)`;
 
     console.log("✅ All tables dropped");
   } catch (error) {
@@ -6,6 +6,16 @@ import { prettyJSON } from "hono/pretty-json";
 // Import database connection
 import { sql } from "./db/connection";
 
+// Import services
+import { JobService } from "./services/jobService";
+import { RecurringService } from "./services/recurringService";
+import { NotificationEventService } from "./services/notificationEventService";
+import { DigestService } from "./services/digestService";
+import { NotificationService } from "./services/notificationService";
+import { BudgetAlertService } from "./services/budgetAlertService";
+import { TokenService } from "./services/tokenService";
+import { TokenBlacklist } from "./services/tokenBlacklist";
+
 // Import security middleware
 import { globalRateLimit } from "./middleware/rateLimit";
 import { createSecureErrorHandler } from "./middleware/errorHandler";
@@ -16,6 +26,17 @@ import userRoutes from "./routes/users";
 import transactionRoutes from "src/routes/transactions";
 import categoryRoutes from "src/routes/categories";
 import budgetRoutes from "src/routes/budgets";
+import budgetTemplateRoutes from "./routes/budgetTemplates";
+import periodBudgetRoutes from "./routes/periodBudgets";
+import notificationRoutes from "./routes/notifications";
+import digestRoutes from "./routes/digests";
+import recurringRoutes from "./routes/recurring";
+import billRoutes from "./routes/bills";
+import accountRoutes from "./routes/accounts";
+import exchangeRateRoutes from "./routes/exchangeRates";
+import ruleRoutes from "./routes/rules";
+import tagRoutes from "./routes/tags";
+import jobRoutes from "./routes/jobs";
 import { env } from "./config/env";
 
 const app = new Hono();
@@ -38,7 +59,7 @@ app.use(
       "Cache-Control",
     ],
     allowMethods: ["GET", "POST", "PUT", "DELETE", "PATCH", "OPTIONS"],
-    exposeHeaders: ["Set-Cookie"],
+    exposeHeaders: ["Set-Cookie", "Content-Disposition"],
     maxAge: 86400, // 24 hours for preflight cache
   })
 );
@@ -102,6 +123,17 @@ app.route("/api/users", userRoutes);
 app.route("/api/transactions", transactionRoutes);
 app.route("/api/categories", categoryRoutes);
 app.route("/api/budgets", budgetRoutes);
+app.route("/api/budget-templates", budgetTemplateRoutes);
+app.route("/api/period-budgets", periodBudgetRoutes);
+app.route("/api/notifications", notificationRoutes);
+app.route("/api/digests", digestRoutes);
+app.route("/api/recurring", recurringRoutes);
+app.route("/api/bills", billRoutes);
+app.route("/api/accounts", accountRoutes);
+app.route("/api/exchange-rates", exchangeRateRoutes);
+app.route("/api/rules", ruleRoutes);
+app.route("/api/tags", tagRoutes);
+app.route("/api/jobs", jobRoutes);
 
 // Error handler
 app.onError(createSecureErrorHandler());
@@ -120,6 +152,34 @@ app.notFound((c) => {
   );
 });
 
+// Background jobs (cron schedules are in UTC)
+JobService.schedule("recurring.materialize", env.RECURRING_SCHEDULE, () =>
+  RecurringService.materializeDue()
+);
+JobService.schedule(
+  "notifications.upcoming-bills",
+  env.RECURRING_SCHEDULE,
+  () => NotificationEventService.upcomingBills()
+);
+JobService.schedule("digests.send", env.DIGEST_SCHEDULE, () =>
+  DigestService.sendDue()
+);
+JobService.schedule("notifications.retry-emails", "*/5 * * * *", () =>
+  NotificationService.retryEmails()
+);
+JobService.schedule("budget-alerts.evaluate-pending", "* * * * *", () =>
+  BudgetAlertService.evaluatePending()
+);
+JobService.schedule("tokens.cleanup-expired", "0 * * * *", () =>
+  TokenService.cleanupExpiredTokens()
+);
+JobService.schedule("tokens.cleanup-blacklist", "30 * * * *", () =>
+  TokenBlacklist.cleanupExpired()
+);
+JobService.schedule("jobs.prune-history", "15 3 * * *", () =>
+  JobService.pruneHistory()
+);
+
 const port = env.PORT;
 
 const server = {
@@ -151,6 +211,13 @@ async function testDatabaseConnection() {
   }
 }
 
-testDatabaseConnection();
+testDatabaseConnection().then((connected) => {
+  // Runs missed while the server was down (recurring transactions that fell
+  // due, say) are made up on the first poll
+  if (connected) {
+    JobService.start();
+    console.log("⏱️  Job scheduler started");
+  }
+});
 
 export default server;
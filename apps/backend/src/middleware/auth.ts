@@ -2,6 +2,7 @@ import { Context, Next } from "hono";
 import { getCookie } from "hono/cookie";
 import { AuthService } from "../services/authService";
 import { TokenBlacklist } from "../services/tokenBlacklist";
+import { env } from "../config/env";
 
 export interface AuthContext {
   user: {
@@ -165,3 +166,33 @@ export async function requireVerifiedUser(
 
   await next();
 }
+
+// Middleware to check if user is an admin (listed in ADMIN_EMAILS)
+export async function requireAdmin(
+  c: Context,
+  next: Next
+): Promise<Response | void> {
+  const user = getAuthUser(c);
+
+  if (!user) {
+    return c.json(
+      {
+        success: false,
+        error: "Authentication required",
+      },
+      401
+    );
+  }
+
+  if (!env.ADMIN_EMAILS.includes(user.email.toLowerCase())) {
+    return c.json(
+      {
+        success: false,
+        error: "Admin access required",
+      },
+      403
+    );
+  }
+
+  await next();
+}
@@ -0,0 +1,293 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { AccountService } from "../services/accountService";
+import { authMiddleware } from "../middleware/auth";
+import { env } from "../config/env";
+
+const accounts = new Hono();
+
+// Helper function to get user ID from context
+const getUserId = (c: any): string => {
+  const user = c.get("user");
+  return user?.id;
+};
+
+// Date validation helper - accepts YYYY-MM-DD format
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+// Validation schemas
+const accountTypeSchema = z.enum([
+  "checking",
+  "savings",
+  "credit_card",
+  "cash",
+]);
+
+const currencySchema = z
+  .string()
+  .regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO code, e.g. USD");
+
+const createAccountSchema = z.object({
+  name: z.string().min(1, "Account name is required").max(100),
+  type: accountTypeSchema,
+  opening_balance: z.number().optional(),
+  currency: currencySchema.optional(),
+});
+
+const updateAccountSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  type: accountTypeSchema.optional(),
+  opening_balance: z.number().optional(),
+  currency: currencySchema.optional(),
+});
+
+const ledgerQuerySchema = z.object({
+  start_date: dateSchema.optional(),
+  end_date: dateSchema.optional(),
+  limit: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive().max(env.MAX_PAGE_SIZE))
+    .optional(),
+  offset: z.string().transform(Number).pipe(z.number().int().min(0)).optional(),
+});
+
+// Apply auth middleware to all routes
+accounts.use("*", authMiddleware);
+
+// Get all accounts for user with current balances
+accounts.get("/", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const userAccounts = await AccountService.findByUserId(userId);
+
+    return c.json({
+      success: true,
+      data: userAccounts,
+    });
+  } catch (error) {
+    console.error("Error fetching accounts:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch accounts",
+      },
+      500
+    );
+  }
+});
+
+// Get account by ID
+accounts.get("/:id", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { id } = c.req.param();
+
+    const account = await AccountService.findById(id, userId);
+
+    if (!account) {
+      return c.json(
+        {
+          success: false,
+          error: "Account not found",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: account,
+    });
+  } catch (error) {
+    console.error("Error fetching account:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch account",
+      },
+      500
+    );
+  }
+});
+
+// Get account ledger with running balances (newest first)
+accounts.get(
+  "/:id/ledger",
+  zValidator("query", ledgerQuerySchema),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const { id } = c.req.param();
+      const query = c.req.valid("query");
+
+      const ledger = await AccountService.getLedger(id, userId, {
+        startDate: query.start_date,
+        endDate: query.end_date,
+        limit: query.limit,
+        offset: query.offset,
+      });
+
+      if (!ledger) {
+        return c.json(
+          {
+            success: false,
+            error: "Account not found",
+          },
+          404
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: ledger,
+      });
+    } catch (error) {
+      console.error("Error fetching account ledger:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch account ledger",
+        },
+        500
+      );
+    }
+  }
+);
+
+// Create new account
+accounts.post("/", zValidator("json", createAccountSchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const data = c.req.valid("json");
+
+    if (await AccountService.existsByName(data.name, userId)) {
+      return c.json(
+        {
+          success: false,
+          error: "An account with this name already exists",
+        },
+        400
+      );
+    }
+
+    const account = await AccountService.create({
+      user_id: userId,
+      name: data.name,
+      type: data.type,
+      opening_balance: data.opening_balance,
+      currency: data.currency,
+    });
+
+    return c.json(
+      {
+        success: true,
+        data: account,
+        message: "Account created successfully",
+      },
+      201
+    );
+  } catch (error) {
+    console.error("Error creating account:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to create account",
+      },
+      500
+    );
+  }
+});
+
+// Update account
+accounts.put("/:id", zValidator("json", updateAccountSchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { id } = c.req.param();
+    const data = c.req.valid("json");
+
+    if (
+      data.name !== undefined &&
+      (await AccountService.existsByName(data.name, userId, id))
+    ) {
+      return c.json(
+        {
+          success: false,
+          error: "An account with this name already exists",
+        },
+        400
+      );
+    }
+
+    const account = await AccountService.update(id, userId, {
+      name: data.name,
+      type: data.type,
+      opening_balance: data.opening_balance,
+      currency: data.currency,
+    });
+
+    if (!account) {
+      return c.json(
+        {
+          success: false,
+          error: "Account not found or no changes made",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: account,
+      message: "Account updated successfully",
+    });
+  } catch (error) {
+    console.error("Error updating account:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to update account",
+      },
+      500
+    );
+  }
+});
+
+// Delete account (its transactions are kept, unassigned)
+accounts.delete("/:id", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { id } = c.req.param();
+
+    const deleted = await AccountService.delete(id, userId);
+
+    if (!deleted) {
+      return c.json(
+        {
+          success: false,
+          error: "Account not found",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      message: "Account deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting account:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to delete account",
+      },
+      500
+    );
+  }
+});
+
+export default accounts;
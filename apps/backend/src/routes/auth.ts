@@ -2,6 +2,7 @@ import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 import { AuthService } from "../services/authService";
+import { NotificationEventService } from "../services/notificationEventService";
 import { authRateLimit, strictRateLimit } from "../middleware/rateLimit";
 import { getCookie, setCookie, deleteCookie } from "hono/cookie";
 import { cookieConfig } from "../config/cookies";
@@ -87,6 +88,13 @@ auth.post("/login", zValidator("json", loginSchema), async (c) => {
     const { email, password } = c.req.valid("json");
     const authResponse = await AuthService.login({ email, password });
 
+    const forwarded = c.req.header("x-forwarded-for");
+    NotificationEventService.newLogin(
+      authResponse.user.id,
+      forwarded?.split(",")[0].trim() || c.req.header("x-real-ip") || "unknown",
+      c.req.header("user-agent") || "unknown"
+    ).catch(console.error);
+
     // Set HTTP-only cookies for both tokens
     setCookie(
       c,
@@ -0,0 +1,382 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { BillService } from "../services/billService";
+import { authMiddleware } from "../middleware/auth";
+
+const bills = new Hono();
+
+// Helper function to get user ID from context
+const getUserId = (c: any): string => {
+  const user = c.get("user");
+  return user?.id;
+};
+
+// Date validation helper - accepts YYYY-MM-DD format
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+// Validation schemas
+const frequencySchema = z.enum(["weekly", "monthly", "quarterly", "yearly"]);
+
+// Weekly bills are due on a weekday; the rest on a day of the month, and
+// quarterly and yearly ones also need a month
+const isValidDueRule = (data: {
+  frequency?: string;
+  due_day?: number;
+  due_month?: number | null;
+}) => {
+  if (data.frequency === undefined) {
+    return data.due_day === undefined && data.due_month === undefined;
+  }
+  if (data.due_day === undefined) {
+    return false;
+  }
+  if (data.frequency === "weekly") {
+    return data.due_day <= 6;
+  }
+  if (data.due_day < 1) {
+    return false;
+  }
+  return data.frequency === "monthly" || !!data.due_month;
+};
+
+const dueRuleMessage = {
+  message:
+    "Give a frequency with a due day: a weekday (0-6) for weekly bills, a day of the month (1-31) otherwise, plus a month for quarterly and yearly bills",
+  path: ["due_day"],
+};
+
+const createBillSchema = z
+  .object({
+    payee: z.string().min(1, "Payee is required").max(255),
+    amount: z.number().positive("Amount must be positive"),
+    amount_type: z.enum(["fixed", "estimated"]).optional(),
+    frequency: frequencySchema,
+    due_day: z.number().int().min(0).max(31),
+    due_month: z.number().int().min(1).max(12).optional(),
+    autopay: z.boolean().optional(),
+    match_text: z.string().max(255).optional(),
+    start_date: dateSchema.optional(),
+  })
+  .refine(isValidDueRule, dueRuleMessage);
+
+const updateBillSchema = z
+  .object({
+    payee: z.string().min(1).max(255).optional(),
+    amount: z.number().positive().optional(),
+    amount_type: z.enum(["fixed", "estimated"]).optional(),
+    frequency: frequencySchema.optional(),
+    due_day: z.number().int().min(0).max(31).optional(),
+    due_month: z.number().int().min(1).max(12).nullable().optional(),
+    autopay: z.boolean().optional(),
+    match_text: z.string().max(255).nullable().optional(),
+    start_date: dateSchema.optional(),
+    is_active: z.boolean().optional(),
+  })
+  .refine(isValidDueRule, dueRuleMessage);
+
+// Every bill's occurrences are generated for the whole range, so keep it to
+// about a year
+const MAX_CALENDAR_DAYS = 366;
+
+const daysBetween = (start: string, end: string) =>
+  (Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) /
+  (24 * 60 * 60 * 1000);
+
+const calendarQuerySchema = z
+  .object({
+    start: dateSchema,
+    end: dateSchema,
+  })
+  .refine((data) => data.start <= data.end, {
+    message: "Start date must be on or before the end date",
+    path: ["end"],
+  })
+  .refine((data) => daysBetween(data.start, data.end) < MAX_CALENDAR_DAYS, {
+    message: `The calendar can cover at most ${MAX_CALENDAR_DAYS} days`,
+    path: ["end"],
+  });
+
+const upcomingQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(14),
+});
+
+const markPaidSchema = z.object({
+  amount: z.number().positive().optional(),
+});
+
+// Apply auth middleware to all routes
+bills.use("*", authMiddleware);
+
+// Get all bills for user
+bills.get("/", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const result = await BillService.findByUserId(userId);
+
+    return c.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error fetching bills:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch bills",
+      },
+      500
+    );
+  }
+});
+
+// Get every due date between two dates, for the calendar
+bills.get("/calendar", zValidator("query", calendarQuerySchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { start, end } = c.req.valid("query");
+
+    const occurrences = await BillService.getOccurrences(userId, start, end);
+
+    return c.json({
+      success: true,
+      data: occurrences,
+    });
+  } catch (error) {
+    console.error("Error fetching bill calendar:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch bill calendar",
+      },
+      500
+    );
+  }
+});
+
+// Get unpaid bills due soon, including recently overdue ones
+bills.get("/upcoming", zValidator("query", upcomingQuerySchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { days } = c.req.valid("query");
+
+    const occurrences = await BillService.getUpcoming(userId, days);
+
+    return c.json({
+      success: true,
+      data: occurrences,
+    });
+  } catch (error) {
+    console.error("Error fetching upcoming bills:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch upcoming bills",
+      },
+      500
+    );
+  }
+});
+
+// Get bill by ID
+bills.get("/:id", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const id = c.req.param("id");
+
+    const bill = await BillService.findById(id, userId);
+    if (!bill) {
+      return c.json(
+        {
+          success: false,
+          error: "Bill not found",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: bill,
+    });
+  } catch (error) {
+    console.error("Error fetching bill:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch bill",
+      },
+      500
+    );
+  }
+});
+
+// Create new bill
+bills.post("/", zValidator("json", createBillSchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const data = c.req.valid("json");
+
+    const bill = await BillService.create(userId, data);
+
+    return c.json(
+      {
+        success: true,
+        data: bill,
+        message: "Bill created successfully",
+      },
+      201
+    );
+  } catch (error) {
+    console.error("Error creating bill:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to create bill",
+      },
+      500
+    );
+  }
+});
+
+// Update bill
+bills.put("/:id", zValidator("json", updateBillSchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const id = c.req.param("id");
+    const data = c.req.valid("json");
+
+    const bill = await BillService.update(id, userId, data);
+    if (!bill) {
+      return c.json(
+        {
+          success: false,
+          error: "Bill not found",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: bill,
+      message: "Bill updated successfully",
+    });
+  } catch (error) {
+    console.error("Error updating bill:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to update bill",
+      },
+      500
+    );
+  }
+});
+
+// Delete bill
+bills.delete("/:id", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const id = c.req.param("id");
+
+    const deleted = await BillService.delete(id, userId);
+    if (!deleted) {
+      return c.json(
+        {
+          success: false,
+          error: "Bill not found",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      message: "Bill deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting bill:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to delete bill",
+      },
+      500
+    );
+  }
+});
+
+// Mark a due date as paid by hand
+bills.post(
+  "/:id/payments/:date",
+  zValidator("json", markPaidSchema),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const id = c.req.param("id");
+      const date = dateSchema.parse(c.req.param("date"));
+      const { amount } = c.req.valid("json");
+
+      const payment = await BillService.markPaid(id, userId, date, amount);
+
+      return c.json(
+        {
+          success: true,
+          data: payment,
+          message: "Bill marked as paid",
+        },
+        201
+      );
+    } catch (error) {
+      console.error("Error marking bill as paid:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to mark bill as paid";
+      return c.json(
+        {
+          success: false,
+          error: message,
+        },
+        400
+      );
+    }
+  }
+);
+
+// Clear the payment for a due date
+bills.delete("/:id/payments/:date", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const id = c.req.param("id");
+    const date = dateSchema.parse(c.req.param("date"));
+
+    const cleared = await BillService.markUnpaid(id, userId, date);
+    if (!cleared) {
+      return c.json(
+        {
+          success: false,
+          error: "No payment recorded for that date",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      message: "Bill marked as unpaid",
+    });
+  } catch (error) {
+    console.error("Error marking bill as unpaid:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to mark bill as unpaid",
+      },
+      500
+    );
+  }
+});
+
+export default bills;
@@ -0,0 +1,265 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { BudgetTemplateService } from "../services/budgetTemplateService";
+import { authMiddleware } from "../middleware/auth";
+
+const budgetTemplates = new Hono();
+
+// Helper function to get user ID from context
+const getUserId = (c: any): string => {
+  const user = c.get("user");
+  return user?.id;
+};
+
+// Validation schemas
+const templateItemsSchema = z
+  .array(
+    z.object({
+      category_id: z.string().uuid("Invalid category ID"),
+      limit_amount: z.number().positive("Budget amount must be positive"),
+      rollover_mode: z
+        .enum(["none", "surplus", "deficit", "both"])
+        .default("none"),
+    })
+  )
+  .refine(
+    (items) =>
+      new Set(items.map((item) => item.category_id)).size === items.length,
+    { message: "Each category can appear only once" }
+  );
+
+const createTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required").max(100),
+  items: templateItemsSchema,
+});
+
+const updateTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  items: templateItemsSchema.optional(),
+});
+
+// Apply auth middleware to all routes
+budgetTemplates.use("*", authMiddleware);
+
+// Get all budget templates for user
+budgetTemplates.get("/", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const result = await BudgetTemplateService.findByUserId(userId);
+
+    return c.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error fetching budget templates:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch budget templates",
+      },
+      500
+    );
+  }
+});
+
+// Get budget template by ID
+budgetTemplates.get("/:id", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { id } = c.req.param();
+
+    const template = await BudgetTemplateService.findById(id, userId);
+
+    if (!template) {
+      return c.json(
+        {
+          success: false,
+          error: "Budget template not found",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: template,
+    });
+  } catch (error) {
+    console.error("Error fetching budget template:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch budget template",
+      },
+      500
+    );
+  }
+});
+
+// Create new budget template
+budgetTemplates.post(
+  "/",
+  zValidator("json", createTemplateSchema),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const data = c.req.valid("json");
+
+      if (await BudgetTemplateService.existsByName(data.name, userId)) {
+        return c.json(
+          {
+            success: false,
+            error: "A template with this name already exists",
+          },
+          400
+        );
+      }
+
+      if (
+        !(await BudgetTemplateService.categoriesBelongToUser(
+          userId,
+          data.items
+        ))
+      ) {
+        return c.json(
+          {
+            success: false,
+            error: "Category not found",
+          },
+          400
+        );
+      }
+
+      const template = await BudgetTemplateService.create({
+        user_id: userId,
+        name: data.name,
+        items: data.items,
+      });
+
+      return c.json(
+        {
+          success: true,
+          data: template,
+          message: "Budget template created successfully",
+        },
+        201
+      );
+    } catch (error) {
+      console.error("Error creating budget template:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to create budget template",
+        },
+        500
+      );
+    }
+  }
+);
+
+// Update budget template
+budgetTemplates.put(
+  "/:id",
+  zValidator("json", updateTemplateSchema),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const { id } = c.req.param();
+      const data = c.req.valid("json");
+
+      if (
+        data.name !== undefined &&
+        (await BudgetTemplateService.existsByName(data.name, userId, id))
+      ) {
+        return c.json(
+          {
+            success: false,
+            error: "A template with this name already exists",
+          },
+          400
+        );
+      }
+
+      if (
+        data.items !== undefined &&
+        !(await BudgetTemplateService.categoriesBelongToUser(
+          userId,
+          data.items
+        ))
+      ) {
+        return c.json(
+          {
+            success: false,
+            error: "Category not found",
+          },
+          400
+        );
+      }
+
+      const template = await BudgetTemplateService.update(id, userId, data);
+
+      if (!template) {
+        return c.json(
+          {
+            success: false,
+            error: "Budget template not found",
+          },
+          404
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: template,
+        message: "Budget template updated successfully",
+      });
+    } catch (error) {
+      console.error("Error updating budget template:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to update budget template",
+        },
+        500
+      );
+    }
+  }
+);
+
+// Delete budget template
+budgetTemplates.delete("/:id", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { id } = c.req.param();
+
+    const deleted = await BudgetTemplateService.delete(id, userId);
+
+    if (!deleted) {
+      return c.json(
+        {
+          success: false,
+          error: "Budget template not found",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      message: "Budget template deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting budget template:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to delete budget template",
+      },
+      500
+    );
+  }
+});
+
+export default budgetTemplates;
@@ -1,7 +1,9 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
-import { BudgetService } from "../services/budgetService";
+import { BudgetService, monthRange } from "../services/budgetService";
+import { BudgetTemplateService } from "../services/budgetTemplateService";
+import { CategoryService } from "../services/categoryService";
 import { authMiddleware } from "../middleware/auth";
 
 const budgets = new Hono();
@@ -12,16 +14,27 @@ const getUserId = (c: any): string => {
   return user?.id;
 };
 
+// Whether the user has envelope budgeting turned on
+const usesEnvelopes = (c: any): boolean =>
+  Boolean(c.get("user")?.envelope_budgeting);
+
 // Request validation schemas
+const rolloverModeSchema = z.enum(["none", "surplus", "deficit", "both"]);
+
 const createBudgetSchema = z.object({
   category_id: z.string().uuid("Invalid category ID"),
   month: z.number().int().min(1).max(12),
   year: z.number().int().min(2000).max(2100),
   limit_amount: z.number().positive("Budget amount must be positive"),
+  rollover_mode: rolloverModeSchema.optional(),
 });
 
 const updateBudgetSchema = z.object({
-  limit_amount: z.number().positive("Budget amount must be positive"),
+  limit_amount: z
+    .number()
+    .positive("Budget amount must be positive")
+    .optional(),
+  rollover_mode: rolloverModeSchema.optional(),
 });
 
 const budgetQuerySchema = z.object({
@@ -37,6 +50,69 @@ const budgetQuerySchema = z.object({
     .optional(),
 });
 
+const monthSchema = z.object({
+  month: z.number().int().min(1).max(12),
+  year: z.number().int().min(2000).max(2100),
+});
+
+// Longest range one bulk request may fill
+const MAX_BULK_MONTHS = 24;
+
+// Copy a month's budgets, or a template's limits, into a range of months
+const bulkApplySchema = z
+  .object({
+    source: z.union([
+      z.object({ template_id: z.string().uuid("Invalid template ID") }),
+      monthSchema,
+    ]),
+    start: monthSchema,
+    end: monthSchema,
+    conflict: z.enum(["skip", "overwrite", "add"]).default("skip"),
+  })
+  .refine(
+    ({ start, end }) =>
+      start.year * 12 + start.month <= end.year * 12 + end.month,
+    { message: "The range must not end before it starts", path: ["end"] }
+  )
+  .refine(
+    ({ start, end }) =>
+      end.year * 12 + end.month - (start.year * 12 + start.month) <
+      MAX_BULK_MONTHS,
+    {
+      message: `A range can cover at most ${MAX_BULK_MONTHS} months`,
+      path: ["end"],
+    }
+  );
+
+const yearQuerySchema = z.object({
+  year: z.string().transform(Number).pipe(z.number().int().min(2000).max(2100)),
+});
+
+const envelopeQuerySchema = z.object({
+  month: z.string().transform(Number).pipe(z.number().int().min(1).max(12)),
+  year: z.string().transform(Number).pipe(z.number().int().min(2000).max(2100)),
+});
+
+const assignSchema = monthSchema.extend({
+  category_id: z.string().uuid("Invalid category ID"),
+  amount: z
+    .number()
+    .refine((amount) => amount !== 0, "Amount must not be zero"),
+  note: z.string().max(255).optional(),
+});
+
+const moveSchema = monthSchema
+  .extend({
+    from_category_id: z.string().uuid("Invalid category ID"),
+    to_category_id: z.string().uuid("Invalid category ID"),
+    amount: z.number().positive("Amount must be positive"),
+    note: z.string().max(255).optional(),
+  })
+  .refine((move) => move.from_category_id !== move.to_category_id, {
+    message: "Pick two different envelopes",
+    path: ["to_category_id"],
+  });
+
 // Apply auth middleware to all routes
 budgets.use("*", authMiddleware);
 
@@ -142,6 +218,248 @@ budgets.get("/alerts", zValidator("query", budgetQuerySchema), async (c) => {
   }
 });
 
+// Get every budget in a year, for the yearly grid
+budgets.get("/yearly", zValidator("query", yearQuerySchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { year } = c.req.valid("query");
+
+    const budgetList = await BudgetService.getByYear(userId, year);
+
+    return c.json({
+      success: true,
+      data: budgetList,
+    });
+  } catch (error) {
+    console.error("Error fetching yearly budgets:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch yearly budgets",
+      },
+      500
+    );
+  }
+});
+
+// Copy last month's budgets or apply a template to a range of months
+budgets.post("/bulk", zValidator("json", bulkApplySchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { source, start, end, conflict } = c.req.valid("json");
+
+    let limits;
+    if ("template_id" in source) {
+      const template = await BudgetTemplateService.findById(
+        source.template_id,
+        userId
+      );
+      if (!template) {
+        return c.json(
+          {
+            success: false,
+            error: "Budget template not found",
+          },
+          404
+        );
+      }
+      limits = template.items;
+    } else {
+      limits = await BudgetService.getLimits(userId, source.month, source.year);
+    }
+
+    const result = await BudgetService.bulkApply(
+      userId,
+      limits,
+      monthRange(start, end),
+      conflict
+    );
+
+    return c.json({
+      success: true,
+      data: result,
+      message: `${result.created} budgets created, ${result.updated} updated`,
+    });
+  } catch (error) {
+    console.error("Error applying budgets:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to apply budgets",
+      },
+      500
+    );
+  }
+});
+
+// Get the envelopes and "to be assigned" pool for a month
+budgets.get(
+  "/envelopes",
+  zValidator("query", envelopeQuerySchema),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const { month, year } = c.req.valid("query");
+
+      const envelopes = await BudgetService.getEnvelopes(userId, month, year);
+
+      return c.json({
+        success: true,
+        data: envelopes,
+      });
+    } catch (error) {
+      console.error("Error fetching envelopes:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch envelopes",
+        },
+        500
+      );
+    }
+  }
+);
+
+// Get a month's assignments and moves
+budgets.get(
+  "/envelopes/history",
+  zValidator("query", envelopeQuerySchema),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const { month, year } = c.req.valid("query");
+
+      const history = await BudgetService.getAssignmentHistory(
+        userId,
+        month,
+        year
+      );
+
+      return c.json({
+        success: true,
+        data: history,
+      });
+    } catch (error) {
+      console.error("Error fetching envelope history:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch envelope history",
+        },
+        500
+      );
+    }
+  }
+);
+
+// Assign money to an envelope, or take it back with a negative amount
+budgets.post(
+  "/envelopes/assign",
+  zValidator("json", assignSchema),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const assignData = c.req.valid("json");
+
+      if (!usesEnvelopes(c)) {
+        return c.json(
+          {
+            success: false,
+            error: "Envelope budgeting is turned off",
+          },
+          400
+        );
+      }
+
+      const category = await CategoryService.findById(
+        assignData.category_id,
+        userId
+      );
+      if (!category) {
+        return c.json(
+          {
+            success: false,
+            error: "Category not found",
+          },
+          404
+        );
+      }
+
+      const assignment = await BudgetService.assign(userId, assignData);
+
+      return c.json(
+        {
+          success: true,
+          data: assignment,
+          message: "Money assigned successfully",
+        },
+        201
+      );
+    } catch (error) {
+      console.error("Error assigning to envelope:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to assign money",
+        },
+        500
+      );
+    }
+  }
+);
+
+// Move money from one envelope to another
+budgets.post("/envelopes/move", zValidator("json", moveSchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const moveData = c.req.valid("json");
+
+    if (!usesEnvelopes(c)) {
+      return c.json(
+        {
+          success: false,
+          error: "Envelope budgeting is turned off",
+        },
+        400
+      );
+    }
+
+    const [from, to] = await Promise.all([
+      CategoryService.findById(moveData.from_category_id, userId),
+      CategoryService.findById(moveData.to_category_id, userId),
+    ]);
+    if (!from || !to) {
+      return c.json(
+        {
+          success: false,
+          error: "Category not found",
+        },
+        404
+      );
+    }
+
+    const entries = await BudgetService.moveBetweenEnvelopes(userId, moveData);
+
+    return c.json(
+      {
+        success: true,
+        data: entries,
+        message: `Moved money from ${from.name} to ${to.name}`,
+      },
+      201
+    );
+  } catch (error) {
+    console.error("Error moving between envelopes:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to move money",
+      },
+      500
+    );
+  }
+});
+
 // Get specific budget by ID
 budgets.get("/:id", async (c) => {
   try {
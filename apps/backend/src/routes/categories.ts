@@ -1,7 +1,10 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
-import { CategoryService } from "../services/categoryService";
+import {
+  CategoryService,
+  CategoryTreeError,
+} from "../services/categoryService";
 import { authMiddleware } from "../middleware/auth";
 
 const categories = new Hono();
@@ -18,22 +21,37 @@ const dateSchema = z
   .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
 
 // Validation schemas
+// Percentages of a budget that send an alert, e.g. [50, 80, 100]
+const alertThresholdsSchema = z
+  .array(z.number().int().min(1).max(1000))
+  .max(5, "Use at most 5 alert thresholds")
+  .transform((thresholds) => [...new Set(thresholds)].sort((a, b) => a - b));
+
 const createCategorySchema = z.object({
+  parent_id: z.string().uuid().optional(),
   name: z.string().min(1, "Category name is required"),
   budget: z.number().min(0, "Budget must be non-negative").optional(),
   color: z
     .string()
     .regex(/^#[0-9A-F]{6}$/i, "Color must be a valid hex color")
     .optional(),
+  alert_thresholds: alertThresholdsSchema.optional(),
 });
 
 const updateCategorySchema = z.object({
+  parent_id: z.string().uuid().nullable().optional(), // null for top level
   name: z.string().min(1).optional(),
   budget: z.number().min(0).optional(),
   color: z
     .string()
     .regex(/^#[0-9A-F]{6}$/i)
     .optional(),
+  is_archived: z.boolean().optional(),
+  alert_thresholds: alertThresholdsSchema.optional(),
+});
+
+const mergeCategorySchema = z.object({
+  target_id: z.string().uuid(),
 });
 
 // Apply auth middleware to all routes
@@ -100,6 +118,28 @@ categories.get("/budget-comparison", async (c) => {
   }
 });
 
+// Get categories nested under their parents - MUST come before /:id route
+categories.get("/tree", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const tree = await CategoryService.getTree(userId);
+
+    return c.json({
+      success: true,
+      data: tree,
+    });
+  } catch (error) {
+    console.error("Error fetching category tree:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch category tree",
+      },
+      500
+    );
+  }
+});
+
 // Get all categories for user
 categories.get("/", async (c) => {
   try {
@@ -162,11 +202,42 @@ categories.post("/", zValidator("json", createCategorySchema), async (c) => {
     const userId = getUserId(c);
     const data = c.req.valid("json");
 
+    if (
+      data.parent_id &&
+      !(await CategoryService.isValidParent(userId, null, data.parent_id))
+    ) {
+      return c.json(
+        {
+          success: false,
+          error: "Parent category not found",
+        },
+        400
+      );
+    }
+
+    if (
+      await CategoryService.existsByName(
+        data.name,
+        userId,
+        data.parent_id ?? null
+      )
+    ) {
+      return c.json(
+        {
+          success: false,
+          error: "A category with this name already exists here",
+        },
+        400
+      );
+    }
+
     const category = await CategoryService.create({
       user_id: userId,
+      parent_id: data.parent_id,
       name: data.name,
       budget: data.budget,
       color: data.color,
+      alert_thresholds: data.alert_thresholds,
     });
 
     return c.json(
@@ -196,10 +267,46 @@ categories.put("/:id", zValidator("json", updateCategorySchema), async (c) => {
     const { id } = c.req.param();
     const data = c.req.valid("json");
 
+    const existing = await CategoryService.findById(id, userId);
+    if (!existing) {
+      return c.json(
+        {
+          success: false,
+          error: "Category not found",
+        },
+        404
+      );
+    }
+
+    // Names only have to be unique among siblings, so check wherever the
+    // category ends up
+    const parentId =
+      data.parent_id !== undefined ? data.parent_id : existing.parent_id;
+    if (
+      (data.name !== undefined || data.parent_id !== undefined) &&
+      (await CategoryService.existsByName(
+        data.name ?? existing.name,
+        userId,
+        parentId,
+        id
+      ))
+    ) {
+      return c.json(
+        {
+          success: false,
+          error: "A category with this name already exists here",
+        },
+        400
+      );
+    }
+
     const category = await CategoryService.update(id, userId, {
+      parent_id: data.parent_id,
       name: data.name,
       budget: data.budget,
       color: data.color,
+      is_archived: data.is_archived,
+      alert_thresholds: data.alert_thresholds,
     });
 
     if (!category) {
@@ -219,6 +326,15 @@ categories.put("/:id", zValidator("json", updateCategorySchema), async (c) => {
     });
   } catch (error) {
     console.error("Error updating category:", error);
+    if (error instanceof CategoryTreeError) {
+      return c.json(
+        {
+          success: false,
+          error: error.message,
+        },
+        400
+      );
+    }
     return c.json(
       {
         success: false,
@@ -229,6 +345,119 @@ categories.put("/:id", zValidator("json", updateCategorySchema), async (c) => {
   }
 });
 
+// Check that a merge of the category into target_id can go ahead; returns a
+// 400 response when it can't, and null when it can. The merge itself checks
+// again with the categories locked.
+const validateMerge = async (
+  c: any,
+  userId: string,
+  sourceId: string,
+  targetId: string
+) => {
+  if (!(await CategoryService.findById(sourceId, userId))) {
+    return c.json(
+      {
+        success: false,
+        error: "Category not found",
+      },
+      404
+    );
+  }
+
+  // Same rule as re-parenting: subcategories move under the target
+  if (!(await CategoryService.isValidParent(userId, sourceId, targetId))) {
+    return c.json(
+      {
+        success: false,
+        error:
+          "Merge into another category that is not one of its subcategories",
+      },
+      400
+    );
+  }
+
+  return null;
+};
+
+// Preview what merging the category into another would move
+categories.post(
+  "/:id/merge/preview",
+  zValidator("json", mergeCategorySchema),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const { id } = c.req.param();
+      const { target_id } = c.req.valid("json");
+
+      const invalid = await validateMerge(c, userId, id, target_id);
+      if (invalid) {
+        return invalid;
+      }
+
+      const summary = await CategoryService.previewMerge(id, target_id, userId);
+
+      return c.json({
+        success: true,
+        data: summary,
+      });
+    } catch (error) {
+      console.error("Error previewing category merge:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to preview category merge",
+        },
+        500
+      );
+    }
+  }
+);
+
+// Merge the category into another: its transactions, budgets, rules,
+// recurring transactions and subcategories move over and it is deleted
+categories.post(
+  "/:id/merge",
+  zValidator("json", mergeCategorySchema),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const { id } = c.req.param();
+      const { target_id } = c.req.valid("json");
+
+      const invalid = await validateMerge(c, userId, id, target_id);
+      if (invalid) {
+        return invalid;
+      }
+
+      const summary = await CategoryService.merge(id, target_id, userId);
+
+      return c.json({
+        success: true,
+        data: summary,
+        message: "Categories merged successfully",
+      });
+    } catch (error) {
+      console.error("Error merging categories:", error);
+      if (error instanceof CategoryTreeError) {
+        return c.json(
+          {
+            success: false,
+            error: error.message,
+          },
+          400
+        );
+      }
+      return c.json(
+        {
+          success: false,
+          error: "Failed to merge categories",
+        },
+        500
+      );
+    }
+  }
+);
+
 // Delete category
 categories.delete("/:id", async (c) => {
   try {
@@ -0,0 +1,147 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { DigestService } from "../services/digestService";
+import { authMiddleware } from "../middleware/auth";
+import { env } from "../config/env";
+
+const digests = new Hono();
+
+// Validation schemas
+const unsubscribeSchema = z.object({
+  user: z.string().uuid(),
+  token: z.string().min(1),
+});
+
+const sendDigestSchema = z.object({
+  frequency: z.enum(["weekly", "monthly"]),
+});
+
+const unsubscribePage = (title: string, message: string): string => `
+  <!DOCTYPE html>
+  <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${title} - ${env.APP_NAME}</title>
+    </head>
+    <body style="font-family: Arial, sans-serif; max-width: 600px; margin: 40px auto; padding: 20px; color: #333;">
+      <h1>${title}</h1>
+      <p>${message}</p>
+      <p><a href="${env.FRONTEND_URL}/settings">Manage your email settings</a></p>
+    </body>
+  </html>
+`;
+
+// Unsubscribe link from a digest email. Signed, so no sign-in is needed.
+digests.get(
+  "/unsubscribe",
+  zValidator("query", unsubscribeSchema),
+  async (c) => {
+    try {
+      const { user, token } = c.req.valid("query");
+
+      if (!(await DigestService.unsubscribe(user, token))) {
+        return c.html(
+          unsubscribePage(
+            "Invalid link",
+            "This unsubscribe link is invalid. You can turn digests off in Settings instead."
+          ),
+          400
+        );
+      }
+
+      return c.html(
+        unsubscribePage(
+          "You're unsubscribed",
+          "You won't get any more email digests. You can turn them back on in Settings."
+        )
+      );
+    } catch (error) {
+      console.error("Error unsubscribing from digests:", error);
+      return c.html(
+        unsubscribePage(
+          "Something went wrong",
+          "We couldn't unsubscribe you. Please try again later."
+        ),
+        500
+      );
+    }
+  }
+);
+
+// One-click unsubscribe sent by mail clients (RFC 8058). The signed link's
+// query string identifies the user.
+digests.post(
+  "/unsubscribe",
+  zValidator("query", unsubscribeSchema),
+  async (c) => {
+    try {
+      const { user, token } = c.req.valid("query");
+
+      if (!(await DigestService.unsubscribe(user, token))) {
+        return c.json(
+          {
+            success: false,
+            error: "Invalid unsubscribe link",
+          },
+          400
+        );
+      }
+
+      return c.json({
+        success: true,
+        message: "Unsubscribed from digests",
+      });
+    } catch (error) {
+      console.error("Error unsubscribing from digests:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to unsubscribe",
+        },
+        500
+      );
+    }
+  }
+);
+
+// Email the signed-in user their latest digest now
+digests.post(
+  "/send",
+  authMiddleware,
+  zValidator("json", sendDigestSchema),
+  async (c) => {
+    try {
+      const user = (c as any).get("user");
+      const { frequency } = c.req.valid("json");
+
+      const sent = await DigestService.send(user, frequency);
+      if (!sent) {
+        return c.json(
+          {
+            success: false,
+            error: "Failed to send digest email",
+          },
+          500
+        );
+      }
+
+      return c.json({
+        success: true,
+        message: `Digest sent to ${user.email}`,
+      });
+    } catch (error) {
+      console.error("Error sending digest:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to send digest",
+        },
+        500
+      );
+    }
+  }
+);
+
+export default digests;
@@ -0,0 +1,201 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { ExchangeRateService } from "../services/exchangeRateService";
+import { authMiddleware } from "../middleware/auth";
+import { env } from "../config/env";
+
+const exchangeRates = new Hono();
+
+// Helper function to get user ID from context
+const getUserId = (c: any): string => {
+  const user = c.get("user");
+  return user?.id;
+};
+
+// Date validation helper - accepts YYYY-MM-DD format
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+// Validation schemas
+const currencySchema = z
+  .string()
+  .regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO code, e.g. USD");
+
+const createRateSchema = z
+  .object({
+    from_currency: currencySchema,
+    to_currency: currencySchema,
+    rate: z.number().positive("Rate must be positive"),
+    date: dateSchema,
+  })
+  .refine((data) => data.from_currency !== data.to_currency, {
+    message: "Currencies must differ",
+    path: ["to_currency"],
+  });
+
+const importRatesSchema = z.object({
+  csv: z.string().min(1, "CSV content is required"),
+});
+
+const rateFiltersSchema = z.object({
+  currency: currencySchema.optional(),
+  limit: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive().max(env.MAX_PAGE_SIZE))
+    .optional(),
+  offset: z.string().transform(Number).pipe(z.number().int().min(0)).optional(),
+});
+
+// Apply auth middleware to all routes
+exchangeRates.use("*", authMiddleware);
+
+// Get the user's exchange rates
+exchangeRates.get("/", zValidator("query", rateFiltersSchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const filters = c.req.valid("query");
+    const result = await ExchangeRateService.findByUserId(userId, filters);
+
+    return c.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error fetching exchange rates:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch exchange rates",
+      },
+      500
+    );
+  }
+});
+
+// Currencies in use that have no rate to the base currency
+exchangeRates.get("/missing", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const currencies = await ExchangeRateService.getMissingCurrencies(userId);
+
+    return c.json({
+      success: true,
+      data: currencies,
+    });
+  } catch (error) {
+    console.error("Error fetching missing exchange rates:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch missing exchange rates",
+      },
+      500
+    );
+  }
+});
+
+// Add or replace a rate for a currency pair and date
+exchangeRates.post("/", zValidator("json", createRateSchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const data = c.req.valid("json");
+
+    const rate = await ExchangeRateService.upsert({
+      user_id: userId,
+      ...data,
+    });
+
+    return c.json(
+      {
+        success: true,
+        data: rate,
+        message: "Exchange rate saved successfully",
+      },
+      201
+    );
+  } catch (error) {
+    console.error("Error saving exchange rate:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to save exchange rate",
+      },
+      500
+    );
+  }
+});
+
+// Load rates from a CSV file (date, from, to, rate)
+exchangeRates.post(
+  "/import",
+  zValidator("json", importRatesSchema),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const { csv } = c.req.valid("json");
+
+      const result = await ExchangeRateService.importCsv(userId, csv);
+
+      return c.json(
+        {
+          success: true,
+          data: result,
+          message: `Imported ${result.imported} exchange rate(s)`,
+        },
+        201
+      );
+    } catch (error) {
+      console.error("Error importing exchange rates:", error);
+      const message =
+        error instanceof Error
+          ? error.message
+          : "Failed to import exchange rates";
+      return c.json(
+        {
+          success: false,
+          error: message,
+        },
+        400
+      );
+    }
+  }
+);
+
+// Delete a rate
+exchangeRates.delete("/:id", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { id } = c.req.param();
+
+    const deleted = await ExchangeRateService.delete(id, userId);
+
+    if (!deleted) {
+      return c.json(
+        {
+          success: false,
+          error: "Exchange rate not found",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      message: "Exchange rate deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting exchange rate:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to delete exchange rate",
+      },
+      500
+    );
+  }
+});
+
+export default exchangeRates;
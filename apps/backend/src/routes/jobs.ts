@@ -0,0 +1,61 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { JobService } from "../services/jobService";
+import { authMiddleware, requireAdmin } from "../middleware/auth";
+
+const jobs = new Hono();
+
+// Validation schemas
+const historyQuerySchema = z.object({
+  name: z.string().max(100).optional(),
+  status: z.enum(["running", "succeeded", "failed"]).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Job status is only visible to admins
+jobs.use("*", authMiddleware, requireAdmin);
+
+// Get every registered job with its next, current and latest run
+jobs.get("/status", async (c) => {
+  try {
+    const status = await JobService.getStatus();
+
+    return c.json({
+      success: true,
+      data: status,
+    });
+  } catch (error) {
+    console.error("Error fetching job status:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch job status",
+      },
+      500
+    );
+  }
+});
+
+// Get recent job runs, newest first
+jobs.get("/history", zValidator("query", historyQuerySchema), async (c) => {
+  try {
+    const history = await JobService.getHistory(c.req.valid("query"));
+
+    return c.json({
+      success: true,
+      data: history,
+    });
+  } catch (error) {
+    console.error("Error fetching job history:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch job history",
+      },
+      500
+    );
+  }
+});
+
+export default jobs;
@@ -0,0 +1,247 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { NotificationService } from "../services/notificationService";
+import { authMiddleware } from "../middleware/auth";
+
+const notifications = new Hono();
+
+// Helper function to get user ID from context
+const getUserId = (c: any): string => {
+  const user = c.get("user");
+  return user?.id;
+};
+
+// Validation schemas
+const notificationQuerySchema = z.object({
+  unread: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const preferencesSchema = z.object({
+  events: z
+    .array(
+      z.object({
+        event: z.enum([
+          "budget_threshold",
+          "large_transaction",
+          "upcoming_bill",
+          "new_login",
+        ]),
+        in_app: z.boolean(),
+        email: z.boolean(),
+        digest: z.boolean(),
+      })
+    )
+    .optional(),
+  large_transaction_amount: z
+    .number()
+    .positive("Amount must be positive")
+    .optional(),
+});
+
+// Apply auth middleware to all routes
+notifications.use("*", authMiddleware);
+
+// Get the user's notifications, newest first
+notifications.get(
+  "/",
+  zValidator("query", notificationQuerySchema),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const { unread, limit } = c.req.valid("query");
+
+      const result = await NotificationService.findByUserId(userId, {
+        unreadOnly: unread,
+        limit,
+      });
+
+      return c.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch notifications",
+        },
+        500
+      );
+    }
+  }
+);
+
+// Get the number of unread notifications
+notifications.get("/unread-count", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const count = await NotificationService.countUnread(userId);
+
+    return c.json({
+      success: true,
+      data: { count },
+    });
+  } catch (error) {
+    console.error("Error counting unread notifications:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to count unread notifications",
+      },
+      500
+    );
+  }
+});
+
+// Get the user's notification preferences
+notifications.get("/preferences", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const preferences = await NotificationService.getPreferences(userId);
+
+    return c.json({
+      success: true,
+      data: preferences,
+    });
+  } catch (error) {
+    console.error("Error fetching notification preferences:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch notification preferences",
+      },
+      500
+    );
+  }
+});
+
+// Update the user's notification preferences
+notifications.put(
+  "/preferences",
+  zValidator("json", preferencesSchema),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const data = c.req.valid("json");
+
+      const preferences = await NotificationService.updatePreferences(
+        userId,
+        data
+      );
+
+      return c.json({
+        success: true,
+        data: preferences,
+        message: "Notification preferences updated successfully",
+      });
+    } catch (error) {
+      console.error("Error updating notification preferences:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to update notification preferences",
+        },
+        500
+      );
+    }
+  }
+);
+
+// Mark all notifications as read
+notifications.put("/read-all", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const count = await NotificationService.markAllRead(userId);
+
+    return c.json({
+      success: true,
+      data: { count },
+      message: "All notifications marked as read",
+    });
+  } catch (error) {
+    console.error("Error marking notifications as read:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to mark notifications as read",
+      },
+      500
+    );
+  }
+});
+
+// Mark one notification as read
+notifications.put("/:id/read", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { id } = c.req.param();
+
+    const notification = await NotificationService.markRead(id, userId);
+
+    if (!notification) {
+      return c.json(
+        {
+          success: false,
+          error: "Notification not found",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: notification,
+    });
+  } catch (error) {
+    console.error("Error marking notification as read:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to mark notification as read",
+      },
+      500
+    );
+  }
+});
+
+// Remove a notification from the feed
+notifications.delete("/:id", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { id } = c.req.param();
+
+    const deleted = await NotificationService.delete(id, userId);
+
+    if (!deleted) {
+      return c.json(
+        {
+          success: false,
+          error: "Notification not found",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      message: "Notification deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting notification:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to delete notification",
+      },
+      500
+    );
+  }
+});
+
+export default notifications;
@@ -0,0 +1,236 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { PeriodBudgetService } from "../services/periodBudgetService";
+import { CategoryService } from "../services/categoryService";
+import { authMiddleware } from "../middleware/auth";
+
+const periodBudgets = new Hono();
+
+// Helper function to get user ID from context
+const getUserId = (c: any): string => {
+  const user = c.get("user");
+  return user?.id;
+};
+
+// Validation schemas
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+// Percentages of a budget that send an alert, e.g. [50, 80, 100]
+const alertThresholdsSchema = z
+  .array(z.number().int().min(1).max(1000))
+  .max(5, "Use at most 5 alert thresholds")
+  .transform((thresholds) => [...new Set(thresholds)].sort((a, b) => a - b));
+
+const createPeriodBudgetSchema = z.object({
+  category_id: z.string().uuid("Invalid category ID"),
+  period_unit: z.enum(["day", "week", "month"]),
+  period_length: z.number().int().min(1).max(366),
+  anchor_date: dateSchema,
+  limit_amount: z.number().positive("Budget amount must be positive"),
+  alert_thresholds: alertThresholdsSchema.optional(),
+});
+
+const updatePeriodBudgetSchema = z.object({
+  period_unit: z.enum(["day", "week", "month"]).optional(),
+  period_length: z.number().int().min(1).max(366).optional(),
+  anchor_date: dateSchema.optional(),
+  limit_amount: z
+    .number()
+    .positive("Budget amount must be positive")
+    .optional(),
+  alert_thresholds: alertThresholdsSchema.optional(),
+});
+
+// Defaults to today's periods
+const periodQuerySchema = z.object({
+  date: dateSchema.optional(),
+});
+
+// Apply auth middleware to all routes
+periodBudgets.use("*", authMiddleware);
+
+// Get all period budgets for user, with spending in the period containing
+// the given date
+periodBudgets.get("/", zValidator("query", periodQuerySchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { date } = c.req.valid("query");
+
+    const result = await PeriodBudgetService.findByUserId(userId, date);
+
+    return c.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error fetching period budgets:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch period budgets",
+      },
+      500
+    );
+  }
+});
+
+// Create new period budget
+periodBudgets.post(
+  "/",
+  zValidator("json", createPeriodBudgetSchema),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const data = c.req.valid("json");
+
+      const category = await CategoryService.findById(data.category_id, userId);
+      if (!category) {
+        return c.json(
+          {
+            success: false,
+            error: "Category not found",
+          },
+          400
+        );
+      }
+
+      if (
+        await PeriodBudgetService.existsForPeriod(
+          userId,
+          data.category_id,
+          data.period_unit,
+          data.period_length
+        )
+      ) {
+        return c.json(
+          {
+            success: false,
+            error: "This category already has a budget for that period",
+          },
+          400
+        );
+      }
+
+      const budget = await PeriodBudgetService.create({
+        user_id: userId,
+        ...data,
+      });
+
+      return c.json(
+        {
+          success: true,
+          data: budget,
+          message: "Period budget created successfully",
+        },
+        201
+      );
+    } catch (error) {
+      console.error("Error creating period budget:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to create period budget",
+        },
+        500
+      );
+    }
+  }
+);
+
+// Update period budget
+periodBudgets.put(
+  "/:id",
+  zValidator("json", updatePeriodBudgetSchema),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const { id } = c.req.param();
+      const data = c.req.valid("json");
+
+      const existing = await PeriodBudgetService.findById(id, userId);
+      if (!existing) {
+        return c.json(
+          {
+            success: false,
+            error: "Period budget not found",
+          },
+          404
+        );
+      }
+
+      if (
+        await PeriodBudgetService.existsForPeriod(
+          userId,
+          existing.category_id,
+          data.period_unit ?? existing.period_unit,
+          data.period_length ?? existing.period_length,
+          id
+        )
+      ) {
+        return c.json(
+          {
+            success: false,
+            error: "This category already has a budget for that period",
+          },
+          400
+        );
+      }
+
+      const budget = await PeriodBudgetService.update(id, userId, data);
+
+      return c.json({
+        success: true,
+        data: budget,
+        message: "Period budget updated successfully",
+      });
+    } catch (error) {
+      console.error("Error updating period budget:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to update period budget",
+        },
+        500
+      );
+    }
+  }
+);
+
+// Delete period budget
+periodBudgets.delete("/:id", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { id } = c.req.param();
+
+    const deleted = await PeriodBudgetService.delete(id, userId);
+
+    if (!deleted) {
+      return c.json(
+        {
+          success: false,
+          error: "Period budget not found",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      message: "Period budget deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting period budget:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to delete period budget",
+      },
+      500
+    );
+  }
+});
+
+export default periodBudgets;
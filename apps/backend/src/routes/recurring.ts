@@ -0,0 +1,422 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { RecurringService } from "../services/recurringService";
+import { authMiddleware } from "../middleware/auth";
+
+const recurring = new Hono();
+
+// Helper function to get user ID from context
+const getUserId = (c: any): string => {
+  const user = c.get("user");
+  return user?.id;
+};
+
+// Date validation helper - accepts YYYY-MM-DD format
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+// Validation schemas
+const frequencySchema = z.enum([
+  "daily",
+  "weekly",
+  "biweekly",
+  "monthly",
+  "yearly",
+]);
+
+const createRecurringSchema = z
+  .object({
+    category_id: z.string().uuid().optional(),
+    amount: z.number().positive("Amount must be positive"),
+    description: z.string().min(1, "Description is required"),
+    type: z.enum(["income", "expense"]),
+    frequency: frequencySchema,
+    day_of_month: z.number().int().min(1).max(31).optional(),
+    start_date: dateSchema,
+    end_date: dateSchema.optional(),
+    max_occurrences: z.number().int().positive().optional(),
+  })
+  .refine((data) => !data.end_date || data.end_date >= data.start_date, {
+    message: "End date must be on or after the start date",
+    path: ["end_date"],
+  });
+
+const updateRecurringSchema = z.object({
+  category_id: z.string().uuid().nullable().optional(),
+  amount: z.number().positive().optional(),
+  description: z.string().min(1).optional(),
+  type: z.enum(["income", "expense"]).optional(),
+  frequency: frequencySchema.optional(),
+  day_of_month: z.number().int().min(1).max(31).nullable().optional(),
+  start_date: dateSchema.optional(),
+  end_date: dateSchema.nullable().optional(),
+  max_occurrences: z.number().int().positive().nullable().optional(),
+});
+
+const upcomingQuerySchema = z.object({
+  count: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().min(1).max(52))
+    .optional(),
+});
+
+const occurrenceOverrideSchema = z
+  .object({
+    amount: z.number().positive().optional(),
+    description: z.string().min(1).optional(),
+    category_id: z.string().uuid().nullable().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "Provide at least one field to override",
+  });
+
+// Apply auth middleware to all routes
+recurring.use("*", authMiddleware);
+
+// Get all recurring transactions for user
+recurring.get("/", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const rules = await RecurringService.findByUserId(userId);
+
+    return c.json({
+      success: true,
+      data: rules,
+    });
+  } catch (error) {
+    console.error("Error fetching recurring transactions:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch recurring transactions",
+      },
+      500
+    );
+  }
+});
+
+// Create recurring transaction
+recurring.post("/", zValidator("json", createRecurringSchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const data = c.req.valid("json");
+
+    const rule = await RecurringService.create(userId, data);
+
+    return c.json(
+      {
+        success: true,
+        data: rule,
+        message: "Recurring transaction created successfully",
+      },
+      201
+    );
+  } catch (error) {
+    console.error("Error creating recurring transaction:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to create recurring transaction",
+      },
+      500
+    );
+  }
+});
+
+// Get recurring transaction by ID
+recurring.get("/:id", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const id = c.req.param("id");
+
+    const rule = await RecurringService.findById(id, userId);
+    if (!rule) {
+      return c.json(
+        {
+          success: false,
+          error: "Recurring transaction not found",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    console.error("Error fetching recurring transaction:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch recurring transaction",
+      },
+      500
+    );
+  }
+});
+
+// Update recurring transaction (affects future occurrences only)
+recurring.put("/:id", zValidator("json", updateRecurringSchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const id = c.req.param("id");
+    const data = c.req.valid("json");
+
+    const rule = await RecurringService.update(id, userId, data);
+    if (!rule) {
+      return c.json(
+        {
+          success: false,
+          error: "Recurring transaction not found",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: rule,
+      message: "Recurring transaction updated successfully",
+    });
+  } catch (error) {
+    console.error("Error updating recurring transaction:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to update recurring transaction",
+      },
+      500
+    );
+  }
+});
+
+// Delete recurring transaction
+recurring.delete("/:id", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const id = c.req.param("id");
+
+    const deleted = await RecurringService.delete(id, userId);
+    if (!deleted) {
+      return c.json(
+        {
+          success: false,
+          error: "Recurring transaction not found",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      message: "Recurring transaction deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting recurring transaction:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to delete recurring transaction",
+      },
+      500
+    );
+  }
+});
+
+// Pause a recurring transaction
+recurring.post("/:id/pause", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const id = c.req.param("id");
+
+    const rule = await RecurringService.setPaused(id, userId, true);
+    if (!rule) {
+      return c.json(
+        {
+          success: false,
+          error: "Recurring transaction not found",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: rule,
+      message: "Recurring transaction paused",
+    });
+  } catch (error) {
+    console.error("Error pausing recurring transaction:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to pause recurring transaction",
+      },
+      500
+    );
+  }
+});
+
+// Resume a paused recurring transaction (missed occurrences are not created)
+recurring.post("/:id/resume", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const id = c.req.param("id");
+
+    const rule = await RecurringService.setPaused(id, userId, false);
+    if (!rule) {
+      return c.json(
+        {
+          success: false,
+          error: "Recurring transaction not found",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: rule,
+      message: "Recurring transaction resumed",
+    });
+  } catch (error) {
+    console.error("Error resuming recurring transaction:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to resume recurring transaction",
+      },
+      500
+    );
+  }
+});
+
+// Get upcoming occurrences
+recurring.get(
+  "/:id/occurrences",
+  zValidator("query", upcomingQuerySchema),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const id = c.req.param("id");
+      const { count } = c.req.valid("query");
+
+      const occurrences = await RecurringService.getUpcoming(id, userId, count);
+      if (!occurrences) {
+        return c.json(
+          {
+            success: false,
+            error: "Recurring transaction not found",
+          },
+          404
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: occurrences,
+      });
+    } catch (error) {
+      console.error("Error fetching upcoming occurrences:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch upcoming occurrences",
+        },
+        500
+      );
+    }
+  }
+);
+
+// Skip a single upcoming occurrence
+recurring.post("/:id/occurrences/:date/skip", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const id = c.req.param("id");
+    const date = dateSchema.parse(c.req.param("date"));
+
+    await RecurringService.skipOccurrence(id, userId, date);
+
+    return c.json({
+      success: true,
+      message: "Occurrence skipped",
+    });
+  } catch (error) {
+    console.error("Error skipping occurrence:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to skip occurrence";
+    return c.json(
+      {
+        success: false,
+        error: message,
+      },
+      400
+    );
+  }
+});
+
+// Edit a single upcoming occurrence
+recurring.put(
+  "/:id/occurrences/:date",
+  zValidator("json", occurrenceOverrideSchema),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const id = c.req.param("id");
+      const date = dateSchema.parse(c.req.param("date"));
+      const override = c.req.valid("json");
+
+      await RecurringService.overrideOccurrence(id, userId, date, override);
+
+      return c.json({
+        success: true,
+        message: "Occurrence updated",
+      });
+    } catch (error) {
+      console.error("Error updating occurrence:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to update occurrence";
+      return c.json(
+        {
+          success: false,
+          error: message,
+        },
+        400
+      );
+    }
+  }
+);
+
+// Restore a skipped or edited occurrence
+recurring.delete("/:id/occurrences/:date", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const id = c.req.param("id");
+    const date = dateSchema.parse(c.req.param("date"));
+
+    await RecurringService.clearOccurrence(id, userId, date);
+
+    return c.json({
+      success: true,
+      message: "Occurrence restored",
+    });
+  } catch (error) {
+    console.error("Error restoring occurrence:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to restore occurrence";
+    return c.json(
+      {
+        success: false,
+        error: message,
+      },
+      400
+    );
+  }
+});
+
+export default recurring;
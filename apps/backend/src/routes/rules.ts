@@ -0,0 +1,382 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import {
+  RuleService,
+  CreateRuleData,
+  findPatternProblem,
+} from "../services/ruleService";
+import { CategoryService } from "../services/categoryService";
+import { authMiddleware } from "../middleware/auth";
+
+const rules = new Hono();
+
+// Helper function to get user ID from context
+const getUserId = (c: any): string => {
+  const user = c.get("user");
+  return user?.id;
+};
+
+// Date validation helper - accepts YYYY-MM-DD format
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+// Validation schemas
+const descriptionOperatorSchema = z.enum([
+  "contains",
+  "starts_with",
+  "equals",
+  "regex",
+]);
+
+const tagNameSchema = z.string().trim().min(1).max(50);
+
+const createRuleSchema = z.object({
+  name: z.string().min(1, "Rule name is required").max(100),
+  priority: z.number().int().min(0).optional(),
+  is_active: z.boolean().optional(),
+  description_operator: descriptionOperatorSchema.optional(),
+  description_value: z.string().min(1).optional(),
+  min_amount: z.number().min(0).optional(),
+  max_amount: z.number().min(0).optional(),
+  match_type: z.enum(["income", "expense"]).optional(),
+  set_category_id: z.string().uuid().optional(),
+  set_description: z.string().min(1).optional(),
+  add_tags: z.array(tagNameSchema).max(10).optional(),
+});
+
+const updateRuleSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  priority: z.number().int().min(0).optional(),
+  is_active: z.boolean().optional(),
+  description_operator: descriptionOperatorSchema.nullable().optional(),
+  description_value: z.string().min(1).nullable().optional(),
+  min_amount: z.number().min(0).nullable().optional(),
+  max_amount: z.number().min(0).nullable().optional(),
+  match_type: z.enum(["income", "expense"]).nullable().optional(),
+  set_category_id: z.string().uuid().nullable().optional(),
+  set_description: z.string().min(1).nullable().optional(),
+  add_tags: z.array(tagNameSchema).max(10).optional(),
+});
+
+const reorderSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1),
+});
+
+const rerunSchema = z
+  .object({
+    start_date: dateSchema.optional(),
+    end_date: dateSchema.optional(),
+    overwrite_categories: z.boolean().optional(),
+  })
+  .refine(
+    (data) =>
+      !data.start_date || !data.end_date || data.end_date >= data.start_date,
+    {
+      message: "End date must be on or after the start date",
+      path: ["end_date"],
+    }
+  );
+
+type RuleFields = {
+  [K in keyof CreateRuleData]?: CreateRuleData[K] | null;
+};
+
+// Checks that need the rule as a whole (after merging an update)
+const findRuleProblem = (rule: RuleFields): string | null => {
+  if (!rule.description_operator !== !rule.description_value) {
+    return "A description condition needs both an operator and a value";
+  }
+  if (rule.description_operator === "regex") {
+    const problem = findPatternProblem(rule.description_value!);
+    if (problem) {
+      return problem;
+    }
+  }
+  if (
+    rule.min_amount != null &&
+    rule.max_amount != null &&
+    rule.min_amount > rule.max_amount
+  ) {
+    return "Minimum amount must not exceed the maximum amount";
+  }
+  if (
+    !rule.description_operator &&
+    rule.min_amount == null &&
+    rule.max_amount == null &&
+    !rule.match_type
+  ) {
+    return "A rule needs at least one condition";
+  }
+  if (
+    !rule.set_category_id &&
+    !rule.set_description &&
+    !rule.add_tags?.length
+  ) {
+    return "A rule needs at least one action";
+  }
+  return null;
+};
+
+// Apply auth middleware to all routes
+rules.use("*", authMiddleware);
+
+// Get the user's rules in priority order
+rules.get("/", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const result = await RuleService.findByUserId(userId);
+
+    return c.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error fetching rules:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch rules",
+      },
+      500
+    );
+  }
+});
+
+// Create rule
+rules.post("/", zValidator("json", createRuleSchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const data = c.req.valid("json");
+
+    const problem = findRuleProblem(data);
+    if (problem) {
+      return c.json(
+        {
+          success: false,
+          error: problem,
+        },
+        400
+      );
+    }
+
+    if (
+      data.set_category_id &&
+      !(await CategoryService.findById(data.set_category_id, userId))
+    ) {
+      return c.json(
+        {
+          success: false,
+          error: "Category not found",
+        },
+        400
+      );
+    }
+
+    const rule = await RuleService.create(userId, data);
+
+    return c.json(
+      {
+        success: true,
+        data: rule,
+        message: "Rule created successfully",
+      },
+      201
+    );
+  } catch (error) {
+    console.error("Error creating rule:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to create rule",
+      },
+      500
+    );
+  }
+});
+
+// Set the order rules are applied in
+rules.put("/reorder", zValidator("json", reorderSchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { ids } = c.req.valid("json");
+
+    await RuleService.reorder(userId, ids);
+
+    return c.json({
+      success: true,
+      data: await RuleService.findByUserId(userId),
+      message: "Rules reordered successfully",
+    });
+  } catch (error) {
+    console.error("Error reordering rules:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to reorder rules",
+      },
+      500
+    );
+  }
+});
+
+// Show what re-running the rules on past transactions would change
+rules.post("/rerun/preview", zValidator("json", rerunSchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const data = c.req.valid("json");
+
+    const changes = await RuleService.previewRerun(userId, {
+      startDate: data.start_date,
+      endDate: data.end_date,
+      overwriteCategories: data.overwrite_categories,
+    });
+
+    return c.json({
+      success: true,
+      data: changes,
+    });
+  } catch (error) {
+    console.error("Error previewing rule re-run:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to preview rule changes",
+      },
+      500
+    );
+  }
+});
+
+// Re-run the rules on past transactions
+rules.post("/rerun", zValidator("json", rerunSchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const data = c.req.valid("json");
+
+    const changes = await RuleService.rerun(userId, {
+      startDate: data.start_date,
+      endDate: data.end_date,
+      overwriteCategories: data.overwrite_categories,
+    });
+
+    return c.json({
+      success: true,
+      data: changes,
+      message: `Updated ${changes.length} transaction(s)`,
+    });
+  } catch (error) {
+    console.error("Error re-running rules:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to re-run rules",
+      },
+      500
+    );
+  }
+});
+
+// Update rule
+rules.put("/:id", zValidator("json", updateRuleSchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { id } = c.req.param();
+    const data = c.req.valid("json");
+
+    const existing = await RuleService.findById(id, userId);
+    if (!existing) {
+      return c.json(
+        {
+          success: false,
+          error: "Rule not found",
+        },
+        404
+      );
+    }
+
+    const merged: RuleFields = { ...existing };
+    for (const [key, value] of Object.entries(data)) {
+      if (value !== undefined) {
+        (merged as Record<string, unknown>)[key] = value;
+      }
+    }
+    const problem = findRuleProblem(merged);
+    if (problem) {
+      return c.json(
+        {
+          success: false,
+          error: problem,
+        },
+        400
+      );
+    }
+
+    if (
+      data.set_category_id &&
+      !(await CategoryService.findById(data.set_category_id, userId))
+    ) {
+      return c.json(
+        {
+          success: false,
+          error: "Category not found",
+        },
+        400
+      );
+    }
+
+    const rule = await RuleService.update(id, userId, data);
+
+    return c.json({
+      success: true,
+      data: rule,
+      message: "Rule updated successfully",
+    });
+  } catch (error) {
+    console.error("Error updating rule:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to update rule",
+      },
+      500
+    );
+  }
+});
+
+// Delete rule
+rules.delete("/:id", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { id } = c.req.param();
+
+    const deleted = await RuleService.delete(id, userId);
+
+    if (!deleted) {
+      return c.json(
+        {
+          success: false,
+          error: "Rule not found",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      message: "Rule deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting rule:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to delete rule",
+      },
+      500
+    );
+  }
+});
+
+export default rules;
@@ -0,0 +1,256 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { TagService } from "../services/tagService";
+import { authMiddleware } from "../middleware/auth";
+
+const tags = new Hono();
+
+// Helper function to get user ID from context
+const getUserId = (c: any): string => {
+  const user = c.get("user");
+  return user?.id;
+};
+
+// Date validation helper - accepts YYYY-MM-DD format
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+// Validation schemas
+const colorSchema = z
+  .string()
+  .regex(/^#[0-9A-F]{6}$/i, "Color must be a valid hex color");
+
+const createTagSchema = z.object({
+  name: z.string().trim().min(1, "Tag name is required").max(50),
+  color: colorSchema.optional(),
+});
+
+const updateTagSchema = z.object({
+  name: z.string().trim().min(1).max(50).optional(),
+  color: colorSchema.nullable().optional(),
+});
+
+// Apply auth middleware to all routes
+tags.use("*", authMiddleware);
+
+// Get all tags for user
+tags.get("/", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const result = await TagService.findByUserId(userId);
+
+    return c.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error fetching tags:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch tags",
+      },
+      500
+    );
+  }
+});
+
+// Get income and expense totals per tag - MUST come before /:id route
+tags.get(
+  "/spending",
+  zValidator(
+    "query",
+    z.object({
+      start_date: dateSchema.optional(),
+      end_date: dateSchema.optional(),
+    })
+  ),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const { start_date, end_date } = c.req.valid("query");
+
+      const spending = await TagService.getSpending(userId, {
+        startDate: start_date,
+        endDate: end_date,
+      });
+
+      return c.json({
+        success: true,
+        data: spending,
+      });
+    } catch (error) {
+      console.error("Error fetching tag spending:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch tag spending",
+        },
+        500
+      );
+    }
+  }
+);
+
+// Get tag by ID
+tags.get("/:id", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { id } = c.req.param();
+
+    const tag = await TagService.findById(id, userId);
+
+    if (!tag) {
+      return c.json(
+        {
+          success: false,
+          error: "Tag not found",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: tag,
+    });
+  } catch (error) {
+    console.error("Error fetching tag:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch tag",
+      },
+      500
+    );
+  }
+});
+
+// Create new tag
+tags.post("/", zValidator("json", createTagSchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const data = c.req.valid("json");
+
+    if (await TagService.existsByName(data.name, userId)) {
+      return c.json(
+        {
+          success: false,
+          error: "A tag with this name already exists",
+        },
+        400
+      );
+    }
+
+    const tag = await TagService.create({
+      user_id: userId,
+      name: data.name,
+      color: data.color,
+    });
+
+    return c.json(
+      {
+        success: true,
+        data: tag,
+        message: "Tag created successfully",
+      },
+      201
+    );
+  } catch (error) {
+    console.error("Error creating tag:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to create tag",
+      },
+      500
+    );
+  }
+});
+
+// Update tag
+tags.put("/:id", zValidator("json", updateTagSchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { id } = c.req.param();
+    const data = c.req.valid("json");
+
+    if (
+      data.name !== undefined &&
+      (await TagService.existsByName(data.name, userId, id))
+    ) {
+      return c.json(
+        {
+          success: false,
+          error: "A tag with this name already exists",
+        },
+        400
+      );
+    }
+
+    const tag = await TagService.update(id, userId, data);
+
+    if (!tag) {
+      return c.json(
+        {
+          success: false,
+          error: "Tag not found or no changes made",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: tag,
+      message: "Tag updated successfully",
+    });
+  } catch (error) {
+    console.error("Error updating tag:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to update tag",
+      },
+      500
+    );
+  }
+});
+
+// Delete tag
+tags.delete("/:id", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { id } = c.req.param();
+
+    const deleted = await TagService.delete(id, userId);
+
+    if (!deleted) {
+      return c.json(
+        {
+          success: false,
+          error: "Tag not found",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      message: "Tag deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting tag:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to delete tag",
+      },
+      500
+    );
+  }
+});
+
+export default tags;
@@ -2,6 +2,12 @@ import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 import { TransactionService } from "../services/transactionService";
+import { ImportService, ImportError } from "../services/importService";
+import { AccountService } from "../services/accountService";
+import { RuleService } from "../services/ruleService";
+import { SuggestionService } from "../services/suggestionService";
+import { SearchService } from "../services/searchService";
+import { TransactionQueryBuilder } from "../services/transactionQuery";
 import { authMiddleware } from "../middleware/auth";
 import { env } from "../config/env";
 
@@ -19,35 +25,190 @@ const dateSchema = z
   .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
 
 // Validation schemas
-const createTransactionSchema = z.object({
-  category_id: z.string().optional(),
-  amount: z.number().positive("Amount must be positive"),
-  description: z.string().min(1, "Description is required"),
-  type: z.enum(["income", "expense"]),
-  date: dateSchema.optional(),
+const currencySchema = z
+  .string()
+  .regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO code, e.g. USD");
+
+const splitSchema = z.object({
+  category_id: z.string().uuid().nullable().optional(),
+  amount: z.number().positive("Split amount must be positive"),
+  memo: z.string().optional(),
 });
 
+const tagNamesSchema = z.array(z.string().trim().min(1).max(50)).max(20);
+
+const SPLIT_TOTAL_ERROR = "Split amounts must add up to the transaction amount";
+
+const createTransactionSchema = z
+  .object({
+    category_id: z.string().optional(),
+    account_id: z.string().uuid().optional(),
+    amount: z.number().positive("Amount must be positive"),
+    // Defaults to the account's currency, or the user's base currency
+    currency: currencySchema.optional(),
+    description: z.string().min(1, "Description is required"),
+    notes: z.string().max(1000).optional(),
+    type: z.enum(["income", "expense"]),
+    date: dateSchema.optional(),
+    splits: z
+      .array(splitSchema)
+      .min(2, "A split transaction needs at least two lines")
+      .optional(),
+    tags: tagNamesSchema.optional(),
+  })
+  .refine(
+    (data) =>
+      !data.splits ||
+      TransactionService.splitsMatchAmount(data.amount, data.splits),
+    { message: SPLIT_TOTAL_ERROR, path: ["splits"] }
+  );
+
 const updateTransactionSchema = z.object({
   category_id: z.string().optional(),
+  account_id: z.string().uuid().nullable().optional(),
   amount: z.number().positive().optional(),
+  currency: currencySchema.optional(),
   description: z.string().min(1).optional(),
+  notes: z.string().max(1000).nullable().optional(),
   type: z.enum(["income", "expense"]).optional(),
   date: dateSchema.optional(),
+  // An empty array turns a split transaction back into a single category
+  splits: z
+    .array(splitSchema)
+    .refine((splits) => splits.length !== 1, {
+      message: "A split transaction needs at least two lines",
+    })
+    .optional(),
+  // Replaces the transaction's tags; an empty array removes them all
+  tags: tagNamesSchema.optional(),
 });
 
+const createTransferSchema = z
+  .object({
+    from_account_id: z.string().uuid(),
+    to_account_id: z.string().uuid(),
+    amount: z.number().positive("Amount must be positive"),
+    description: z.string().min(1, "Description is required"),
+    date: dateSchema.optional(),
+  })
+  .refine((data) => data.from_account_id !== data.to_account_id, {
+    message: "Cannot transfer to the same account",
+    path: ["to_account_id"],
+  });
+
+const updateTransferSchema = z
+  .object({
+    from_account_id: z.string().uuid().optional(),
+    to_account_id: z.string().uuid().optional(),
+    amount: z.number().positive().optional(),
+    description: z.string().min(1).optional(),
+    date: dateSchema.optional(),
+  })
+  .refine(
+    (data) =>
+      !data.from_account_id ||
+      !data.to_account_id ||
+      data.from_account_id !== data.to_account_id,
+    {
+      message: "Cannot transfer to the same account",
+      path: ["to_account_id"],
+    }
+  );
+
 const transactionFiltersSchema = z.object({
-  type: z.enum(["income", "expense"]).optional(),
+  type: z.enum(["income", "expense", "transfer"]).optional(),
   category_id: z.string().optional(),
+  account_id: z.string().uuid().optional(),
+  tag_id: z.string().uuid().optional(),
   start_date: dateSchema.optional(),
   end_date: dateSchema.optional(),
+  // Search box query, e.g. amount>50 category:Groceries "coffee"
+  q: z.string().max(500).optional(),
+  sort: z.enum(["date", "amount", "description"]).default("date"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  // nextCursor from the previous page
+  cursor: z.string().max(500).optional(),
   limit: z
     .string()
     .transform(Number)
-    .pipe(z.number().int().positive())
+    .pipe(z.number().int().positive().max(env.MAX_PAGE_SIZE))
     .optional(),
   offset: z.string().transform(Number).pipe(z.number().int().min(0)).optional(),
 });
 
+const suggestCategorySchema = z.object({
+  description: z.string().trim().min(1, "Description is required").max(255),
+  type: z.enum(["income", "expense"]).optional(),
+  limit: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive().max(10))
+    .optional(),
+});
+
+const columnIndexSchema = z.number().int().min(0);
+
+const importDateFormatSchema = z.enum([
+  "YYYY-MM-DD",
+  "YYYY/MM/DD",
+  "MM/DD/YYYY",
+  "DD/MM/YYYY",
+  "DD.MM.YYYY",
+]);
+
+const importCsvSchema = z
+  .object({
+    csv: z.string().min(1, "CSV content is required"),
+    delimiter: z.string().length(1).optional(),
+    has_header: z.boolean().default(true),
+    mapping: z
+      .object({
+        date: columnIndexSchema,
+        description: columnIndexSchema,
+        amount: columnIndexSchema.optional(),
+        debit: columnIndexSchema.optional(),
+        credit: columnIndexSchema.optional(),
+        category: columnIndexSchema.optional(),
+      })
+      .optional(),
+    sign_convention: z
+      .enum([
+        "negative_is_expense",
+        "positive_is_expense",
+        "debit_credit_columns",
+      ])
+      .default("negative_is_expense"),
+    date_format: importDateFormatSchema.default("YYYY-MM-DD"),
+    decimal_separator: z.enum([".", ","]).default("."),
+    default_category_id: z.string().uuid().optional(),
+    account_id: z.string().uuid().optional(),
+    dry_run: z.boolean().default(true),
+    skip_invalid: z.boolean().default(false),
+  })
+  .refine(
+    (data) =>
+      !data.mapping ||
+      (data.sign_convention === "debit_credit_columns"
+        ? data.mapping.debit !== undefined && data.mapping.credit !== undefined
+        : data.mapping.amount !== undefined),
+    {
+      message:
+        "Map an amount column, or both debit and credit columns for split-column files",
+      path: ["mapping"],
+    }
+  );
+
+const importStatementSchema = z.object({
+  content: z.string().min(1, "Statement content is required"),
+  format: z.enum(["ofx", "qif"]).optional(),
+  date_format: importDateFormatSchema.default("MM/DD/YYYY"),
+  decimal_separator: z.enum([".", ","]).default("."),
+  default_category_id: z.string().uuid().optional(),
+  account_id: z.string().uuid().optional(),
+  dry_run: z.boolean().default(true),
+  skip_invalid: z.boolean().default(false),
+});
+
 // Apply auth middleware to all routes
 transactions.use("*", authMiddleware);
 
@@ -59,14 +220,52 @@ transactions.get(
     try {
       const userId = getUserId(c);
       const filters = c.req.valid("query");
+
+      const search = SearchService.parse(filters.q ?? "");
+      if (search.errors.length > 0) {
+        return c.json(
+          {
+            success: false,
+            error: `Could not understand the search: ${search.errors.join(
+              "; "
+            )}`,
+          },
+          400
+        );
+      }
+
+      const cursor = filters.cursor
+        ? TransactionQueryBuilder.decodeCursor(
+            filters.cursor,
+            filters.sort,
+            filters.order
+          )
+        : undefined;
+      if (cursor === null) {
+        return c.json(
+          {
+            success: false,
+            error: "Invalid cursor for this sort order",
+          },
+          400
+        );
+      }
+
+      // Terms in the search query take precedence over the plain filters
       const result = await TransactionService.findMany({
         userId,
         type: filters.type,
         categoryId: filters.category_id,
+        accountId: filters.account_id,
+        tagId: filters.tag_id,
         startDate: filters.start_date, // Pass date string directly
         endDate: filters.end_date, // Pass date string directly
+        sort: filters.sort,
+        order: filters.order,
         limit: filters.limit,
         offset: filters.offset,
+        cursor,
+        ...search.criteria,
       });
 
       return c.json({
@@ -86,6 +285,72 @@ transactions.get(
   }
 );
 
+// Get both legs of a transfer
+transactions.get("/transfers/:id", async (c) => {
+  try {
+    const userId = getUserId(c);
+    const { id } = c.req.param();
+
+    const transfer = await TransactionService.findTransfer(id, userId);
+
+    if (!transfer) {
+      return c.json(
+        {
+          success: false,
+          error: "Transfer not found",
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: transfer,
+    });
+  } catch (error) {
+    console.error("Error fetching transfer:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch transfer",
+      },
+      500
+    );
+  }
+});
+
+// Suggest categories for a description from the user's own history
+transactions.get(
+  "/suggest-category",
+  zValidator("query", suggestCategorySchema),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const { description, type, limit } = c.req.valid("query");
+
+      const suggestions = await SuggestionService.suggestCategories(
+        userId,
+        description,
+        { type, limit }
+      );
+
+      return c.json({
+        success: true,
+        data: suggestions,
+      });
+    } catch (error) {
+      console.error("Error suggesting categories:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to suggest categories",
+        },
+        500
+      );
+    }
+  }
+);
+
 // Get transaction by ID
 transactions.get("/:id", async (c) => {
   try {
@@ -128,13 +393,52 @@ transactions.post(
     try {
       const userId = getUserId(c);
       const data = c.req.valid("json");
+
+      if (
+        data.account_id &&
+        !(await AccountService.findById(data.account_id, userId))
+      ) {
+        return c.json(
+          {
+            success: false,
+            error: "Account not found",
+          },
+          400
+        );
+      }
+
+      if (
+        data.splits &&
+        !(await TransactionService.splitCategoriesBelongToUser(
+          userId,
+          data.splits
+        ))
+      ) {
+        return c.json(
+          {
+            success: false,
+            error: "Split category not found",
+          },
+          400
+        );
+      }
+
+      // The user's rules may fill in the category, rewrite the description
+      // and add tags
+      const [ruled] = await RuleService.applyToNew(userId, [data]);
+
       const transaction = await TransactionService.create({
         user_id: userId,
-        category_id: data.category_id,
-        amount: data.amount,
-        description: data.description,
-        type: data.type,
-        date: data.date ? data.date : undefined, // Pass date string directly
+        category_id: ruled.category_id,
+        account_id: ruled.account_id,
+        amount: ruled.amount,
+        currency: ruled.currency,
+        description: ruled.description,
+        notes: ruled.notes,
+        type: ruled.type,
+        date: ruled.date ? ruled.date : undefined, // Pass date string directly
+        splits: ruled.splits,
+        tags: ruled.tags,
       });
 
       return c.json(
@@ -158,6 +462,253 @@ transactions.post(
   }
 );
 
+// Transfer money between two of the user's accounts
+transactions.post(
+  "/transfers",
+  zValidator("json", createTransferSchema),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const data = c.req.valid("json");
+
+      const [fromAccount, toAccount] = await Promise.all([
+        AccountService.findById(data.from_account_id, userId),
+        AccountService.findById(data.to_account_id, userId),
+      ]);
+      if (!fromAccount || !toAccount) {
+        return c.json(
+          {
+            success: false,
+            error: "Account not found",
+          },
+          400
+        );
+      }
+
+      const transfer = await TransactionService.createTransfer({
+        user_id: userId,
+        from_account_id: data.from_account_id,
+        to_account_id: data.to_account_id,
+        amount: data.amount,
+        description: data.description,
+        date: data.date,
+      });
+
+      return c.json(
+        {
+          success: true,
+          data: transfer,
+          message: "Transfer created successfully",
+        },
+        201
+      );
+    } catch (error) {
+      console.error("Error creating transfer:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to create transfer",
+        },
+        500
+      );
+    }
+  }
+);
+
+// Update both legs of a transfer
+transactions.put(
+  "/transfers/:id",
+  zValidator("json", updateTransferSchema),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const { id } = c.req.param();
+      const data = c.req.valid("json");
+
+      const existing = await TransactionService.findTransfer(id, userId);
+      if (!existing) {
+        return c.json(
+          {
+            success: false,
+            error: "Transfer not found",
+          },
+          404
+        );
+      }
+
+      // Check the resulting pair, since only one side may be changing
+      const fromAccountId = data.from_account_id ?? existing.from.account_id;
+      const toAccountId = data.to_account_id ?? existing.to.account_id;
+      if (fromAccountId === toAccountId) {
+        return c.json(
+          {
+            success: false,
+            error: "Cannot transfer to the same account",
+          },
+          400
+        );
+      }
+
+      for (const accountId of [data.from_account_id, data.to_account_id]) {
+        if (accountId && !(await AccountService.findById(accountId, userId))) {
+          return c.json(
+            {
+              success: false,
+              error: "Account not found",
+            },
+            400
+          );
+        }
+      }
+
+      const transfer = await TransactionService.updateTransfer(
+        id,
+        userId,
+        data
+      );
+
+      return c.json({
+        success: true,
+        data: transfer,
+        message: "Transfer updated successfully",
+      });
+    } catch (error) {
+      console.error("Error updating transfer:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to update transfer",
+        },
+        500
+      );
+    }
+  }
+);
+
+// Import transactions from a bank CSV (dry run by default)
+transactions.post("/import", zValidator("json", importCsvSchema), async (c) => {
+  try {
+    const userId = getUserId(c);
+    const data = c.req.valid("json");
+    const options = {
+      csv: data.csv,
+      delimiter: data.delimiter,
+      hasHeader: data.has_header,
+      mapping: data.mapping,
+      signConvention: data.sign_convention,
+      dateFormat: data.date_format,
+      decimalSeparator: data.decimal_separator,
+      defaultCategoryId: data.default_category_id,
+      accountId: data.account_id,
+    };
+
+    if (data.dry_run) {
+      const preview = await ImportService.previewCsv(userId, options);
+
+      return c.json({
+        success: true,
+        data: preview,
+      });
+    }
+
+    const result = await ImportService.commitCsv(
+      userId,
+      options,
+      data.skip_invalid
+    );
+
+    return c.json(
+      {
+        success: true,
+        data: result,
+        message: `Imported ${result.imported} transaction(s)`,
+      },
+      201
+    );
+  } catch (error) {
+    console.error("Error importing transactions:", error);
+    if (error instanceof ImportError) {
+      return c.json(
+        {
+          success: false,
+          error: error.message,
+        },
+        400
+      );
+    }
+    return c.json(
+      {
+        success: false,
+        error: "Failed to import transactions",
+      },
+      500
+    );
+  }
+});
+
+// Import an OFX/QFX or QIF statement (dry run by default). Rows already
+// imported from an overlapping statement are detected and skipped.
+transactions.post(
+  "/import/statement",
+  zValidator("json", importStatementSchema),
+  async (c) => {
+    try {
+      const userId = getUserId(c);
+      const data = c.req.valid("json");
+      const options = {
+        content: data.content,
+        format: data.format,
+        dateFormat: data.date_format,
+        decimalSeparator: data.decimal_separator,
+        defaultCategoryId: data.default_category_id,
+        accountId: data.account_id,
+      };
+
+      if (data.dry_run) {
+        const preview = await ImportService.previewStatement(userId, options);
+
+        return c.json({
+          success: true,
+          data: preview,
+        });
+      }
+
+      const result = await ImportService.commitStatement(
+        userId,
+        options,
+        data.skip_invalid
+      );
+
+      return c.json(
+        {
+          success: true,
+          data: result,
+          message: `Imported ${result.imported} transaction(s), skipped ${result.duplicates} duplicate(s)`,
+        },
+        201
+      );
+    } catch (error) {
+      console.error("Error importing statement:", error);
+      if (error instanceof ImportError) {
+        return c.json(
+          {
+            success: false,
+            error: error.message,
+          },
+          400
+        );
+      }
+      return c.json(
+        {
+          success: false,
+          error: "Failed to import statement",
+        },
+        500
+      );
+    }
+  }
+);
+
 // Update transaction
 transactions.put(
   "/:id",
@@ -167,12 +718,109 @@ transactions.put(
       const userId = getUserId(c);
       const { id } = c.req.param();
       const data = c.req.valid("json");
+
+      // Editing one leg of a transfer edits the whole transfer, so both legs
+      // keep the same amount, description and date
+      const existing = await TransactionService.findById(id, userId);
+      if (existing?.transfer_id) {
+        if (
+          data.type !== undefined ||
+          data.category_id !== undefined ||
+          data.account_id !== undefined ||
+          data.currency !== undefined ||
+          data.splits !== undefined
+        ) {
+          return c.json(
+            {
+              success: false,
+              error:
+                "Transfer legs cannot change type, category, account, currency or splits; update the transfer instead",
+            },
+            400
+          );
+        }
+
+        await TransactionService.updateTransfer(existing.transfer_id, userId, {
+          amount: data.amount,
+          description: data.description,
+          date: data.date,
+        });
+        // Notes and tags belong to each leg on its own
+        if (data.notes !== undefined || data.tags !== undefined) {
+          await TransactionService.update(id, userId, {
+            notes: data.notes,
+            tags: data.tags,
+          });
+        }
+
+        return c.json({
+          success: true,
+          data: await TransactionService.findById(id, userId),
+          message: "Transfer updated successfully",
+        });
+      }
+
+      if (
+        data.account_id &&
+        !(await AccountService.findById(data.account_id, userId))
+      ) {
+        return c.json(
+          {
+            success: false,
+            error: "Account not found",
+          },
+          400
+        );
+      }
+
+      if (
+        data.splits &&
+        !(await TransactionService.splitCategoriesBelongToUser(
+          userId,
+          data.splits
+        ))
+      ) {
+        return c.json(
+          {
+            success: false,
+            error: "Split category not found",
+          },
+          400
+        );
+      }
+
+      // New or existing splits must still add up to the resulting amount
+      if (existing) {
+        const amount = data.amount ?? Number(existing.amount);
+        const splits = data.splits ?? existing.splits ?? [];
+        if (
+          splits.length > 0 &&
+          !TransactionService.splitsMatchAmount(
+            amount,
+            splits.map((split) => ({ amount: Number(split.amount) }))
+          )
+        ) {
+          return c.json(
+            {
+              success: false,
+              error: SPLIT_TOTAL_ERROR,
+            },
+            400
+          );
+        }
+      }
+
       const transaction = await TransactionService.update(id, userId, {
         category_id: data.category_id,
+        account_id: data.account_id,
         amount: data.amount,
+        currency: data.currency,
         description: data.description,
+        notes: data.notes,
         type: data.type,
         date: data.date, // Pass date string directly
+        splits: data.splits,
+        tags: data.tags,
       });
 
       if (!transaction) {
@@ -1,7 +1,10 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
+import { stream } from "hono/streaming";
 import { UserService } from "../services/userService";
+import { ExportService } from "../services/exportService";
+import { SearchService } from "../services/searchService";
 import { authMiddleware, getAuthUserId } from "../middleware/auth";
 
 const users = new Hono();
@@ -13,6 +16,12 @@ users.use("*", authMiddleware);
 const updateUserSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters long").optional(),
   email: z.string().email("Invalid email address").optional(),
+  base_currency: z
+    .string()
+    .regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO code, e.g. USD")
+    .optional(),
+  envelope_budgeting: z.boolean().optional(),
+  digest_frequency: z.enum(["none", "weekly", "monthly"]).optional(),
 });
 
 const changePasswordSchema = z.object({
@@ -22,6 +31,27 @@ const changePasswordSchema = z.object({
     .min(8, "New password must be at least 8 characters long"),
 });
 
+// Date validation helper - accepts YYYY-MM-DD format
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+// Same filters as GET /api/transactions, without sorting or paging
+const exportSchema = z.object({
+  format: z.enum(["csv", "json", "ofx"]).default("json"),
+  resource: z
+    .enum(["transactions", "categories", "budgets"])
+    .default("transactions"),
+  type: z.enum(["income", "expense", "transfer"]).optional(),
+  category_id: z.string().uuid().optional(),
+  account_id: z.string().uuid().optional(),
+  tag_id: z.string().uuid().optional(),
+  start_date: dateSchema.optional(),
+  end_date: dateSchema.optional(),
+  // Search box query, e.g. amount>50 category:Groceries "coffee"
+  q: z.string().max(500).optional(),
+});
+
 // Get current user profile
 users.get("/profile", async (c) => {
   try {
@@ -95,7 +125,28 @@ users.put("/profile", zValidator("json", updateUserSchema), async (c) => {
       }
     }
 
-    const updatedUser = await UserService.update(userId, updateData);
+    const {
+      base_currency,
+      envelope_budgeting,
+      digest_frequency,
+      ...profileData
+    } = updateData;
+    if (base_currency) {
+      await UserService.setBaseCurrency(userId, base_currency);
+    }
+    if (envelope_budgeting !== undefined) {
+      await UserService.setEnvelopeBudgeting(userId, envelope_budgeting);
+    }
+    if (digest_frequency) {
+      await UserService.setDigestFrequency(userId, digest_frequency);
+    }
+
+    // The settings may have been the only change
+    const settingsChanged =
+      base_currency || envelope_budgeting !== undefined || digest_frequency;
+    const updatedUser =
+      (await UserService.update(userId, profileData)) ??
+      (settingsChanged ? await UserService.findById(userId) : null);
     if (!updatedUser) {
       return c.json(
         {
@@ -234,6 +285,77 @@ users.get("/stats", async (c) => {
   }
 });
 
+// Export the user's data as CSV, a JSON archive or an OFX statement
+users.get("/export", zValidator("query", exportSchema), async (c) => {
+  try {
+    const userId = getAuthUserId(c);
+    if (!userId) {
+      return c.json(
+        {
+          success: false,
+          error: "User not found",
+        },
+        401
+      );
+    }
+
+    const query = c.req.valid("query");
+
+    const search = SearchService.parse(query.q ?? "");
+    if (search.errors.length > 0) {
+      return c.json(
+        {
+          success: false,
+          error: `Could not understand the search: ${search.errors.join("; ")}`,
+        },
+        400
+      );
+    }
+
+    // Terms in the search query take precedence over the plain filters
+    const options = {
+      format: query.format,
+      resource: query.resource,
+      filters: {
+        type: query.type,
+        categoryId: query.category_id,
+        accountId: query.account_id,
+        tagId: query.tag_id,
+        startDate: query.start_date,
+        endDate: query.end_date,
+        ...search.criteria,
+      },
+    };
+    const { fileName, contentType } = ExportService.describe(options);
+
+    c.header("Content-Type", contentType);
+    c.header("Content-Disposition", `attachment; filename="${fileName}"`);
+    c.header("Cache-Control", "no-store");
+
+    return stream(
+      c,
+      async (output) => {
+        for await (const chunk of ExportService.generate(userId, options)) {
+          await output.write(chunk);
+        }
+      },
+      async (error) => {
+        // Headers are already sent, so the client just sees a truncated file
+        console.error("Export data stream error:", error);
+      }
+    );
+  } catch (error) {
+    console.error("Export data error:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to export data",
+      },
+      500
+    );
+  }
+});
+
 // Delete user account
 users.delete("/account", async (c) => {
   try {
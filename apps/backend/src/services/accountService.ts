@@ -0,0 +1,266 @@
+import { sql } from "../db/connection";
+import { env } from "../config/env";
+import { Transaction } from "./transactionService";
+
+// ===== TYPE DEFINITIONS =====
+
+export type AccountType = "checking" | "savings" | "credit_card" | "cash";
+
+export interface Account {
+  id: string;
+  user_id: string;
+  name: string;
+  type: AccountType;
+  opening_balance: number; // credit cards usually open at a negative balance
+  currency: string; // ISO 4217 code
+  created_at: Date;
+  updated_at: Date;
+  // Calculated fields
+  balance?: number; // opening balance plus money in minus money out, in currency
+  transaction_count?: number;
+}
+
+export interface CreateAccountData {
+  user_id: string;
+  name: string;
+  type: AccountType;
+  opening_balance?: number;
+  currency?: string;
+}
+
+export interface UpdateAccountData {
+  name?: string;
+  type?: AccountType;
+  opening_balance?: number;
+  currency?: string;
+}
+
+export interface LedgerFilters {
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+  limit?: number;
+  offset?: number;
+}
+
+export interface LedgerEntry extends Transaction {
+  running_balance: number; // account balance after this transaction
+}
+
+export interface Ledger {
+  account: Account;
+  entries: LedgerEntry[]; // newest first
+  total: number;
+}
+
+// Numeric columns come back from Postgres as strings
+const normalizeAccount = (row: any): Account => ({
+  ...row,
+  opening_balance: parseFloat(String(row.opening_balance || "0")),
+  ...(row.balance !== undefined && {
+    balance: parseFloat(String(row.balance || "0")),
+  }),
+  ...(row.transaction_count !== undefined && {
+    transaction_count: parseInt(String(row.transaction_count || "0")),
+  }),
+});
+
+// ===== SERVICE CLASS =====
+
+export class AccountService {
+  // Create a new account
+  static async create(accountData: CreateAccountData): Promise<Account> {
+    const {
+      user_id,
+      name,
+      type,
+      opening_balance = 0,
+      currency = "USD",
+    } = accountData;
+
+    const result = await sql`
+      INSERT INTO accounts (user_id, name, type, opening_balance, currency)
+      VALUES (${user_id}, ${name}, ${type}, ${opening_balance}, ${currency})
+      RETURNING *
+    `;
+
+    return normalizeAccount({
+      ...result[0],
+      balance: result[0].opening_balance,
+      transaction_count: 0,
+    });
+  }
+
+  // Get all accounts for a user with their current balances
+  static async findByUserId(userId: string): Promise<Account[]> {
+    const result = await sql`
+      SELECT
+        a.*,
+        a.opening_balance + COALESCE(SUM(
+          (CASE WHEN t.type = 'income' OR t.transfer_direction = 'in' THEN t.amount ELSE -t.amount END)
+            * fx_rate(t.user_id, t.currency, a.currency, t.date)
+        ), 0) as balance,
+        COUNT(t.id) as transaction_count
+      FROM accounts a
+      LEFT JOIN transactions t ON t.account_id = a.id
+      WHERE a.user_id = ${userId}
+      GROUP BY a.id
+      ORDER BY a.name
+    `;
+
+    return result.map(normalizeAccount);
+  }
+
+  // Find account by ID, including its current balance
+  static async findById(id: string, userId: string): Promise<Account | null> {
+    const result = await sql`
+      SELECT
+        a.*,
+        a.opening_balance + COALESCE(SUM(
+          (CASE WHEN t.type = 'income' OR t.transfer_direction = 'in' THEN t.amount ELSE -t.amount END)
+            * fx_rate(t.user_id, t.currency, a.currency, t.date)
+        ), 0) as balance,
+        COUNT(t.id) as transaction_count
+      FROM accounts a
+      LEFT JOIN transactions t ON t.account_id = a.id
+      WHERE a.id = ${id} AND a.user_id = ${userId}
+      GROUP BY a.id
+    `;
+
+    return result.length > 0 ? normalizeAccount(result[0]) : null;
+  }
+
+  // Update account
+  static async update(
+    id: string,
+    userId: string,
+    updateData: UpdateAccountData
+  ): Promise<Account | null> {
+    const { name, type, opening_balance, currency } = updateData;
+
+    // Build update query based on provided fields
+    const updateFields: string[] = [];
+    const values: any[] = [];
+
+    if (name !== undefined) {
+      updateFields.push("name = $" + (values.length + 1));
+      values.push(name);
+    }
+
+    if (type !== undefined) {
+      updateFields.push("type = $" + (values.length + 1));
+      values.push(type);
+    }
+
+    if (opening_balance !== undefined) {
+      updateFields.push("opening_balance = $" + (values.length + 1));
+      values.push(opening_balance);
+    }
+
+    if (currency !== undefined) {
+      updateFields.push("currency = $" + (values.length + 1));
+      values.push(currency);
+    }
+
+    if (updateFields.length === 0) {
+      return null; // No fields to update
+    }
+
+    values.push(id, userId);
+    const result = await sql.unsafe(
+      `
+      UPDATE accounts
+      SET ${updateFields.join(", ")}
+      WHERE id = $${values.length - 1} AND user_id = $${values.length}
+      RETURNING id
+    `,
+      values
+    );
+
+    return result.length > 0 ? this.findById(id, userId) : null;
+  }
+
+  // Delete account; its transactions are kept but no longer assigned
+  static async delete(id: string, userId: string): Promise<boolean> {
+    const result = await sql`
+      DELETE FROM accounts
+      WHERE id = ${id} AND user_id = ${userId}
+      RETURNING id
+    `;
+
+    return result.length > 0;
+  }
+
+  // Check if account name exists for user
+  static async existsByName(
+    name: string,
+    userId: string,
+    excludeId?: string
+  ): Promise<boolean> {
+    const result = await sql`
+      SELECT COUNT(*) as count
+      FROM accounts
+      WHERE name = ${name} AND user_id = ${userId}
+        AND (${excludeId ?? null}::uuid IS NULL OR id != ${excludeId ?? null})
+    `;
+
+    return parseInt((result[0] as any).count) > 0;
+  }
+
+  // Transactions of one account with the balance after each of them. The
+  // running balance is computed over the whole history before the date range
+  // and paging are applied, so every page shows true balances.
+  static async getLedger(
+    id: string,
+    userId: string,
+    filters: LedgerFilters = {}
+  ): Promise<Ledger | null> {
+    const account = await this.findById(id, userId);
+    if (!account) {
+      return null;
+    }
+
+    const startDate = filters.startDate ?? null;
+    const endDate = filters.endDate ?? null;
+    const limit = filters.limit ?? env.DEFAULT_PAGE_SIZE;
+    const offset = filters.offset ?? 0;
+
+    const result = await sql`
+      SELECT * FROM (
+        SELECT
+          t.*,
+          c.name as category_name,
+          c.color as category_color,
+          ta.name as transfer_account_name,
+          ${account.opening_balance}::numeric + SUM(
+            (CASE WHEN t.type = 'income' OR t.transfer_direction = 'in' THEN t.amount ELSE -t.amount END)
+            * fx_rate(t.user_id, t.currency, ${account.currency}, t.date)
+          ) OVER (ORDER BY t.date, t.created_at, t.id) as running_balance
+        FROM transactions t
+        LEFT JOIN categories c ON t.category_id = c.id
+        LEFT JOIN transactions tp ON tp.transfer_id = t.transfer_id AND tp.id != t.id
+        LEFT JOIN accounts ta ON tp.account_id = ta.id
+        WHERE t.account_id = ${id} AND t.user_id = ${userId}
+      ) ledger
+      WHERE (${startDate}::date IS NULL OR ledger.date >= ${startDate})
+        AND (${endDate}::date IS NULL OR ledger.date <= ${endDate})
+      ORDER BY ledger.date DESC, ledger.created_at DESC, ledger.id DESC
+      LIMIT ${limit} OFFSET ${offset}
+    `;
+
+    const countResult = await sql`
+      SELECT COUNT(*) as total FROM transactions t
+      WHERE t.account_id = ${id} AND t.user_id = ${userId}
+        AND (${startDate}::date IS NULL OR t.date >= ${startDate})
+        AND (${endDate}::date IS NULL OR t.date <= ${endDate})
+    `;
+
+    return {
+      account,
+      entries: result.map((row: any) => ({
+        ...row,
+        running_balance: parseFloat(row.running_balance),
+      })),
+      total: parseInt(countResult[0]?.total || "0"),
+    };
+  }
+}
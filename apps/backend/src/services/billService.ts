@@ -0,0 +1,581 @@
+import { sql } from "../db/connection";
+import { env } from "../config/env";
+
+// ===== TYPE DEFINITIONS =====
+
+export type BillFrequency = "weekly" | "monthly" | "quarterly" | "yearly";
+export type BillAmountType = "fixed" | "estimated";
+export type BillStatus = "paid" | "overdue" | "upcoming";
+
+export interface Bill {
+  id: string;
+  user_id: string;
+  payee: string;
+  amount: number; // in the base currency
+  amount_type: BillAmountType;
+  frequency: BillFrequency;
+  due_day: number; // weekday (0 = Sunday) for weekly bills, else day of month
+  due_month: number | null; // quarterly (any month of the cycle) and yearly
+  autopay: boolean;
+  match_text: string | null; // defaults to the payee
+  start_date: Date;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+  // Calculated fields
+  next_due_date?: string | null; // earliest unpaid due date from today
+}
+
+export interface CreateBillData {
+  payee: string;
+  amount: number;
+  amount_type?: BillAmountType;
+  frequency: BillFrequency;
+  due_day: number;
+  due_month?: number;
+  autopay?: boolean;
+  match_text?: string;
+  start_date?: string; // YYYY-MM-DD, defaults to today
+}
+
+export interface UpdateBillData {
+  payee?: string;
+  amount?: number;
+  amount_type?: BillAmountType;
+  frequency?: BillFrequency;
+  due_day?: number;
+  due_month?: number | null;
+  autopay?: boolean;
+  match_text?: string | null;
+  start_date?: string;
+  is_active?: boolean;
+}
+
+export interface BillPayment {
+  id: string;
+  bill_id: string;
+  user_id: string;
+  due_date: Date;
+  transaction_id: string | null; // null when marked paid by hand
+  amount: number;
+  paid_on: Date;
+  created_at: Date;
+}
+
+// One due date of a bill
+export interface BillOccurrence {
+  bill_id: string;
+  payee: string;
+  amount: number;
+  amount_type: BillAmountType;
+  autopay: boolean;
+  due_date: string; // YYYY-MM-DD
+  status: BillStatus;
+  payment: {
+    transaction_id: string | null;
+    amount: number;
+    paid_on: string; // YYYY-MM-DD
+  } | null;
+}
+
+// Internal interface for transactions that may pay a bill
+interface CandidateTransactionRow {
+  id: string;
+  description: string;
+  date: Date;
+  amount: string; // in the base currency
+}
+
+// ===== DATE HELPERS =====
+
+const toDateString = (date: Date): string => date.toISOString().split("T")[0];
+
+const todayString = (): string => toDateString(new Date());
+
+function fromParts(year: number, month: number, day: number): string {
+  return toDateString(new Date(Date.UTC(year, month - 1, day)));
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return fromParts(year, month, day + days);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) /
+      86_400_000
+  );
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+const MONTHS_BETWEEN_DUE_DATES: Record<
+  Exclude<BillFrequency, "weekly">,
+  number
+> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+// Due dates in [from, through], never before the bill's start date. Days
+// past the end of a short month fall on its last day.
+export function dueDatesBetween(
+  bill: Pick<Bill, "frequency" | "due_day" | "due_month" | "start_date">,
+  from: string,
+  through: string
+): string[] {
+  const startDate = toDateString(new Date(bill.start_date));
+  const start = from > startDate ? from : startDate;
+  const dates: string[] = [];
+
+  if (bill.frequency === "weekly") {
+    const weekday = new Date(`${start}T00:00:00Z`).getUTCDay();
+    for (
+      let date = addDays(start, (bill.due_day - weekday + 7) % 7);
+      date <= through;
+      date = addDays(date, 7)
+    ) {
+      dates.push(date);
+    }
+    return dates;
+  }
+
+  const step = MONTHS_BETWEEN_DUE_DATES[bill.frequency];
+  const anchor = (bill.due_month ?? 1) - 1;
+  const [year, month] = start.split("-").map(Number);
+
+  for (let index = year * 12 + (month - 1); ; index++) {
+    // Steps divide 12, so this keeps the months in the bill's cycle
+    if ((index - anchor) % step !== 0) {
+      continue;
+    }
+
+    const targetYear = Math.floor(index / 12);
+    const targetMonth = (index % 12) + 1;
+    const date = fromParts(
+      targetYear,
+      targetMonth,
+      Math.min(bill.due_day, daysInMonth(targetYear, targetMonth))
+    );
+    if (date > through) {
+      break;
+    }
+    if (date >= start) {
+      dates.push(date);
+    }
+  }
+
+  return dates;
+}
+
+// ===== HELPERS =====
+
+const normalizeBill = (row: any): Bill => ({
+  ...row,
+  amount: parseFloat(row.amount),
+});
+
+const descriptionMatches = (bill: Bill, description: string): boolean =>
+  description
+    .toLowerCase()
+    .includes((bill.match_text || bill.payee).toLowerCase());
+
+// Fixed bills must match to the cent; estimated ones within the tolerance
+function amountMatches(bill: Bill, amount: number): boolean {
+  const tolerance =
+    bill.amount_type === "fixed"
+      ? 0.005
+      : (bill.amount * env.BILL_ESTIMATE_TOLERANCE_PERCENT) / 100;
+  return Math.abs(amount - bill.amount) <= tolerance;
+}
+
+// ===== SERVICE CLASS =====
+
+export class BillService {
+  // Create a bill and mark any recent payments of it
+  static async create(userId: string, data: CreateBillData): Promise<Bill> {
+    const result = await sql`
+      INSERT INTO bills (
+        user_id, payee, amount, amount_type, frequency, due_day, due_month,
+        autopay, match_text, start_date
+      )
+      VALUES (
+        ${userId}, ${data.payee}, ${data.amount},
+        ${data.amount_type ?? "fixed"}, ${data.frequency}, ${data.due_day},
+        ${
+          data.frequency === "quarterly" || data.frequency === "yearly"
+            ? data.due_month ?? null
+            : null
+        },
+        ${data.autopay ?? false}, ${data.match_text || null},
+        ${data.start_date ?? todayString()}
+      )
+      RETURNING *
+    `;
+
+    const bill = normalizeBill(result[0]);
+    await this.matchBill(bill);
+
+    return (await this.findById(bill.id, userId))!;
+  }
+
+  // Get all bills for a user with their next unpaid due date
+  static async findByUserId(userId: string): Promise<Bill[]> {
+    const result = await sql`
+      SELECT * FROM bills
+      WHERE user_id = ${userId}
+      ORDER BY is_active DESC, payee ASC
+    `;
+
+    return this.withNextDueDate(userId, result.map(normalizeBill));
+  }
+
+  // Find bill by ID
+  static async findById(id: string, userId: string): Promise<Bill | null> {
+    const result = await sql`
+      SELECT * FROM bills WHERE id = ${id} AND user_id = ${userId}
+    `;
+    if (result.length === 0) {
+      return null;
+    }
+
+    const [bill] = await this.withNextDueDate(userId, [
+      normalizeBill(result[0]),
+    ]);
+    return bill;
+  }
+
+  // Update a bill. Payments already recorded are kept.
+  static async update(
+    id: string,
+    userId: string,
+    data: UpdateBillData
+  ): Promise<Bill | null> {
+    const existing = await this.findById(id, userId);
+    if (!existing) {
+      return null;
+    }
+
+    const frequency = data.frequency ?? existing.frequency;
+    const dueMonth =
+      frequency === "quarterly" || frequency === "yearly"
+        ? data.due_month !== undefined
+          ? data.due_month
+          : existing.due_month
+        : null;
+
+    await sql`
+      UPDATE bills
+      SET
+        payee = ${data.payee ?? existing.payee},
+        amount = ${data.amount ?? existing.amount},
+        amount_type = ${data.amount_type ?? existing.amount_type},
+        frequency = ${frequency},
+        due_day = ${data.due_day ?? existing.due_day},
+        due_month = ${dueMonth},
+        autopay = ${data.autopay ?? existing.autopay},
+        match_text = ${
+          data.match_text !== undefined
+            ? data.match_text || null
+            : existing.match_text
+        },
+        start_date = ${data.start_date ?? toDateString(existing.start_date)},
+        is_active = ${data.is_active ?? existing.is_active}
+      WHERE id = ${id} AND user_id = ${userId}
+    `;
+
+    const updated = (await this.findById(id, userId))!;
+    if (updated.is_active) {
+      await this.matchBill(updated);
+    }
+    return this.findById(id, userId);
+  }
+
+  // Delete a bill and its payment records; transactions are kept
+  static async delete(id: string, userId: string): Promise<boolean> {
+    const result = await sql`
+      DELETE FROM bills
+      WHERE id = ${id} AND user_id = ${userId}
+      RETURNING id
+    `;
+
+    return result.length > 0;
+  }
+
+  // Every due date of the user's active bills in [start, end], with whether
+  // it has been paid
+  static async getOccurrences(
+    userId: string,
+    start: string,
+    end: string
+  ): Promise<BillOccurrence[]> {
+    const [bills, payments] = await Promise.all([
+      sql`
+        SELECT * FROM bills
+        WHERE user_id = ${userId} AND is_active = TRUE
+      `,
+      sql`
+        SELECT * FROM bill_payments
+        WHERE user_id = ${userId}
+          AND due_date >= ${start} AND due_date <= ${end}
+      `,
+    ]);
+
+    const paymentsByDueDate = new Map(
+      (payments as BillPayment[]).map((payment) => [
+        `${payment.bill_id}:${toDateString(payment.due_date)}`,
+        payment,
+      ])
+    );
+    const today = todayString();
+
+    return bills
+      .map(normalizeBill)
+      .flatMap((bill: Bill) =>
+        dueDatesBetween(bill, start, end).map((dueDate): BillOccurrence => {
+          const payment = paymentsByDueDate.get(`${bill.id}:${dueDate}`);
+          return {
+            bill_id: bill.id,
+            payee: bill.payee,
+            amount: bill.amount,
+            amount_type: bill.amount_type,
+            autopay: bill.autopay,
+            due_date: dueDate,
+            status: payment ? "paid" : dueDate < today ? "overdue" : "upcoming",
+            payment: payment
+              ? {
+                  transaction_id: payment.transaction_id,
+                  amount: parseFloat(String(payment.amount)),
+                  paid_on: toDateString(payment.paid_on),
+                }
+              : null,
+          };
+        })
+      )
+      .sort(
+        (a: BillOccurrence, b: BillOccurrence) =>
+          a.due_date.localeCompare(b.due_date) || a.payee.localeCompare(b.payee)
+      );
+  }
+
+  // Unpaid due dates over the next `days` days. Overdue ones stay listed
+  // while a late payment could still be matched to them.
+  static async getUpcoming(
+    userId: string,
+    days: number
+  ): Promise<BillOccurrence[]> {
+    const today = todayString();
+    const occurrences = await this.getOccurrences(
+      userId,
+      addDays(today, -env.BILL_MATCH_WINDOW_DAYS),
+      addDays(today, days)
+    );
+
+    return occurrences.filter((occurrence) => occurrence.status !== "paid");
+  }
+
+  // Mark a due date as paid without a matching transaction
+  static async markPaid(
+    id: string,
+    userId: string,
+    dueDate: string,
+    amount?: number
+  ): Promise<BillPayment> {
+    const bill = await this.assertDueDate(id, userId, dueDate);
+
+    const result = await sql`
+      INSERT INTO bill_payments (bill_id, user_id, due_date, amount, paid_on)
+      VALUES (${id}, ${userId}, ${dueDate}, ${
+      amount ?? bill.amount
+    }, ${todayString()})
+      ON CONFLICT (bill_id, due_date) DO NOTHING
+      RETURNING *
+    `;
+    if (result.length === 0) {
+      throw new Error("This due date is already paid");
+    }
+
+    return result[0] as BillPayment;
+  }
+
+  // Clear the payment for a due date; a transaction that paid it is kept
+  static async markUnpaid(
+    id: string,
+    userId: string,
+    dueDate: string
+  ): Promise<boolean> {
+    const result = await sql`
+      DELETE FROM bill_payments
+      WHERE bill_id = ${id} AND user_id = ${userId} AND due_date = ${dueDate}
+      RETURNING id
+    `;
+
+    return result.length > 0;
+  }
+
+  // Mark bills paid by new or edited transactions
+  static async matchTransactions(
+    userId: string,
+    transactionIds: string[]
+  ): Promise<number> {
+    if (transactionIds.length === 0) {
+      return 0;
+    }
+
+    const bills = await sql`
+      SELECT * FROM bills
+      WHERE user_id = ${userId} AND is_active = TRUE
+    `;
+    if (bills.length === 0) {
+      return 0;
+    }
+
+    const transactions = await sql`
+      SELECT t.id, t.description, t.date,
+        to_base_currency(t.user_id, t.amount, t.currency, t.date) as amount
+      FROM transactions t
+      WHERE t.user_id = ${userId}
+        AND t.id IN ${sql(transactionIds)}
+        AND t.type = 'expense'
+        AND NOT EXISTS (
+          SELECT 1 FROM bill_payments p WHERE p.transaction_id = t.id
+        )
+      ORDER BY t.date
+    `;
+
+    return this.link(
+      userId,
+      bills.map(normalizeBill),
+      transactions as CandidateTransactionRow[]
+    );
+  }
+
+  // Mark due dates of one bill paid by transactions already recorded
+  private static async matchBill(bill: Bill): Promise<number> {
+    const from = addDays(
+      toDateString(new Date(bill.start_date)),
+      -env.BILL_MATCH_WINDOW_DAYS
+    );
+
+    const transactions = await sql`
+      SELECT t.id, t.description, t.date,
+        to_base_currency(t.user_id, t.amount, t.currency, t.date) as amount
+      FROM transactions t
+      WHERE t.user_id = ${bill.user_id}
+        AND t.type = 'expense'
+        AND t.date >= ${from}
+        AND t.description ILIKE ${`%${bill.match_text || bill.payee}%`}
+        AND NOT EXISTS (
+          SELECT 1 FROM bill_payments p WHERE p.transaction_id = t.id
+        )
+      ORDER BY t.date
+    `;
+
+    return this.link(
+      bill.user_id,
+      [bill],
+      transactions as CandidateTransactionRow[]
+    );
+  }
+
+  // A transaction pays a bill when its description contains the bill's match
+  // text, its amount fits the bill's, and an unpaid due date is within
+  // BILL_MATCH_WINDOW_DAYS of it. The nearest such due date is marked paid,
+  // and the closest amount wins when several bills fit.
+  // Returns the number of transactions linked.
+  private static async link(
+    userId: string,
+    bills: Bill[],
+    transactions: CandidateTransactionRow[]
+  ): Promise<number> {
+    let linked = 0;
+
+    for (const transaction of transactions) {
+      const date = toDateString(new Date(transaction.date));
+      const amount = parseFloat(transaction.amount);
+      const candidates = bills
+        .filter(
+          (bill) =>
+            descriptionMatches(bill, transaction.description) &&
+            amountMatches(bill, amount)
+        )
+        .sort(
+          (a, b) => Math.abs(a.amount - amount) - Math.abs(b.amount - amount)
+        );
+
+      search: for (const bill of candidates) {
+        const dueDates = dueDatesBetween(
+          bill,
+          addDays(date, -env.BILL_MATCH_WINDOW_DAYS),
+          addDays(date, env.BILL_MATCH_WINDOW_DAYS)
+        ).sort(
+          (a, b) =>
+            Math.abs(daysBetween(a, date)) - Math.abs(daysBetween(b, date))
+        );
+
+        for (const dueDate of dueDates) {
+          // Skips due dates already paid and transactions already linked
+          const result = await sql`
+            INSERT INTO bill_payments (bill_id, user_id, due_date, transaction_id, amount, paid_on)
+            VALUES (${bill.id}, ${userId}, ${dueDate}, ${transaction.id}, ${amount}, ${date})
+            ON CONFLICT DO NOTHING
+            RETURNING id
+          `;
+          if (result.length > 0) {
+            linked++;
+            break search;
+          }
+        }
+      }
+    }
+
+    return linked;
+  }
+
+  // Fill in each bill's next unpaid due date
+  private static async withNextDueDate(
+    userId: string,
+    bills: Bill[]
+  ): Promise<Bill[]> {
+    const today = todayString();
+    const payments = await sql`
+      SELECT bill_id, due_date FROM bill_payments
+      WHERE user_id = ${userId} AND due_date >= ${today}
+    `;
+    const paid = new Set(
+      payments.map(
+        (payment: any) =>
+          `${payment.bill_id}:${toDateString(new Date(payment.due_date))}`
+      )
+    );
+
+    return bills.map((bill) => ({
+      ...bill,
+      next_due_date: bill.is_active
+        ? dueDatesBetween(bill, today, addDays(today, 366 * 2)).find(
+            (date) => !paid.has(`${bill.id}:${date}`)
+          ) ?? null
+        : null,
+    }));
+  }
+
+  private static async assertDueDate(
+    id: string,
+    userId: string,
+    dueDate: string
+  ): Promise<Bill> {
+    const bill = await this.findById(id, userId);
+    if (!bill) {
+      throw new Error("Bill not found");
+    }
+
+    if (!dueDatesBetween(bill, dueDate, dueDate).includes(dueDate)) {
+      throw new Error("That date is not a due date of this bill");
+    }
+    return bill;
+  }
+}
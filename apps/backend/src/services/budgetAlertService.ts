@@ -0,0 +1,167 @@
+import { sql } from "../db/connection";
+import { env } from "../config/env";
+import { BudgetService, BudgetAlert } from "./budgetService";
+import { NotificationService, formatMoney } from "./notificationService";
+import { UserService } from "./userService";
+
+// ===== HELPERS =====
+
+// Budgets are told apart by category, plus the period budget for those
+const alertKey = (categoryId: string, periodBudgetId: string | null) =>
+  `${categoryId}:${periodBudgetId ?? ""}`;
+
+const periodBudgetId = (alert: BudgetAlert) =>
+  alert.kind === "period" ? alert.budget_id : null;
+
+function describeAlert(alert: BudgetAlert, currency: string) {
+  const period =
+    alert.kind === "monthly"
+      ? "this month"
+      : `${alert.period_start} to ${alert.period_end}`;
+  const title =
+    alert.threshold >= 100
+      ? `${alert.category_name} is over budget`
+      : `${alert.category_name} has reached ${alert.threshold}% of its budget`;
+  const message = `${formatMoney(
+    alert.spent_amount,
+    currency
+  )} spent of ${formatMoney(alert.limit_amount, currency)} (${Math.round(
+    alert.percentage_used
+  )}%) for ${period}.`;
+
+  return { title, message };
+}
+
+// ===== SERVICE CLASS =====
+
+export class BudgetAlertService {
+  private static pending = new Map<string, ReturnType<typeof setTimeout>>();
+
+  // Check a user's budgets shortly after their transactions change. Writes
+  // close together (an import, a recurring run) are checked once. The request
+  // is also recorded on the user, so evaluatePending still makes the check
+  // if this process stops before the timer fires.
+  static schedule(userId: string): void {
+    sql`
+      UPDATE users SET budget_alerts_requested_at = NOW() WHERE id = ${userId}
+    `.catch((error) =>
+      console.error(`Failed to record budget alert check for ${userId}:`, error)
+    );
+
+    clearTimeout(this.pending.get(userId));
+    this.pending.set(
+      userId,
+      setTimeout(() => {
+        this.pending.delete(userId);
+        this.evaluate(userId).catch((error) =>
+          console.error(
+            `Failed to evaluate budget alerts for ${userId}:`,
+            error
+          )
+        );
+      }, env.BUDGET_ALERT_DELAY_MS)
+    );
+  }
+
+  // Check every user whose requested budget alert check hasn't run, e.g.
+  // because the server restarted first. Requests newer than
+  // BUDGET_ALERT_DELAY_MS are left to the timer that is about to run them.
+  // Returns the number of users checked.
+  static async evaluatePending(): Promise<number> {
+    const result = await sql`
+      SELECT id FROM users
+      WHERE budget_alerts_requested_at
+        < NOW() - ${env.BUDGET_ALERT_DELAY_MS} * INTERVAL '1 millisecond'
+    `;
+
+    for (const { id } of result as { id: string }[]) {
+      // A failed check keeps its request, so the next run tries it again
+      await this.evaluate(id).catch((error) =>
+        console.error(`Failed to evaluate budget alerts for ${id}:`, error)
+      );
+    }
+    return result.length;
+  }
+
+  // Fire every threshold reached in the current periods that has not fired
+  // yet, then clear the user's pending check request. A request made while
+  // this runs is newer than the one read here and is kept.
+  // Returns the alerts that fired.
+  static async evaluate(userId: string): Promise<BudgetAlert[]> {
+    const requested = await sql`
+      SELECT budget_alerts_requested_at::text as requested_at
+      FROM users WHERE id = ${userId}
+    `;
+    const requestedAt: string | null = requested[0]?.requested_at ?? null;
+
+    const fired = await this.fire(userId);
+
+    if (requestedAt) {
+      await sql`
+        UPDATE users SET budget_alerts_requested_at = NULL
+        WHERE id = ${userId}
+          AND budget_alerts_requested_at = ${requestedAt}::timestamp
+      `;
+    }
+    return fired;
+  }
+
+  // Each threshold fires once per budget and period; the unique index on
+  // budget_alert_events makes this safe to run concurrently.
+  private static async fire(userId: string): Promise<BudgetAlert[]> {
+    const alerts = await BudgetService.getBudgetAlerts(userId);
+    if (alerts.length === 0) {
+      return [];
+    }
+
+    const events = alerts.flatMap((alert) =>
+      alert.alert_thresholds
+        .filter((threshold) => threshold <= alert.threshold)
+        .map((threshold) => ({
+          category_id: alert.category_id,
+          period_budget_id: periodBudgetId(alert),
+          period_start: alert.period_start,
+          threshold,
+        }))
+    );
+    const inserted = await sql`
+      INSERT INTO budget_alert_events (user_id, category_id, period_budget_id, period_start, threshold)
+      SELECT ${userId}, e.category_id, e.period_budget_id, e.period_start, e.threshold
+      FROM json_to_recordset(${JSON.stringify(events)}::json)
+        AS e(category_id uuid, period_budget_id uuid, period_start date, threshold int)
+      ON CONFLICT DO NOTHING
+      RETURNING category_id, period_budget_id
+    `;
+    const firedKeys = new Set(
+      inserted.map((row: any) =>
+        alertKey(row.category_id, row.period_budget_id)
+      )
+    );
+    const fired = alerts.filter((alert) =>
+      firedKeys.has(alertKey(alert.category_id, periodBudgetId(alert)))
+    );
+    if (fired.length === 0) {
+      return [];
+    }
+
+    const user = await UserService.findById(userId);
+    const currency = user?.base_currency ?? "USD";
+    await NotificationService.notify(
+      userId,
+      fired.map((alert) => ({
+        type: "budget_threshold",
+        ...describeAlert(alert, currency),
+        link: "/budgets",
+        data: {
+          category_id: alert.category_id,
+          budget_id: alert.budget_id,
+          kind: alert.kind,
+          period_start: alert.period_start,
+          threshold: alert.threshold,
+        },
+      }))
+    );
+
+    return fired;
+  }
+}
@@ -1,8 +1,18 @@
 import { sql } from "../db/connection";
 import { env } from "../config/env";
+import {
+  BudgetPeriodUnit,
+  PeriodBudgetService,
+  todayString,
+} from "./periodBudgetService";
 
 // ===== TYPE DEFINITIONS =====
 
+// What happens to a month's leftover (limit minus spending) at month end:
+// a surplus, a deficit, or both can be carried into the next month's budget
+// for the same category
+export type RolloverMode = "none" | "surplus" | "deficit" | "both";
+
 export interface Budget {
   id: string;
   user_id: string;
@@ -10,6 +20,8 @@ export interface Budget {
   month: number;
   year: number;
   limit_amount: number;
+  rollover_mode: RolloverMode;
+  envelope_synced: boolean; // created by envelope assignments, not by hand
   created_at: Date;
   updated_at: Date;
 }
@@ -19,28 +31,172 @@ export interface CreateBudgetData {
   month: number;
   year: number;
   limit_amount: number;
+  rollover_mode?: RolloverMode;
 }
 
 export interface UpdateBudgetData {
   limit_amount?: number;
+  rollover_mode?: RolloverMode;
 }
 
+// A category's budget for a month: its budgets row when it has one, else its
+// default monthly budget (categories.budget), which has no id
 export interface BudgetWithCategoryInfo {
-  id: string;
-  user_id: string;
+  id: string | null;
   category_id: string;
+  category_parent_id: string | null;
   category_name: string;
   category_color: string;
+  is_default: boolean;
   month: number;
   year: number;
   limit_amount: number;
+  rollover_mode: RolloverMode;
+  carried_in: number; // from the previous month; negative for a deficit
+  effective_limit: number; // limit_amount + carried_in
+  spent_amount: number; // includes subcategories
+  remaining_amount: number; // against the effective limit
+  percentage_used: number;
+  alert_thresholds: number[]; // set on the category
+}
+
+// A budget that has reached one of its alert thresholds in the period being
+// looked at. Monthly budgets and period budgets are reported the same way; a
+// monthly budget's period is its calendar month.
+export interface BudgetAlert {
+  budget_id: string | null; // null for a category's default budget
+  kind: "monthly" | "period";
+  category_id: string;
+  category_name: string;
+  category_color: string;
+  period_unit: BudgetPeriodUnit;
+  period_length: number;
+  period_start: string; // YYYY-MM-DD
+  period_end: string; // YYYY-MM-DD
+  limit_amount: number; // the effective limit for monthly budgets
   spent_amount: number;
   remaining_amount: number;
   percentage_used: number;
+  alert_thresholds: number[];
+  threshold: number; // the highest threshold reached
+}
+
+// A category's limit as copied between months and templates
+export interface BudgetLimit {
+  category_id: string;
+  limit_amount: number;
+  rollover_mode: RolloverMode;
+}
+
+// What to do when a month already has a budget for the category: keep it,
+// replace it, or add the new limit on top
+export type BudgetConflictMode = "skip" | "overwrite" | "add";
+
+export interface BudgetMonth {
+  month: number;
+  year: number;
+}
+
+export interface BulkApplyResult {
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+// One category's envelope for a month. Balances carry forward from month to
+// month whether or not anything was assigned in between.
+export interface Envelope {
+  category_id: string;
+  category_name: string;
+  category_color: string;
+  category_parent_id: string | null;
+  carried_in: number; // balance at the start of the month
+  assigned: number; // net assigned this month, after moves
+  activity: number; // spent this month, in this category only
+  available: number; // carried_in + assigned - activity
+}
+
+export interface EnvelopeMonth {
+  month: number;
+  year: number;
+  income: number; // since the first month with an assignment
+  assigned: number; // everything assigned up to the end of the month
+  toBeAssigned: number; // income - assigned
+  envelopes: Envelope[];
+}
+
+export interface EnvelopeAssignment {
+  id: string;
+  category_id: string;
+  category_name: string;
+  month: number;
+  year: number;
+  amount: number;
+  move_id: string | null;
+  note: string | null;
   created_at: Date;
-  updated_at: Date;
 }
 
+export interface AssignData {
+  category_id: string;
+  month: number;
+  year: number;
+  amount: number; // negative to return money to the pool
+  note?: string;
+}
+
+export interface MoveData {
+  from_category_id: string;
+  to_category_id: string;
+  month: number;
+  year: number;
+  amount: number;
+  note?: string;
+}
+
+// A past budget with what was spent against it, to work out carry-overs
+interface BudgetHistoryRow {
+  category_id: string;
+  month: number;
+  year: number;
+  limit_amount: string;
+  rollover_mode: RolloverMode;
+  spent: string;
+}
+
+// Months counted from year 0, so consecutive months differ by one
+const monthIndex = (year: number, month: number) => year * 12 + month - 1;
+
+// Every month from start to end, inclusive
+export const monthRange = (
+  start: BudgetMonth,
+  end: BudgetMonth
+): BudgetMonth[] => {
+  const months: BudgetMonth[] = [];
+  for (
+    let index = monthIndex(start.year, start.month);
+    index <= monthIndex(end.year, end.month);
+    index++
+  ) {
+    months.push({ month: (index % 12) + 1, year: Math.floor(index / 12) });
+  }
+  return months;
+};
+
+// The highest threshold a percentage has reached, or 0 for none
+export const highestThreshold = (percentage: number, thresholds: number[]) =>
+  Math.max(0, ...thresholds.filter((threshold) => percentage >= threshold));
+
+const normalizeBudget = (row: any): Budget => ({
+  ...row,
+  limit_amount: parseFloat(row.limit_amount),
+});
+
+const normalizeAssignment = (row: any): EnvelopeAssignment => ({
+  ...row,
+  amount: parseFloat(row.amount),
+});
+
 // ===== BUDGET SERVICE =====
 
 export class BudgetService {
@@ -49,7 +205,13 @@ export class BudgetService {
     userId: string,
     budgetData: CreateBudgetData
   ): Promise<Budget> {
-    const { category_id, month, year, limit_amount } = budgetData;
+    const {
+      category_id,
+      month,
+      year,
+      limit_amount,
+      rollover_mode = "none",
+    } = budgetData;
 
     // Validate that the budget month/year combination doesn't already exist for this category
     const existing = await sql`
@@ -62,15 +224,17 @@ export class BudgetService {
     }
 
     const result = await sql`
-      INSERT INTO budgets (user_id, category_id, month, year, limit_amount)
-      VALUES (${userId}, ${category_id}, ${month}, ${year}, ${limit_amount})
+      INSERT INTO budgets (user_id, category_id, month, year, limit_amount, rollover_mode)
+      VALUES (${userId}, ${category_id}, ${month}, ${year}, ${limit_amount}, ${rollover_mode})
       RETURNING *
     `;
 
     return result[0] as Budget;
   }
 
-  // Get all budgets for a user with spending information
+  // Get every category's budget for a month with spending information; this
+  // is what all budget reports are built on. Limits include whatever earlier
+  // months carried in.
   static async getByUser(
     userId: string,
     month?: number,
@@ -80,37 +244,123 @@ export class BudgetService {
     const targetMonth = month || currentDate.getMonth() + 1;
     const targetYear = year || currentDate.getFullYear();
 
-    const result = await sql`
-      SELECT 
-        b.*,
-        c.name as category_name,
-        c.color as category_color,
-        COALESCE(spent.amount, 0) as spent_amount,
-        (b.limit_amount - COALESCE(spent.amount, 0)) as remaining_amount,
-        CASE 
-          WHEN b.limit_amount > 0 THEN (COALESCE(spent.amount, 0) / b.limit_amount * 100)
-          ELSE 0 
-        END as percentage_used
+    // Spending counts transactions dated in the month, in the budget's
+    // category and its subcategories
+    const [result, carriedIn] = await Promise.all([
+      sql`
+        SELECT 
+          eb.budget_id as id,
+          eb.category_id,
+          c.parent_id as category_parent_id,
+          c.name as category_name,
+          c.color as category_color,
+          eb.is_default,
+          eb.limit_amount,
+          eb.rollover_mode,
+          c.alert_thresholds,
+          COALESCE(spent.amount, 0) as spent_amount
+        FROM effective_budgets(${userId}, ${targetMonth}, ${targetYear}) eb
+        JOIN categories c ON eb.category_id = c.id
+        LEFT JOIN (
+          SELECT 
+            cc.ancestor_id as category_id,
+            SUM(t.base_amount) as amount
+          FROM transaction_lines t
+          JOIN category_closure(${userId}) cc ON cc.descendant_id = t.category_id
+          WHERE t.user_id = ${userId} 
+            AND t.type = 'expense'
+            AND EXTRACT(MONTH FROM t.date) = ${targetMonth}
+            AND EXTRACT(YEAR FROM t.date) = ${targetYear}
+          GROUP BY cc.ancestor_id
+        ) spent ON eb.category_id = spent.category_id
+        ORDER BY c.name ASC
+      `,
+      this.getCarriedIn(userId, targetMonth, targetYear),
+    ]);
+
+    return result.map((row: any) => {
+      const limitAmount = parseFloat(row.limit_amount);
+      const carried = carriedIn.get(row.category_id) ?? 0;
+      const effectiveLimit = limitAmount + carried;
+      const spentAmount = parseFloat(row.spent_amount);
+
+      return {
+        ...row,
+        month: targetMonth,
+        year: targetYear,
+        limit_amount: limitAmount,
+        carried_in: carried,
+        effective_limit: effectiveLimit,
+        spent_amount: spentAmount,
+        remaining_amount: effectiveLimit - spentAmount,
+        percentage_used:
+          effectiveLimit > 0 ? (spentAmount / effectiveLimit) * 100 : 0,
+      };
+    });
+  }
+
+  // Amount each category carries into the given month, following its chain
+  // of budgets in consecutive months before it. A month without a budgets
+  // row ends the chain, so nothing older carries across the gap; default
+  // budgets never roll over.
+  private static async getCarriedIn(
+    userId: string,
+    month: number,
+    year: number
+  ): Promise<Map<string, number>> {
+    const target = monthIndex(year, month);
+    const rows = (await sql`
+      SELECT
+        b.category_id, b.month, b.year, b.limit_amount, b.rollover_mode,
+        COALESCE(spent.amount, 0) as spent
       FROM budgets b
-      JOIN categories c ON b.category_id = c.id
       LEFT JOIN (
-        SELECT 
-          category_id,
-          SUM(amount) as amount
-        FROM transactions 
-        WHERE user_id = ${userId} 
-          AND type = 'expense'
-          AND EXTRACT(MONTH FROM created_at) = ${targetMonth}
-          AND EXTRACT(YEAR FROM created_at) = ${targetYear}
-        GROUP BY category_id
-      ) spent ON b.category_id = spent.category_id
-      WHERE b.user_id = ${userId} 
-        AND b.month = ${targetMonth} 
-        AND b.year = ${targetYear}
-      ORDER BY c.name ASC
-    `;
+        SELECT
+          cc.ancestor_id as category_id,
+          EXTRACT(YEAR FROM t.date)::int as year,
+          EXTRACT(MONTH FROM t.date)::int as month,
+          SUM(t.base_amount) as amount
+        FROM transaction_lines t
+        JOIN category_closure(${userId}) cc ON cc.descendant_id = t.category_id
+        WHERE t.user_id = ${userId}
+          AND t.type = 'expense'
+          AND t.date < make_date(${year}, ${month}, 1)
+        GROUP BY cc.ancestor_id, 2, 3
+      ) spent ON spent.category_id = b.category_id
+        AND spent.year = b.year AND spent.month = b.month
+      WHERE b.user_id = ${userId}
+        AND b.year * 12 + b.month - 1 < ${target}
+      ORDER BY b.category_id, b.year, b.month
+    `) as BudgetHistoryRow[];
+
+    // carry holds what each category's latest budget passes on, and when
+    const carry = new Map<string, { amount: number; month: number }>();
+    for (const row of rows) {
+      const index = monthIndex(row.year, row.month);
+      const previous = carry.get(row.category_id);
+      const carriedIn =
+        previous && previous.month === index - 1 ? previous.amount : 0;
+
+      const leftover =
+        parseFloat(row.limit_amount) + carriedIn - parseFloat(row.spent);
+      const passesOn =
+        leftover > 0
+          ? row.rollover_mode === "surplus" || row.rollover_mode === "both"
+          : row.rollover_mode === "deficit" || row.rollover_mode === "both";
 
-    return result as BudgetWithCategoryInfo[];
+      carry.set(row.category_id, {
+        amount: passesOn ? Math.round(leftover * 100) / 100 : 0,
+        month: index,
+      });
+    }
+
+    const carriedIn = new Map<string, number>();
+    for (const [categoryId, { amount, month: from }] of carry) {
+      if (from === target - 1 && amount !== 0) {
+        carriedIn.set(categoryId, amount);
+      }
+    }
+    return carriedIn;
   }
 
   // Get a specific budget by ID
@@ -126,21 +376,100 @@ export class BudgetService {
     return result.length > 0 ? (result[0] as Budget) : null;
   }
 
+  // Get every budget set for a year, for the yearly grid
+  static async getByYear(userId: string, year: number): Promise<Budget[]> {
+    const result = await sql`
+      SELECT * FROM budgets
+      WHERE user_id = ${userId} AND year = ${year}
+      ORDER BY category_id, month
+    `;
+
+    return result.map(normalizeBudget);
+  }
+
+  // The limits set for a month, to copy them elsewhere
+  static async getLimits(
+    userId: string,
+    month: number,
+    year: number
+  ): Promise<BudgetLimit[]> {
+    const result = await sql`
+      SELECT category_id, limit_amount, rollover_mode
+      FROM budgets
+      WHERE user_id = ${userId} AND month = ${month} AND year = ${year}
+    `;
+
+    return result.map((row: any) => ({
+      category_id: row.category_id,
+      limit_amount: parseFloat(row.limit_amount),
+      rollover_mode: row.rollover_mode,
+    }));
+  }
+
+  // Set the same limits in every given month in one statement. Archived
+  // categories are left out and count as skipped, like existing budgets
+  // under the "skip" mode.
+  static async bulkApply(
+    userId: string,
+    limits: BudgetLimit[],
+    months: BudgetMonth[],
+    conflict: BudgetConflictMode
+  ): Promise<BulkApplyResult> {
+    const rows = months.flatMap(({ month, year }) =>
+      limits.map((limit) => ({ ...limit, month, year }))
+    );
+    if (rows.length === 0) {
+      return { created: 0, updated: 0, skipped: 0 };
+    }
+
+    // xmax is 0 only for freshly inserted rows
+    const result = await sql`
+      INSERT INTO budgets (user_id, category_id, month, year, limit_amount, rollover_mode)
+      SELECT ${userId}, l.category_id, l.month, l.year, l.limit_amount, l.rollover_mode
+      FROM json_to_recordset(${JSON.stringify(rows)}::json)
+        AS l(category_id uuid, month int, year int, limit_amount numeric, rollover_mode text)
+      JOIN categories c ON c.id = l.category_id
+        AND c.user_id = ${userId}
+        AND NOT c.is_archived
+      ON CONFLICT (user_id, category_id, month, year) DO UPDATE SET
+        limit_amount = CASE WHEN ${conflict} = 'add'
+          THEN budgets.limit_amount + EXCLUDED.limit_amount
+          ELSE EXCLUDED.limit_amount END,
+        rollover_mode = CASE WHEN ${conflict} = 'overwrite'
+          THEN EXCLUDED.rollover_mode
+          ELSE budgets.rollover_mode END,
+        envelope_synced = FALSE,
+        updated_at = NOW()
+      WHERE ${conflict} != 'skip'
+      RETURNING (xmax = 0) as inserted
+    `;
+
+    const created = result.filter((row: any) => row.inserted).length;
+    return {
+      created,
+      updated: result.length - created,
+      skipped: rows.length - result.length,
+    };
+  }
+
   // Update a budget
   static async update(
     userId: string,
     budgetId: string,
     updateData: UpdateBudgetData
   ): Promise<Budget | null> {
-    const { limit_amount } = updateData;
+    const { limit_amount, rollover_mode } = updateData;
 
-    if (limit_amount === undefined) {
+    if (limit_amount === undefined && rollover_mode === undefined) {
       throw new Error("No update data provided");
     }
 
     const result = await sql`
       UPDATE budgets 
-      SET limit_amount = ${limit_amount}, updated_at = NOW()
+      SET limit_amount = COALESCE(${limit_amount ?? null}, limit_amount),
+        rollover_mode = COALESCE(${rollover_mode ?? null}, rollover_mode),
+        envelope_synced = FALSE,
+        updated_at = NOW()
       WHERE id = ${budgetId} AND user_id = ${userId}
       RETURNING *
     `;
@@ -165,87 +494,317 @@ export class BudgetService {
     year?: number
   ): Promise<{
     totalBudgets: number;
-    totalBudgetAmount: number;
+    totalBudgetAmount: number; // effective limits, including carry-overs
+    totalCarriedIn: number;
     totalSpent: number;
     totalRemaining: number;
     overBudgetCategories: number;
   }> {
-    const currentDate = new Date();
-    const targetMonth = month || currentDate.getMonth() + 1;
-    const targetYear = year || currentDate.getFullYear();
+    const budgets = await this.getByUser(userId, month, year);
 
-    const result = await sql`
-      SELECT 
-        COUNT(b.id) as total_budgets,
-        COALESCE(SUM(b.limit_amount), 0) as total_budget_amount,
-        COALESCE(SUM(spent.amount), 0) as total_spent,
-        COALESCE(SUM(b.limit_amount - COALESCE(spent.amount, 0)), 0) as total_remaining,
-        COUNT(CASE WHEN COALESCE(spent.amount, 0) > b.limit_amount THEN 1 END) as over_budget_categories
-      FROM budgets b
-      LEFT JOIN (
-        SELECT 
-          category_id,
-          SUM(amount) as amount
-        FROM transactions 
-        WHERE user_id = ${userId} 
-          AND type = 'expense'
-          AND EXTRACT(MONTH FROM created_at) = ${targetMonth}
-          AND EXTRACT(YEAR FROM created_at) = ${targetYear}
-        GROUP BY category_id
-      ) spent ON b.category_id = spent.category_id
-      WHERE b.user_id = ${userId} 
-        AND b.month = ${targetMonth} 
-        AND b.year = ${targetYear}
-    `;
+    // A budget's figures already include its subcategories, so budgets under
+    // a budgeted ancestor are left out of the totals to avoid counting twice
+    const categoryIds = budgets.map((b) => b.category_id);
+    const nested =
+      categoryIds.length > 0
+        ? await sql`
+            SELECT DISTINCT descendant_id
+            FROM category_closure(${userId})
+            WHERE depth > 0
+              AND ancestor_id IN ${sql(categoryIds)}
+              AND descendant_id IN ${sql(categoryIds)}
+          `
+        : [];
+    const nestedIds = new Set(nested.map((row: any) => row.descendant_id));
+    const topLevel = budgets.filter((b) => !nestedIds.has(b.category_id));
 
-    const summary = result[0];
+    const sum = (values: number[]) =>
+      values.reduce((total, value) => total + value, 0);
     return {
-      totalBudgets: parseInt(summary.total_budgets),
-      totalBudgetAmount: parseFloat(summary.total_budget_amount),
-      totalSpent: parseFloat(summary.total_spent),
-      totalRemaining: parseFloat(summary.total_remaining),
-      overBudgetCategories: parseInt(summary.over_budget_categories),
+      totalBudgets: budgets.length,
+      totalBudgetAmount: sum(topLevel.map((b) => b.effective_limit)),
+      totalCarriedIn: sum(topLevel.map((b) => b.carried_in)),
+      totalSpent: sum(topLevel.map((b) => b.spent_amount)),
+      totalRemaining: sum(topLevel.map((b) => b.remaining_amount)),
+      overBudgetCategories: budgets.filter(
+        (b) => b.spent_amount > b.effective_limit
+      ).length,
     };
   }
 
-  // Get budget alerts (categories over budget)
+  // Get budget alerts (budgets at or past one of their alert thresholds,
+  // 100% unless set otherwise), most overspent first.
+  // Period budgets are checked in their period that contains today, or the
+  // month's nearest day to today when looking at another month.
   static async getBudgetAlerts(
     userId: string,
     month?: number,
     year?: number
-  ): Promise<BudgetWithCategoryInfo[]> {
+  ): Promise<BudgetAlert[]> {
     const currentDate = new Date();
     const targetMonth = month || currentDate.getMonth() + 1;
     const targetYear = year || currentDate.getFullYear();
+    const monthStart = `${targetYear}-${String(targetMonth).padStart(
+      2,
+      "0"
+    )}-01`;
+    const monthEnd = new Date(Date.UTC(targetYear, targetMonth, 0))
+      .toISOString()
+      .split("T")[0];
+    const today = todayString();
+    const on =
+      today < monthStart ? monthStart : today > monthEnd ? monthEnd : today;
+
+    const [budgets, periodBudgets] = await Promise.all([
+      this.getByUser(userId, targetMonth, targetYear),
+      PeriodBudgetService.findByUserId(userId, on),
+    ]);
 
+    const alerts: BudgetAlert[] = [
+      ...budgets.map((b) => ({
+        budget_id: b.id,
+        kind: "monthly" as const,
+        category_id: b.category_id,
+        category_name: b.category_name,
+        category_color: b.category_color,
+        period_unit: "month" as const,
+        period_length: 1,
+        period_start: monthStart,
+        period_end: monthEnd,
+        limit_amount: b.effective_limit,
+        spent_amount: b.spent_amount,
+        remaining_amount: b.remaining_amount,
+        percentage_used: b.percentage_used,
+        alert_thresholds: b.alert_thresholds,
+        threshold: highestThreshold(b.percentage_used, b.alert_thresholds),
+      })),
+      ...periodBudgets.map((b) => ({
+        budget_id: b.id,
+        kind: "period" as const,
+        category_id: b.category_id,
+        category_name: b.category_name,
+        category_color: b.category_color,
+        period_unit: b.period_unit,
+        period_length: b.period_length,
+        period_start: b.period_start,
+        period_end: b.period_end,
+        limit_amount: b.limit_amount,
+        spent_amount: b.spent_amount,
+        remaining_amount: b.remaining_amount,
+        percentage_used: b.percentage_used,
+        alert_thresholds: b.alert_thresholds,
+        threshold: highestThreshold(b.percentage_used, b.alert_thresholds),
+      })),
+    ];
+
+    return alerts
+      .filter((a) => a.limit_amount > 0 && a.threshold > 0)
+      .sort((a, b) => a.remaining_amount - b.remaining_amount);
+  }
+
+  // ===== ENVELOPES =====
+
+  // The envelope view of a month. The ledger starts in the first month
+  // anything was assigned: income and spending before it don't count, so
+  // turning envelopes on doesn't start every category in the red.
+  static async getEnvelopes(
+    userId: string,
+    month: number,
+    year: number
+  ): Promise<EnvelopeMonth> {
+    const target = monthIndex(year, month);
+    const first = await sql`
+      SELECT COALESCE(MIN(year * 12 + month - 1), ${target}) as start
+      FROM envelope_assignments
+      WHERE user_id = ${userId}
+    `;
+    const start = Math.min(Number(first[0].start), target);
+    const startYear = Math.floor(start / 12);
+    const startMonth = (start % 12) + 1;
+
+    const [rows, totals] = await Promise.all([
+      sql`
+        SELECT
+          c.id as category_id,
+          c.name as category_name,
+          c.color as category_color,
+          c.parent_id as category_parent_id,
+          COALESCE(a.before, 0) - COALESCE(s.before, 0) as carried_in,
+          COALESCE(a.current, 0) as assigned,
+          COALESCE(s.current, 0) as activity
+        FROM categories c
+        LEFT JOIN (
+          SELECT
+            category_id,
+            SUM(amount) FILTER (WHERE year * 12 + month - 1 < ${target}) as before,
+            SUM(amount) FILTER (WHERE year * 12 + month - 1 = ${target}) as current
+          FROM envelope_assignments
+          WHERE user_id = ${userId}
+            AND year * 12 + month - 1 <= ${target}
+          GROUP BY category_id
+        ) a ON a.category_id = c.id
+        LEFT JOIN (
+          SELECT
+            category_id,
+            SUM(base_amount) FILTER (WHERE date < make_date(${year}, ${month}, 1)) as before,
+            SUM(base_amount) FILTER (WHERE date >= make_date(${year}, ${month}, 1)) as current
+          FROM transaction_lines
+          WHERE user_id = ${userId}
+            AND type = 'expense'
+            AND date >= make_date(${startYear}, ${startMonth}, 1)
+            AND date < make_date(${year}, ${month}, 1) + INTERVAL '1 month'
+          GROUP BY category_id
+        ) s ON s.category_id = c.id
+        WHERE c.user_id = ${userId}
+          AND (NOT c.is_archived OR a.category_id IS NOT NULL)
+        ORDER BY c.name ASC
+      `,
+      sql`
+        SELECT
+          (SELECT COALESCE(SUM(base_amount), 0)
+            FROM transaction_lines
+            WHERE user_id = ${userId}
+              AND type = 'income'
+              AND date >= make_date(${startYear}, ${startMonth}, 1)
+              AND date < make_date(${year}, ${month}, 1) + INTERVAL '1 month'
+          ) as income,
+          (SELECT COALESCE(SUM(amount), 0)
+            FROM envelope_assignments
+            WHERE user_id = ${userId}
+              AND year * 12 + month - 1 <= ${target}
+          ) as assigned
+      `,
+    ]);
+
+    const envelopes = rows.map((row: any) => {
+      const carriedIn = parseFloat(row.carried_in);
+      const assigned = parseFloat(row.assigned);
+      const activity = parseFloat(row.activity);
+      return {
+        ...row,
+        carried_in: carriedIn,
+        assigned,
+        activity,
+        available: carriedIn + assigned - activity,
+      };
+    });
+    const income = parseFloat(totals[0].income);
+    const assigned = parseFloat(totals[0].assigned);
+
+    return {
+      month,
+      year,
+      income,
+      assigned,
+      toBeAssigned: income - assigned,
+      envelopes,
+    };
+  }
+
+  // Ledger entries for a month, newest first
+  static async getAssignmentHistory(
+    userId: string,
+    month: number,
+    year: number
+  ): Promise<EnvelopeAssignment[]> {
     const result = await sql`
-      SELECT 
-        b.*,
-        c.name as category_name,
-        c.color as category_color,
-        COALESCE(spent.amount, 0) as spent_amount,
-        (b.limit_amount - COALESCE(spent.amount, 0)) as remaining_amount,
-        (COALESCE(spent.amount, 0) / b.limit_amount * 100) as percentage_used
-      FROM budgets b
-      JOIN categories c ON b.category_id = c.id
-      LEFT JOIN (
-        SELECT 
-          category_id,
-          SUM(amount) as amount
-        FROM transactions 
-        WHERE user_id = ${userId} 
-          AND type = 'expense'
-          AND EXTRACT(MONTH FROM created_at) = ${targetMonth}
-          AND EXTRACT(YEAR FROM created_at) = ${targetYear}
-        GROUP BY category_id
-      ) spent ON b.category_id = spent.category_id
-      WHERE b.user_id = ${userId} 
-        AND b.month = ${targetMonth} 
-        AND b.year = ${targetYear}
-        AND COALESCE(spent.amount, 0) > b.limit_amount
-      ORDER BY (COALESCE(spent.amount, 0) - b.limit_amount) DESC
+      SELECT a.*, c.name as category_name
+      FROM envelope_assignments a
+      JOIN categories c ON a.category_id = c.id
+      WHERE a.user_id = ${userId} AND a.month = ${month} AND a.year = ${year}
+      ORDER BY a.created_at DESC
     `;
 
-    return result as BudgetWithCategoryInfo[];
+    return result.map(normalizeAssignment);
+  }
+
+  // Assign money from the pool to an envelope, or return it with a
+  // negative amount
+  static async assign(
+    userId: string,
+    data: AssignData
+  ): Promise<EnvelopeAssignment> {
+    const { category_id, month, year, amount, note } = data;
+
+    return await sql.begin(async (tx) => {
+      const result = await tx`
+        INSERT INTO envelope_assignments (user_id, category_id, month, year, amount, note)
+        VALUES (${userId}, ${category_id}, ${month}, ${year}, ${amount}, ${
+        note ?? null
+      })
+        RETURNING *
+      `;
+      await this.syncEnvelopeBudget(tx, userId, category_id, month, year);
+
+      return normalizeAssignment(result[0]);
+    });
+  }
+
+  // Move money from one envelope to another. Both sides are recorded with
+  // the same move_id so the ledger shows where it went.
+  static async moveBetweenEnvelopes(
+    userId: string,
+    data: MoveData
+  ): Promise<EnvelopeAssignment[]> {
+    const { from_category_id, to_category_id, month, year, amount, note } =
+      data;
+
+    return await sql.begin(async (tx) => {
+      const result = await tx`
+        INSERT INTO envelope_assignments (user_id, category_id, month, year, amount, move_id, note)
+        SELECT ${userId}, m.category_id, ${month}, ${year}, m.amount, move.id, ${
+        note ?? null
+      }
+        FROM (VALUES
+          (${from_category_id}::uuid, ${-amount}::numeric),
+          (${to_category_id}::uuid, ${amount}::numeric)
+        ) AS m(category_id, amount)
+        CROSS JOIN (SELECT gen_random_uuid() as id) move
+        RETURNING *
+      `;
+      await this.syncEnvelopeBudget(tx, userId, from_category_id, month, year);
+      await this.syncEnvelopeBudget(tx, userId, to_category_id, month, year);
+
+      return result.map(normalizeAssignment);
+    });
+  }
+
+  // Keep the month's budgets row equal to what is assigned to the envelope,
+  // so budget reports and alerts follow envelope users too. Only rows this
+  // sync created are touched: a budget set by hand or from a template is
+  // left alone. Nothing assigned (or more taken out than put in) removes the
+  // synced row.
+  private static async syncEnvelopeBudget(
+    tx: typeof sql,
+    userId: string,
+    categoryId: string,
+    month: number,
+    year: number
+  ): Promise<void> {
+    const result = await tx`
+      SELECT COALESCE(SUM(amount), 0) as assigned
+      FROM envelope_assignments
+      WHERE user_id = ${userId} AND category_id = ${categoryId}
+        AND month = ${month} AND year = ${year}
+    `;
+    const assigned = parseFloat(result[0].assigned);
+
+    if (assigned > 0) {
+      await tx`
+        INSERT INTO budgets (user_id, category_id, month, year, limit_amount, rollover_mode, envelope_synced)
+        VALUES (${userId}, ${categoryId}, ${month}, ${year}, ${assigned}, 'both', TRUE)
+        ON CONFLICT (user_id, category_id, month, year) DO UPDATE SET
+          limit_amount = EXCLUDED.limit_amount,
+          updated_at = NOW()
+        WHERE budgets.envelope_synced
+      `;
+    } else {
+      await tx`
+        DELETE FROM budgets
+        WHERE user_id = ${userId} AND category_id = ${categoryId}
+          AND month = ${month} AND year = ${year}
+          AND envelope_synced
+      `;
+    }
   }
 }
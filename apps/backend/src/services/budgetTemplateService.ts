@@ -0,0 +1,195 @@
+import { sql } from "../db/connection";
+import { BudgetLimit } from "./budgetService";
+
+// ===== TYPE DEFINITIONS =====
+
+// A named set of monthly category limits, e.g. "Normal month" or "Holidays"
+export interface BudgetTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+  items: BudgetLimit[]; // applied to every month the template is used for
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateBudgetTemplateData {
+  user_id: string;
+  name: string;
+  items: BudgetLimit[];
+}
+
+export interface UpdateBudgetTemplateData {
+  name?: string;
+  items?: BudgetLimit[]; // replaces all of the template's items
+}
+
+// Items are aggregated as JSON, whose numbers come back as strings
+const normalizeTemplate = (row: any): BudgetTemplate => ({
+  ...row,
+  items: (row.items || []).map((item: any) => ({
+    category_id: item.category_id,
+    limit_amount: parseFloat(item.limit_amount),
+    rollover_mode: item.rollover_mode,
+  })),
+});
+
+// ===== SERVICE CLASS =====
+
+export class BudgetTemplateService {
+  // Get all templates for a user with their items
+  static async findByUserId(userId: string): Promise<BudgetTemplate[]> {
+    const result = await sql`
+      SELECT bt.*,
+        COALESCE(json_agg(json_build_object(
+          'category_id', bti.category_id,
+          'limit_amount', bti.limit_amount::text,
+          'rollover_mode', bti.rollover_mode
+        )) FILTER (WHERE bti.category_id IS NOT NULL), '[]') as items
+      FROM budget_templates bt
+      LEFT JOIN budget_template_items bti ON bti.template_id = bt.id
+      WHERE bt.user_id = ${userId}
+      GROUP BY bt.id
+      ORDER BY bt.name
+    `;
+
+    return result.map(normalizeTemplate);
+  }
+
+  // Find template by ID
+  static async findById(
+    id: string,
+    userId: string
+  ): Promise<BudgetTemplate | null> {
+    const result = await sql`
+      SELECT bt.*,
+        COALESCE(json_agg(json_build_object(
+          'category_id', bti.category_id,
+          'limit_amount', bti.limit_amount::text,
+          'rollover_mode', bti.rollover_mode
+        )) FILTER (WHERE bti.category_id IS NOT NULL), '[]') as items
+      FROM budget_templates bt
+      LEFT JOIN budget_template_items bti ON bti.template_id = bt.id
+      WHERE bt.id = ${id} AND bt.user_id = ${userId}
+      GROUP BY bt.id
+    `;
+
+    return result.length > 0 ? normalizeTemplate(result[0]) : null;
+  }
+
+  // Create a template with its items
+  static async create(
+    templateData: CreateBudgetTemplateData
+  ): Promise<BudgetTemplate> {
+    const { user_id, name, items } = templateData;
+
+    const id = await sql.begin(async (tx) => {
+      const [template] = await tx`
+        INSERT INTO budget_templates (user_id, name)
+        VALUES (${user_id}, ${name})
+        RETURNING id
+      `;
+      await this.insertItems(tx, template.id, items);
+      return template.id as string;
+    });
+
+    return (await this.findById(id, user_id))!;
+  }
+
+  // Update template; items, when given, replace the existing ones
+  static async update(
+    id: string,
+    userId: string,
+    updateData: UpdateBudgetTemplateData
+  ): Promise<BudgetTemplate | null> {
+    const { name, items } = updateData;
+
+    const found = await sql.begin(async (tx) => {
+      const result = await tx`
+        UPDATE budget_templates
+        SET name = COALESCE(${name ?? null}, name)
+        WHERE id = ${id} AND user_id = ${userId}
+        RETURNING id
+      `;
+      if (result.length === 0) {
+        return false;
+      }
+
+      if (items !== undefined) {
+        await tx`DELETE FROM budget_template_items WHERE template_id = ${id}`;
+        await this.insertItems(tx, id, items);
+      }
+      return true;
+    });
+
+    return found ? this.findById(id, userId) : null;
+  }
+
+  // Delete template; budgets already created from it are kept
+  static async delete(id: string, userId: string): Promise<boolean> {
+    const result = await sql`
+      DELETE FROM budget_templates
+      WHERE id = ${id} AND user_id = ${userId}
+      RETURNING id
+    `;
+
+    return result.length > 0;
+  }
+
+  // Check if template name exists for user
+  static async existsByName(
+    name: string,
+    userId: string,
+    excludeId?: string
+  ): Promise<boolean> {
+    const result = await sql`
+      SELECT COUNT(*) as count
+      FROM budget_templates
+      WHERE name = ${name} AND user_id = ${userId}
+        AND (${excludeId ?? null}::uuid IS NULL OR id != ${excludeId ?? null})
+    `;
+
+    return parseInt((result[0] as any).count) > 0;
+  }
+
+  // Check that every item's category belongs to the user
+  static async categoriesBelongToUser(
+    userId: string,
+    items: BudgetLimit[]
+  ): Promise<boolean> {
+    const ids = [...new Set(items.map((item) => item.category_id))];
+    if (ids.length === 0) {
+      return true;
+    }
+
+    const result = await sql`
+      SELECT COUNT(*) as count
+      FROM categories
+      WHERE user_id = ${userId} AND id IN ${sql(ids)}
+    `;
+
+    return parseInt((result[0] as any).count) === ids.length;
+  }
+
+  // Write template items inside the caller's DB transaction
+  private static async insertItems(
+    tx: typeof sql,
+    templateId: string,
+    items: BudgetLimit[]
+  ): Promise<void> {
+    if (items.length === 0) {
+      return;
+    }
+
+    const rows = items.map((item) => ({
+      template_id: templateId,
+      category_id: item.category_id,
+      limit_amount: item.limit_amount,
+      rollover_mode: item.rollover_mode,
+    }));
+
+    await tx`
+      INSERT INTO budget_template_items ${tx(rows)}
+    `;
+  }
+}
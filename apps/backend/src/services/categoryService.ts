@@ -1,39 +1,94 @@
 import { sql } from "../db/connection";
+import { BudgetService } from "./budgetService";
+import {
+  BudgetPeriod,
+  CALENDAR_MONTH,
+  recentPeriods,
+  todayString,
+} from "./periodBudgetService";
 
 export interface Category {
   id: string;
   user_id: string;
+  parent_id: string | null; // null for top-level categories
   name: string;
-  budget: number;
+  budget: number; // default monthly budget, for months without a budgets row
   color: string;
+  is_archived: boolean; // hidden from pickers but kept with its history
+  alert_thresholds: number[]; // percentages of the monthly budget that alert
   created_at: Date;
   updated_at: Date;
-  // Calculated fields
+  // Calculated fields, including spending in subcategories
   spent?: number;
   transaction_count?: number;
 }
 
+// A category with its subcategories nested under it
+export interface CategoryNode extends Category {
+  children: CategoryNode[];
+}
+
 export interface CreateCategoryData {
   user_id: string;
+  parent_id?: string;
   name: string;
   budget?: number;
   color?: string;
+  alert_thresholds?: number[];
 }
 
 export interface UpdateCategoryData {
+  parent_id?: string | null; // null moves the category to the top level
   name?: string;
   budget?: number;
   color?: string;
+  is_archived?: boolean;
+  alert_thresholds?: number[];
+}
+
+// What merging one category into another moves over
+export interface CategoryMergeSummary {
+  transactions: number;
+  splits: number; // split lines of split transactions
+  budgets: number; // monthly budgets
+  rules: number;
+  recurring: number; // recurring transactions; their date overrides move too
+  subcategories: number;
+  // Whether the source's budget limits are added to the target's. When the
+  // target is one of the source's parents its budgets already cover the
+  // source's spending, so the source's limits are dropped instead.
+  combine_budgets: boolean;
+  // Subcategories the target already has one of the same name as; the merge
+  // can't go ahead until they are renamed
+  conflicts: string[];
+}
+
+// A move or merge that would break the category tree, e.g. by putting a
+// category under one of its own subcategories. Routes show its message.
+export class CategoryTreeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CategoryTreeError";
+  }
 }
 
 export class CategoryService {
   // Create a new category
   static async create(categoryData: CreateCategoryData): Promise<Category> {
-    const { user_id, name, budget = 0, color = "#3B82F6" } = categoryData;
+    const {
+      user_id,
+      parent_id = null,
+      name,
+      budget = 0,
+      color = "#3B82F6",
+      alert_thresholds = [100],
+    } = categoryData;
 
     const result = await sql`
-      INSERT INTO categories (user_id, name, budget, color)
-      VALUES (${user_id}, ${name}, ${budget}, ${color})
+      INSERT INTO categories (user_id, parent_id, name, budget, color, alert_thresholds)
+      VALUES (${user_id}, ${parent_id}, ${name}, ${budget}, ${color}, ${`{${alert_thresholds.join(
+      ","
+    )}}`}::int[])
       RETURNING *
     `;
 
@@ -48,15 +103,17 @@ export class CategoryService {
 
     return (result[0] as Category) || null;
   }
-  // Get all categories for a user
+  // Get all categories for a user; a parent's spending includes its
+  // subcategories'
   static async findByUserId(userId: string): Promise<Category[]> {
     const result = await sql`
       SELECT 
         c.*,
-        COALESCE(SUM(CASE WHEN t.type = 'expense' THEN t.amount ELSE 0 END), 0) as spent,
-        COUNT(t.id) as transaction_count
+        COALESCE(SUM(CASE WHEN t.type = 'expense' THEN t.base_amount ELSE 0 END), 0) as spent,
+        COUNT(DISTINCT t.transaction_id) as transaction_count
       FROM categories c
-      LEFT JOIN transactions t ON c.id = t.category_id 
+      JOIN category_closure(${userId}) cc ON cc.ancestor_id = c.id
+      LEFT JOIN transaction_lines t ON cc.descendant_id = t.category_id 
         AND EXTRACT(MONTH FROM t.date) = EXTRACT(MONTH FROM CURRENT_DATE)
         AND EXTRACT(YEAR FROM t.date) = EXTRACT(YEAR FROM CURRENT_DATE)
       WHERE c.user_id = ${userId}
@@ -69,107 +126,400 @@ export class CategoryService {
       spent: parseFloat(String(row.spent || "0")),
       transaction_count: parseInt(String(row.transaction_count || "0")),
     })) as Category[];
-  } // Update category
+  }
+
+  // Get the user's categories as a tree of top-level categories
+  static async getTree(userId: string): Promise<CategoryNode[]> {
+    const categories = await this.findByUserId(userId);
+    const nodes = new Map<string, CategoryNode>(
+      categories.map((category) => [category.id, { ...category, children: [] }])
+    );
+
+    const roots: CategoryNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+    return roots;
+  }
+
+  // Full names like "Food > Restaurants", by category ID
+  static getPaths(categories: Category[]): Map<string, string> {
+    const byId = new Map(categories.map((category) => [category.id, category]));
+    const paths = new Map<string, string>();
+
+    const pathOf = (category: Category): string => {
+      const known = paths.get(category.id);
+      if (known) {
+        return known;
+      }
+      const parent = category.parent_id
+        ? byId.get(category.parent_id)
+        : undefined;
+      const path = parent
+        ? `${pathOf(parent)} > ${category.name}`
+        : category.name;
+      paths.set(category.id, path);
+      return path;
+    };
+
+    categories.forEach(pathOf);
+    return paths;
+  }
+
+  // Whether parentId can be the parent of categoryId: it must be one of the
+  // user's categories and not the category itself or one of its descendants.
+  // Pass null for categoryId when creating a new category.
+  static async isValidParent(
+    userId: string,
+    categoryId: string | null,
+    parentId: string,
+    tx: typeof sql = sql
+  ): Promise<boolean> {
+    const result = await tx`
+      SELECT
+        EXISTS (
+          SELECT 1 FROM categories WHERE id = ${parentId} AND user_id = ${userId}
+        ) as parent_exists,
+        EXISTS (
+          SELECT 1 FROM category_closure(${userId})
+          WHERE ancestor_id = ${categoryId} AND descendant_id = ${parentId}
+        ) as creates_cycle
+    `;
+
+    const { parent_exists, creates_cycle } = result[0] as any;
+    return parent_exists && !creates_cycle;
+  }
+
+  // Lock the user's categories until the transaction ends. Moves and merges
+  // check the tree and then change it; holding the lock in between stops two
+  // of them from each passing the check and together making a cycle.
+  private static async lockTree(userId: string, tx: typeof sql) {
+    await tx`SELECT id FROM categories WHERE user_id = ${userId} FOR UPDATE`;
+  }
+
+  // Update category. A new parent is checked in the same transaction as the
+  // move, and a CategoryTreeError thrown when it isn't valid.
   static async update(
     id: string,
     userId: string,
     updateData: UpdateCategoryData
   ): Promise<Category | null> {
-    // For simplicity, we'll handle each case separately
-    if (
-      updateData.name !== undefined &&
-      updateData.budget !== undefined &&
-      updateData.color !== undefined
-    ) {
-      const result = await sql`
+    const { parent_id, name, budget, color, is_archived, alert_thresholds } =
+      updateData;
+
+    // Build update query based on provided fields
+    const updateFields: string[] = [];
+    const values: any[] = [];
+
+    if (parent_id !== undefined) {
+      updateFields.push("parent_id = $" + (values.length + 1));
+      values.push(parent_id);
+    }
+
+    if (name !== undefined) {
+      updateFields.push("name = $" + (values.length + 1));
+      values.push(name);
+    }
+
+    if (budget !== undefined) {
+      updateFields.push("budget = $" + (values.length + 1));
+      values.push(budget);
+    }
+
+    if (color !== undefined) {
+      updateFields.push("color = $" + (values.length + 1));
+      values.push(color);
+    }
+
+    if (is_archived !== undefined) {
+      updateFields.push("is_archived = $" + (values.length + 1));
+      values.push(is_archived);
+    }
+
+    if (alert_thresholds !== undefined) {
+      updateFields.push(
+        "alert_thresholds = $" + (values.length + 1) + "::int[]"
+      );
+      values.push(`{${alert_thresholds.join(",")}}`);
+    }
+
+    if (updateFields.length === 0) {
+      return null; // No fields to update
+    }
+
+    values.push(id, userId);
+    return await sql.begin(async (tx) => {
+      if (parent_id) {
+        await this.lockTree(userId, tx);
+        if (!(await this.isValidParent(userId, id, parent_id, tx))) {
+          throw new CategoryTreeError(
+            "Parent must be another category that is not one of its subcategories"
+          );
+        }
+      }
+
+      const result = await tx.unsafe(
+        `
         UPDATE categories 
-        SET name = ${updateData.name}, budget = ${updateData.budget}, color = ${updateData.color}
-        WHERE id = ${id} AND user_id = ${userId}
+        SET ${updateFields.join(", ")}
+        WHERE id = $${values.length - 1} AND user_id = $${values.length}
         RETURNING *
-      `;
+      `,
+        values
+      );
+
       return (result[0] as Category) || null;
-    } else if (
-      updateData.name !== undefined &&
-      updateData.budget !== undefined
-    ) {
-      const result = await sql`
-        UPDATE categories 
-        SET name = ${updateData.name}, budget = ${updateData.budget}
-        WHERE id = ${id} AND user_id = ${userId}
-        RETURNING *
+    });
+  }
+  // Count what merging sourceId into targetId would move
+  static async previewMerge(
+    sourceId: string,
+    targetId: string,
+    userId: string,
+    tx: typeof sql = sql
+  ): Promise<CategoryMergeSummary> {
+    const countResult = await tx`
+      SELECT
+        (SELECT COUNT(*) FROM transactions
+          WHERE category_id = ${sourceId} AND user_id = ${userId}) as transactions,
+        (SELECT COUNT(*) FROM transaction_splits
+          WHERE category_id = ${sourceId}) as splits,
+        (SELECT COUNT(*) FROM budgets
+          WHERE category_id = ${sourceId} AND user_id = ${userId}) as budgets,
+        (SELECT COUNT(*) FROM categorization_rules
+          WHERE set_category_id = ${sourceId} AND user_id = ${userId}) as rules,
+        (SELECT COUNT(*) FROM recurring_transactions
+          WHERE category_id = ${sourceId} AND user_id = ${userId}) as recurring,
+        (SELECT COUNT(*) FROM categories
+          WHERE parent_id = ${sourceId} AND user_id = ${userId}) as subcategories,
+        NOT EXISTS (
+          SELECT 1 FROM category_closure(${userId})
+          WHERE ancestor_id = ${targetId} AND descendant_id = ${sourceId}
+        ) as combine_budgets
+    `;
+    const conflictRows = await tx`
+      SELECT s.name
+      FROM categories s
+      JOIN categories t ON t.parent_id = ${targetId} AND t.name = s.name
+      WHERE s.parent_id = ${sourceId} AND s.user_id = ${userId}
+      ORDER BY s.name
+    `;
+
+    const counts = countResult[0] as any;
+    return {
+      transactions: parseInt(counts.transactions),
+      splits: parseInt(counts.splits),
+      budgets: parseInt(counts.budgets),
+      rules: parseInt(counts.rules),
+      recurring: parseInt(counts.recurring),
+      subcategories: parseInt(counts.subcategories),
+      combine_budgets: counts.combine_budgets,
+      conflicts: conflictRows.map((row: any) => row.name),
+    };
+  }
+
+  // Move everything that uses sourceId over to targetId, then delete
+  // sourceId, all in one database transaction. Throws a CategoryTreeError
+  // when the target is the source or one of its subcategories, or when both
+  // have subcategories of the same name.
+  static async merge(
+    sourceId: string,
+    targetId: string,
+    userId: string
+  ): Promise<CategoryMergeSummary> {
+    return await sql.begin(async (tx) => {
+      // Same rule as re-parenting: subcategories move under the target
+      await this.lockTree(userId, tx);
+      if (!(await this.isValidParent(userId, sourceId, targetId, tx))) {
+        throw new CategoryTreeError(
+          "Merge into another category that is not one of its subcategories"
+        );
+      }
+
+      const summary = await this.previewMerge(sourceId, targetId, userId, tx);
+      if (summary.conflicts.length > 0) {
+        throw new CategoryTreeError(
+          `Both categories have subcategories named ${summary.conflicts.join(
+            ", "
+          )}; rename them first`
+        );
+      }
+
+      await tx`
+        UPDATE transactions SET category_id = ${targetId}
+        WHERE category_id = ${sourceId} AND user_id = ${userId}
       `;
-      return (result[0] as Category) || null;
-    } else if (
-      updateData.name !== undefined &&
-      updateData.color !== undefined
-    ) {
-      const result = await sql`
-        UPDATE categories 
-        SET name = ${updateData.name}, color = ${updateData.color}
-        WHERE id = ${id} AND user_id = ${userId}
-        RETURNING *
+      await tx`
+        UPDATE transaction_splits SET category_id = ${targetId}
+        WHERE category_id = ${sourceId}
       `;
-      return (result[0] as Category) || null;
-    } else if (
-      updateData.budget !== undefined &&
-      updateData.color !== undefined
-    ) {
-      const result = await sql`
-        UPDATE categories 
-        SET budget = ${updateData.budget}, color = ${updateData.color}
-        WHERE id = ${id} AND user_id = ${userId}
-        RETURNING *
+
+      // A parent's budgets already cover its subcategories' spending, so
+      // merging into a parent drops the source's limits. Envelope budgets
+      // mirror the money assigned, which moves over either way, so those are
+      // still added up.
+      if (!summary.combine_budgets) {
+        await tx`
+          DELETE FROM budgets
+          WHERE category_id = ${sourceId} AND user_id = ${userId}
+            AND NOT envelope_synced
+        `;
+        await tx`
+          DELETE FROM budget_template_items WHERE category_id = ${sourceId}
+        `;
+        await tx`
+          DELETE FROM period_budgets
+          WHERE category_id = ${sourceId} AND user_id = ${userId}
+        `;
+      }
+
+      // Budgets are unique per category and month, so a month both have
+      // gets one budget with the two limits added up
+      await tx`
+        UPDATE budgets tb SET limit_amount = tb.limit_amount + sb.limit_amount
+        FROM budgets sb
+        WHERE sb.category_id = ${sourceId} AND tb.category_id = ${targetId}
+          AND sb.month = tb.month AND sb.year = tb.year
+          AND tb.user_id = ${userId}
       `;
-      return (result[0] as Category) || null;
-    } else if (updateData.name !== undefined) {
-      const result = await sql`
-        UPDATE categories 
-        SET name = ${updateData.name}
-        WHERE id = ${id} AND user_id = ${userId}
-        RETURNING *
+      await tx`
+        DELETE FROM budgets sb
+        WHERE sb.category_id = ${sourceId} AND sb.user_id = ${userId}
+          AND EXISTS (
+            SELECT 1 FROM budgets tb
+            WHERE tb.category_id = ${targetId}
+              AND tb.month = sb.month AND tb.year = sb.year
+          )
       `;
-      return (result[0] as Category) || null;
-    } else if (updateData.budget !== undefined) {
-      const result = await sql`
-        UPDATE categories 
-        SET budget = ${updateData.budget}
-        WHERE id = ${id} AND user_id = ${userId}
-        RETURNING *
+      await tx`
+        UPDATE budgets SET category_id = ${targetId}
+        WHERE category_id = ${sourceId} AND user_id = ${userId}
       `;
-      return (result[0] as Category) || null;
-    } else if (updateData.color !== undefined) {
-      const result = await sql`
-        UPDATE categories 
-        SET color = ${updateData.color}
-        WHERE id = ${id} AND user_id = ${userId}
-        RETURNING *
+      // Template items get the same treatment, per template
+      await tx`
+        UPDATE budget_template_items ti
+        SET limit_amount = ti.limit_amount + si.limit_amount
+        FROM budget_template_items si
+        WHERE si.category_id = ${sourceId} AND ti.category_id = ${targetId}
+          AND si.template_id = ti.template_id
+      `;
+      await tx`
+        DELETE FROM budget_template_items si
+        WHERE si.category_id = ${sourceId}
+          AND EXISTS (
+            SELECT 1 FROM budget_template_items ti
+            WHERE ti.category_id = ${targetId}
+              AND ti.template_id = si.template_id
+          )
+      `;
+      await tx`
+        UPDATE budget_template_items SET category_id = ${targetId}
+        WHERE category_id = ${sourceId}
+      `;
+      // Period budgets are unique per category and period length too
+      await tx`
+        UPDATE period_budgets tp SET limit_amount = tp.limit_amount + sp.limit_amount
+        FROM period_budgets sp
+        WHERE sp.category_id = ${sourceId} AND tp.category_id = ${targetId}
+          AND sp.period_unit = tp.period_unit
+          AND sp.period_length = tp.period_length
+          AND tp.user_id = ${userId}
+      `;
+      await tx`
+        DELETE FROM period_budgets sp
+        WHERE sp.category_id = ${sourceId} AND sp.user_id = ${userId}
+          AND EXISTS (
+            SELECT 1 FROM period_budgets tp
+            WHERE tp.category_id = ${targetId}
+              AND tp.period_unit = sp.period_unit
+              AND tp.period_length = sp.period_length
+          )
+      `;
+      await tx`
+        UPDATE period_budgets SET category_id = ${targetId}
+        WHERE category_id = ${sourceId} AND user_id = ${userId}
+      `;
+      if (summary.combine_budgets) {
+        await tx`
+          UPDATE categories
+          SET budget = budget + (
+            SELECT budget FROM categories WHERE id = ${sourceId}
+          )
+          WHERE id = ${targetId} AND user_id = ${userId}
+        `;
+      }
+      await tx`
+        UPDATE envelope_assignments SET category_id = ${targetId}
+        WHERE category_id = ${sourceId} AND user_id = ${userId}
+      `;
+
+      await tx`
+        UPDATE categorization_rules SET set_category_id = ${targetId}
+        WHERE set_category_id = ${sourceId} AND user_id = ${userId}
+      `;
+      await tx`
+        UPDATE recurring_transactions SET category_id = ${targetId}
+        WHERE category_id = ${sourceId} AND user_id = ${userId}
+      `;
+      await tx`
+        UPDATE recurring_exceptions SET category_id = ${targetId}
+        WHERE category_id = ${sourceId}
+      `;
+      await tx`
+        UPDATE categories SET parent_id = ${targetId}
+        WHERE parent_id = ${sourceId} AND user_id = ${userId}
       `;
-      return (result[0] as Category) || null;
-    }
 
-    return null;
+      await tx`
+        DELETE FROM categories WHERE id = ${sourceId} AND user_id = ${userId}
+      `;
+
+      return summary;
+    });
   }
+
   // Delete category
   static async delete(id: string, userId: string): Promise<boolean> {
-    // First, set category_id to null for all transactions using this category
-    await sql`
-      UPDATE transactions 
-      SET category_id = NULL 
-      WHERE category_id = ${id} AND user_id = ${userId}
-    `;
+    return await sql.begin(async (tx) => {
+      // First, set category_id to null for all transactions using this category
+      await tx`
+        UPDATE transactions 
+        SET category_id = NULL 
+        WHERE category_id = ${id} AND user_id = ${userId}
+      `;
 
-    // Then delete the category
-    const result = await sql`
-      DELETE FROM categories 
-      WHERE id = ${id} AND user_id = ${userId}
-    `;
+      // Subcategories move up to the deleted category's parent
+      await tx`
+        UPDATE categories
+        SET parent_id = (
+          SELECT parent_id FROM categories WHERE id = ${id} AND user_id = ${userId}
+        )
+        WHERE parent_id = ${id} AND user_id = ${userId}
+      `;
+
+      // Then delete the category
+      const result = await tx`
+        DELETE FROM categories 
+        WHERE id = ${id} AND user_id = ${userId}
+        RETURNING id
+      `;
 
-    return result.length > 0;
+      return result.length > 0;
+    });
   }
-  // Get category budget vs spending for current month
+  // Get category budget vs spending for current month, from the same
+  // budgets as /api/budgets: the month's budgets row, else the category's
+  // default budget. A parent's budget covers its subcategories, so their
+  // spending counts against it too.
   static async getBudgetAnalysis(userId: string): Promise<
     Array<{
       id: string;
+      parentId: string | null;
       name: string;
       budget: number;
       spent: number;
@@ -178,66 +528,57 @@ export class CategoryService {
       color: string;
     }>
   > {
-    const result = await sql`
-      SELECT 
-        c.id,
-        c.name,
-        c.budget,
-        c.color,
-        COALESCE(SUM(CASE WHEN t.type = 'expense' THEN t.amount ELSE 0 END), 0) as spent
-      FROM categories c
-      LEFT JOIN transactions t ON c.id = t.category_id 
-        AND EXTRACT(MONTH FROM t.date) = EXTRACT(MONTH FROM CURRENT_DATE)
-        AND EXTRACT(YEAR FROM t.date) = EXTRACT(YEAR FROM CURRENT_DATE)
-      WHERE c.user_id = ${userId} AND c.budget > 0
-      GROUP BY c.id, c.name, c.budget, c.color
-      ORDER BY c.name
-    `;
+    const budgets = await BudgetService.getByUser(userId);
 
-    return result.map((row: any) => {
-      const budget = parseFloat(row.budget);
-      const spent = parseFloat(row.spent);
-      const remaining = budget - spent;
-      const percentageUsed = budget > 0 ? (spent / budget) * 100 : 0;
-
-      return {
-        id: row.id,
-        name: row.name,
-        budget,
-        spent,
-        remaining,
-        percentageUsed: Math.round(percentageUsed * 100) / 100,
-        color: row.color,
-      };
-    });
+    return budgets.map((budget) => ({
+      id: budget.category_id,
+      parentId: budget.category_parent_id,
+      name: budget.category_name,
+      budget: budget.effective_limit,
+      spent: budget.spent_amount,
+      remaining: budget.remaining_amount,
+      percentageUsed: Math.round(budget.percentage_used * 100) / 100,
+      color: budget.category_color,
+    }));
   }
-  // Get category spending trends (last 6 months)
-  static async getSpendingTrends(userId: string): Promise<
+  // Get category spending over the last few periods, oldest first. Periods
+  // are calendar months unless another budget period is given, e.g. the
+  // weeks of a weekly budget. Only a category's own transactions count.
+  static async getSpendingTrends(
+    userId: string,
+    period: BudgetPeriod = CALENDAR_MONTH,
+    count: number = 6
+  ): Promise<
     Array<{
       categoryId: string;
       categoryName: string;
-      monthlySpending: Array<{
-        month: string;
+      spending: Array<{
+        periodStart: string;
+        periodEnd: string;
         amount: number;
       }>;
     }>
   > {
+    const periods = recentPeriods(period, todayString(), count);
+    const first = periods[0].start;
+    const last = periods[periods.length - 1].end;
+
     const result = await sql`
       SELECT 
         c.id as category_id,
         c.name as category_name,
-        TO_CHAR(t.date, 'YYYY-MM') as month,
-        SUM(t.amount) as amount
+        TO_CHAR(t.date, 'YYYY-MM-DD') as date,
+        SUM(t.base_amount) as amount
       FROM categories c
-      LEFT JOIN transactions t ON c.id = t.category_id 
+      LEFT JOIN transaction_lines t ON c.id = t.category_id 
         AND t.type = 'expense'
-        AND t.date >= CURRENT_DATE - INTERVAL '6 months'
+        AND t.date BETWEEN ${first} AND ${last}
       WHERE c.user_id = ${userId}
-      GROUP BY c.id, c.name, TO_CHAR(t.date, 'YYYY-MM')
-      ORDER BY c.name, month
+      GROUP BY c.id, c.name, t.date
+      ORDER BY c.name, date
     `;
 
-    // Group by category
+    // Group by category, then add each day's spending to its period
     const categoryMap = new Map();
 
     for (const row of result) {
@@ -246,24 +587,33 @@ export class CategoryService {
         categoryMap.set(typedRow.category_id, {
           categoryId: typedRow.category_id,
           categoryName: typedRow.category_name,
-          monthlySpending: [],
+          spending: periods.map((bounds) => ({
+            periodStart: bounds.start,
+            periodEnd: bounds.end,
+            amount: 0,
+          })),
         });
       }
 
-      if (typedRow.month) {
-        categoryMap.get(typedRow.category_id).monthlySpending.push({
-          month: typedRow.month,
-          amount: parseFloat(typedRow.amount || "0"),
-        });
+      if (typedRow.date) {
+        const bucket = categoryMap
+          .get(typedRow.category_id)
+          .spending.find(
+            (p: { periodStart: string; periodEnd: string }) =>
+              p.periodStart <= typedRow.date && typedRow.date <= p.periodEnd
+          );
+        bucket.amount += parseFloat(typedRow.amount || "0");
       }
     }
 
     return Array.from(categoryMap.values());
   }
-  // Check if category name exists for user
+  // Check if a sibling under the same parent (null for top level) already
+  // has the name; the same name may be used under different parents
   static async existsByName(
     name: string,
     userId: string,
+    parentId: string | null,
     excludeId?: string
   ): Promise<boolean> {
     let result;
@@ -272,18 +622,21 @@ export class CategoryService {
       result = await sql`
         SELECT COUNT(*) as count 
         FROM categories 
-        WHERE name = ${name} AND user_id = ${userId} AND id != ${excludeId}
+        WHERE name = ${name} AND user_id = ${userId}
+          AND parent_id IS NOT DISTINCT FROM ${parentId}::uuid
+          AND id != ${excludeId}
       `;
     } else {
       result = await sql`
         SELECT COUNT(*) as count 
         FROM categories 
         WHERE name = ${name} AND user_id = ${userId}
+          AND parent_id IS NOT DISTINCT FROM ${parentId}::uuid
       `;
     }
 
     return parseInt((result[0] as any).count) > 0;
-  } // Get categories with transaction counts
+  } // Get categories with transaction counts, rolled up into parents
   static async getCategoriesWithStats(
     userId: string,
     startDate?: string,
@@ -291,6 +644,7 @@ export class CategoryService {
   ): Promise<
     Array<{
       id: string;
+      parentId: string | null;
       name: string;
       color: string;
       totalSpent: number;
@@ -303,35 +657,40 @@ export class CategoryService {
       result = await sql`
         SELECT 
           c.id,
+          c.parent_id,
           c.name,
           c.color,
-          COALESCE(SUM(CASE WHEN t.type = 'expense' THEN t.amount ELSE 0 END), 0) as total_spent,
-          COUNT(t.id) as transaction_count
+          COALESCE(SUM(CASE WHEN t.type = 'expense' THEN t.base_amount ELSE 0 END), 0) as total_spent,
+          COUNT(DISTINCT t.transaction_id) as transaction_count
         FROM categories c
-        LEFT JOIN transactions t ON c.id = t.category_id 
+        JOIN category_closure(${userId}) cc ON cc.ancestor_id = c.id
+        LEFT JOIN transaction_lines t ON cc.descendant_id = t.category_id 
           AND t.date >= ${startDate} AND t.date <= ${endDate}
         WHERE c.user_id = ${userId}
-        GROUP BY c.id, c.name, c.color
+        GROUP BY c.id, c.parent_id, c.name, c.color
         ORDER BY total_spent DESC
       `;
     } else {
       result = await sql`
         SELECT 
           c.id,
+          c.parent_id,
           c.name,
           c.color,
-          COALESCE(SUM(CASE WHEN t.type = 'expense' THEN t.amount ELSE 0 END), 0) as total_spent,
-          COUNT(t.id) as transaction_count
+          COALESCE(SUM(CASE WHEN t.type = 'expense' THEN t.base_amount ELSE 0 END), 0) as total_spent,
+          COUNT(DISTINCT t.transaction_id) as transaction_count
         FROM categories c
-        LEFT JOIN transactions t ON c.id = t.category_id
+        JOIN category_closure(${userId}) cc ON cc.ancestor_id = c.id
+        LEFT JOIN transaction_lines t ON cc.descendant_id = t.category_id
         WHERE c.user_id = ${userId}
-        GROUP BY c.id, c.name, c.color
+        GROUP BY c.id, c.parent_id, c.name, c.color
         ORDER BY total_spent DESC
       `;
     }
 
     return result.map((row: any) => ({
       id: row.id,
+      parentId: row.parent_id,
       name: row.name,
       color: row.color,
       totalSpent: parseFloat(row.total_spent),
@@ -0,0 +1,312 @@
+import crypto from "crypto";
+import { sql } from "../db/connection";
+import { env } from "../config/env";
+import { TransactionService, MonthlySummary } from "./transactionService";
+import { BudgetService } from "./budgetService";
+import {
+  PeriodBudgetService,
+  BudgetPeriod,
+  PeriodBounds,
+  CALENDAR_MONTH,
+  getPeriodBounds,
+  addDays,
+  todayString,
+} from "./periodBudgetService";
+import { UserService, User, DigestFrequency } from "./userService";
+import { EmailService } from "./emailService";
+
+// ===== TYPE DEFINITIONS =====
+
+export type DigestPeriod = Exclude<DigestFrequency, "none">;
+
+export interface DigestCategory {
+  categoryName: string;
+  amount: number;
+  previousAmount: number; // in the previous period
+}
+
+export interface DigestBudget {
+  categoryName: string;
+  limitAmount: number;
+  spentAmount: number;
+  percentageUsed: number;
+}
+
+export interface DigestTransaction {
+  description: string;
+  amount: number;
+  currency: string;
+  date: string; // YYYY-MM-DD
+  categoryName: string | null;
+}
+
+export interface DigestNotification {
+  id: string;
+  title: string;
+  message: string;
+}
+
+// Everything in one digest email. Amounts are in the user's base currency
+// unless they carry their own.
+export interface Digest {
+  frequency: DigestPeriod;
+  period: PeriodBounds;
+  previousPeriod: PeriodBounds;
+  currency: string;
+  summary: MonthlySummary;
+  previousSummary: MonthlySummary;
+  topCategories: DigestCategory[];
+  budgetsAtRisk: DigestBudget[];
+  biggestTransactions: DigestTransaction[];
+  notifications: DigestNotification[]; // sent to the digest channel
+}
+
+// ===== HELPERS =====
+
+// Weeks run Monday to Sunday; 2000-01-03 was a Monday
+const DIGEST_PERIODS: Record<DigestPeriod, BudgetPeriod> = {
+  weekly: { unit: "week", length: 1, anchor: "2000-01-03" },
+  monthly: CALENDAR_MONTH,
+};
+
+// Budgets at or past this percentage are listed as at risk
+const AT_RISK_PERCENTAGE = 80;
+
+const TOP_COUNT = 5;
+
+// The latest period that has fully ended before `on`
+function completedPeriod(frequency: DigestPeriod, on: string): PeriodBounds {
+  const period = DIGEST_PERIODS[frequency];
+  return getPeriodBounds(
+    period,
+    addDays(getPeriodBounds(period, on).start, -1)
+  );
+}
+
+function previousPeriod(
+  frequency: DigestPeriod,
+  bounds: PeriodBounds
+): PeriodBounds {
+  return getPeriodBounds(DIGEST_PERIODS[frequency], addDays(bounds.start, -1));
+}
+
+const unsubscribeToken = (userId: string): string =>
+  crypto
+    .createHmac("sha256", env.JWT_SECRET)
+    .update(`digest-unsubscribe:${userId}`)
+    .digest("hex");
+
+// ===== SERVICE CLASS =====
+
+export class DigestService {
+  // Put together the digest for the latest period that ended before `on`
+  static async build(
+    user: User,
+    frequency: DigestPeriod,
+    on: string = todayString()
+  ): Promise<Digest> {
+    const period = completedPeriod(frequency, on);
+    const previous = previousPeriod(frequency, period);
+
+    const [
+      summary,
+      previousSummary,
+      spending,
+      previousSpending,
+      budgetsAtRisk,
+      biggest,
+      notifications,
+    ] = await Promise.all([
+      this.getSummary(user.id, frequency, period),
+      this.getSummary(user.id, frequency, previous),
+      TransactionService.getCategorySpending(user.id, period.start, period.end),
+      TransactionService.getCategorySpending(
+        user.id,
+        previous.start,
+        previous.end
+      ),
+      this.getBudgetsAtRisk(user.id, period.end),
+      TransactionService.findMany({
+        userId: user.id,
+        type: "expense",
+        startDate: period.start,
+        endDate: period.end,
+        sort: "amount",
+        order: "desc",
+        limit: TOP_COUNT,
+      }),
+      sql`
+        SELECT id, title, message FROM notifications
+        WHERE user_id = ${user.id} AND digest_status = 'pending'
+        ORDER BY created_at
+      `,
+    ]);
+
+    const previousByCategory = new Map(
+      previousSpending.map((c) => [c.categoryId, c.amount])
+    );
+
+    return {
+      frequency,
+      period,
+      previousPeriod: previous,
+      currency: user.base_currency,
+      summary,
+      previousSummary,
+      topCategories: spending.slice(0, TOP_COUNT).map((c) => ({
+        categoryName: c.categoryName,
+        amount: c.amount,
+        previousAmount: previousByCategory.get(c.categoryId) ?? 0,
+      })),
+      budgetsAtRisk,
+      biggestTransactions: biggest.transactions.map((t) => ({
+        description: t.description,
+        amount: parseFloat(String(t.amount)),
+        currency: t.currency,
+        date: new Date(t.date).toISOString().split("T")[0],
+        categoryName: t.category_name ?? null,
+      })),
+      notifications: notifications as DigestNotification[],
+    };
+  }
+
+  // Email a user their digest. Pending digest notifications are marked as
+  // sent once the email is out.
+  static async send(
+    user: User,
+    frequency: DigestPeriod,
+    on: string = todayString()
+  ): Promise<boolean> {
+    const digest = await this.build(user, frequency, on);
+    const sent = await EmailService.sendDigestEmail(
+      user.email,
+      user.name,
+      digest,
+      this.getUnsubscribeUrl(user.id)
+    );
+
+    if (sent && digest.notifications.length > 0) {
+      await sql`
+        UPDATE notifications
+        SET digest_status = 'sent'
+        WHERE id IN ${sql(digest.notifications.map((n) => n.id))}
+      `;
+    }
+    return sent;
+  }
+
+  // Send every digest whose period has ended and hasn't been sent. Each user
+  // is claimed by moving digest_sent_through first, so several servers can
+  // run this at once without sending twice.
+  // Returns the number of digests sent.
+  static async sendDue(on: string = todayString()): Promise<number> {
+    const result = await sql`
+      SELECT * FROM users WHERE digest_frequency != 'none'
+    `;
+
+    let sent = 0;
+    for (const user of result as User[]) {
+      const frequency = user.digest_frequency as DigestPeriod;
+      const period = completedPeriod(frequency, on);
+
+      const claimed = await sql`
+        UPDATE users
+        SET digest_sent_through = ${period.end}
+        WHERE id = ${user.id} AND digest_frequency = ${frequency}
+          AND (digest_sent_through IS NULL OR digest_sent_through < ${period.end})
+        RETURNING id
+      `;
+      if (claimed.length === 0) {
+        continue;
+      }
+
+      let delivered = false;
+      try {
+        delivered = await this.send(user, frequency, on);
+      } catch (error) {
+        console.error(`Failed to send digest to ${user.id}:`, error);
+      }
+
+      if (delivered) {
+        sent++;
+      } else {
+        // Let the next run try again
+        await sql`
+          UPDATE users
+          SET digest_sent_through = ${user.digest_sent_through}
+          WHERE id = ${user.id} AND digest_sent_through = ${period.end}
+        `;
+      }
+    }
+
+    return sent;
+  }
+
+  // Link that turns digests off without signing in
+  static getUnsubscribeUrl(userId: string): string {
+    return `${
+      env.PUBLIC_API_URL
+    }/api/digests/unsubscribe?user=${userId}&token=${unsubscribeToken(userId)}`;
+  }
+
+  // Turn digests off for a signed unsubscribe link. Returns false if the
+  // signature doesn't match.
+  static async unsubscribe(userId: string, token: string): Promise<boolean> {
+    const expected = Buffer.from(unsubscribeToken(userId));
+    const given = Buffer.from(token);
+    if (
+      given.length !== expected.length ||
+      !crypto.timingSafeEqual(given, expected)
+    ) {
+      return false;
+    }
+
+    return (await UserService.setDigestFrequency(userId, "none")) !== null;
+  }
+
+  // Monthly digests use the month summary; weekly ones the same totals over
+  // the week
+  private static async getSummary(
+    userId: string,
+    frequency: DigestPeriod,
+    bounds: PeriodBounds
+  ): Promise<MonthlySummary> {
+    if (frequency === "monthly") {
+      const [year, month] = bounds.start.split("-").map(Number);
+      return TransactionService.getMonthlySummary(userId, year, month);
+    }
+    return TransactionService.getSummary(userId, bounds.start, bounds.end);
+  }
+
+  // Monthly and period budgets at or near their limit on a date, fullest
+  // first
+  private static async getBudgetsAtRisk(
+    userId: string,
+    on: string
+  ): Promise<DigestBudget[]> {
+    const [year, month] = on.split("-").map(Number);
+    const [budgets, periodBudgets] = await Promise.all([
+      BudgetService.getByUser(userId, month, year),
+      PeriodBudgetService.findByUserId(userId, on),
+    ]);
+
+    return [
+      ...budgets.map((b) => ({
+        categoryName: b.category_name,
+        limitAmount: b.effective_limit,
+        spentAmount: b.spent_amount,
+        percentageUsed: b.percentage_used,
+      })),
+      ...periodBudgets.map((b) => ({
+        categoryName: b.category_name,
+        limitAmount: b.limit_amount,
+        spentAmount: b.spent_amount,
+        percentageUsed: b.percentage_used,
+      })),
+    ]
+      .filter(
+        (b) => b.limitAmount > 0 && b.percentageUsed >= AT_RISK_PERCENTAGE
+      )
+      .sort((a, b) => b.percentageUsed - a.percentageUsed);
+  }
+}
@@ -1,11 +1,67 @@
 import nodemailer from "nodemailer";
 import { env } from "../config/env";
+import type { Digest } from "./digestService";
 
 export interface EmailOptions {
   to: string;
   subject: string;
   html: string;
   text?: string;
+  headers?: Record<string, string>;
+}
+
+export interface NotificationEmailItem {
+  title: string;
+  message: string;
+  link: string | null; // frontend path
+}
+
+// User-entered text such as category names, payees and transaction
+// descriptions goes into HTML emails
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatAmount = (amount: number, currency: string): string =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency }).format(
+    amount
+  );
+
+const formatDay = (date: string): string =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+// "October 2026" or "Oct 5 - Oct 11, 2026"
+function describeDigestPeriod(digest: Digest): string {
+  const { start, end } = digest.period;
+  if (digest.frequency === "monthly") {
+    return new Date(`${start}T00:00:00Z`).toLocaleDateString("en-US", {
+      month: "long",
+      year: "numeric",
+      timeZone: "UTC",
+    });
+  }
+  return `${formatDay(start)} - ${formatDay(end)}, ${end.slice(0, 4)}`;
+}
+
+// "+12% vs last week", or nothing to compare against
+function describeChange(
+  current: number,
+  previous: number,
+  frequency: Digest["frequency"]
+): string {
+  const last = frequency === "weekly" ? "last week" : "last month";
+  if (previous === 0) {
+    return current === 0 ? `same as ${last}` : `none ${last}`;
+  }
+  const change = Math.round(((current - previous) / previous) * 100);
+  return `${change > 0 ? "+" : ""}${change}% vs ${last}`;
 }
 
 export class EmailService {
@@ -17,10 +73,13 @@ export class EmailService {
         host: env.SMTP_HOST,
         port: env.SMTP_PORT,
         secure: env.SMTP_PORT === 465, // true for 465, false for other ports
-        auth: {
-          user: env.SMTP_USER,
-          pass: env.SMTP_PASS,
-        },
+        // Local SMTP stand-ins usually take mail without logging in
+        auth: env.SMTP_USER
+          ? {
+              user: env.SMTP_USER,
+              pass: env.SMTP_PASS,
+            }
+          : undefined,
       });
     }
     return this.transporter;
@@ -32,11 +91,12 @@ export class EmailService {
       const transporter = this.getTransporter();
 
       const mailOptions = {
-        from: `"${env.APP_NAME}" <${env.SMTP_USER}>`,
+        from: `"${env.APP_NAME}" <${env.EMAIL_FROM || env.SMTP_USER}>`,
         to: options.to,
         subject: options.subject,
         html: options.html,
         text: options.text,
+        headers: options.headers,
       };
 
       const result = await transporter.sendMail(mailOptions);
@@ -229,6 +289,369 @@ export class EmailService {
     });
   }
 
+  // Send notifications by email, one block per notification
+  static async sendNotificationEmail(
+    email: string,
+    name: string,
+    notifications: NotificationEmailItem[]
+  ): Promise<boolean> {
+    const linkFor = (notification: NotificationEmailItem) =>
+      `${env.FRONTEND_URL}${notification.link ?? "/dashboard"}`;
+    const subject =
+      notifications.length === 1
+        ? notifications[0].title
+        : `You have ${notifications.length} new notifications`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${escapeHtml(subject)} - ${env.APP_NAME}</title>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #f8f9fa; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+            .content { background-color: #ffffff; padding: 30px; border: 1px solid #e9ecef; }
+            .footer { background-color: #f8f9fa; padding: 20px; text-align: center; border-radius: 0 0 8px 8px; font-size: 14px; color: #666; }
+            .notification { background-color: #f8f9fa; border: 1px solid #e9ecef; padding: 15px; border-radius: 5px; margin: 10px 0; }
+            .notification a { color: #007bff; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>${env.APP_NAME}</h1>
+              <h2>Notifications</h2>
+            </div>
+            
+            <div class="content">
+              <p>Hi ${escapeHtml(name)},</p>
+              
+              ${notifications
+                .map(
+                  (notification) => `
+              <div class="notification">
+                <strong>${escapeHtml(notification.title)}</strong><br>
+                ${escapeHtml(notification.message)}<br>
+                <a href="${linkFor(notification)}">View in ${env.APP_NAME}</a>
+              </div>`
+                )
+                .join("")}
+              
+              <p>You can choose which notifications are emailed to you in Settings.</p>
+              
+              <p>Best regards,<br>The ${env.APP_NAME} Team</p>
+            </div>
+            
+            <div class="footer">
+              <p>This is an automated email. Please do not reply to this message.</p>
+              <p>&copy; ${new Date().getFullYear()} ${
+      env.APP_NAME
+    }. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `
+      ${subject} - ${env.APP_NAME}
+      
+      Hi ${name},
+      ${notifications
+        .map(
+          (notification) => `
+      ${notification.title}
+      ${notification.message}
+      ${linkFor(notification)}
+      `
+        )
+        .join("")}
+      You can choose which notifications are emailed to you in Settings.
+      
+      Best regards,
+      The ${env.APP_NAME} Team
+    `;
+
+    return await this.sendEmail({
+      to: email,
+      subject: `${subject} - ${env.APP_NAME}`,
+      html,
+      text,
+    });
+  }
+
+  // Send a weekly or monthly digest, with a one-click unsubscribe link
+  static async sendDigestEmail(
+    email: string,
+    name: string,
+    digest: Digest,
+    unsubscribeUrl: string
+  ): Promise<boolean> {
+    const { summary, previousSummary, currency, frequency } = digest;
+    const money = (amount: number) => formatAmount(amount, currency);
+    const periodLabel = describeDigestPeriod(digest);
+    const title = `Your ${frequency} summary for ${periodLabel}`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${title} - ${env.APP_NAME}</title>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #f8f9fa; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+            .content { background-color: #ffffff; padding: 30px; border: 1px solid #e9ecef; }
+            .footer { background-color: #f8f9fa; padding: 20px; text-align: center; border-radius: 0 0 8px 8px; font-size: 14px; color: #666; }
+            .btn { display: inline-block; padding: 12px 24px; background-color: #007bff; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+            table { width: 100%; border-collapse: collapse; margin: 10px 0 20px; }
+            td, th { padding: 6px 4px; border-bottom: 1px solid #e9ecef; text-align: left; }
+            .amount { text-align: right; white-space: nowrap; }
+            .muted { color: #666; font-size: 13px; }
+            .warning { background-color: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 5px; margin: 20px 0; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>${env.APP_NAME}</h1>
+              <h2>${periodLabel}</h2>
+            </div>
+            
+            <div class="content">
+              <p>Hi ${escapeHtml(name)},</p>
+              
+              <p>Here's how your money moved ${
+                frequency === "weekly" ? "last week" : "last month"
+              }.</p>
+              
+              <h3>Income vs expenses</h3>
+              <table>
+                <tr>
+                  <td>Income</td>
+                  <td class="amount">${money(summary.totalIncome)}</td>
+                  <td class="amount muted">${describeChange(
+                    summary.totalIncome,
+                    previousSummary.totalIncome,
+                    frequency
+                  )}</td>
+                </tr>
+                <tr>
+                  <td>Expenses</td>
+                  <td class="amount">${money(summary.totalExpenses)}</td>
+                  <td class="amount muted">${describeChange(
+                    summary.totalExpenses,
+                    previousSummary.totalExpenses,
+                    frequency
+                  )}</td>
+                </tr>
+                <tr>
+                  <th>Net</th>
+                  <th class="amount">${money(summary.netAmount)}</th>
+                  <td class="amount muted">${money(
+                    previousSummary.netAmount
+                  )} before</td>
+                </tr>
+              </table>
+              
+              ${
+                digest.topCategories.length > 0
+                  ? `<h3>Top categories</h3>
+              <table>
+                ${digest.topCategories
+                  .map(
+                    (category) => `
+                <tr>
+                  <td>${escapeHtml(category.categoryName)}</td>
+                  <td class="amount">${money(category.amount)}</td>
+                  <td class="amount muted">${describeChange(
+                    category.amount,
+                    category.previousAmount,
+                    frequency
+                  )}</td>
+                </tr>`
+                  )
+                  .join("")}
+              </table>`
+                  : ""
+              }
+              
+              ${
+                digest.budgetsAtRisk.length > 0
+                  ? `<div class="warning">
+                <strong>Budgets at risk</strong>
+                <ul>
+                  ${digest.budgetsAtRisk
+                    .map(
+                      (budget) =>
+                        `<li>${escapeHtml(budget.categoryName)}: ${money(
+                          budget.spentAmount
+                        )} of ${money(budget.limitAmount)} (${Math.round(
+                          budget.percentageUsed
+                        )}%)</li>`
+                    )
+                    .join("")}
+                </ul>
+              </div>`
+                  : ""
+              }
+              
+              ${
+                digest.biggestTransactions.length > 0
+                  ? `<h3>Biggest transactions</h3>
+              <table>
+                ${digest.biggestTransactions
+                  .map(
+                    (transaction) => `
+                <tr>
+                  <td>${escapeHtml(
+                    transaction.description
+                  )}<br><span class="muted">${formatDay(transaction.date)}${
+                      transaction.categoryName
+                        ? ` &middot; ${escapeHtml(transaction.categoryName)}`
+                        : ""
+                    }</span></td>
+                  <td class="amount">${formatAmount(
+                    transaction.amount,
+                    transaction.currency
+                  )}</td>
+                </tr>`
+                  )
+                  .join("")}
+              </table>`
+                  : ""
+              }
+              
+              ${
+                digest.notifications.length > 0
+                  ? `<h3>Notifications</h3>
+              <ul>
+                ${digest.notifications
+                  .map(
+                    (notification) =>
+                      `<li><strong>${escapeHtml(
+                        notification.title
+                      )}</strong> ${escapeHtml(notification.message)}</li>`
+                  )
+                  .join("")}
+              </ul>`
+                  : ""
+              }
+              
+              <div style="text-align: center;">
+                <a href="${env.FRONTEND_URL}/dashboard" class="btn">Open ${
+      env.APP_NAME
+    }</a>
+              </div>
+              
+              <p>Best regards,<br>The ${env.APP_NAME} Team</p>
+            </div>
+            
+            <div class="footer">
+              <p>You're getting this because you turned on ${frequency} digests. <a href="${unsubscribeUrl}">Unsubscribe</a></p>
+              <p>&copy; ${new Date().getFullYear()} ${
+      env.APP_NAME
+    }. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `
+      ${title} - ${env.APP_NAME}
+      
+      Hi ${name},
+      
+      INCOME VS EXPENSES
+      Income:   ${money(summary.totalIncome)} (${describeChange(
+      summary.totalIncome,
+      previousSummary.totalIncome,
+      frequency
+    )})
+      Expenses: ${money(summary.totalExpenses)} (${describeChange(
+      summary.totalExpenses,
+      previousSummary.totalExpenses,
+      frequency
+    )})
+      Net:      ${money(summary.netAmount)}
+      ${
+        digest.topCategories.length > 0
+          ? `
+      TOP CATEGORIES${digest.topCategories
+        .map(
+          (category) => `
+      - ${category.categoryName}: ${money(category.amount)} (${describeChange(
+            category.amount,
+            category.previousAmount,
+            frequency
+          )})`
+        )
+        .join("")}
+      `
+          : ""
+      }${
+      digest.budgetsAtRisk.length > 0
+        ? `
+      BUDGETS AT RISK${digest.budgetsAtRisk
+        .map(
+          (budget) => `
+      - ${budget.categoryName}: ${money(budget.spentAmount)} of ${money(
+            budget.limitAmount
+          )} (${Math.round(budget.percentageUsed)}%)`
+        )
+        .join("")}
+      `
+        : ""
+    }${
+      digest.biggestTransactions.length > 0
+        ? `
+      BIGGEST TRANSACTIONS${digest.biggestTransactions
+        .map(
+          (transaction) => `
+      - ${transaction.date} ${transaction.description}: ${formatAmount(
+            transaction.amount,
+            transaction.currency
+          )}`
+        )
+        .join("")}
+      `
+        : ""
+    }${
+      digest.notifications.length > 0
+        ? `
+      NOTIFICATIONS${digest.notifications
+        .map(
+          (notification) => `
+      - ${notification.title}: ${notification.message}`
+        )
+        .join("")}
+      `
+        : ""
+    }
+      Visit ${env.FRONTEND_URL}/dashboard for more.
+      
+      To stop these emails, visit ${unsubscribeUrl}
+    `;
+
+    return await this.sendEmail({
+      to: email,
+      subject: `${title} - ${env.APP_NAME}`,
+      html,
+      text,
+      // One-click unsubscribe from the mail client (RFC 8058)
+      headers: {
+        "List-Unsubscribe": `<${unsubscribeUrl}>`,
+        "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+      },
+    });
+  }
+
   // Test email connection
   static async testConnection(): Promise<boolean> {
     try {
@@ -0,0 +1,190 @@
+import { sql } from "../db/connection";
+import { env } from "../config/env";
+import { parseCsv, parseAmount, parseDate } from "./importService";
+
+// ===== TYPE DEFINITIONS =====
+
+export interface ExchangeRate {
+  id: string;
+  user_id: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number; // 1 from_currency = rate to_currency
+  date: Date;
+  created_at: Date;
+}
+
+export interface CreateExchangeRateData {
+  user_id: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  date: string; // YYYY-MM-DD
+}
+
+export interface ExchangeRateFilters {
+  currency?: string; // matches either side of the pair
+  limit?: number;
+  offset?: number;
+}
+
+export interface RateImportResult {
+  imported: number;
+  errors: Array<{ line: number; error: string }>;
+}
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+// Numeric columns come back from Postgres as strings
+const normalizeRate = (row: any): ExchangeRate => ({
+  ...row,
+  rate: parseFloat(String(row.rate)),
+});
+
+// ===== SERVICE CLASS =====
+
+export class ExchangeRateService {
+  // Get a user's rates, newest first
+  static async findByUserId(
+    userId: string,
+    filters: ExchangeRateFilters = {}
+  ): Promise<{ rates: ExchangeRate[]; total: number }> {
+    const currency = filters.currency ?? null;
+    const limit = filters.limit ?? env.DEFAULT_PAGE_SIZE;
+    const offset = filters.offset ?? 0;
+
+    const result = await sql`
+      SELECT * FROM exchange_rates
+      WHERE user_id = ${userId}
+        AND (${currency}::text IS NULL
+          OR from_currency = ${currency} OR to_currency = ${currency})
+      ORDER BY date DESC, from_currency, to_currency
+      LIMIT ${limit} OFFSET ${offset}
+    `;
+
+    const countResult = await sql`
+      SELECT COUNT(*) as total FROM exchange_rates
+      WHERE user_id = ${userId}
+        AND (${currency}::text IS NULL
+          OR from_currency = ${currency} OR to_currency = ${currency})
+    `;
+
+    return {
+      rates: result.map(normalizeRate),
+      total: parseInt(countResult[0]?.total || "0"),
+    };
+  }
+
+  // Add a rate, replacing any existing rate for the same pair and date
+  static async upsert(rateData: CreateExchangeRateData): Promise<ExchangeRate> {
+    const { user_id, from_currency, to_currency, rate, date } = rateData;
+
+    const result = await sql`
+      INSERT INTO exchange_rates (user_id, from_currency, to_currency, rate, date)
+      VALUES (${user_id}, ${from_currency}, ${to_currency}, ${rate}, ${date})
+      ON CONFLICT (user_id, from_currency, to_currency, date)
+      DO UPDATE SET rate = EXCLUDED.rate
+      RETURNING *
+    `;
+
+    return normalizeRate(result[0]);
+  }
+
+  // Load rates from a CSV file with date, from, to and rate columns (a header
+  // row is optional). Valid lines are saved even when others have errors.
+  static async importCsv(
+    userId: string,
+    content: string
+  ): Promise<RateImportResult> {
+    const rows = parseCsv(content, content.includes(";") ? ";" : ",");
+    if (rows.length > env.IMPORT_MAX_ROWS) {
+      throw new Error(
+        `File has ${rows.length} rows; the maximum per import is ${env.IMPORT_MAX_ROWS}`
+      );
+    }
+
+    const errors: RateImportResult["errors"] = [];
+    // Keyed by pair and date so a repeated line keeps the last rate
+    const ratesByKey = new Map<string, CreateExchangeRateData>();
+
+    rows.forEach(({ line, values }, index) => {
+      const [rawDate = "", rawFrom = "", rawTo = "", rawRate = ""] = values.map(
+        (value) => value.trim()
+      );
+      const date = parseDate(rawDate, "YYYY-MM-DD");
+
+      // Skip a header row
+      if (index === 0 && !date) {
+        return;
+      }
+
+      const from = rawFrom.toUpperCase();
+      const to = rawTo.toUpperCase();
+      const rate = parseAmount(rawRate, ".");
+
+      if (!date) {
+        errors.push({ line, error: "Date must be in YYYY-MM-DD format" });
+      } else if (!CURRENCY_PATTERN.test(from) || !CURRENCY_PATTERN.test(to)) {
+        errors.push({ line, error: "Currencies must be 3-letter ISO codes" });
+      } else if (from === to) {
+        errors.push({ line, error: "Currencies must differ" });
+      } else if (rate === null || rate <= 0) {
+        errors.push({ line, error: "Rate must be a positive number" });
+      } else {
+        ratesByKey.set(`${from}:${to}:${date}`, {
+          user_id: userId,
+          from_currency: from,
+          to_currency: to,
+          rate,
+          date,
+        });
+      }
+    });
+
+    const rates = Array.from(ratesByKey.values());
+    await sql.begin(async (tx) => {
+      for (let i = 0; i < rates.length; i += env.IMPORT_BATCH_SIZE) {
+        const batch = rates.slice(i, i + env.IMPORT_BATCH_SIZE);
+        await tx`
+          INSERT INTO exchange_rates ${tx(batch)}
+          ON CONFLICT (user_id, from_currency, to_currency, date)
+          DO UPDATE SET rate = EXCLUDED.rate
+        `;
+      }
+    });
+
+    return { imported: rates.length, errors };
+  }
+
+  // Delete rate
+  static async delete(id: string, userId: string): Promise<boolean> {
+    const result = await sql`
+      DELETE FROM exchange_rates
+      WHERE id = ${id} AND user_id = ${userId}
+      RETURNING id
+    `;
+
+    return result.length > 0;
+  }
+
+  // Currencies the user has transactions in but no rate to the base
+  // currency for; amounts in them are counted one-to-one
+  static async getMissingCurrencies(userId: string): Promise<string[]> {
+    const result = await sql`
+      SELECT DISTINCT t.currency
+      FROM transactions t
+      JOIN users u ON u.id = t.user_id
+      WHERE t.user_id = ${userId}
+        AND t.currency != u.base_currency
+        AND NOT EXISTS (
+          SELECT 1 FROM exchange_rates r
+          WHERE r.user_id = t.user_id
+            AND ((r.from_currency = t.currency AND r.to_currency = u.base_currency)
+              OR (r.from_currency = u.base_currency AND r.to_currency = t.currency))
+        )
+      ORDER BY t.currency
+    `;
+
+    return result.map((row: { currency: string }) => row.currency);
+  }
+}
@@ -0,0 +1,543 @@
+import { sql } from "../db/connection";
+import { env } from "../config/env";
+import {
+  TransactionQueryBuilder,
+  TransactionQueryFilters,
+} from "./transactionQuery";
+
+// ===== TYPE DEFINITIONS =====
+
+export type ExportFormat = "csv" | "json" | "ofx";
+
+export type ExportResource = "transactions" | "categories" | "budgets";
+
+// Same filters as the transaction list, without sorting or paging
+export type ExportFilters = TransactionQueryFilters;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  resource: ExportResource; // CSV only; JSON and OFX have a fixed layout
+  filters: ExportFilters;
+}
+
+interface ExportTransactionRow {
+  id: string;
+  date: Date;
+  type: "income" | "expense" | "transfer";
+  amount: string;
+  currency: string;
+  base_amount: string; // amount in the user's base currency
+  description: string;
+  category_id: string | null;
+  category_name: string | null;
+  account_id: string | null;
+  account_name: string | null;
+  external_id: string | null;
+  transfer_id: string | null;
+  transfer_direction: "in" | "out" | null;
+  splits: ExportSplit[];
+  created_at: Date;
+}
+
+// Text forms of the last row's date, created_at and id, which the next batch
+// continues after
+type ExportTransactionPageRow = ExportTransactionRow & {
+  cursor_date: string;
+  cursor_created_at: string;
+};
+
+interface ExportSplit {
+  category_id: string | null;
+  category: string | null;
+  amount: number;
+  memo: string | null;
+}
+
+interface ExportAccountRow {
+  id: string;
+  name: string;
+  type: string;
+  opening_balance: string;
+  currency: string;
+  created_at: Date;
+}
+
+interface ExportCategoryRow {
+  id: string;
+  name: string;
+  budget: string;
+  color: string;
+  created_at: Date;
+}
+
+interface ExportBudgetRow {
+  id: string;
+  category_id: string;
+  category_name: string;
+  month: number;
+  year: number;
+  limit_amount: string;
+  created_at: Date;
+}
+
+// ===== FORMATTING HELPERS =====
+
+const toDateString = (date: Date): string => date.toISOString().split("T")[0];
+
+// Quote a CSV field when it contains a delimiter, quote or line break.
+// Spreadsheets run text starting with =, +, - or @ as a formula, so such
+// text gets a leading ' to keep it as plain text; numbers are left alone.
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  let text = value instanceof Date ? toDateString(value) : String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(values: unknown[]): string {
+  return values.map(csvField).join(",") + "\r\n";
+}
+
+function ofxEscape(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+// OFX dates are YYYYMMDD
+const ofxDate = (date: string): string => date.replace(/-/g, "");
+
+// ===== SERVICE CLASS =====
+
+export class ExportService {
+  // File name and MIME type for the Content-Disposition/Content-Type headers
+  static describe(options: ExportOptions): {
+    fileName: string;
+    contentType: string;
+  } {
+    const today = toDateString(new Date());
+
+    switch (options.format) {
+      case "csv":
+        return {
+          fileName: `budget-${options.resource}-${today}.csv`,
+          contentType: "text/csv; charset=utf-8",
+        };
+      case "json":
+        return {
+          fileName: `budget-export-${today}.json`,
+          contentType: "application/json; charset=utf-8",
+        };
+      case "ofx":
+        return {
+          fileName: `budget-transactions-${today}.ofx`,
+          contentType: "application/x-ofx",
+        };
+    }
+  }
+
+  // Produce the export as a sequence of text chunks so large histories can be
+  // streamed to the client without being held in memory
+  static async *generate(
+    userId: string,
+    options: ExportOptions
+  ): AsyncGenerator<string> {
+    switch (options.format) {
+      case "csv":
+        yield* this.generateCsv(userId, options);
+        break;
+      case "json":
+        yield* this.generateJson(userId, options.filters);
+        break;
+      case "ofx":
+        yield* this.generateOfx(userId, options.filters);
+        break;
+    }
+  }
+
+  private static async *generateCsv(
+    userId: string,
+    options: ExportOptions
+  ): AsyncGenerator<string> {
+    const { filters } = options;
+
+    if (options.resource === "categories") {
+      yield csvRow(["id", "name", "budget", "color", "created_at"]);
+      for (const category of await this.getCategories(userId, filters)) {
+        yield csvRow([
+          category.id,
+          category.name,
+          parseFloat(category.budget),
+          category.color,
+          category.created_at.toISOString(),
+        ]);
+      }
+      return;
+    }
+
+    if (options.resource === "budgets") {
+      yield csvRow([
+        "id",
+        "category_id",
+        "category",
+        "year",
+        "month",
+        "limit_amount",
+      ]);
+      for (const budget of await this.getBudgets(userId, filters)) {
+        yield csvRow([
+          budget.id,
+          budget.category_id,
+          budget.category_name,
+          budget.year,
+          budget.month,
+          parseFloat(budget.limit_amount),
+        ]);
+      }
+      return;
+    }
+
+    yield csvRow([
+      "id",
+      "date",
+      "type",
+      "amount",
+      "currency",
+      "base_amount",
+      "description",
+      "category_id",
+      "category",
+      "account_id",
+      "account",
+      "external_id",
+      "transfer_id",
+      "transfer_direction",
+      "splits",
+    ]);
+    for await (const batch of this.transactionBatches(userId, filters)) {
+      yield batch
+        .map((transaction) =>
+          csvRow([
+            transaction.id,
+            transaction.date,
+            transaction.type,
+            parseFloat(transaction.amount),
+            transaction.currency,
+            parseFloat(transaction.base_amount),
+            transaction.description,
+            transaction.category_id,
+            transaction.category_name,
+            transaction.account_id,
+            transaction.account_name,
+            transaction.external_id,
+            transaction.transfer_id,
+            transaction.transfer_direction,
+            // e.g. "Groceries:45.10; Pharmacy:12.00"
+            transaction.splits
+              .map(
+                (split) =>
+                  `${split.category ?? "Uncategorized"}:${Number(
+                    split.amount
+                  ).toFixed(2)}`
+              )
+              .join("; "),
+          ])
+        )
+        .join("");
+    }
+  }
+
+  // Structured archive of everything the user owns, suitable for backups
+  private static async *generateJson(
+    userId: string,
+    filters: ExportFilters
+  ): AsyncGenerator<string> {
+    const userResult = await sql`
+      SELECT id, email, name, base_currency, created_at FROM users WHERE id = ${userId}
+    `;
+    const accounts = await this.getAccounts(userId, filters);
+    const categories = await this.getCategories(userId, filters);
+    const budgets = await this.getBudgets(userId, filters);
+
+    const header = {
+      version: 1,
+      exported_at: new Date().toISOString(),
+      filters: {
+        type: filters.type ?? null,
+        category_id: filters.categoryId ?? null,
+        account_id: filters.accountId ?? null,
+        tag_id: filters.tagId ?? null,
+        start_date: filters.startDate ?? null,
+        end_date: filters.endDate ?? null,
+        text_query: filters.textQuery ?? null,
+        min_amount: filters.minAmount ?? null,
+        max_amount: filters.maxAmount ?? null,
+        category_name: filters.categoryName ?? null,
+        account_name: filters.accountName ?? null,
+        tag_name: filters.tagName ?? null,
+      },
+      user: userResult[0] ?? null,
+      accounts: accounts.map((account) => ({
+        ...account,
+        opening_balance: parseFloat(account.opening_balance),
+      })),
+      categories: categories.map((category) => ({
+        ...category,
+        budget: parseFloat(category.budget),
+      })),
+      budgets: budgets.map((budget) => ({
+        ...budget,
+        limit_amount: parseFloat(budget.limit_amount),
+      })),
+    };
+
+    // Emit everything but the transactions, then stream those into the array
+    yield JSON.stringify(header).slice(0, -1) + ',"transactions":[';
+
+    let first = true;
+    for await (const batch of this.transactionBatches(userId, filters)) {
+      const items = batch.map((transaction) =>
+        JSON.stringify({
+          ...transaction,
+          date: toDateString(transaction.date),
+          amount: parseFloat(transaction.amount),
+          base_amount: parseFloat(transaction.base_amount),
+        })
+      );
+      yield (first ? "" : ",") + items.join(",");
+      first = false;
+    }
+
+    yield "]}";
+  }
+
+  // OFX 1.0.2 (SGML) bank statement, the most widely accepted variant
+  private static async *generateOfx(
+    userId: string,
+    filters: ExportFilters
+  ): AsyncGenerator<string> {
+    const now = ofxDate(toDateString(new Date()));
+    const start = filters.startDate ? ofxDate(filters.startDate) : now;
+    const end = filters.endDate ? ofxDate(filters.endDate) : now;
+    const userResult = await sql`
+      SELECT base_currency FROM users WHERE id = ${userId}
+    `;
+    const baseCurrency: string = userResult[0]?.base_currency ?? "USD";
+
+    yield [
+      "OFXHEADER:100",
+      "DATA:OFXSGML",
+      "VERSION:102",
+      "SECURITY:NONE",
+      "ENCODING:USASCII",
+      "CHARSET:1252",
+      "COMPRESSION:NONE",
+      "OLDFILEUID:NONE",
+      "NEWFILEUID:NONE",
+      "",
+      "<OFX>",
+      "<SIGNONMSGSRSV1><SONRS>",
+      "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+      `<DTSERVER>${now}`,
+      "<LANGUAGE>ENG",
+      "</SONRS></SIGNONMSGSRSV1>",
+      "<BANKMSGSRSV1><STMTTRNRS>",
+      "<TRNUID>1",
+      "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+      "<STMTRS>",
+      `<CURDEF>${baseCurrency}`,
+      "<BANKACCTFROM>",
+      "<BANKID>000000000",
+      `<ACCTID>${userId.replace(/-/g, "").slice(0, 22)}`,
+      "<ACCTTYPE>CHECKING",
+      "</BANKACCTFROM>",
+      "<BANKTRANLIST>",
+      `<DTSTART>${start}`,
+      `<DTEND>${end}`,
+      "",
+    ].join("\r\n");
+
+    for await (const batch of this.transactionBatches(userId, filters)) {
+      yield batch
+        .map((transaction) => {
+          // Amounts are reported in the base currency; foreign transactions
+          // carry their original currency and rate
+          const amount = parseFloat(transaction.base_amount);
+          const originalAmount = parseFloat(transaction.amount);
+          const outflow =
+            transaction.type === "expense" ||
+            transaction.transfer_direction === "out";
+          const signed = outflow ? -amount : amount;
+          const trnType =
+            transaction.type === "transfer"
+              ? "XFER"
+              : outflow
+              ? "DEBIT"
+              : "CREDIT";
+          return [
+            "<STMTTRN>",
+            `<TRNTYPE>${trnType}`,
+            `<DTPOSTED>${ofxDate(toDateString(transaction.date))}`,
+            `<TRNAMT>${signed.toFixed(2)}`,
+            ...(transaction.currency !== baseCurrency && originalAmount > 0
+              ? [
+                  `<ORIGCURRENCY><CURRATE>${(amount / originalAmount).toFixed(
+                    6
+                  )}<CURSYM>${transaction.currency}</ORIGCURRENCY>`,
+                ]
+              : []),
+            `<FITID>${transaction.id}`,
+            // NAME is limited to 32 characters by the spec
+            `<NAME>${ofxEscape(transaction.description.slice(0, 32))}`,
+            ...(transaction.category_name
+              ? [`<MEMO>${ofxEscape(transaction.category_name)}`]
+              : []),
+            "</STMTTRN>",
+            "",
+          ].join("\r\n");
+        })
+        .join("");
+    }
+
+    yield [
+      "</BANKTRANLIST>",
+      "</STMTRS>",
+      "</STMTTRNRS></BANKMSGSRSV1>",
+      "</OFX>",
+      "",
+    ].join("\r\n");
+  }
+
+  // Page through matching transactions oldest first. Each batch continues
+  // after the last row of the one before, so late batches of a long history
+  // are as fast as the first.
+  private static async *transactionBatches(
+    userId: string,
+    filters: ExportFilters
+  ): AsyncGenerator<ExportTransactionRow[]> {
+    let after: [string, string, string] | null = null;
+
+    for (;;) {
+      const builder = new TransactionQueryBuilder(userId).applyFilters(filters);
+      if (after) {
+        const [date, createdAt, id] = after;
+        builder.where(
+          (p) =>
+            `(t.date, t.created_at, t.id) > (${p(date)}::date, ${p(
+              createdAt
+            )}::timestamp, ${p(id)}::uuid)`
+        );
+      }
+      const { where, values } = builder.buildWhere();
+
+      const result = await sql.unsafe(
+        `
+        SELECT
+          t.id, t.date, t.type, t.amount, t.currency,
+          to_base_currency(t.user_id, t.amount, t.currency, t.date) as base_amount,
+          t.description, t.category_id,
+          c.name as category_name, t.account_id, a.name as account_name,
+          t.external_id, t.transfer_id, t.transfer_direction, t.created_at,
+          (
+            SELECT COALESCE(json_agg(json_build_object(
+              'category_id', s.category_id,
+              'category', sc.name,
+              'amount', s.amount,
+              'memo', s.memo
+            ) ORDER BY s.created_at, s.id), '[]'::json)
+            FROM transaction_splits s
+            LEFT JOIN categories sc ON s.category_id = sc.id
+            WHERE s.transaction_id = t.id
+          ) as splits,
+          t.date::text as cursor_date,
+          t.created_at::text as cursor_created_at
+        FROM transactions t
+        LEFT JOIN categories c ON t.category_id = c.id
+        LEFT JOIN accounts a ON t.account_id = a.id
+        WHERE ${where}
+        ORDER BY t.date ASC, t.created_at ASC, t.id ASC
+        LIMIT $${values.length + 1}
+      `,
+        [...values, env.EXPORT_BATCH_SIZE]
+      );
+
+      const rows = result as ExportTransactionPageRow[];
+      if (rows.length > 0) {
+        const last = rows[rows.length - 1];
+        after = [last.cursor_date, last.cursor_created_at, last.id];
+        yield rows.map(
+          ({ cursor_date, cursor_created_at, ...transaction }) => transaction
+        );
+      }
+      if (rows.length < env.EXPORT_BATCH_SIZE) {
+        return;
+      }
+    }
+  }
+
+  private static async getAccounts(
+    userId: string,
+    filters: ExportFilters
+  ): Promise<ExportAccountRow[]> {
+    const accountId = filters.accountId ?? null;
+
+    const result = await sql`
+      SELECT id, name, type, opening_balance, currency, created_at
+      FROM accounts
+      WHERE user_id = ${userId}
+        AND (${accountId}::uuid IS NULL OR id = ${accountId})
+      ORDER BY name
+    `;
+
+    return result as ExportAccountRow[];
+  }
+
+  private static async getCategories(
+    userId: string,
+    filters: ExportFilters
+  ): Promise<ExportCategoryRow[]> {
+    const categoryId = filters.categoryId ?? null;
+
+    const result = await sql`
+      SELECT id, name, budget, color, created_at
+      FROM categories
+      WHERE user_id = ${userId}
+        AND (${categoryId}::uuid IS NULL OR id = ${categoryId})
+      ORDER BY name
+    `;
+
+    return result as ExportCategoryRow[];
+  }
+
+  // Budgets for the months touched by the date range
+  private static async getBudgets(
+    userId: string,
+    filters: ExportFilters
+  ): Promise<ExportBudgetRow[]> {
+    const categoryId = filters.categoryId ?? null;
+    const startDate = filters.startDate ?? null;
+    const endDate = filters.endDate ?? null;
+
+    const result = await sql`
+      SELECT b.id, b.category_id, c.name as category_name, b.month, b.year,
+        b.limit_amount, b.created_at
+      FROM budgets b
+      JOIN categories c ON b.category_id = c.id
+      WHERE b.user_id = ${userId}
+        AND (${categoryId}::uuid IS NULL OR b.category_id = ${categoryId})
+        AND (${startDate}::date IS NULL
+          OR make_date(b.year, b.month, 1) >= date_trunc('month', ${startDate}::date))
+        AND (${endDate}::date IS NULL
+          OR make_date(b.year, b.month, 1) <= ${endDate}::date)
+      ORDER BY b.year, b.month, c.name
+    `;
+
+    return result as ExportBudgetRow[];
+  }
+}
@@ -0,0 +1,980 @@
+import crypto from "crypto";
+import { env } from "../config/env";
+import { CategoryService } from "./categoryService";
+import { AccountService } from "./accountService";
+import { RuleService } from "./ruleService";
+import {
+  TransactionService,
+  CreateTransactionData,
+  Transaction,
+} from "./transactionService";
+
+// ===== TYPE DEFINITIONS =====
+
+export type SignConvention =
+  | "negative_is_expense" // -12.50 is an expense, 12.50 is income
+  | "positive_is_expense" // credit card style: 12.50 is a charge
+  | "debit_credit_columns"; // separate debit (expense) and credit (income) columns
+
+export type ImportDateFormat =
+  | "YYYY-MM-DD"
+  | "YYYY/MM/DD"
+  | "MM/DD/YYYY"
+  | "DD/MM/YYYY"
+  | "DD.MM.YYYY";
+
+// Zero-based column indexes into each CSV row
+export interface CsvColumnMapping {
+  date: number;
+  description: number;
+  amount?: number;
+  debit?: number;
+  credit?: number;
+  category?: number;
+}
+
+export interface CsvImportOptions {
+  csv: string;
+  delimiter?: string;
+  hasHeader: boolean;
+  mapping?: CsvColumnMapping;
+  signConvention: SignConvention;
+  dateFormat: ImportDateFormat;
+  decimalSeparator: "." | ",";
+  defaultCategoryId?: string;
+  accountId?: string; // account every imported row is assigned to
+}
+
+export type StatementFormat = "ofx" | "qif"; // QFX is OFX with an Intuit header
+
+export interface StatementImportOptions {
+  content: string;
+  format?: StatementFormat; // detected from the content when omitted
+  dateFormat: ImportDateFormat; // QIF only; OFX dates are always YYYYMMDD
+  decimalSeparator: "." | ","; // QIF only
+  defaultCategoryId?: string;
+  accountId?: string;
+}
+
+// One transaction read from an OFX or QIF file, before validation
+export interface StatementRecord {
+  line: number;
+  raw: string[]; // date, amount, payee, memo as they appear in the file
+  externalId: string;
+  date: string | null; // YYYY-MM-DD, or null when unparseable
+  amount: number | null; // signed: negative is money out
+  description: string;
+  category: string;
+}
+
+export interface ImportRowResult {
+  line: number; // 1-based line number in the source file
+  raw: string[];
+  transaction: Omit<CreateTransactionData, "user_id"> | null;
+  errors: string[];
+  warnings: string[];
+  duplicate: boolean; // already imported (or repeated within the file)
+}
+
+export interface ImportPreview {
+  headers: string[];
+  suggestedMapping: Partial<CsvColumnMapping>;
+  rows: ImportRowResult[];
+  validCount: number;
+  errorCount: number;
+  duplicateCount: number;
+}
+
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+  duplicates: number;
+  transactions: Transaction[];
+}
+
+// A problem with the file or the import options that the user can fix.
+// Routes show its message; any other error is an internal failure.
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+// ===== CSV PARSING HELPERS =====
+
+// One parsed CSV row and the file line it starts on (1-based), so errors
+// point at the right line even after blank lines or multi-line fields
+export interface CsvRow {
+  line: number;
+  values: string[];
+}
+
+// RFC 4180 style parser: handles quoted fields, escaped quotes and CRLF.
+// Blank lines are dropped. Parsing stops once there are more than maxRows
+// rows, which is enough to tell that a file is over the import limit.
+export function parseCsv(
+  text: string,
+  delimiter: string = ",",
+  maxRows: number = Infinity
+): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const pushRow = () => {
+    if (row.some((value) => value.trim() !== "")) {
+      rows.push({ line: rowLine, values: row });
+    }
+  };
+
+  // Strip UTF-8 BOM that some banks prepend
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        // A line break inside a quoted field is part of the value
+        if (char === "\n" || (char === "\r" && input[i + 1] !== "\n")) {
+          line++;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      pushRow();
+      if (rows.length > maxRows) {
+        return rows;
+      }
+      row = [];
+      field = "";
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    pushRow();
+  }
+
+  return rows;
+}
+
+// Pick the most likely delimiter from the first line of the file
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || "";
+  const candidates = [",", ";", "\t", "|"];
+  let best = ",";
+  let bestCount = 0;
+
+  for (const candidate of candidates) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+// Guess column roles from header names so the UI can pre-fill the mapping
+function suggestMapping(headers: string[]): Partial<CsvColumnMapping> {
+  const mapping: Partial<CsvColumnMapping> = {};
+  const find = (patterns: RegExp[]) =>
+    headers.findIndex((header) =>
+      patterns.some((pattern) => pattern.test(header.trim().toLowerCase()))
+    );
+
+  const date = find([/^date$/, /posted/, /transaction date/, /date/]);
+  const description = find([/description/, /memo/, /payee/, /details/, /name/]);
+  const amount = find([/^amount$/, /amount/, /value/]);
+  const debit = find([/debit/, /withdrawal/, /money out/]);
+  const credit = find([/credit/, /deposit/, /money in/]);
+  const category = find([/category/]);
+
+  if (date !== -1) mapping.date = date;
+  if (description !== -1) mapping.description = description;
+  if (amount !== -1) mapping.amount = amount;
+  if (debit !== -1) mapping.debit = debit;
+  if (credit !== -1) mapping.credit = credit;
+  if (category !== -1) mapping.category = category;
+
+  return mapping;
+}
+
+// Parse a localized amount like "$1,234.56", "(12.00)", "12,50-" or "-€3,00"
+export function parseAmount(
+  value: string,
+  decimalSeparator: "." | ","
+): number | null {
+  let text = value.trim();
+  if (text === "") {
+    return null;
+  }
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith("-")) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  // Remove currency symbols, letters and whitespace
+  text = text.replace(/[^\d.,+-]/g, "");
+  if (text.startsWith("-")) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith("+")) {
+    text = text.slice(1);
+  }
+
+  const thousandsSeparator = decimalSeparator === "." ? "," : ".";
+  text = text.split(thousandsSeparator).join("");
+  if (decimalSeparator === ",") {
+    text = text.replace(",", ".");
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(text)) {
+    return null;
+  }
+
+  const amount = parseFloat(text);
+  return negative ? -amount : amount;
+}
+
+// Convert a date in the configured format into YYYY-MM-DD
+export function parseDate(
+  value: string,
+  format: ImportDateFormat
+): string | null {
+  const parts = value.trim().split(/[-/.]/);
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  let year: number;
+  let month: number;
+  let day: number;
+
+  switch (format) {
+    case "YYYY-MM-DD":
+    case "YYYY/MM/DD":
+      [year, month, day] = parts.map(Number);
+      break;
+    case "MM/DD/YYYY":
+      [month, day, year] = parts.map(Number);
+      break;
+    case "DD/MM/YYYY":
+    case "DD.MM.YYYY":
+      [day, month, year] = parts.map(Number);
+      break;
+  }
+
+  // Two-digit years are assumed to be in the 2000s
+  if (year < 100) {
+    year += 2000;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    isNaN(date.getTime()) ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+
+  return date.toISOString().split("T")[0];
+}
+
+// ===== STATEMENT PARSING HELPERS =====
+
+// Work out whether a statement file is OFX/QFX or QIF from its contents
+export function detectStatementFormat(content: string): StatementFormat {
+  if (/OFXHEADER|<OFX>/i.test(content)) {
+    return "ofx";
+  }
+  if (/^\s*!(Type|Account|Option)/i.test(content)) {
+    return "qif";
+  }
+  throw new ImportError(
+    "Unrecognized statement file; expected OFX, QFX or QIF"
+  );
+}
+
+// Read a leaf element value. OFX 1.x (SGML) leaves have no closing tags, so
+// the value runs until the next tag or line break.
+function readOfxTag(block: string, tag: string): string {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  if (!match) {
+    return "";
+  }
+
+  return match[1]
+    .trim()
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// Looks up 1-based line numbers of character offsets, which must be asked
+// for in increasing order. Only the text since the previous offset is
+// scanned, so numbering every row of a file reads it once.
+function lineCounter(text: string): (index: number) => number {
+  let offset = 0;
+  let line = 1;
+  return (index) => {
+    for (; offset < index; offset++) {
+      if (text.charCodeAt(offset) === 10) {
+        line++;
+      }
+    }
+    return line;
+  };
+}
+
+// Parse bank (STMTRS) and credit card (CCSTMTRS) statements from OFX/QFX.
+// Parsing stops once there are more than maxRows transactions.
+export function parseOfx(
+  content: string,
+  maxRows: number = Infinity
+): StatementRecord[] {
+  const records: StatementRecord[] = [];
+  const lineAt = lineCounter(content);
+  const statementPattern = /<(CC)?STMTRS>[\s\S]*?<\/(CC)?STMTRS>/gi;
+  const statements = Array.from(content.matchAll(statementPattern));
+
+  // Some exports omit the statement wrapper; treat the whole file as one
+  const blocks = statements.length
+    ? statements.map((match) => ({ text: match[0], offset: match.index! }))
+    : [{ text: content, offset: 0 }];
+
+  for (const block of blocks) {
+    // FITIDs are only unique per account, so namespace them by ACCTID
+    const accountId = readOfxTag(block.text, "ACCTID");
+
+    for (const match of block.text.matchAll(
+      /<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi
+    )) {
+      const trn = match[1];
+      const postedAt = readOfxTag(trn, "DTPOSTED");
+      const amountText = readOfxTag(trn, "TRNAMT");
+      const name = readOfxTag(trn, "NAME");
+      const memo = readOfxTag(trn, "MEMO");
+      const fitId = readOfxTag(trn, "FITID");
+
+      // DTPOSTED is YYYYMMDD with an optional time and timezone suffix
+      const dateParts = postedAt.match(/^(\d{4})(\d{2})(\d{2})/);
+      const date = dateParts
+        ? parseDate(
+            `${dateParts[1]}-${dateParts[2]}-${dateParts[3]}`,
+            "YYYY-MM-DD"
+          )
+        : null;
+
+      // The spec mandates a period, but some banks emit a comma
+      const amount =
+        parseAmount(amountText, ".") ?? parseAmount(amountText, ",");
+
+      const line = lineAt(block.offset + match.index!);
+
+      records.push({
+        line,
+        raw: [postedAt, amountText, name, memo],
+        externalId: fitId
+          ? `ofx:${accountId ? `${accountId}:` : ""}${fitId}`
+          : syntheticExternalId("ofx", [postedAt, amountText, name, memo]),
+        date,
+        amount,
+        description: name || memo,
+        category: "",
+      });
+      if (records.length > maxRows) {
+        return records;
+      }
+    }
+  }
+
+  return records;
+}
+
+// Parse the bank, cash and credit card sections of a QIF file. Parsing stops
+// once there are more than maxRows transactions.
+export function parseQif(
+  content: string,
+  dateFormat: ImportDateFormat,
+  decimalSeparator: "." | ",",
+  maxRows: number = Infinity
+): StatementRecord[] {
+  const records: StatementRecord[] = [];
+  const lines = content.split(/\r?\n/);
+  // Identical rows (same day, amount and payee) are told apart by position
+  const occurrences = new Map<string, number>();
+
+  let section = "bank";
+  let current: Record<string, string> = {};
+  let startLine = 0;
+
+  const flush = () => {
+    if (Object.keys(current).length === 0) {
+      return;
+    }
+
+    if (["bank", "cash", "ccard", "oth a", "oth l"].includes(section)) {
+      const dateText = current.D || "";
+      const amountText = current.T || current.U || "";
+      const payee = current.P || "";
+      const memo = current.M || "";
+
+      // Quicken writes dates like 1/15'24 or 1/ 5/2024
+      const date = parseDate(
+        dateText.replace(/'/g, "/").replace(/\s/g, ""),
+        dateFormat
+      );
+
+      // "[Account]" categories are transfers, not spending categories
+      const category = /^\[.*\]$/.test(current.L || "") ? "" : current.L || "";
+
+      const key = [dateText, amountText, payee, memo].join("|");
+      const occurrence = (occurrences.get(key) || 0) + 1;
+      occurrences.set(key, occurrence);
+
+      records.push({
+        line: startLine,
+        raw: [dateText, amountText, payee, memo],
+        externalId: syntheticExternalId("qif", [
+          dateText,
+          amountText,
+          payee,
+          memo,
+          String(occurrence),
+        ]),
+        date,
+        amount: parseAmount(amountText, decimalSeparator),
+        description: payee || memo,
+        category,
+      });
+    }
+
+    current = {};
+  };
+
+  for (const [i, text] of lines.entries()) {
+    if (records.length > maxRows) {
+      return records;
+    }
+
+    const line = text.trimEnd();
+    if (line === "") {
+      continue;
+    }
+
+    if (line.startsWith("!")) {
+      flush();
+      const type = line.match(/^!Type:(.*)$/i);
+      if (type) {
+        section = type[1].trim().toLowerCase();
+      }
+      continue;
+    }
+
+    if (line === "^") {
+      flush();
+      continue;
+    }
+
+    if (Object.keys(current).length === 0) {
+      startLine = i + 1;
+    }
+
+    // Split lines (S, E, $) are ignored; the T total is imported as one row
+    const code = line[0];
+    if (!(code in current) && "DTUPML".includes(code)) {
+      current[code] = line.slice(1).trim();
+    }
+  }
+
+  flush();
+  return records;
+}
+
+// Stable ID for rows without a bank-provided one, so re-imports are detected
+function syntheticExternalId(prefix: string, parts: string[]): string {
+  const hash = crypto
+    .createHash("sha256")
+    .update(parts.join("\u0000"))
+    .digest("hex")
+    .slice(0, 32);
+  return `${prefix}:${hash}`;
+}
+
+// ===== SERVICE CLASS =====
+
+export class ImportService {
+  // Parse and validate a CSV file without writing anything
+  static async previewCsv(
+    userId: string,
+    options: CsvImportOptions
+  ): Promise<ImportPreview> {
+    const delimiter = options.delimiter || detectDelimiter(options.csv);
+    // One more row than allowed is enough to reject the file, plus the header
+    const records = parseCsv(
+      options.csv,
+      delimiter,
+      env.IMPORT_MAX_ROWS + (options.hasHeader ? 1 : 0)
+    );
+
+    const headers = options.hasHeader
+      ? records.shift()?.values || []
+      : (records[0]?.values || []).map((_, i) => `Column ${i + 1}`);
+
+    this.assertRowLimit(records.length);
+
+    const suggestedMapping = suggestMapping(options.hasHeader ? headers : []);
+
+    // Without a mapping we can only describe the file so the caller can map it
+    if (!options.mapping) {
+      return {
+        headers,
+        suggestedMapping,
+        rows: records.slice(0, 10).map(({ line, values }) => ({
+          line,
+          raw: values,
+          transaction: null,
+          errors: [],
+          warnings: [],
+          duplicate: false,
+        })),
+        validCount: 0,
+        errorCount: 0,
+        duplicateCount: 0,
+      };
+    }
+
+    const categoriesByName = await this.loadCategories(
+      userId,
+      options.defaultCategoryId
+    );
+    await this.assertAccount(userId, options.accountId);
+
+    const rows = records.map(({ line, values }) =>
+      this.mapRow(values, line, options, {
+        categoriesByName,
+      })
+    );
+    await this.applyRules(userId, rows, options.defaultCategoryId);
+
+    return this.summarize(headers, suggestedMapping, rows);
+  }
+
+  // Validate the whole file, then insert every valid row atomically
+  static async commitCsv(
+    userId: string,
+    options: CsvImportOptions,
+    skipInvalid: boolean
+  ): Promise<ImportResult> {
+    if (!options.mapping) {
+      throw new ImportError(
+        "A column mapping is required to import transactions"
+      );
+    }
+
+    const preview = await this.previewCsv(userId, options);
+    return this.insertRows(userId, preview, skipInvalid, options.accountId);
+  }
+
+  // Parse and validate an OFX/QFX or QIF statement, flagging rows that were
+  // already imported from an earlier, overlapping statement
+  static async previewStatement(
+    userId: string,
+    options: StatementImportOptions
+  ): Promise<ImportPreview> {
+    const format = options.format || detectStatementFormat(options.content);
+    const records =
+      format === "ofx"
+        ? parseOfx(options.content, env.IMPORT_MAX_ROWS)
+        : parseQif(
+            options.content,
+            options.dateFormat,
+            options.decimalSeparator,
+            env.IMPORT_MAX_ROWS
+          );
+
+    if (records.length === 0) {
+      throw new ImportError("No transactions found in the statement");
+    }
+
+    this.assertRowLimit(records.length);
+
+    const categoriesByName = await this.loadCategories(
+      userId,
+      options.defaultCategoryId
+    );
+    await this.assertAccount(userId, options.accountId);
+
+    const rows = records.map((record) => {
+      const errors: string[] = [];
+      const warnings: string[] = [];
+
+      if (!record.date) {
+        errors.push(`Invalid date "${record.raw[0]}"`);
+      }
+      if (!record.description) {
+        errors.push("Description is required");
+      }
+      if (record.amount === null || record.amount === 0) {
+        errors.push("Please enter a valid positive amount");
+      }
+
+      const categoryId = this.resolveCategory(
+        record.category,
+        options.defaultCategoryId,
+        categoriesByName,
+        warnings
+      );
+
+      return {
+        line: record.line,
+        raw: record.raw,
+        transaction:
+          errors.length === 0
+            ? {
+                amount: Math.round(Math.abs(record.amount!) * 100) / 100,
+                description: record.description,
+                type: (record.amount! < 0 ? "expense" : "income") as
+                  | "income"
+                  | "expense",
+                date: record.date!,
+                category_id: categoryId,
+                external_id: record.externalId,
+              }
+            : null,
+        errors,
+        warnings,
+        duplicate: false,
+      };
+    });
+
+    await this.applyRules(userId, rows, options.defaultCategoryId);
+    await this.markDuplicates(userId, rows);
+
+    return this.summarize(["Date", "Amount", "Payee", "Memo"], {}, rows);
+  }
+
+  // Import an OFX/QFX or QIF statement, skipping already-imported rows
+  static async commitStatement(
+    userId: string,
+    options: StatementImportOptions,
+    skipInvalid: boolean
+  ): Promise<ImportResult> {
+    const preview = await this.previewStatement(userId, options);
+    return this.insertRows(userId, preview, skipInvalid, options.accountId);
+  }
+
+  // Parsers stop one row past the limit, so the count is only known to be
+  // over it
+  private static assertRowLimit(count: number): void {
+    if (count > env.IMPORT_MAX_ROWS) {
+      throw new ImportError(
+        `File has more than ${env.IMPORT_MAX_ROWS} rows, the maximum per import`
+      );
+    }
+  }
+
+  private static async assertAccount(
+    userId: string,
+    accountId?: string
+  ): Promise<void> {
+    if (accountId && !(await AccountService.findById(accountId, userId))) {
+      throw new ImportError("Account not found");
+    }
+  }
+
+  // Map of lower-cased category name, and full name like "food > groceries"
+  // for subcategories, to ID, after checking the default exists
+  private static async loadCategories(
+    userId: string,
+    defaultCategoryId?: string
+  ): Promise<Map<string, string>> {
+    const categories = await CategoryService.findByUserId(userId);
+
+    if (
+      defaultCategoryId &&
+      !categories.some((category) => category.id === defaultCategoryId)
+    ) {
+      throw new ImportError("Default category not found");
+    }
+
+    const paths = CategoryService.getPaths(categories);
+    return new Map(
+      categories.flatMap((category) => [
+        [category.name.toLowerCase(), category.id],
+        [paths.get(category.id)!.toLowerCase(), category.id],
+      ])
+    );
+  }
+
+  // Match a category by name, falling back to the default category
+  private static resolveCategory(
+    name: string,
+    defaultCategoryId: string | undefined,
+    categoriesByName: Map<string, string>,
+    warnings: string[]
+  ): string | undefined {
+    if (!name) {
+      return defaultCategoryId;
+    }
+
+    const matched = categoriesByName.get(name.toLowerCase());
+    if (matched) {
+      return matched;
+    }
+
+    warnings.push(
+      `Unknown category "${name}" - it will be ${
+        defaultCategoryId
+          ? "replaced by the default category"
+          : "left uncategorized"
+      }`
+    );
+    return defaultCategoryId;
+  }
+
+  // Run the user's rules over the valid rows so the preview shows their
+  // effect. The default category is only a fallback, so rules may replace it.
+  private static async applyRules(
+    userId: string,
+    rows: ImportRowResult[],
+    defaultCategoryId?: string
+  ): Promise<void> {
+    const valid = rows.filter((row) => row.transaction);
+    const ruled = await RuleService.applyToNew(
+      userId,
+      valid.map((row) => ({
+        ...row.transaction!,
+        category_id:
+          row.transaction!.category_id === defaultCategoryId
+            ? undefined
+            : row.transaction!.category_id,
+      }))
+    );
+
+    valid.forEach((row, i) => {
+      row.transaction = {
+        ...ruled[i],
+        category_id: ruled[i].category_id ?? defaultCategoryId,
+      };
+    });
+  }
+
+  // Flag rows whose external ID is already stored or repeated in the file
+  private static async markDuplicates(
+    userId: string,
+    rows: ImportRowResult[]
+  ): Promise<void> {
+    const externalIds = rows
+      .map((row) => row.transaction?.external_id)
+      .filter((id): id is string => Boolean(id));
+
+    const existing = await TransactionService.findExistingExternalIds(
+      userId,
+      Array.from(new Set(externalIds))
+    );
+    const seen = new Set<string>();
+
+    for (const row of rows) {
+      const externalId = row.transaction?.external_id;
+      if (!externalId) {
+        continue;
+      }
+
+      if (existing.has(externalId)) {
+        row.duplicate = true;
+        row.warnings.push("Already imported - it will be skipped");
+      } else if (seen.has(externalId)) {
+        row.duplicate = true;
+        row.warnings.push("Repeated in this file - it will be skipped");
+      }
+      seen.add(externalId);
+    }
+  }
+
+  private static summarize(
+    headers: string[],
+    suggestedMapping: Partial<CsvColumnMapping>,
+    rows: ImportRowResult[]
+  ): ImportPreview {
+    const errorCount = rows.filter((row) => row.errors.length > 0).length;
+    const duplicateCount = rows.filter(
+      (row) => row.errors.length === 0 && row.duplicate
+    ).length;
+
+    return {
+      headers,
+      suggestedMapping,
+      rows,
+      validCount: rows.length - errorCount - duplicateCount,
+      errorCount,
+      duplicateCount,
+    };
+  }
+
+  // Insert the valid, non-duplicate rows of a preview in one transaction
+  private static async insertRows(
+    userId: string,
+    preview: ImportPreview,
+    skipInvalid: boolean,
+    accountId?: string
+  ): Promise<ImportResult> {
+    if (preview.errorCount > 0 && !skipInvalid) {
+      throw new ImportError(
+        `${preview.errorCount} row(s) failed validation; fix them or choose to skip invalid rows`
+      );
+    }
+
+    const validRows = preview.rows.filter(
+      (row) => row.errors.length === 0 && !row.duplicate && row.transaction
+    );
+
+    const transactions = await TransactionService.createMany(
+      validRows.map((row) => ({
+        ...row.transaction!,
+        user_id: userId,
+        account_id: accountId,
+      }))
+    );
+
+    return {
+      imported: transactions.length,
+      skipped: preview.errorCount,
+      // Rows inserted concurrently by another import are also duplicates
+      duplicates:
+        preview.duplicateCount + (validRows.length - transactions.length),
+      transactions,
+    };
+  }
+
+  // Apply the column mapping and sign convention to one CSV record
+  private static mapRow(
+    raw: string[],
+    line: number,
+    options: CsvImportOptions,
+    lookups: { categoriesByName: Map<string, string> }
+  ): ImportRowResult {
+    const mapping = options.mapping!;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const cell = (index?: number) =>
+      index === undefined ? "" : (raw[index] ?? "").trim();
+
+    // Date
+    const date = parseDate(cell(mapping.date), options.dateFormat);
+    if (!date) {
+      errors.push(
+        `Invalid date "${cell(mapping.date)}" (expected ${options.dateFormat})`
+      );
+    }
+
+    // Description
+    const description = cell(mapping.description);
+    if (!description) {
+      errors.push("Description is required");
+    }
+
+    // Amount and type
+    let amount: number | null = null;
+    let type: "income" | "expense" = "expense";
+
+    if (options.signConvention === "debit_credit_columns") {
+      const debit = parseAmount(cell(mapping.debit), options.decimalSeparator);
+      const credit = parseAmount(
+        cell(mapping.credit),
+        options.decimalSeparator
+      );
+
+      if (debit !== null && debit !== 0) {
+        amount = Math.abs(debit);
+        type = "expense";
+      } else if (credit !== null && credit !== 0) {
+        amount = Math.abs(credit);
+        type = "income";
+      }
+    } else {
+      const signed = parseAmount(
+        cell(mapping.amount),
+        options.decimalSeparator
+      );
+      if (signed !== null) {
+        const isExpense =
+          options.signConvention === "negative_is_expense"
+            ? signed < 0
+            : signed > 0;
+        amount = Math.abs(signed);
+        type = isExpense ? "expense" : "income";
+      }
+    }
+
+    if (amount === null || amount <= 0) {
+      errors.push("Please enter a valid positive amount");
+    }
+
+    // Category (by name, falling back to the default category)
+    const categoryId = this.resolveCategory(
+      cell(mapping.category),
+      options.defaultCategoryId,
+      lookups.categoriesByName,
+      warnings
+    );
+
+    return {
+      line,
+      raw,
+      transaction:
+        errors.length === 0
+          ? {
+              amount: Math.round(amount! * 100) / 100,
+              description,
+              type,
+              date: date!,
+              category_id: categoryId,
+            }
+          : null,
+      errors,
+      warnings,
+      duplicate: false,
+    };
+  }
+}
@@ -0,0 +1,539 @@
+import crypto from "crypto";
+import os from "os";
+import { sql } from "../db/connection";
+import { env } from "../config/env";
+
+// ===== TYPE DEFINITIONS =====
+
+export type JobStatus = "pending" | "running" | "completed" | "failed";
+export type JobRunStatus = "running" | "succeeded" | "failed";
+
+export interface Job {
+  id: string;
+  name: string;
+  status: JobStatus;
+  run_at: Date;
+  attempts: number;
+  max_attempts: number;
+  locked_by: string | null;
+  locked_until: Date | null;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface JobRun {
+  id: string;
+  job_id: string;
+  name: string;
+  attempt: number;
+  status: JobRunStatus;
+  instance: string;
+  result: unknown;
+  error: string | null;
+  started_at: Date;
+  finished_at: Date | null;
+}
+
+export interface ScheduleOptions {
+  maxAttempts?: number; // defaults to JOB_MAX_ATTEMPTS
+}
+
+// A registered job as reported by the status endpoint
+export interface JobSummary {
+  name: string;
+  schedule: string;
+  next_run_at: Date | null; // queued run, if any
+  attempts: number; // failed attempts of the queued run so far
+  running: { instance: string; started_at: Date } | null;
+  last_run: JobRun | null; // latest finished attempt
+  failures_24h: number;
+}
+
+export interface SchedulerStatus {
+  instance: string;
+  started: boolean; // whether this instance is polling for jobs
+  jobs: JobSummary[];
+}
+
+// Parsed cron expression; each set holds the values that match
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean; // day of month field is *
+  anyWeekday: boolean; // day of week field is *
+}
+
+// Rows read by getStatus and enqueueScheduled
+interface QueuedRunRow {
+  name: string;
+  run_at: Date;
+  attempts: number;
+}
+
+interface RunningRunRow {
+  name: string;
+  instance: string;
+  started_at: Date;
+}
+
+interface FailureCountRow {
+  name: string;
+  count: string; // COUNT(*) comes back as a string
+}
+
+interface LatestScheduledRow {
+  run_at: Date | null; // null when the job was never queued
+  queued: boolean | null;
+}
+
+interface RegisteredJob {
+  name: string;
+  schedule: string;
+  cron: CronSchedule;
+  handler: () => Promise<unknown>;
+  maxAttempts: number;
+}
+
+// ===== HELPERS =====
+
+// Identifies this process in locks and run history
+const INSTANCE_ID = `${os.hostname()}:${process.pid}:${crypto
+  .randomUUID()
+  .slice(0, 8)}`;
+
+// minute, hour, day of month, month, day of week (0 and 7 are Sunday)
+const CRON_FIELDS = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12 },
+  { min: 0, max: 7 },
+];
+
+// Give up looking for the next run after this long, e.g. for "0 0 31 2 *"
+const MAX_CRON_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+// Parse one field: *, 5, 1-5, */15, 0-30/10 and comma-separated lists
+function parseCronField(
+  field: string,
+  { min, max }: { min: number; max: number }
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    const bounds = range === "*" ? [min, max] : range.split("-").map(Number);
+    const start = bounds[0];
+    // "5/10" runs from 5 to the end of the range
+    const end = bounds[1] ?? (stepText === undefined ? start : max);
+
+    if (
+      bounds.length > 2 ||
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      !Number.isInteger(step) ||
+      step < 1 ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+// Parse a five-field cron expression. Times are in UTC.
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 fields`
+    );
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) =>
+    parseCronField(field, CRON_FIELDS[i])
+  );
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2].startsWith("*"),
+    anyWeekday: fields[4].startsWith("*"),
+  };
+}
+
+// Like cron, a date matches if either day field does when both are set
+function matchesDay(cron: CronSchedule, date: Date): boolean {
+  const day = cron.days.has(date.getUTCDate());
+  const weekday = cron.weekdays.has(date.getUTCDay());
+  return cron.anyDay || cron.anyWeekday ? day && weekday : day || weekday;
+}
+
+// The first minute strictly after `after` that matches the schedule
+export function nextCronTime(cron: CronSchedule, after: Date): Date {
+  const date = new Date(after);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + MAX_CRON_LOOKAHEAD_MS;
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error("Cron schedule never matches");
+}
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+// ===== SERVICE CLASS =====
+
+// Runs registered jobs on cron schedules. Every instance polls the jobs
+// table; a run is claimed with FOR UPDATE SKIP LOCKED and a lock that the
+// running instance keeps renewing, so each run happens on one instance and a
+// run left behind by a stopped instance is picked up again once its lock
+// expires. Failed runs are retried with exponential backoff.
+export class JobService {
+  private static jobs = new Map<string, RegisteredJob>();
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static ticking = false;
+
+  // Register a job to run on a cron schedule (UTC). Jobs should be safe to
+  // run again, since a failed attempt is retried from the start.
+  static schedule(
+    name: string,
+    schedule: string,
+    handler: () => Promise<unknown>,
+    options: ScheduleOptions = {}
+  ): void {
+    if (this.jobs.has(name)) {
+      throw new Error(`Job "${name}" is already registered`);
+    }
+
+    this.jobs.set(name, {
+      name,
+      schedule,
+      cron: parseCron(schedule),
+      handler,
+      maxAttempts: options.maxAttempts ?? env.JOB_MAX_ATTEMPTS,
+    });
+  }
+
+  // Start polling for due jobs
+  static start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(console.error);
+    }, env.JOB_POLL_INTERVAL_SECONDS * 1000);
+    this.tick().catch(console.error);
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Queue each job's next run, then work through every run that is due
+  static async tick(): Promise<void> {
+    if (this.ticking || this.jobs.size === 0) {
+      return;
+    }
+
+    this.ticking = true;
+    try {
+      await this.releaseExpired();
+      await this.enqueueScheduled();
+
+      let job: Job | null;
+      while ((job = await this.claimNext())) {
+        await this.run(job);
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  // Registered jobs with their queued, running and latest runs
+  static async getStatus(): Promise<SchedulerStatus> {
+    const names = [...this.jobs.keys()];
+    if (names.length === 0) {
+      return { instance: INSTANCE_ID, started: this.timer !== null, jobs: [] };
+    }
+
+    const [queued, running, latest, failures] = await Promise.all([
+      sql`
+        SELECT DISTINCT ON (name) name, run_at, attempts
+        FROM jobs
+        WHERE name IN ${sql(names)} AND status = 'pending'
+        ORDER BY name, run_at
+      `,
+      sql`
+        SELECT DISTINCT ON (name) name, instance, started_at
+        FROM job_runs
+        WHERE name IN ${sql(names)} AND status = 'running'
+        ORDER BY name, started_at DESC
+      `,
+      sql`
+        SELECT DISTINCT ON (name) *
+        FROM job_runs
+        WHERE name IN ${sql(names)} AND status != 'running'
+        ORDER BY name, started_at DESC
+      `,
+      sql`
+        SELECT name, COUNT(*) as count
+        FROM job_runs
+        WHERE name IN ${sql(names)} AND status = 'failed'
+          AND started_at > NOW() - INTERVAL '24 hours'
+        GROUP BY name
+      `,
+    ]);
+
+    const byName = <T extends { name: string }>(rows: T[]) =>
+      new Map<string, T>(rows.map((row) => [row.name, row]));
+    const queuedByName = byName(queued as QueuedRunRow[]);
+    const runningByName = byName(running as RunningRunRow[]);
+    const latestByName = byName(latest as JobRun[]);
+    const failuresByName = byName(failures as FailureCountRow[]);
+
+    return {
+      instance: INSTANCE_ID,
+      started: this.timer !== null,
+      jobs: [...this.jobs.values()].map((job) => {
+        const next = queuedByName.get(job.name);
+        const current = runningByName.get(job.name);
+        return {
+          name: job.name,
+          schedule: job.schedule,
+          next_run_at: next?.run_at ?? null,
+          attempts: next?.attempts ?? 0,
+          running: current
+            ? { instance: current.instance, started_at: current.started_at }
+            : null,
+          last_run: latestByName.get(job.name) ?? null,
+          failures_24h: parseInt(failuresByName.get(job.name)?.count ?? "0"),
+        };
+      }),
+    };
+  }
+
+  // Recent attempts, newest first
+  static async getHistory(options: {
+    name?: string;
+    status?: JobRunStatus;
+    limit: number;
+  }): Promise<JobRun[]> {
+    const { name, status, limit } = options;
+    const result = await sql`
+      SELECT * FROM job_runs
+      WHERE (${name ?? null}::text IS NULL OR name = ${name ?? null})
+        AND (${status ?? null}::text IS NULL OR status = ${status ?? null})
+      ORDER BY started_at DESC
+      LIMIT ${limit}
+    `;
+
+    return result as JobRun[];
+  }
+
+  // Delete finished runs older than JOB_HISTORY_DAYS
+  static async pruneHistory(): Promise<number> {
+    const result = await sql`
+      DELETE FROM jobs
+      WHERE status IN ('completed', 'failed')
+        AND updated_at < NOW() - make_interval(days => ${env.JOB_HISTORY_DAYS})
+    `;
+
+    return result.count;
+  }
+
+  // Put back runs whose instance stopped renewing the lock, counting the
+  // lost attempt
+  private static async releaseExpired(): Promise<void> {
+    await sql.begin(async (tx) => {
+      const expired = await tx`
+        SELECT id FROM jobs
+        WHERE status = 'running' AND locked_until < NOW()
+        FOR UPDATE SKIP LOCKED
+      `;
+      if (expired.length === 0) {
+        return;
+      }
+
+      const ids = (expired as Pick<Job, "id">[]).map((job) => job.id);
+      const error = "Lock expired before the job finished";
+      await tx`
+        UPDATE job_runs
+        SET status = 'failed', error = ${error}, finished_at = NOW()
+        WHERE job_id IN ${sql(ids)} AND status = 'running'
+      `;
+      await tx`
+        UPDATE jobs
+        SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'pending' END,
+          run_at = NOW(),
+          locked_by = NULL,
+          locked_until = NULL,
+          last_error = ${error}
+        WHERE id IN ${sql(ids)}
+      `;
+    });
+  }
+
+  // Queue the next run of every job that has nothing queued. Instances
+  // compute the same run time, so the unique (name, run_at) keeps them from
+  // queueing it twice.
+  private static async enqueueScheduled(): Promise<void> {
+    const now = new Date();
+
+    for (const job of this.jobs.values()) {
+      const result = await sql`
+        SELECT MAX(run_at) as run_at,
+          BOOL_OR(status IN ('pending', 'running')) as queued
+        FROM jobs
+        WHERE name = ${job.name}
+      `;
+      const { run_at, queued } = result[0] as LatestScheduledRow;
+      if (queued) {
+        continue;
+      }
+
+      let runAt = nextCronTime(job.cron, run_at ? new Date(run_at) : now);
+      // Runs missed while no instance was up are made up once, right away
+      if (runAt < now) {
+        runAt = new Date(now);
+        runAt.setUTCSeconds(0, 0);
+      }
+
+      await sql`
+        INSERT INTO jobs (name, run_at, max_attempts)
+        VALUES (${job.name}, ${runAt}, ${job.maxAttempts})
+        ON CONFLICT (name, run_at) DO NOTHING
+      `;
+    }
+  }
+
+  // Lock the earliest due run of a job this instance knows about
+  private static async claimNext(): Promise<Job | null> {
+    const result = await sql`
+      UPDATE jobs
+      SET status = 'running',
+        attempts = attempts + 1,
+        locked_by = ${INSTANCE_ID},
+        locked_until = NOW() + make_interval(secs => ${
+          env.JOB_LOCK_TIMEOUT_SECONDS
+        })
+      WHERE id = (
+        SELECT id FROM jobs
+        WHERE status = 'pending' AND run_at <= NOW()
+          AND name IN ${sql([...this.jobs.keys()])}
+        ORDER BY run_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    return result.length > 0 ? (result[0] as Job) : null;
+  }
+
+  // Run a claimed job, recording the attempt and renewing the lock until it
+  // finishes
+  private static async run(job: Job): Promise<void> {
+    const registered = this.jobs.get(job.name)!;
+
+    const runs = await sql`
+      INSERT INTO job_runs (job_id, name, attempt, instance)
+      VALUES (${job.id}, ${job.name}, ${job.attempts}, ${INSTANCE_ID})
+      RETURNING id
+    `;
+    const runId = (runs[0] as Pick<JobRun, "id">).id;
+
+    const heartbeat = setInterval(() => {
+      sql`
+        UPDATE jobs
+        SET locked_until = NOW() + make_interval(secs => ${env.JOB_LOCK_TIMEOUT_SECONDS})
+        WHERE id = ${job.id} AND locked_by = ${INSTANCE_ID}
+      `.catch(console.error);
+    }, (env.JOB_LOCK_TIMEOUT_SECONDS * 1000) / 3);
+
+    try {
+      const result = await registered.handler();
+
+      await sql.begin(async (tx) => {
+        await tx`
+          UPDATE job_runs
+          SET status = 'succeeded',
+            result = ${JSON.stringify(result ?? null)}::jsonb,
+            finished_at = NOW()
+          WHERE id = ${runId}
+        `;
+        await tx`
+          UPDATE jobs
+          SET status = 'completed', locked_by = NULL, locked_until = NULL, last_error = NULL
+          WHERE id = ${job.id} AND locked_by = ${INSTANCE_ID}
+        `;
+      });
+    } catch (error) {
+      console.error(
+        `Job ${job.name} failed (attempt ${job.attempts} of ${job.max_attempts}):`,
+        error
+      );
+
+      const message = errorMessage(error);
+      const retry = job.attempts < job.max_attempts;
+      const delay = env.JOB_RETRY_BASE_SECONDS * 2 ** (job.attempts - 1);
+
+      await sql.begin(async (tx) => {
+        await tx`
+          UPDATE job_runs
+          SET status = 'failed', error = ${message}, finished_at = NOW()
+          WHERE id = ${runId}
+        `;
+        await tx`
+          UPDATE jobs
+          SET status = ${retry ? "pending" : "failed"},
+            run_at = CASE WHEN ${retry} THEN NOW() + make_interval(secs => ${delay}) ELSE run_at END,
+            locked_by = NULL,
+            locked_until = NULL,
+            last_error = ${message}
+          WHERE id = ${job.id} AND locked_by = ${INSTANCE_ID}
+        `;
+      });
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
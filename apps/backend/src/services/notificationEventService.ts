@@ -0,0 +1,148 @@
+import crypto from "crypto";
+import { sql } from "../db/connection";
+import { env } from "../config/env";
+import {
+  NotificationService,
+  CreateNotificationData,
+  formatMoney,
+} from "./notificationService";
+import { RecurringService } from "./recurringService";
+
+// ===== HELPERS =====
+
+const todayString = (): string => new Date().toISOString().split("T")[0];
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split("T")[0];
+}
+
+// A rough, readable name for the browser a request came from
+function describeUserAgent(userAgent: string): string {
+  const browser =
+    ["Edg", "Firefox", "Chrome", "Safari"].find((name) =>
+      userAgent.includes(`${name}/`)
+    ) ?? "Unknown browser";
+  const os =
+    ["Windows", "Mac OS", "Android", "iPhone", "iPad", "Linux"].find((name) =>
+      userAgent.includes(name)
+    ) ?? "unknown device";
+  return `${browser === "Edg" ? "Edge" : browser} on ${os}`;
+}
+
+// ===== SERVICE CLASS =====
+
+// Turns things that happen in the app into notifications. Budget thresholds
+// live in BudgetAlertService, which needs its own per-period bookkeeping.
+export class NotificationEventService {
+  // Notify about new or edited expenses at or above the user's large
+  // transaction amount (in their base currency). Each transaction is only
+  // notified about once.
+  static async largeTransactions(
+    userId: string,
+    transactionIds: string[]
+  ): Promise<void> {
+    if (transactionIds.length === 0) {
+      return;
+    }
+
+    const result = await sql`
+      SELECT t.id, t.description, t.amount, t.currency, t.date
+      FROM transactions t
+      JOIN users u ON u.id = t.user_id
+      WHERE t.user_id = ${userId}
+        AND t.id IN ${sql(transactionIds)}
+        AND t.type = 'expense'
+        AND to_base_currency(t.user_id, t.amount, t.currency, t.date) >= u.large_transaction_amount
+    `;
+
+    await NotificationService.notify(
+      userId,
+      result.map(
+        (row: any): CreateNotificationData => ({
+          type: "large_transaction",
+          title: "Large transaction",
+          message: `${row.description}: ${formatMoney(
+            parseFloat(row.amount),
+            row.currency
+          )}`,
+          link: "/transactions",
+          data: { transaction_id: row.id },
+          dedupe_key: `large_transaction:${row.id}`,
+        })
+      )
+    );
+  }
+
+  // Remind users of recurring expenses due in the next few days. Each
+  // occurrence is reminded about once.
+  static async upcomingBills(): Promise<number> {
+    const today = todayString();
+    const due = await RecurringService.getDueThrough(
+      addDays(today, env.UPCOMING_BILL_DAYS)
+    );
+    const bills = due.filter(
+      (occurrence) => occurrence.type === "expense" && occurrence.date > today
+    );
+    if (bills.length === 0) {
+      return 0;
+    }
+
+    const users = await sql`
+      SELECT id, base_currency FROM users
+      WHERE id IN ${sql([...new Set(bills.map((bill) => bill.user_id))])}
+    `;
+    const currencies = new Map<string, string>(
+      users.map((user: any) => [user.id, user.base_currency])
+    );
+
+    let sent = 0;
+    for (const [userId, currency] of currencies) {
+      const notifications = bills
+        .filter((bill) => bill.user_id === userId)
+        .map(
+          (bill): CreateNotificationData => ({
+            type: "upcoming_bill",
+            title: `${bill.description} is due soon`,
+            message: `${formatMoney(bill.amount, currency)} on ${bill.date}`,
+            link: "/recurring",
+            data: { recurring_id: bill.recurring_id, date: bill.date },
+            dedupe_key: `upcoming_bill:${bill.recurring_id}:${bill.date}`,
+          })
+        );
+      try {
+        sent += (await NotificationService.notify(userId, notifications))
+          .length;
+      } catch (error) {
+        console.error(`Failed to send bill reminders to ${userId}:`, error);
+      }
+    }
+    return sent;
+  }
+
+  // Notify a user the first time they sign in from a browser and address
+  static async newLogin(
+    userId: string,
+    ipAddress: string,
+    userAgent: string
+  ): Promise<void> {
+    const device = crypto
+      .createHash("sha256")
+      .update(`${ipAddress}|${userAgent}`)
+      .digest("hex");
+
+    await NotificationService.notify(userId, [
+      {
+        type: "new_login",
+        title: "New sign-in to your account",
+        message: `Signed in from ${describeUserAgent(
+          userAgent
+        )} (${ipAddress}). If this wasn't you, change your password.`,
+        link: "/settings",
+        data: { ip_address: ipAddress, user_agent: userAgent },
+        dedupe_key: `new_login:${device}`,
+      },
+    ]);
+  }
+}
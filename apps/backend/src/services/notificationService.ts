@@ -0,0 +1,326 @@
+import { sql } from "../db/connection";
+import { env } from "../config/env";
+import { UserService } from "./userService";
+import { EmailService } from "./emailService";
+
+// ===== TYPE DEFINITIONS =====
+
+// The events users can be notified about
+export type NotificationType =
+  | "budget_threshold"
+  | "large_transaction"
+  | "upcoming_bill"
+  | "new_login";
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  "budget_threshold",
+  "large_transaction",
+  "upcoming_bill",
+  "new_login",
+];
+
+export interface NotificationChannels {
+  in_app: boolean; // shown in the notification feed
+  email: boolean; // emailed when it happens
+  digest: boolean; // included in the next email digest
+}
+
+export interface NotificationPreference extends NotificationChannels {
+  event: NotificationType;
+}
+
+export interface NotificationPreferences {
+  events: NotificationPreference[];
+  large_transaction_amount: number; // in the base currency
+}
+
+export interface UpdateNotificationPreferencesData {
+  events?: NotificationPreference[];
+  large_transaction_amount?: number;
+}
+
+export interface Notification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link: string | null; // frontend path, e.g. /budgets
+  data: Record<string, unknown> | null;
+  in_app: boolean;
+  digest_status: "pending" | "sent" | null;
+  email_status: "pending" | "sent" | "failed" | null;
+  email_attempts: number;
+  dedupe_key: string | null;
+  read_at: Date | null;
+  created_at: Date;
+}
+
+export interface CreateNotificationData {
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+  data?: Record<string, unknown>;
+  // Events with the same key are only delivered once per user
+  dedupe_key?: string;
+}
+
+// Channels used until a user changes them
+const DEFAULT_CHANNELS: Record<NotificationType, NotificationChannels> = {
+  budget_threshold: { in_app: true, email: true, digest: false },
+  large_transaction: { in_app: true, email: false, digest: false },
+  upcoming_bill: { in_app: true, email: false, digest: false },
+  new_login: { in_app: false, email: true, digest: false },
+};
+
+export const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency }).format(
+    amount
+  );
+
+// ===== SERVICE CLASS =====
+
+export class NotificationService {
+  // Deliver notifications to a user through the channels they chose for each
+  // event. Every delivered notification is stored, so the feed, the digest,
+  // email retries and de-duplication all work from the same rows. Everything
+  // emailed goes out in a single email.
+  // Returns the notifications that were delivered.
+  static async notify(
+    userId: string,
+    notifications: CreateNotificationData[]
+  ): Promise<Notification[]> {
+    if (notifications.length === 0) {
+      return [];
+    }
+
+    const channels = await this.getChannels(userId);
+    const delivered: Notification[] = [];
+
+    for (const notification of notifications) {
+      const { type, title, message, link, data, dedupe_key } = notification;
+      const { in_app, email, digest } = channels[type];
+      if (!in_app && !email && !digest) {
+        continue;
+      }
+
+      const result = await sql`
+        INSERT INTO notifications (user_id, type, title, message, link, data, in_app, digest_status, email_status, dedupe_key)
+        VALUES (${userId}, ${type}, ${title}, ${message}, ${link ?? null}, ${
+        data ? JSON.stringify(data) : null
+      }::jsonb, ${in_app}, ${digest ? "pending" : null}, ${
+        email ? "pending" : null
+      }, ${dedupe_key ?? null})
+        ON CONFLICT DO NOTHING
+        RETURNING *
+      `;
+      if (result.length > 0) {
+        delivered.push(result[0] as Notification);
+      }
+    }
+
+    const emailed = delivered.filter((n) => n.email_status === "pending");
+    if (emailed.length > 0) {
+      await this.sendEmail(userId, emailed);
+    }
+
+    return delivered;
+  }
+
+  // Email notifications whose email failed earlier, one email per user.
+  // Notifications from the last minute are left to the request that is
+  // still sending them.
+  // Returns the number of emails sent.
+  static async retryEmails(): Promise<number> {
+    const result = await sql`
+      SELECT * FROM notifications
+      WHERE email_status = 'pending' AND created_at < NOW() - INTERVAL '1 minute'
+      ORDER BY created_at
+    `;
+
+    const byUser = new Map<string, Notification[]>();
+    for (const notification of result as Notification[]) {
+      const pending = byUser.get(notification.user_id) ?? [];
+      pending.push(notification);
+      byUser.set(notification.user_id, pending);
+    }
+
+    let sent = 0;
+    for (const [userId, notifications] of byUser) {
+      if (await this.sendEmail(userId, notifications)) {
+        sent++;
+      }
+    }
+    return sent;
+  }
+
+  // Get a user's most recent notifications, newest first
+  static async findByUserId(
+    userId: string,
+    options: { unreadOnly?: boolean; limit: number }
+  ): Promise<Notification[]> {
+    const result = await sql`
+      SELECT * FROM notifications
+      WHERE user_id = ${userId} AND in_app = TRUE
+        AND (${!options.unreadOnly} OR read_at IS NULL)
+      ORDER BY created_at DESC
+      LIMIT ${options.limit}
+    `;
+
+    return result as Notification[];
+  }
+
+  // Count unread notifications, for the header badge
+  static async countUnread(userId: string): Promise<number> {
+    const result = await sql`
+      SELECT COUNT(*) as count FROM notifications
+      WHERE user_id = ${userId} AND in_app = TRUE AND read_at IS NULL
+    `;
+
+    return parseInt((result[0] as any).count);
+  }
+
+  // Mark one notification as read
+  static async markRead(
+    id: string,
+    userId: string
+  ): Promise<Notification | null> {
+    const result = await sql`
+      UPDATE notifications
+      SET read_at = COALESCE(read_at, NOW())
+      WHERE id = ${id} AND user_id = ${userId} AND in_app = TRUE
+      RETURNING *
+    `;
+
+    return result.length > 0 ? (result[0] as Notification) : null;
+  }
+
+  // Mark all of a user's notifications as read
+  static async markAllRead(userId: string): Promise<number> {
+    const result = await sql`
+      UPDATE notifications
+      SET read_at = NOW()
+      WHERE user_id = ${userId} AND in_app = TRUE AND read_at IS NULL
+    `;
+
+    return result.count;
+  }
+
+  // Remove a notification from the feed. The row is kept so a de-duplicated
+  // event (a bill reminder, say) doesn't fire again.
+  static async delete(id: string, userId: string): Promise<boolean> {
+    const result = await sql`
+      UPDATE notifications
+      SET in_app = FALSE, read_at = COALESCE(read_at, NOW())
+      WHERE id = ${id} AND user_id = ${userId} AND in_app = TRUE
+    `;
+
+    return result.count > 0;
+  }
+
+  // Get the user's channels for every event, with defaults filled in
+  static async getPreferences(
+    userId: string
+  ): Promise<NotificationPreferences> {
+    const [channels, user] = await Promise.all([
+      this.getChannels(userId),
+      sql`SELECT large_transaction_amount FROM users WHERE id = ${userId}`,
+    ]);
+
+    return {
+      events: NOTIFICATION_TYPES.map((event) => ({
+        event,
+        ...channels[event],
+      })),
+      large_transaction_amount: parseFloat(
+        (user[0] as any)?.large_transaction_amount ?? 0
+      ),
+    };
+  }
+
+  // Save the channels for the given events and the large transaction amount
+  static async updatePreferences(
+    userId: string,
+    updateData: UpdateNotificationPreferencesData
+  ): Promise<NotificationPreferences> {
+    const { events = [], large_transaction_amount } = updateData;
+
+    await sql.begin(async (tx) => {
+      for (const { event, in_app, email, digest } of events) {
+        await tx`
+          INSERT INTO notification_preferences (user_id, event, in_app, email, digest)
+          VALUES (${userId}, ${event}, ${in_app}, ${email}, ${digest})
+          ON CONFLICT (user_id, event) DO UPDATE
+          SET in_app = EXCLUDED.in_app,
+            email = EXCLUDED.email,
+            digest = EXCLUDED.digest,
+            updated_at = NOW()
+        `;
+      }
+
+      if (large_transaction_amount !== undefined) {
+        await tx`
+          UPDATE users
+          SET large_transaction_amount = ${large_transaction_amount}, updated_at = NOW()
+          WHERE id = ${userId}
+        `;
+      }
+    });
+
+    return this.getPreferences(userId);
+  }
+
+  // Send one email for a user's notifications and record the outcome on
+  // each. After a failure they stay pending for retryEmails, until the last
+  // attempt marks them failed.
+  private static async sendEmail(
+    userId: string,
+    notifications: Notification[]
+  ): Promise<boolean> {
+    const user = await UserService.findById(userId);
+    const sent = user
+      ? await EmailService.sendNotificationEmail(
+          user.email,
+          user.name,
+          notifications
+        )
+      : false;
+
+    await sql`
+      UPDATE notifications
+      SET email_attempts = email_attempts + 1,
+        email_status = CASE
+          WHEN ${sent}::boolean THEN 'sent'
+          WHEN email_attempts + 1 >= ${
+            env.NOTIFICATION_EMAIL_MAX_ATTEMPTS
+          } THEN 'failed'
+          ELSE 'pending'
+        END
+      WHERE id IN ${sql(notifications.map((n) => n.id))}
+    `;
+    return sent;
+  }
+
+  private static async getChannels(
+    userId: string
+  ): Promise<Record<NotificationType, NotificationChannels>> {
+    const result = await sql`
+      SELECT event, in_app, email, digest
+      FROM notification_preferences
+      WHERE user_id = ${userId}
+    `;
+
+    const channels = { ...DEFAULT_CHANNELS };
+    for (const row of result as NotificationPreference[]) {
+      if (row.event in channels) {
+        channels[row.event] = {
+          in_app: row.in_app,
+          email: row.email,
+          digest: row.digest,
+        };
+      }
+    }
+    return channels;
+  }
+}
@@ -0,0 +1,336 @@
+import { sql } from "../db/connection";
+
+// ===== TYPE DEFINITIONS =====
+
+export type BudgetPeriodUnit = "day" | "week" | "month";
+
+// A repeating budget period: `length` units long, with one period starting
+// on `anchor`. A weekly budget starting Monday is { week, 1, <a Monday> },
+// a quarterly one { month, 3, <first day of a quarter> } and a pay period
+// from the 15th { month, 1, <a 15th> }.
+export interface BudgetPeriod {
+  unit: BudgetPeriodUnit;
+  length: number;
+  anchor: string; // YYYY-MM-DD
+}
+
+export interface PeriodBounds {
+  start: string; // YYYY-MM-DD, first day
+  end: string; // YYYY-MM-DD, last day
+}
+
+export interface PeriodBudget {
+  id: string;
+  user_id: string;
+  category_id: string;
+  period_unit: BudgetPeriodUnit;
+  period_length: number;
+  anchor_date: string; // YYYY-MM-DD
+  limit_amount: number;
+  alert_thresholds: number[]; // percentages of the limit that send an alert
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A period budget with spending for one of its periods; spending includes
+// subcategories, as it does for monthly budgets
+export interface PeriodBudgetWithSpending extends PeriodBudget {
+  category_name: string;
+  category_color: string;
+  period_start: string;
+  period_end: string;
+  spent_amount: number;
+  remaining_amount: number;
+  percentage_used: number;
+}
+
+export interface CreatePeriodBudgetData {
+  user_id: string;
+  category_id: string;
+  period_unit: BudgetPeriodUnit;
+  period_length: number;
+  anchor_date: string;
+  limit_amount: number;
+  alert_thresholds?: number[];
+}
+
+export interface UpdatePeriodBudgetData {
+  period_unit?: BudgetPeriodUnit;
+  period_length?: number;
+  anchor_date?: string;
+  limit_amount?: number;
+  alert_thresholds?: number[];
+}
+
+// ===== DATE HELPERS =====
+
+const toDateString = (date: Date): string => date.toISOString().split("T")[0];
+
+export const todayString = (): string => toDateString(new Date());
+
+function fromParts(year: number, month: number, day: number): string {
+  return toDateString(new Date(Date.UTC(year, month - 1, day)));
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return fromParts(year, month, day + days);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) /
+      86_400_000
+  );
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// Start of the nth month-based period, counted from the anchor's (negative
+// for earlier ones). The anchor's day is kept, clamped to short months.
+function nthMonthStart(period: BudgetPeriod, n: number): string {
+  const [year, month, day] = period.anchor.split("-").map(Number);
+  const index = year * 12 + (month - 1) + n * period.length;
+  const targetYear = Math.floor(index / 12);
+  const targetMonth = (index % 12) + 1;
+  return fromParts(
+    targetYear,
+    targetMonth,
+    Math.min(day, daysInMonth(targetYear, targetMonth))
+  );
+}
+
+// The period containing a date. Works for dates before the anchor too, so
+// the anchor only fixes where periods start.
+export function getPeriodBounds(
+  period: BudgetPeriod,
+  on: string
+): PeriodBounds {
+  if (period.unit === "month") {
+    const [year, month] = on.split("-").map(Number);
+    const [anchorYear, anchorMonth] = period.anchor.split("-").map(Number);
+    const months = year * 12 + month - (anchorYear * 12 + anchorMonth);
+    let n = Math.floor(months / period.length);
+    if (nthMonthStart(period, n) > on) {
+      n--;
+    }
+    return {
+      start: nthMonthStart(period, n),
+      end: addDays(nthMonthStart(period, n + 1), -1),
+    };
+  }
+
+  const step = period.unit === "week" ? period.length * 7 : period.length;
+  const n = Math.floor(daysBetween(period.anchor, on) / step);
+  const start = addDays(period.anchor, n * step);
+  return { start, end: addDays(start, step - 1) };
+}
+
+// The `count` periods up to and including the one containing `on`, oldest
+// first
+export function recentPeriods(
+  period: BudgetPeriod,
+  on: string,
+  count: number
+): PeriodBounds[] {
+  const periods: PeriodBounds[] = [];
+  let bounds = getPeriodBounds(period, on);
+  for (let i = 0; i < count; i++) {
+    periods.unshift(bounds);
+    bounds = getPeriodBounds(period, addDays(bounds.start, -1));
+  }
+  return periods;
+}
+
+// Plain calendar months, as monthly budgets use
+export const CALENDAR_MONTH: BudgetPeriod = {
+  unit: "month",
+  length: 1,
+  anchor: "2000-01-01",
+};
+
+export const toPeriod = (
+  budget: Pick<PeriodBudget, "period_unit" | "period_length" | "anchor_date">
+): BudgetPeriod => ({
+  unit: budget.period_unit,
+  length: budget.period_length,
+  anchor: budget.anchor_date,
+});
+
+const normalizePeriodBudget = (row: any): PeriodBudget => ({
+  ...row,
+  anchor_date: toDateString(row.anchor_date),
+  limit_amount: parseFloat(row.limit_amount),
+});
+
+// ===== SERVICE CLASS =====
+
+export class PeriodBudgetService {
+  // Get a user's period budgets with spending in the period containing `on`
+  // (today by default)
+  static async findByUserId(
+    userId: string,
+    on: string = todayString()
+  ): Promise<PeriodBudgetWithSpending[]> {
+    const result = await sql`
+      SELECT pb.*, c.name as category_name, c.color as category_color
+      FROM period_budgets pb
+      JOIN categories c ON pb.category_id = c.id
+      WHERE pb.user_id = ${userId}
+      ORDER BY c.name, pb.period_unit, pb.period_length
+    `;
+
+    return this.withSpending(userId, result, on);
+  }
+
+  // Find period budget by ID
+  static async findById(
+    id: string,
+    userId: string
+  ): Promise<PeriodBudget | null> {
+    const result = await sql`
+      SELECT * FROM period_budgets
+      WHERE id = ${id} AND user_id = ${userId}
+    `;
+
+    return result.length > 0 ? normalizePeriodBudget(result[0]) : null;
+  }
+
+  // Create a new period budget
+  static async create(data: CreatePeriodBudgetData): Promise<PeriodBudget> {
+    const {
+      user_id,
+      category_id,
+      period_unit,
+      period_length,
+      anchor_date,
+      limit_amount,
+      alert_thresholds = [100],
+    } = data;
+
+    // Thresholds are passed as a Postgres array literal, e.g. {50,80,100}
+    const result = await sql`
+      INSERT INTO period_budgets (user_id, category_id, period_unit, period_length, anchor_date, limit_amount, alert_thresholds)
+      VALUES (${user_id}, ${category_id}, ${period_unit}, ${period_length}, ${anchor_date}, ${limit_amount}, ${`{${alert_thresholds.join(
+      ","
+    )}}`}::int[])
+      RETURNING *
+    `;
+
+    return normalizePeriodBudget(result[0]);
+  }
+
+  // Update a period budget
+  static async update(
+    id: string,
+    userId: string,
+    updateData: UpdatePeriodBudgetData
+  ): Promise<PeriodBudget | null> {
+    const {
+      period_unit,
+      period_length,
+      anchor_date,
+      limit_amount,
+      alert_thresholds,
+    } = updateData;
+
+    const result = await sql`
+      UPDATE period_budgets
+      SET period_unit = COALESCE(${period_unit ?? null}, period_unit),
+        period_length = COALESCE(${period_length ?? null}, period_length),
+        anchor_date = COALESCE(${anchor_date ?? null}::date, anchor_date),
+        limit_amount = COALESCE(${limit_amount ?? null}, limit_amount),
+        alert_thresholds = COALESCE(${
+          alert_thresholds ? `{${alert_thresholds.join(",")}}` : null
+        }::int[], alert_thresholds)
+      WHERE id = ${id} AND user_id = ${userId}
+      RETURNING *
+    `;
+
+    return result.length > 0 ? normalizePeriodBudget(result[0]) : null;
+  }
+
+  // Delete a period budget
+  static async delete(id: string, userId: string): Promise<boolean> {
+    const result = await sql`
+      DELETE FROM period_budgets
+      WHERE id = ${id} AND user_id = ${userId}
+    `;
+
+    return result.count > 0;
+  }
+
+  // Check if the category already has a budget with the same period length
+  static async existsForPeriod(
+    userId: string,
+    categoryId: string,
+    unit: BudgetPeriodUnit,
+    length: number,
+    excludeId?: string
+  ): Promise<boolean> {
+    const result = await sql`
+      SELECT COUNT(*) as count
+      FROM period_budgets
+      WHERE user_id = ${userId} AND category_id = ${categoryId}
+        AND period_unit = ${unit} AND period_length = ${length}
+        AND (${excludeId ?? null}::uuid IS NULL OR id != ${excludeId ?? null})
+    `;
+
+    return parseInt((result[0] as any).count) > 0;
+  }
+
+  // Add each budget's current period and what was spent in it. Every budget
+  // has its own date range, so they are matched to spending in one query.
+  private static async withSpending(
+    userId: string,
+    rows: any[],
+    on: string
+  ): Promise<PeriodBudgetWithSpending[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const budgets = rows.map((row) => {
+      const budget = {
+        ...normalizePeriodBudget(row),
+        category_name: row.category_name,
+        category_color: row.category_color,
+      };
+      const bounds = getPeriodBounds(toPeriod(budget), on);
+      return { ...budget, period_start: bounds.start, period_end: bounds.end };
+    });
+
+    const windows = budgets.map((budget) => ({
+      id: budget.id,
+      category_id: budget.category_id,
+      period_start: budget.period_start,
+      period_end: budget.period_end,
+    }));
+    const spending = await sql`
+      SELECT w.id, COALESCE(SUM(t.base_amount), 0) as spent
+      FROM json_to_recordset(${JSON.stringify(windows)}::json)
+        AS w(id uuid, category_id uuid, period_start date, period_end date)
+      LEFT JOIN category_closure(${userId}) cc ON cc.ancestor_id = w.category_id
+      LEFT JOIN transaction_lines t ON t.category_id = cc.descendant_id
+        AND t.user_id = ${userId}
+        AND t.type = 'expense'
+        AND t.date BETWEEN w.period_start AND w.period_end
+      GROUP BY w.id
+    `;
+    const spentById = new Map<string, number>(
+      spending.map((row: any) => [row.id, parseFloat(row.spent)])
+    );
+
+    return budgets.map((budget) => {
+      const spentAmount = spentById.get(budget.id) ?? 0;
+      return {
+        ...budget,
+        spent_amount: spentAmount,
+        remaining_amount: budget.limit_amount - spentAmount,
+        percentage_used: (spentAmount / budget.limit_amount) * 100,
+      };
+    });
+  }
+}
@@ -0,0 +1,680 @@
+import { sql } from "../db/connection";
+import { env } from "../config/env";
+import { BudgetAlertService } from "./budgetAlertService";
+import { BillService } from "./billService";
+
+// ===== TYPE DEFINITIONS =====
+
+export type RecurringFrequency =
+  | "daily"
+  | "weekly"
+  | "biweekly"
+  | "monthly"
+  | "yearly";
+
+export interface RecurringTransaction {
+  id: string;
+  user_id: string;
+  category_id: string | null;
+  amount: number;
+  description: string;
+  type: "income" | "expense";
+  frequency: RecurringFrequency;
+  day_of_month: number | null; // monthly only; clamped to short months
+  start_date: Date;
+  end_date: Date | null;
+  max_occurrences: number | null;
+  is_paused: boolean;
+  materialized_through: Date | null; // occurrences up to here are created
+  created_at: Date;
+  updated_at: Date;
+  // Joined fields from category
+  category_name?: string;
+  category_color?: string;
+  // Calculated fields
+  next_occurrence?: string | null;
+}
+
+export interface CreateRecurringData {
+  category_id?: string;
+  amount: number;
+  description: string;
+  type: "income" | "expense";
+  frequency: RecurringFrequency;
+  day_of_month?: number;
+  start_date: string; // YYYY-MM-DD
+  end_date?: string; // YYYY-MM-DD
+  max_occurrences?: number;
+}
+
+export interface UpdateRecurringData {
+  category_id?: string | null;
+  amount?: number;
+  description?: string;
+  type?: "income" | "expense";
+  frequency?: RecurringFrequency;
+  day_of_month?: number | null;
+  start_date?: string;
+  end_date?: string | null;
+  max_occurrences?: number | null;
+}
+
+export interface OccurrenceOverride {
+  amount?: number;
+  description?: string;
+  category_id?: string | null;
+}
+
+export interface UpcomingOccurrence {
+  date: string; // YYYY-MM-DD
+  status: "scheduled" | "skipped" | "overridden";
+  amount: number;
+  description: string;
+  category_id: string | null;
+}
+
+// A pending occurrence of some user's rule
+export interface DueOccurrence extends UpcomingOccurrence {
+  recurring_id: string;
+  user_id: string;
+  type: "income" | "expense";
+}
+
+// Internal interface for database row mapping
+interface RecurringExceptionRow {
+  occurrence_date: Date;
+  action: "skip" | "override";
+  amount: string | null;
+  description: string | null;
+  category_id: string | null;
+}
+
+// ===== DATE HELPERS =====
+
+const toDateString = (date: Date): string => date.toISOString().split("T")[0];
+
+const todayString = (): string => toDateString(new Date());
+
+function fromParts(year: number, month: number, day: number): string {
+  return toDateString(new Date(Date.UTC(year, month - 1, day)));
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return fromParts(year, month, day + days);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// Date of the nth (0-based) occurrence of a schedule
+function nthOccurrence(
+  rule: Pick<RecurringTransaction, "frequency" | "day_of_month" | "start_date">,
+  n: number
+): string {
+  const start = toDateString(rule.start_date);
+  const [year, month, day] = start.split("-").map(Number);
+
+  switch (rule.frequency) {
+    case "daily":
+      return addDays(start, n);
+    case "weekly":
+      return addDays(start, 7 * n);
+    case "biweekly":
+      return addDays(start, 14 * n);
+    case "monthly": {
+      const dayOfMonth = rule.day_of_month || day;
+      // The first occurrence is in the start month unless that day has passed
+      const offset = Math.min(dayOfMonth, daysInMonth(year, month)) < day;
+      const monthIndex = year * 12 + (month - 1) + n + (offset ? 1 : 0);
+      const targetYear = Math.floor(monthIndex / 12);
+      const targetMonth = (monthIndex % 12) + 1;
+      return fromParts(
+        targetYear,
+        targetMonth,
+        Math.min(dayOfMonth, daysInMonth(targetYear, targetMonth))
+      );
+    }
+    case "yearly":
+      return fromParts(
+        year + n,
+        month,
+        Math.min(day, daysInMonth(year + n, month))
+      );
+  }
+}
+
+// Occurrence dates in (after, through], honouring the rule's end conditions
+export function occurrencesBetween(
+  rule: Pick<
+    RecurringTransaction,
+    "frequency" | "day_of_month" | "start_date" | "end_date" | "max_occurrences"
+  >,
+  after: string | null,
+  through: string,
+  limit: number = Infinity
+): string[] {
+  const dates: string[] = [];
+  const endDate = rule.end_date ? toDateString(rule.end_date) : null;
+
+  for (let n = 0; dates.length < limit; n++) {
+    if (rule.max_occurrences !== null && n >= rule.max_occurrences) {
+      break;
+    }
+
+    const date = nthOccurrence(rule, n);
+    if (date > through || (endDate && date > endDate)) {
+      break;
+    }
+    if (!after || date > after) {
+      dates.push(date);
+    }
+  }
+
+  return dates;
+}
+
+// ===== SERVICE CLASS =====
+
+export class RecurringService {
+  // Create a rule and immediately materialize anything already due
+  static async create(
+    userId: string,
+    data: CreateRecurringData
+  ): Promise<RecurringTransaction> {
+    const result = await sql`
+      INSERT INTO recurring_transactions (
+        user_id, category_id, amount, description, type, frequency,
+        day_of_month, start_date, end_date, max_occurrences
+      )
+      VALUES (
+        ${userId}, ${data.category_id || null}, ${data.amount},
+        ${data.description}, ${data.type}, ${data.frequency},
+        ${data.frequency === "monthly" ? data.day_of_month ?? null : null},
+        ${data.start_date}, ${data.end_date || null},
+        ${data.max_occurrences ?? null}
+      )
+      RETURNING *
+    `;
+
+    const rule = result[0] as RecurringTransaction;
+    await this.materializeRule(rule.id, todayString());
+
+    return (await this.findById(rule.id, userId))!;
+  }
+
+  // Get all rules for a user with their next pending occurrence
+  static async findByUserId(userId: string): Promise<RecurringTransaction[]> {
+    const result = await sql`
+      SELECT r.*, c.name as category_name, c.color as category_color
+      FROM recurring_transactions r
+      LEFT JOIN categories c ON r.category_id = c.id
+      WHERE r.user_id = ${userId}
+      ORDER BY r.is_paused ASC, r.description ASC
+    `;
+
+    return (result as RecurringTransaction[]).map((rule) => this.hydrate(rule));
+  }
+
+  // Find rule by ID
+  static async findById(
+    id: string,
+    userId: string
+  ): Promise<RecurringTransaction | null> {
+    const result = await sql`
+      SELECT r.*, c.name as category_name, c.color as category_color
+      FROM recurring_transactions r
+      LEFT JOIN categories c ON r.category_id = c.id
+      WHERE r.id = ${id} AND r.user_id = ${userId}
+    `;
+
+    return result.length > 0
+      ? this.hydrate(result[0] as RecurringTransaction)
+      : null;
+  }
+
+  // Update the template or schedule; only future occurrences are affected
+  static async update(
+    id: string,
+    userId: string,
+    data: UpdateRecurringData
+  ): Promise<RecurringTransaction | null> {
+    const existing = await this.findById(id, userId);
+    if (!existing) {
+      return null;
+    }
+
+    const frequency = data.frequency ?? existing.frequency;
+    const dayOfMonth =
+      frequency === "monthly"
+        ? data.day_of_month !== undefined
+          ? data.day_of_month
+          : existing.day_of_month
+        : null;
+
+    await sql`
+      UPDATE recurring_transactions
+      SET
+        category_id = ${
+          data.category_id !== undefined
+            ? data.category_id
+            : existing.category_id
+        },
+        amount = ${data.amount ?? existing.amount},
+        description = ${data.description ?? existing.description},
+        type = ${data.type ?? existing.type},
+        frequency = ${frequency},
+        day_of_month = ${dayOfMonth},
+        start_date = ${data.start_date ?? toDateString(existing.start_date)},
+        end_date = ${
+          data.end_date !== undefined
+            ? data.end_date
+            : existing.end_date && toDateString(existing.end_date)
+        },
+        max_occurrences = ${
+          data.max_occurrences !== undefined
+            ? data.max_occurrences
+            : existing.max_occurrences
+        }
+      WHERE id = ${id} AND user_id = ${userId}
+    `;
+
+    // Exceptions for dates that are no longer occurrences are now meaningless
+    const updated = (await this.findById(id, userId))!;
+    const pending = await sql`
+      SELECT occurrence_date FROM recurring_exceptions
+      WHERE recurring_id = ${id}
+    `;
+    const stale = (pending as { occurrence_date: Date }[])
+      .map((row) => toDateString(row.occurrence_date))
+      .filter((date) => !this.isOccurrence(updated, date));
+
+    if (stale.length > 0) {
+      await sql`
+        DELETE FROM recurring_exceptions
+        WHERE recurring_id = ${id} AND occurrence_date IN ${sql(stale)}
+      `;
+    }
+
+    await this.materializeRule(id, todayString());
+    return this.findById(id, userId);
+  }
+
+  // Delete a rule; transactions it already created are kept
+  static async delete(id: string, userId: string): Promise<boolean> {
+    const result = await sql`
+      DELETE FROM recurring_transactions
+      WHERE id = ${id} AND user_id = ${userId}
+      RETURNING id
+    `;
+
+    return result.length > 0;
+  }
+
+  // Pause or resume a rule. Occurrences that fell due while paused are not
+  // back-filled on resume.
+  static async setPaused(
+    id: string,
+    userId: string,
+    paused: boolean
+  ): Promise<RecurringTransaction | null> {
+    const result = paused
+      ? await sql`
+          UPDATE recurring_transactions
+          SET is_paused = TRUE
+          WHERE id = ${id} AND user_id = ${userId}
+          RETURNING id
+        `
+      : await sql`
+          UPDATE recurring_transactions
+          SET
+            is_paused = FALSE,
+            materialized_through = GREATEST(
+              materialized_through,
+              CURRENT_DATE - 1,
+              start_date - 1
+            )
+          WHERE id = ${id} AND user_id = ${userId}
+          RETURNING id
+        `;
+
+    if (result.length === 0) {
+      return null;
+    }
+
+    if (!paused) {
+      await this.materializeRule(id, todayString());
+    }
+    return this.findById(id, userId);
+  }
+
+  // List the next pending occurrences with any skip/override applied
+  static async getUpcoming(
+    id: string,
+    userId: string,
+    count: number = 10
+  ): Promise<UpcomingOccurrence[] | null> {
+    const rule = await this.findById(id, userId);
+    if (!rule) {
+      return null;
+    }
+
+    const after = rule.materialized_through
+      ? toDateString(rule.materialized_through)
+      : null;
+    // Look far enough ahead for `count` occurrences of a yearly rule
+    const horizon = addDays(todayString(), 366 * count);
+    const dates = occurrencesBetween(rule, after, horizon, count);
+    const exceptions = await this.getExceptions(id);
+
+    return dates.map((date) => {
+      const exception = exceptions.get(date);
+
+      if (exception?.action === "skip") {
+        return {
+          date,
+          status: "skipped",
+          amount: rule.amount,
+          description: rule.description,
+          category_id: rule.category_id,
+        };
+      }
+
+      return {
+        date,
+        status: exception ? "overridden" : "scheduled",
+        amount: exception?.amount ? parseFloat(exception.amount) : rule.amount,
+        description: exception?.description ?? rule.description,
+        category_id: exception
+          ? exception.category_id ?? rule.category_id
+          : rule.category_id,
+      };
+    });
+  }
+
+  // Pending occurrences of every user's active rules up to `through`, with
+  // skipped ones left out. Used for upcoming bill reminders.
+  static async getDueThrough(through: string): Promise<DueOccurrence[]> {
+    const result = await sql`
+      SELECT * FROM recurring_transactions
+      WHERE is_paused = FALSE
+        AND (materialized_through IS NULL OR materialized_through < ${through})
+    `;
+
+    const due: DueOccurrence[] = [];
+    for (const row of result as RecurringTransaction[]) {
+      const rule = { ...row, amount: parseFloat(String(row.amount)) };
+      const after = rule.materialized_through
+        ? toDateString(rule.materialized_through)
+        : null;
+      const dates = occurrencesBetween(rule, after, through);
+      if (dates.length === 0) {
+        continue;
+      }
+
+      const exceptions = await this.getExceptions(rule.id);
+      for (const date of dates) {
+        const exception = exceptions.get(date);
+        if (exception?.action === "skip") {
+          continue;
+        }
+        due.push({
+          recurring_id: rule.id,
+          user_id: rule.user_id,
+          type: rule.type,
+          date,
+          status: exception ? "overridden" : "scheduled",
+          amount: exception?.amount
+            ? parseFloat(exception.amount)
+            : rule.amount,
+          description: exception?.description ?? rule.description,
+          category_id: exception
+            ? exception.category_id ?? rule.category_id
+            : rule.category_id,
+        });
+      }
+    }
+
+    return due;
+  }
+
+  // Skip a single pending occurrence
+  static async skipOccurrence(
+    id: string,
+    userId: string,
+    date: string
+  ): Promise<boolean> {
+    await this.assertPendingOccurrence(id, userId, date);
+
+    await sql`
+      INSERT INTO recurring_exceptions (recurring_id, occurrence_date, action)
+      VALUES (${id}, ${date}, 'skip')
+      ON CONFLICT (recurring_id, occurrence_date)
+      DO UPDATE SET action = 'skip', amount = NULL, description = NULL, category_id = NULL
+    `;
+
+    return true;
+  }
+
+  // Change the amount, description or category of a single pending occurrence
+  static async overrideOccurrence(
+    id: string,
+    userId: string,
+    date: string,
+    override: OccurrenceOverride
+  ): Promise<boolean> {
+    await this.assertPendingOccurrence(id, userId, date);
+
+    await sql`
+      INSERT INTO recurring_exceptions (
+        recurring_id, occurrence_date, action, amount, description, category_id
+      )
+      VALUES (
+        ${id}, ${date}, 'override', ${override.amount ?? null},
+        ${override.description ?? null}, ${override.category_id ?? null}
+      )
+      ON CONFLICT (recurring_id, occurrence_date)
+      DO UPDATE SET
+        action = 'override',
+        amount = EXCLUDED.amount,
+        description = EXCLUDED.description,
+        category_id = EXCLUDED.category_id
+    `;
+
+    return true;
+  }
+
+  // Restore a skipped or overridden occurrence to the rule's template
+  static async clearOccurrence(
+    id: string,
+    userId: string,
+    date: string
+  ): Promise<boolean> {
+    await this.assertPendingOccurrence(id, userId, date);
+
+    const result = await sql`
+      DELETE FROM recurring_exceptions
+      WHERE recurring_id = ${id} AND occurrence_date = ${date}
+      RETURNING id
+    `;
+
+    return result.length > 0;
+  }
+
+  // Create transactions for every active rule with occurrences due by `through`
+  static async materializeDue(
+    through: string = todayString()
+  ): Promise<number> {
+    const rules = await sql`
+      SELECT id FROM recurring_transactions
+      WHERE is_paused = FALSE
+        AND start_date <= ${through}
+        AND (materialized_through IS NULL OR materialized_through < ${through})
+    `;
+
+    let created = 0;
+    for (const rule of rules as { id: string }[]) {
+      try {
+        created += await this.materializeRule(rule.id, through);
+      } catch (error) {
+        console.error(
+          `Failed to materialize recurring rule ${rule.id}:`,
+          error
+        );
+      }
+    }
+
+    return created;
+  }
+
+  // Insert the occurrences of one rule up to `through`. The row lock and the
+  // unique (recurring_id, occurrence_date) index make this safe to re-run.
+  private static async materializeRule(
+    id: string,
+    through: string
+  ): Promise<number> {
+    let userId: string | null = null;
+    const createdIds: string[] = [];
+    const materialized = await sql.begin(async (tx) => {
+      const locked = await tx`
+        SELECT * FROM recurring_transactions WHERE id = ${id} FOR UPDATE
+      `;
+      const rule = locked[0] as RecurringTransaction | undefined;
+
+      if (!rule || rule.is_paused) {
+        return 0;
+      }
+      userId = rule.user_id;
+
+      const after = rule.materialized_through
+        ? toDateString(rule.materialized_through)
+        : null;
+      if (after && after >= through) {
+        return 0;
+      }
+
+      const dates = occurrencesBetween(rule, after, through);
+      const exceptions = await this.getExceptions(id, tx);
+      const rows = dates
+        .filter((date) => exceptions.get(date)?.action !== "skip")
+        .map((date) => {
+          const exception = exceptions.get(date);
+          return {
+            user_id: rule.user_id,
+            category_id: exception?.category_id ?? rule.category_id,
+            amount: exception?.amount ?? rule.amount,
+            description: exception?.description ?? rule.description,
+            type: rule.type,
+            date,
+            recurring_id: rule.id,
+            occurrence_date: date,
+          };
+        });
+
+      let created = 0;
+      for (let i = 0; i < rows.length; i += env.IMPORT_BATCH_SIZE) {
+        const result = await tx`
+          INSERT INTO transactions ${tx(
+            rows.slice(i, i + env.IMPORT_BATCH_SIZE)
+          )}
+          ON CONFLICT DO NOTHING
+          RETURNING id
+        `;
+        createdIds.push(...result.map((row: any) => row.id));
+        created += result.length;
+      }
+
+      await tx`
+        UPDATE recurring_transactions
+        SET materialized_through = ${through}
+        WHERE id = ${id}
+      `;
+
+      if (dates.length > 0) {
+        await tx`
+          DELETE FROM recurring_exceptions
+          WHERE recurring_id = ${id} AND occurrence_date <= ${through}
+        `;
+      }
+
+      return created;
+    });
+
+    if (materialized > 0 && userId) {
+      BudgetAlertService.schedule(userId);
+      BillService.matchTransactions(userId, createdIds).catch(console.error);
+    }
+    return materialized;
+  }
+
+  private static async getExceptions(
+    id: string,
+    db: typeof sql = sql
+  ): Promise<Map<string, RecurringExceptionRow>> {
+    const result = await db`
+      SELECT occurrence_date, action, amount, description, category_id
+      FROM recurring_exceptions
+      WHERE recurring_id = ${id}
+    `;
+
+    return new Map(
+      (result as RecurringExceptionRow[]).map((row) => [
+        toDateString(row.occurrence_date),
+        row,
+      ])
+    );
+  }
+
+  private static isOccurrence(
+    rule: RecurringTransaction,
+    date: string
+  ): boolean {
+    const dates = occurrencesBetween(rule, addDays(date, -1), date);
+    return dates.includes(date);
+  }
+
+  // Only dates that are real occurrences and not yet materialized can be edited
+  private static async assertPendingOccurrence(
+    id: string,
+    userId: string,
+    date: string
+  ): Promise<void> {
+    const rule = await this.findById(id, userId);
+    if (!rule) {
+      throw new Error("Recurring transaction not found");
+    }
+
+    if (!this.isOccurrence(rule, date)) {
+      throw new Error("That date is not an occurrence of this schedule");
+    }
+
+    if (
+      rule.materialized_through &&
+      date <= toDateString(rule.materialized_through)
+    ) {
+      throw new Error(
+        "This occurrence has already been recorded; edit the transaction instead"
+      );
+    }
+  }
+
+  // Convert numeric strings and attach the next pending occurrence
+  private static hydrate(rule: RecurringTransaction): RecurringTransaction {
+    const normalized = {
+      ...rule,
+      amount: parseFloat(String(rule.amount)),
+    };
+    const after = rule.materialized_through
+      ? toDateString(rule.materialized_through)
+      : null;
+    const [next] = occurrencesBetween(
+      normalized,
+      after,
+      addDays(todayString(), 366 * 2),
+      1
+    );
+
+    return { ...normalized, next_occurrence: next ?? null };
+  }
+}
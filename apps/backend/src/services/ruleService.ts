@@ -0,0 +1,530 @@
+import { RE2 } from "re2-wasm";
+import { sql } from "../db/connection";
+import { TransactionService } from "./transactionService";
+
+// ===== TYPE DEFINITIONS =====
+
+export type DescriptionOperator =
+  | "contains"
+  | "starts_with"
+  | "equals"
+  | "regex";
+
+export interface CategorizationRule {
+  id: string;
+  user_id: string;
+  name: string;
+  priority: number; // lower runs first
+  is_active: boolean;
+  // Conditions; a rule matches when every non-null condition holds
+  description_operator: DescriptionOperator | null;
+  description_value: string | null;
+  min_amount: number | null;
+  max_amount: number | null;
+  match_type: "income" | "expense" | null;
+  // Actions
+  set_category_id: string | null;
+  set_description: string | null;
+  add_tags: string[];
+  created_at: Date;
+  updated_at: Date;
+  // Joined fields from category
+  category_name?: string;
+  category_color?: string;
+}
+
+export interface CreateRuleData {
+  name: string;
+  priority?: number; // defaults to after the user's existing rules
+  is_active?: boolean;
+  description_operator?: DescriptionOperator;
+  description_value?: string;
+  min_amount?: number;
+  max_amount?: number;
+  match_type?: "income" | "expense";
+  set_category_id?: string;
+  set_description?: string;
+  add_tags?: string[];
+}
+
+export type UpdateRuleData = {
+  [K in keyof Omit<CreateRuleData, "add_tags">]?: CreateRuleData[K] | null;
+} & { add_tags?: string[] };
+
+// The fields rules look at and change on a transaction
+export interface RuleSubject {
+  description: string;
+  amount: number;
+  type: "income" | "expense" | "transfer";
+  category_id?: string | null;
+  has_splits?: boolean; // split lines carry their own categories
+  tags?: string[];
+}
+
+export interface RuleOutcome {
+  category_id?: string; // only set when the subject has no category
+  description?: string;
+  tags: string[]; // tags to add that the subject doesn't have yet
+  rule_ids: string[]; // rules that matched, in priority order
+}
+
+export interface RerunOptions {
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+  overwriteCategories?: boolean; // also recategorize categorized transactions
+}
+
+// One past transaction that re-running the rules would change
+export interface RuleChange {
+  transaction_id: string;
+  date: Date;
+  amount: number;
+  type: "income" | "expense";
+  description: string;
+  category_id: string | null;
+  category_name: string | null;
+  new_description: string | null;
+  new_category_id: string | null;
+  new_category_name: string | null;
+  add_tags: string[];
+  rule_ids: string[];
+}
+
+// Internal interface for database row mapping
+interface RerunCandidateRow {
+  id: string;
+  date: Date;
+  amount: string;
+  type: "income" | "expense";
+  description: string;
+  category_id: string | null;
+  category_name: string | null;
+  has_splits: boolean;
+  tags: string[];
+}
+
+// Numeric columns come back from Postgres as strings
+const normalizeRule = (row: any): CategorizationRule => ({
+  ...row,
+  min_amount: row.min_amount === null ? null : parseFloat(row.min_amount),
+  max_amount: row.max_amount === null ? null : parseFloat(row.max_amount),
+});
+
+// Regex rules run on the server for every new transaction, so they use
+// RE2, which matches in linear time and cannot be made to backtrack. It has
+// no backreferences or lookarounds; patterns using them are rejected.
+export const MAX_PATTERN_LENGTH = 200;
+
+// Compiled patterns by source. RE2 objects live in WebAssembly memory and are
+// never freed, so each distinct pattern is compiled once and kept.
+const compiledPatterns = new Map<string, RE2>();
+
+const compilePattern = (pattern: string): RE2 => {
+  let compiled = compiledPatterns.get(pattern);
+  if (!compiled) {
+    compiled = new RE2(pattern, "iu");
+    compiledPatterns.set(pattern, compiled);
+  }
+  return compiled;
+};
+
+// Why a regex rule pattern can't be used, or null when it is fine
+export const findPatternProblem = (pattern: string): string | null => {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Description pattern must be at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+  try {
+    compilePattern(pattern);
+  } catch {
+    return "Description pattern is not a valid regular expression (backreferences and lookarounds are not supported)";
+  }
+  return null;
+};
+
+const matchesDescription = (
+  operator: DescriptionOperator,
+  value: string,
+  description: string
+): boolean => {
+  const text = description.toLowerCase();
+  const needle = value.toLowerCase();
+
+  switch (operator) {
+    case "contains":
+      return text.includes(needle);
+    case "starts_with":
+      return text.startsWith(needle);
+    case "equals":
+      return text.trim() === needle.trim();
+    case "regex":
+      // Patterns are checked on save; skip any saved before that check
+      if (findPatternProblem(value)) {
+        return false;
+      }
+      return compilePattern(value).test(description);
+  }
+};
+
+// ===== SERVICE CLASS =====
+
+export class RuleService {
+  // Get a user's rules in the order they are applied
+  static async findByUserId(userId: string): Promise<CategorizationRule[]> {
+    const result = await sql`
+      SELECT r.*, c.name as category_name, c.color as category_color
+      FROM categorization_rules r
+      LEFT JOIN categories c ON r.set_category_id = c.id
+      WHERE r.user_id = ${userId}
+      ORDER BY r.priority, r.created_at
+    `;
+
+    return result.map(normalizeRule);
+  }
+
+  static async findById(
+    id: string,
+    userId: string
+  ): Promise<CategorizationRule | null> {
+    const result = await sql`
+      SELECT r.*, c.name as category_name, c.color as category_color
+      FROM categorization_rules r
+      LEFT JOIN categories c ON r.set_category_id = c.id
+      WHERE r.id = ${id} AND r.user_id = ${userId}
+    `;
+
+    return result.length > 0 ? normalizeRule(result[0]) : null;
+  }
+
+  static async create(
+    userId: string,
+    data: CreateRuleData
+  ): Promise<CategorizationRule> {
+    let priority = data.priority;
+    if (priority === undefined) {
+      const last = await sql`
+        SELECT COALESCE(MAX(priority) + 1, 0) as next
+        FROM categorization_rules WHERE user_id = ${userId}
+      `;
+      priority = Number(last[0].next);
+    }
+
+    const result = await sql`
+      INSERT INTO categorization_rules (
+        user_id, name, priority, is_active,
+        description_operator, description_value, min_amount, max_amount, match_type,
+        set_category_id, set_description, add_tags
+      )
+      VALUES (
+        ${userId}, ${data.name}, ${priority}, ${data.is_active ?? true},
+        ${data.description_operator ?? null}, ${data.description_value ?? null},
+        ${data.min_amount ?? null}, ${data.max_amount ?? null}, ${
+      data.match_type ?? null
+    },
+        ${data.set_category_id ?? null}, ${data.set_description ?? null},
+        ${JSON.stringify(data.add_tags ?? [])}::jsonb
+      )
+      RETURNING id
+    `;
+
+    return (await this.findById(result[0].id, userId))!;
+  }
+
+  static async update(
+    id: string,
+    userId: string,
+    data: UpdateRuleData
+  ): Promise<CategorizationRule | null> {
+    const existing = await this.findById(id, userId);
+    if (!existing) {
+      return null;
+    }
+
+    // undefined keeps the current value, null clears it
+    const pick = <K extends keyof UpdateRuleData & keyof CategorizationRule>(
+      key: K
+    ) => (data[key] !== undefined ? data[key] : existing[key]);
+
+    await sql`
+      UPDATE categorization_rules
+      SET
+        name = ${data.name ?? existing.name},
+        priority = ${data.priority ?? existing.priority},
+        is_active = ${data.is_active ?? existing.is_active},
+        description_operator = ${pick("description_operator")},
+        description_value = ${pick("description_value")},
+        min_amount = ${pick("min_amount")},
+        max_amount = ${pick("max_amount")},
+        match_type = ${pick("match_type")},
+        set_category_id = ${pick("set_category_id")},
+        set_description = ${pick("set_description")},
+        add_tags = ${JSON.stringify(data.add_tags ?? existing.add_tags)}::jsonb
+      WHERE id = ${id} AND user_id = ${userId}
+    `;
+
+    return this.findById(id, userId);
+  }
+
+  static async delete(id: string, userId: string): Promise<boolean> {
+    const result = await sql`
+      DELETE FROM categorization_rules
+      WHERE id = ${id} AND user_id = ${userId}
+      RETURNING id
+    `;
+
+    return result.length > 0;
+  }
+
+  // Set priorities from the given order; rules not listed keep their place
+  // after the listed ones
+  static async reorder(userId: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    await sql.begin(async (tx) => {
+      for (const [index, id] of ids.entries()) {
+        await tx`
+          UPDATE categorization_rules SET priority = ${index}
+          WHERE id = ${id} AND user_id = ${userId}
+        `;
+      }
+      await tx`
+        UPDATE categorization_rules SET priority = priority + ${ids.length}
+        WHERE user_id = ${userId} AND id NOT IN ${tx(ids)}
+      `;
+    });
+  }
+
+  static matches(rule: CategorizationRule, subject: RuleSubject): boolean {
+    if (!rule.is_active || subject.type === "transfer") {
+      return false;
+    }
+    if (
+      rule.description_operator &&
+      rule.description_value !== null &&
+      !matchesDescription(
+        rule.description_operator,
+        rule.description_value,
+        subject.description
+      )
+    ) {
+      return false;
+    }
+    if (rule.min_amount !== null && subject.amount < rule.min_amount) {
+      return false;
+    }
+    if (rule.max_amount !== null && subject.amount > rule.max_amount) {
+      return false;
+    }
+    if (rule.match_type !== null && subject.type !== rule.match_type) {
+      return false;
+    }
+    return true;
+  }
+
+  // Run rules (already in priority order) against one transaction. Every
+  // rule sees the transaction as it was; the first matching rule to set a
+  // category or description wins, and tags from all matching rules add up.
+  // A category the transaction already has is kept unless overwriting.
+  static evaluate(
+    rules: CategorizationRule[],
+    subject: RuleSubject,
+    overwriteCategory: boolean = false
+  ): RuleOutcome {
+    const outcome: RuleOutcome = { tags: [], rule_ids: [] };
+    const canCategorize =
+      !subject.has_splits && (overwriteCategory || !subject.category_id);
+    const existingTags = new Set(subject.tags || []);
+
+    for (const rule of rules) {
+      if (!this.matches(rule, subject)) {
+        continue;
+      }
+      outcome.rule_ids.push(rule.id);
+
+      if (
+        canCategorize &&
+        rule.set_category_id &&
+        outcome.category_id === undefined
+      ) {
+        outcome.category_id = rule.set_category_id;
+      }
+      if (rule.set_description && outcome.description === undefined) {
+        outcome.description = rule.set_description;
+      }
+      for (const tag of rule.add_tags) {
+        if (!existingTags.has(tag) && !outcome.tags.includes(tag)) {
+          outcome.tags.push(tag);
+        }
+      }
+    }
+
+    return outcome;
+  }
+
+  // Apply the user's active rules to transactions about to be created
+  static async applyToNew<
+    T extends {
+      description: string;
+      amount: number;
+      type: "income" | "expense";
+      category_id?: string;
+      splits?: unknown[];
+      tags?: string[];
+    }
+  >(userId: string, items: T[]): Promise<(T & { tags?: string[] })[]> {
+    const rules = (await this.findByUserId(userId)).filter(
+      (rule) => rule.is_active
+    );
+    if (rules.length === 0) {
+      return items;
+    }
+
+    return items.map((item) => {
+      const outcome = this.evaluate(rules, {
+        ...item,
+        has_splits: !!item.splits?.length,
+      });
+      if (outcome.rule_ids.length === 0) {
+        return item;
+      }
+
+      return {
+        ...item,
+        category_id: outcome.category_id ?? item.category_id,
+        description: outcome.description ?? item.description,
+        tags: [...(item.tags || []), ...outcome.tags],
+      };
+    });
+  }
+
+  // Work out what re-running the rules would change on past transactions,
+  // without writing anything
+  static async previewRerun(
+    userId: string,
+    options: RerunOptions = {}
+  ): Promise<RuleChange[]> {
+    const rules = (await this.findByUserId(userId)).filter(
+      (rule) => rule.is_active
+    );
+    if (rules.length === 0) {
+      return [];
+    }
+
+    const startDate = options.startDate ?? null;
+    const endDate = options.endDate ?? null;
+    const candidates = (await sql`
+      SELECT t.id, t.date, t.amount, t.type, t.description, t.category_id,
+        c.name as category_name,
+        EXISTS (
+          SELECT 1 FROM transaction_splits s WHERE s.transaction_id = t.id
+        ) as has_splits,
+        COALESCE((
+          SELECT json_agg(tg.name) FROM transaction_tags tt
+          JOIN tags tg ON tg.id = tt.tag_id
+          WHERE tt.transaction_id = t.id
+        ), '[]'::json) as tags
+      FROM transactions t
+      LEFT JOIN categories c ON t.category_id = c.id
+      WHERE t.user_id = ${userId}
+        AND t.type != 'transfer'
+        AND (${startDate}::date IS NULL OR t.date >= ${startDate})
+        AND (${endDate}::date IS NULL OR t.date <= ${endDate})
+      ORDER BY t.date DESC, t.created_at DESC
+    `) as RerunCandidateRow[];
+
+    const categoryNames = new Map(
+      rules.map((rule) => [rule.set_category_id, rule.category_name ?? null])
+    );
+    const changes: RuleChange[] = [];
+
+    for (const row of candidates) {
+      const amount = parseFloat(row.amount);
+      const outcome = this.evaluate(
+        rules,
+        { ...row, amount },
+        options.overwriteCategories
+      );
+
+      const newCategoryId =
+        outcome.category_id && outcome.category_id !== row.category_id
+          ? outcome.category_id
+          : null;
+      const newDescription =
+        outcome.description && outcome.description !== row.description
+          ? outcome.description
+          : null;
+
+      if (!newCategoryId && !newDescription && outcome.tags.length === 0) {
+        continue;
+      }
+
+      changes.push({
+        transaction_id: row.id,
+        date: row.date,
+        amount,
+        type: row.type,
+        description: row.description,
+        category_id: row.category_id,
+        category_name: row.category_name,
+        new_description: newDescription,
+        new_category_id: newCategoryId,
+        new_category_name: newCategoryId
+          ? categoryNames.get(newCategoryId) ?? null
+          : null,
+        add_tags: outcome.tags,
+        rule_ids: outcome.rule_ids,
+      });
+    }
+
+    return changes;
+  }
+
+  // Re-run the rules on past transactions and apply the changes atomically.
+  // Returns the changes that were applied.
+  static async rerun(
+    userId: string,
+    options: RerunOptions = {}
+  ): Promise<RuleChange[]> {
+    const changes = await this.previewRerun(userId, options);
+    if (changes.length === 0) {
+      return changes;
+    }
+
+    const updates = changes
+      .filter((change) => change.new_category_id || change.new_description)
+      .map((change) => ({
+        id: change.transaction_id,
+        category_id: change.new_category_id,
+        description: change.new_description,
+      }));
+
+    await sql.begin(async (tx) => {
+      if (updates.length > 0) {
+        await tx`
+          UPDATE transactions t
+          SET
+            category_id = COALESCE(u.category_id, t.category_id),
+            description = COALESCE(u.description, t.description),
+            updated_at = NOW()
+          FROM json_to_recordset(${JSON.stringify(updates)}::json)
+            AS u(id uuid, category_id uuid, description text)
+          WHERE t.id = u.id AND t.user_id = ${userId}
+        `;
+      }
+
+      await TransactionService.linkTags(
+        tx,
+        userId,
+        changes.flatMap((change) =>
+          change.add_tags.map((name) => ({
+            transaction_id: change.transaction_id,
+            name,
+          }))
+        )
+      );
+    });
+
+    return changes;
+  }
+}
@@ -0,0 +1,194 @@
+import { TransactionType } from "./transactionService";
+
+// ===== TYPE DEFINITIONS =====
+
+// What a search box query such as
+//   amount>50 category:Groceries "coffee beans" -refund before:2026-01-01
+// asks for. Every field is optional and they all have to hold.
+export interface SearchCriteria {
+  // Postgres tsquery over description and notes, built only from letters
+  // and digits so user input can never change its structure
+  textQuery?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  type?: TransactionType;
+  categoryName?: string; // case-insensitive exact name
+  accountName?: string;
+  tagName?: string;
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface ParsedSearch {
+  criteria: SearchCriteria;
+  errors: string[]; // one per term that couldn't be understood
+}
+
+// One whitespace-separated term: an optional "-" to exclude it, an optional
+// field and operator, then a bare word or a quoted phrase
+const TERM_PATTERN = /(-)?(?:([a-z]+)(>=|<=|:|>|<|=))?(?:"([^"]*)"?|(\S+))/gi;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+type FieldHandler = (
+  criteria: SearchCriteria,
+  operator: string,
+  value: string
+) => string | null;
+
+const parseDate = (value: string): string | null => {
+  if (!DATE_PATTERN.test(value)) {
+    return null;
+  }
+  // Rejects dates like 2026-02-30 that Date would roll over
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value)
+    ? value
+    : null;
+};
+
+// Shift a YYYY-MM-DD date by whole days
+const addDays = (value: string, days: number): string => {
+  const date = new Date(`${value}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+};
+
+const equalityOnly =
+  (key: "categoryName" | "accountName" | "tagName"): FieldHandler =>
+  (criteria, operator, value) => {
+    if (operator !== ":" && operator !== "=") {
+      return "use a colon, e.g. category:Groceries";
+    }
+    if (!value.trim()) {
+      return "a name is required";
+    }
+    criteria[key] = value.trim();
+    return null;
+  };
+
+const dateBound =
+  (bound: "before" | "after" | "on"): FieldHandler =>
+  (criteria, operator, value) => {
+    if (operator !== ":" && operator !== "=") {
+      return "use a colon, e.g. before:2026-01-01";
+    }
+    const date = parseDate(value);
+    if (!date) {
+      return "dates must be in YYYY-MM-DD format";
+    }
+    if (bound !== "after") {
+      criteria.endDate = bound === "before" ? addDays(date, -1) : date;
+    }
+    if (bound !== "before") {
+      criteria.startDate = bound === "after" ? addDays(date, 1) : date;
+    }
+    return null;
+  };
+
+const FIELD_HANDLERS = new Map<string, FieldHandler>([
+  // Amounts are stored with two decimals, so "> 50" is ">= 50.01"
+  [
+    "amount",
+    (criteria, operator, value) => {
+      const amount = Number(value);
+      if (!value || isNaN(amount) || amount < 0) {
+        return "amount must be a positive number";
+      }
+      const cents = Math.round(amount * 100);
+      switch (operator) {
+        case ">":
+          criteria.minAmount = (cents + 1) / 100;
+          break;
+        case ">=":
+          criteria.minAmount = cents / 100;
+          break;
+        case "<":
+          criteria.maxAmount = (cents - 1) / 100;
+          break;
+        case "<=":
+          criteria.maxAmount = cents / 100;
+          break;
+        default:
+          criteria.minAmount = cents / 100;
+          criteria.maxAmount = cents / 100;
+      }
+      return null;
+    },
+  ],
+  [
+    "type",
+    (criteria, operator, value) => {
+      if (operator !== ":" && operator !== "=") {
+        return "use a colon, e.g. type:expense";
+      }
+      const type = value.toLowerCase();
+      if (type !== "income" && type !== "expense" && type !== "transfer") {
+        return "type must be income, expense or transfer";
+      }
+      criteria.type = type;
+      return null;
+    },
+  ],
+  ["category", equalityOnly("categoryName")],
+  ["account", equalityOnly("accountName")],
+  ["tag", equalityOnly("tagName")],
+  ["before", dateBound("before")],
+  ["after", dateBound("after")],
+  ["on", dateBound("on")],
+]);
+
+// ===== SERVICE CLASS =====
+
+export class SearchService {
+  static parse(query: string): ParsedSearch {
+    const criteria: SearchCriteria = {};
+    const errors: string[] = [];
+    const textParts: string[] = [];
+
+    for (const match of query.matchAll(TERM_PATTERN)) {
+      const [raw, negated, rawField, operator, phrase, word] = match;
+      const field = rawField?.toLowerCase();
+      const value = phrase ?? word ?? "";
+      const handler = field ? FIELD_HANDLERS.get(field) : undefined;
+
+      if (!handler) {
+        // Plain text, or something like "re:invoice" that only looks like a
+        // field; search for the words in it
+        const part = this.toTsQuery(
+          field ? raw.replace(/^-/, "") : value,
+          phrase === undefined
+        );
+        if (part) {
+          textParts.push(negated ? `!(${part})` : part);
+        }
+        continue;
+      }
+
+      if (negated) {
+        errors.push(`"${raw}": only words and phrases can be excluded`);
+        continue;
+      }
+      const error = handler(criteria, operator, value);
+      if (error) {
+        errors.push(`"${raw}": ${error}`);
+      }
+    }
+
+    if (textParts.length > 0) {
+      criteria.textQuery = textParts.join(" & ");
+    }
+
+    return { criteria, errors };
+  }
+
+  // Words become prefix matches ("coff" finds "coffee"); a quoted phrase
+  // has to appear as written
+  private static toTsQuery(text: string, prefix: boolean): string | null {
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+    if (!tokens) {
+      return null;
+    }
+    return tokens.map((token) => (prefix ? `${token}:*` : token)).join(" <-> ");
+  }
+}
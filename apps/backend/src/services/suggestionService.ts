@@ -0,0 +1,146 @@
+import { sql } from "../db/connection";
+import { env } from "../config/env";
+
+// ===== TYPE DEFINITIONS =====
+
+export interface CategorySuggestion {
+  category_id: string;
+  category_name: string;
+  category_color: string;
+  confidence: number; // 0-1, suggestions for one description sum to at most 1
+}
+
+export interface SuggestOptions {
+  type?: "income" | "expense";
+  limit?: number;
+}
+
+interface TrainingRow {
+  description: string;
+  category_id: string;
+  category_name: string;
+  category_color: string;
+}
+
+// Token counts for one category, learned from its past transactions
+interface CategoryModel {
+  category_id: string;
+  category_name: string;
+  category_color: string;
+  documents: number;
+  tokenTotal: number;
+  tokens: Map<string, number>;
+}
+
+// ===== SERVICE CLASS =====
+
+export class SuggestionService {
+  // Lowercased words and numbers; bare numbers (amounts, dates, card
+  // digits) say little about the category so they're dropped
+  static tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((token) => token.length >= 2 && !/^\d+$/.test(token));
+  }
+
+  // Rank the user's categories for a description with a naive Bayes
+  // classifier trained on their own categorized transactions
+  static async suggestCategories(
+    userId: string,
+    description: string,
+    options: SuggestOptions = {}
+  ): Promise<CategorySuggestion[]> {
+    const queryTokens = [...new Set(this.tokenize(description))];
+    if (queryTokens.length === 0) return [];
+
+    const models = await this.train(userId, options.type);
+    if (models.length === 0) return [];
+
+    const vocabulary = new Set<string>();
+    for (const model of models) {
+      for (const token of model.tokens.keys()) vocabulary.add(token);
+    }
+
+    // Words never seen before carry no evidence either way, and with none
+    // left the prior alone would just suggest the most used category
+    const known = queryTokens.filter((token) => vocabulary.has(token));
+    if (known.length === 0) return [];
+
+    const totalDocuments = models.reduce((sum, m) => sum + m.documents, 0);
+    const scores = models.map((model) => {
+      // Laplace smoothing keeps unseen (category, word) pairs possible
+      let score = Math.log(
+        (model.documents + 1) / (totalDocuments + models.length)
+      );
+      for (const token of known) {
+        score += Math.log(
+          ((model.tokens.get(token) ?? 0) + 1) /
+            (model.tokenTotal + vocabulary.size)
+        );
+      }
+      return score;
+    });
+
+    // Softmax turns log-likelihoods into confidences
+    const best = Math.max(...scores);
+    const weights = scores.map((score) => Math.exp(score - best));
+    const weightTotal = weights.reduce((sum, weight) => sum + weight, 0);
+
+    return models
+      .map((model, index) => ({
+        category_id: model.category_id,
+        category_name: model.category_name,
+        category_color: model.category_color,
+        confidence: Math.round((weights[index] / weightTotal) * 1000) / 1000,
+      }))
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, options.limit ?? 3);
+  }
+
+  // Count words per category over the user's most recent categorized
+  // transactions; split lines count toward each split's category
+  private static async train(
+    userId: string,
+    type?: "income" | "expense"
+  ): Promise<CategoryModel[]> {
+    const rows = (await sql`
+      SELECT t.description, l.category_id,
+        c.name as category_name, c.color as category_color
+      FROM transaction_lines l
+      JOIN transactions t ON t.id = l.transaction_id
+      JOIN categories c ON c.id = l.category_id
+      WHERE l.user_id = ${userId}
+        AND l.type != 'transfer'
+        AND (${type ?? null}::varchar IS NULL OR l.type = ${type ?? null})
+      ORDER BY l.date DESC, l.created_at DESC
+      LIMIT ${env.SUGGESTION_TRAINING_LIMIT}
+    `) as TrainingRow[];
+
+    const models = new Map<string, CategoryModel>();
+    for (const row of rows) {
+      let model = models.get(row.category_id);
+      if (!model) {
+        model = {
+          category_id: row.category_id,
+          category_name: row.category_name,
+          category_color: row.category_color,
+          documents: 0,
+          tokenTotal: 0,
+          tokens: new Map(),
+        };
+        models.set(row.category_id, model);
+      }
+
+      model.documents++;
+      // Count each word once per transaction so "coffee coffee" isn't
+      // twice the evidence
+      for (const token of new Set(this.tokenize(row.description))) {
+        model.tokens.set(token, (model.tokens.get(token) ?? 0) + 1);
+        model.tokenTotal++;
+      }
+    }
+
+    return [...models.values()];
+  }
+}
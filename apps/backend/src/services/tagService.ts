@@ -0,0 +1,210 @@
+import { sql } from "../db/connection";
+
+// ===== TYPE DEFINITIONS =====
+
+// Free-form labels that cut across categories, e.g. a trip or a project
+export interface Tag {
+  id: string;
+  user_id: string;
+  name: string;
+  color: string | null;
+  created_at: Date;
+  // Calculated fields
+  transaction_count?: number;
+}
+
+export interface CreateTagData {
+  user_id: string;
+  name: string;
+  color?: string;
+}
+
+export interface UpdateTagData {
+  name?: string;
+  color?: string | null;
+}
+
+export interface TagSpendingFilters {
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+}
+
+// Totals of everything carrying a tag, whatever its category, in the user's
+// base currency
+export interface TagSpending {
+  tagId: string;
+  tagName: string;
+  tagColor: string | null;
+  expenses: number;
+  income: number;
+  transactionCount: number;
+}
+
+// Internal interface for database row mapping
+interface TagSpendingRow {
+  tag_id: string;
+  tag_name: string;
+  tag_color: string | null;
+  expenses: string;
+  income: string;
+  transaction_count: string;
+}
+
+// Numeric columns come back from Postgres as strings
+const normalizeTag = (row: any): Tag => ({
+  ...row,
+  ...(row.transaction_count !== undefined && {
+    transaction_count: parseInt(String(row.transaction_count || "0")),
+  }),
+});
+
+// ===== SERVICE CLASS =====
+
+export class TagService {
+  // Create a new tag
+  static async create(tagData: CreateTagData): Promise<Tag> {
+    const { user_id, name, color } = tagData;
+
+    const result = await sql`
+      INSERT INTO tags (user_id, name, color)
+      VALUES (${user_id}, ${name}, ${color || null})
+      RETURNING *
+    `;
+
+    return normalizeTag({ ...result[0], transaction_count: 0 });
+  }
+
+  // Get all tags for a user with how many transactions carry each
+  static async findByUserId(userId: string): Promise<Tag[]> {
+    const result = await sql`
+      SELECT tg.*, COUNT(tt.transaction_id) as transaction_count
+      FROM tags tg
+      LEFT JOIN transaction_tags tt ON tt.tag_id = tg.id
+      WHERE tg.user_id = ${userId}
+      GROUP BY tg.id
+      ORDER BY tg.name
+    `;
+
+    return result.map(normalizeTag);
+  }
+
+  // Find tag by ID
+  static async findById(id: string, userId: string): Promise<Tag | null> {
+    const result = await sql`
+      SELECT tg.*, COUNT(tt.transaction_id) as transaction_count
+      FROM tags tg
+      LEFT JOIN transaction_tags tt ON tt.tag_id = tg.id
+      WHERE tg.id = ${id} AND tg.user_id = ${userId}
+      GROUP BY tg.id
+    `;
+
+    return result.length > 0 ? normalizeTag(result[0]) : null;
+  }
+
+  // Update tag; renaming it renames it on every tagged transaction
+  static async update(
+    id: string,
+    userId: string,
+    updateData: UpdateTagData
+  ): Promise<Tag | null> {
+    const { name, color } = updateData;
+
+    // Build update query based on provided fields
+    const updateFields: string[] = [];
+    const values: any[] = [];
+
+    if (name !== undefined) {
+      updateFields.push("name = $" + (values.length + 1));
+      values.push(name);
+    }
+
+    if (color !== undefined) {
+      updateFields.push("color = $" + (values.length + 1));
+      values.push(color);
+    }
+
+    if (updateFields.length === 0) {
+      return null; // No fields to update
+    }
+
+    values.push(id, userId);
+    const result = await sql.unsafe(
+      `
+      UPDATE tags
+      SET ${updateFields.join(", ")}
+      WHERE id = $${values.length - 1} AND user_id = $${values.length}
+      RETURNING id
+    `,
+      values
+    );
+
+    return result.length > 0 ? this.findById(id, userId) : null;
+  }
+
+  // Delete tag; the transactions themselves are kept
+  static async delete(id: string, userId: string): Promise<boolean> {
+    const result = await sql`
+      DELETE FROM tags
+      WHERE id = ${id} AND user_id = ${userId}
+      RETURNING id
+    `;
+
+    return result.length > 0;
+  }
+
+  // Check if tag name exists for user
+  static async existsByName(
+    name: string,
+    userId: string,
+    excludeId?: string
+  ): Promise<boolean> {
+    const result = await sql`
+      SELECT COUNT(*) as count
+      FROM tags
+      WHERE name = ${name} AND user_id = ${userId}
+        AND (${excludeId ?? null}::uuid IS NULL OR id != ${excludeId ?? null})
+    `;
+
+    return parseInt((result[0] as any).count) > 0;
+  }
+
+  // Income and expense totals per tag. Tags sit on whole transactions, so a
+  // split transaction counts once at its full amount; transfers are left out.
+  static async getSpending(
+    userId: string,
+    filters: TagSpendingFilters = {}
+  ): Promise<TagSpending[]> {
+    const startDate = filters.startDate ?? null;
+    const endDate = filters.endDate ?? null;
+
+    const result = await sql`
+      SELECT
+        tg.id as tag_id,
+        tg.name as tag_name,
+        tg.color as tag_color,
+        COALESCE(SUM(CASE WHEN t.type = 'expense'
+          THEN to_base_currency(t.user_id, t.amount, t.currency, t.date) END), 0) as expenses,
+        COALESCE(SUM(CASE WHEN t.type = 'income'
+          THEN to_base_currency(t.user_id, t.amount, t.currency, t.date) END), 0) as income,
+        COUNT(t.id) as transaction_count
+      FROM tags tg
+      LEFT JOIN transaction_tags tt ON tt.tag_id = tg.id
+      LEFT JOIN transactions t ON t.id = tt.transaction_id
+        AND t.type != 'transfer'
+        AND (${startDate}::date IS NULL OR t.date >= ${startDate})
+        AND (${endDate}::date IS NULL OR t.date <= ${endDate})
+      WHERE tg.user_id = ${userId}
+      GROUP BY tg.id, tg.name, tg.color
+      ORDER BY expenses DESC, tg.name
+    `;
+
+    return (result as TagSpendingRow[]).map((row) => ({
+      tagId: row.tag_id,
+      tagName: row.tag_name,
+      tagColor: row.tag_color,
+      expenses: parseFloat(row.expenses),
+      income: parseFloat(row.income),
+      transactionCount: parseInt(row.transaction_count),
+    }));
+  }
+}
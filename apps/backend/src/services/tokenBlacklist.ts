@@ -79,8 +79,3 @@ export class TokenBlacklist {
     `;
   }
 }
-
-// Auto-cleanup every hour
-setInterval(() => {
-  TokenBlacklist.cleanupExpired().catch(console.error);
-}, 3600000);
@@ -136,8 +136,7 @@ export class TokenService {
       WHERE expires_at IS NOT NULL AND expires_at < NOW()
     `;
 
-    // Note: Bun's SQL may not return rowCount directly, so we'll return 0 for now
-    return 0;
+    return result.count;
   }
 
   // Get active session count for a user
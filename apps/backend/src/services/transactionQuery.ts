@@ -0,0 +1,273 @@
+import { TransactionType } from "./transactionService";
+
+// ===== TYPE DEFINITIONS =====
+
+export type TransactionSortField = "date" | "amount" | "description";
+export type SortOrder = "asc" | "desc";
+
+// Position after the last row of a page: the sort value, created_at and id
+// of that row as Postgres prints them, so nothing is lost to JS rounding
+export interface TransactionCursor {
+  sort: TransactionSortField;
+  order: SortOrder;
+  values: [string, string, string];
+}
+
+export interface TransactionQueryFilters {
+  type?: TransactionType;
+  categoryId?: string; // matches split lines too
+  accountId?: string;
+  tagId?: string;
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+  textQuery?: string; // tsquery over description and notes
+  minAmount?: number;
+  maxAmount?: number;
+  categoryName?: string; // case-insensitive, matches split lines too
+  accountName?: string;
+  tagName?: string;
+}
+
+// Column to order by and the Postgres type its cursor value is cast back to.
+// created_at and id break ties so every row has a unique position.
+const SORT_COLUMNS: Record<
+  TransactionSortField,
+  { expression: string; type: string }
+> = {
+  date: { expression: "t.date", type: "date" },
+  amount: { expression: "t.amount", type: "numeric" },
+  description: { expression: "LOWER(t.description)", type: "text" },
+};
+
+const SELECT_COLUMNS = `
+  t.*, c.name as category_name, c.color as category_color,
+  a.name as account_name, ta.name as transfer_account_name,
+  to_base_currency(t.user_id, t.amount, t.currency, t.date) as base_amount`;
+
+const JOINS = `
+  LEFT JOIN categories c ON t.category_id = c.id
+  LEFT JOIN accounts a ON t.account_id = a.id
+  LEFT JOIN transactions tp ON tp.transfer_id = t.transfer_id AND tp.id != t.id
+  LEFT JOIN accounts ta ON tp.account_id = ta.id`;
+
+// ===== BUILDER CLASS =====
+
+// Collects the WHERE conditions for a user's transactions one filter at a
+// time, each with its own numbered parameters, so any mix of filters can be
+// combined into a single statement
+export class TransactionQueryBuilder {
+  private conditions: string[] = [];
+  private values: any[] = [];
+
+  constructor(userId: string) {
+    this.conditions.push(`t.user_id = ${this.param(userId)}`);
+  }
+
+  // Add a value to the parameter list and return its placeholder
+  private param(value: unknown): string {
+    this.values.push(value);
+    return "$" + this.values.length;
+  }
+
+  // Add a condition built from its parameter placeholders
+  where(build: (param: (value: unknown) => string) => string): this {
+    this.conditions.push(build((value) => this.param(value)));
+    return this;
+  }
+
+  // Add a condition for every filter that is set
+  applyFilters(filters: TransactionQueryFilters): this {
+    const {
+      type,
+      categoryId,
+      accountId,
+      tagId,
+      startDate,
+      endDate,
+      textQuery,
+      minAmount,
+      maxAmount,
+      categoryName,
+      accountName,
+      tagName,
+    } = filters;
+
+    if (type !== undefined) {
+      this.where((p) => `t.type = ${p(type)}`);
+    }
+    if (categoryId !== undefined) {
+      this.where((p) => {
+        const id = p(categoryId);
+        return `(t.category_id = ${id} OR EXISTS (
+          SELECT 1 FROM transaction_splits s
+          WHERE s.transaction_id = t.id AND s.category_id = ${id}
+        ))`;
+      });
+    }
+    if (accountId !== undefined) {
+      this.where((p) => `t.account_id = ${p(accountId)}`);
+    }
+    if (tagId !== undefined) {
+      this.where(
+        (p) => `EXISTS (
+          SELECT 1 FROM transaction_tags tt
+          WHERE tt.transaction_id = t.id AND tt.tag_id = ${p(tagId)}
+        )`
+      );
+    }
+    if (startDate !== undefined) {
+      this.where((p) => `t.date >= ${p(startDate)}::date`);
+    }
+    if (endDate !== undefined) {
+      this.where((p) => `t.date <= ${p(endDate)}::date`);
+    }
+    if (textQuery !== undefined) {
+      // Repeats the expression of idx_transactions_search so the full-text
+      // index is used
+      this.where(
+        (
+          p
+        ) => `to_tsvector('simple', t.description || ' ' || COALESCE(t.notes, ''))
+          @@ to_tsquery('simple', ${p(textQuery)})`
+      );
+    }
+    if (minAmount !== undefined) {
+      this.where((p) => `t.amount >= ${p(minAmount)}`);
+    }
+    if (maxAmount !== undefined) {
+      this.where((p) => `t.amount <= ${p(maxAmount)}`);
+    }
+    if (categoryName !== undefined) {
+      this.where(
+        (p) => `EXISTS (
+          SELECT 1 FROM categories cn
+          WHERE cn.user_id = t.user_id AND LOWER(cn.name) = LOWER(${p(
+            categoryName
+          )})
+            AND (cn.id = t.category_id OR EXISTS (
+              SELECT 1 FROM transaction_splits s
+              WHERE s.transaction_id = t.id AND s.category_id = cn.id
+            ))
+        )`
+      );
+    }
+    if (accountName !== undefined) {
+      this.where(
+        (p) => `EXISTS (
+          SELECT 1 FROM accounts an
+          WHERE an.id = t.account_id AND LOWER(an.name) = LOWER(${p(
+            accountName
+          )})
+        )`
+      );
+    }
+    if (tagName !== undefined) {
+      this.where(
+        (p) => `EXISTS (
+          SELECT 1 FROM transaction_tags tt
+          JOIN tags tg ON tg.id = tt.tag_id
+          WHERE tt.transaction_id = t.id AND LOWER(tg.name) = LOWER(${p(
+            tagName
+          )})
+        )`
+      );
+    }
+
+    return this;
+  }
+
+  // The WHERE conditions and their parameters, for queries that select their
+  // own columns; further parameters are numbered after these values
+  buildWhere(): { where: string; values: any[] } {
+    return {
+      where: this.conditions.join("\n          AND "),
+      values: [...this.values],
+    };
+  }
+
+  // Count every matching transaction, ignoring sorting and paging
+  buildCount(): { query: string; values: any[] } {
+    return {
+      query: `
+        SELECT COUNT(*) as total FROM transactions t
+        WHERE ${this.conditions.join("\n          AND ")}
+      `,
+      values: [...this.values],
+    };
+  }
+
+  // Select one page in the given order. Rows carry cursor_value and
+  // cursor_created_at, the text forms needed to build the next cursor.
+  buildSelect(options: {
+    sort: TransactionSortField;
+    order: SortOrder;
+    limit: number;
+    offset?: number;
+    cursor?: TransactionCursor;
+  }): { query: string; values: any[] } {
+    const { sort, order, limit, offset = 0, cursor } = options;
+    const { expression, type } = SORT_COLUMNS[sort];
+    const direction = order === "asc" ? "ASC" : "DESC";
+    const conditions = [...this.conditions];
+    const values = [...this.values];
+    const param = (value: unknown) => {
+      values.push(value);
+      return "$" + values.length;
+    };
+
+    // Keyset pagination: continue strictly after the cursor row, which
+    // stays fast however deep into the history the page is
+    if (cursor) {
+      const [sortValue, createdAt, id] = cursor.values;
+      conditions.push(
+        `(${expression}, t.created_at, t.id) ${
+          order === "asc" ? ">" : "<"
+        } (${param(sortValue)}::${type}, ${param(
+          createdAt
+        )}::timestamp, ${param(id)}::uuid)`
+      );
+    }
+
+    return {
+      query: `
+        SELECT ${SELECT_COLUMNS},
+          (${expression})::text as cursor_value,
+          t.created_at::text as cursor_created_at
+        FROM transactions t
+        ${JOINS}
+        WHERE ${conditions.join("\n          AND ")}
+        ORDER BY ${expression} ${direction}, t.created_at ${direction}, t.id ${direction}
+        LIMIT ${param(limit)} OFFSET ${param(cursor ? 0 : offset)}
+      `,
+      values,
+    };
+  }
+
+  // Cursors are opaque to clients: base64url JSON of the cursor fields
+  static encodeCursor(cursor: TransactionCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+  }
+
+  // Returns null for a cursor that is malformed or was issued for a
+  // different sort, so it can't be used to page the wrong way
+  static decodeCursor(
+    encoded: string,
+    sort: TransactionSortField,
+    order: SortOrder
+  ): TransactionCursor | null {
+    try {
+      const cursor = JSON.parse(
+        Buffer.from(encoded, "base64url").toString("utf8")
+      );
+      const valid =
+        cursor?.sort === sort &&
+        cursor?.order === order &&
+        Array.isArray(cursor.values) &&
+        cursor.values.length === 3 &&
+        cursor.values.every((value: unknown) => typeof value === "string");
+      return valid ? cursor : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -1,48 +1,138 @@
+import crypto from "crypto";
 import { sql } from "../db/connection";
 import { env } from "../config/env";
+import { BudgetAlertService } from "./budgetAlertService";
+import { NotificationEventService } from "./notificationEventService";
+import { BillService } from "./billService";
+import {
+  TransactionQueryBuilder,
+  TransactionQueryFilters,
+  TransactionCursor,
+  TransactionSortField,
+  SortOrder,
+} from "./transactionQuery";
 
 // ===== TYPE DEFINITIONS =====
 
+// Transfers move money between two accounts and are neither income nor
+// expense: each one is stored as an "out" leg and an "in" leg
+export type TransactionType = "income" | "expense" | "transfer";
+
 export interface Transaction {
   id: string;
   user_id: string;
   category_id: string | null;
+  account_id: string | null;
   amount: number;
+  currency: string; // ISO 4217 code the amount is in
   description: string;
-  type: "income" | "expense";
+  notes: string | null; // free text, searched along with the description
+  type: TransactionType;
   date: Date;
+  external_id: string | null; // bank-provided ID for imported rows
+  transfer_id: string | null; // shared by both legs of a transfer
+  transfer_direction: "in" | "out" | null;
   created_at: Date;
   updated_at: Date;
+  // Joined fields from category and account
+  category_name?: string;
+  category_color?: string;
+  account_name?: string;
+  transfer_account_name?: string; // account on the other leg of a transfer
+  base_amount?: number; // amount in the user's base currency at the date's rate
+  splits?: TransactionSplit[]; // empty unless split across categories
+  tags?: TransactionTag[];
+}
+
+export interface TransactionTag {
+  id: string;
+  name: string;
+  color: string | null;
+}
+
+// A tag to attach by name; the tag is created if the user has none by that name
+export interface TagLink {
+  transaction_id: string;
+  name: string;
+}
+
+export interface TransactionSplit {
+  id: string;
+  transaction_id: string;
+  category_id: string | null;
+  amount: number;
+  memo: string | null;
+  created_at: Date;
   // Joined fields from category
   category_name?: string;
   category_color?: string;
 }
 
+export interface SplitData {
+  category_id?: string | null;
+  amount: number;
+  memo?: string;
+}
+
 export interface CreateTransactionData {
   user_id: string;
   category_id?: string;
+  account_id?: string;
   amount: number;
+  currency?: string; // defaults to the account's, else the base currency
   description: string;
+  notes?: string;
   type: "income" | "expense";
   date?: string; // Accept date as string in YYYY-MM-DD format
+  external_id?: string; // e.g. OFX FITID, used to skip already-imported rows
+  splits?: SplitData[]; // must add up to amount
+  tags?: string[]; // tag names, created when missing
 }
 
 export interface UpdateTransactionData {
   category_id?: string;
+  account_id?: string | null; // null removes the transaction from its account
   amount?: number;
+  currency?: string;
   description?: string;
+  notes?: string | null; // null clears the notes
   type?: "income" | "expense";
   date?: string; // Accept date as string in YYYY-MM-DD format
+  splits?: SplitData[]; // replaces existing splits; an empty array unsplits
+  tags?: string[]; // replaces existing tags by name; an empty array clears
 }
 
-export interface TransactionFilters {
+export interface CreateTransferData {
+  user_id: string;
+  from_account_id: string;
+  to_account_id: string;
+  amount: number;
+  description: string;
+  date?: string; // YYYY-MM-DD
+}
+
+export interface UpdateTransferData {
+  from_account_id?: string;
+  to_account_id?: string;
+  amount?: number;
+  description?: string;
+  date?: string; // YYYY-MM-DD
+}
+
+export interface Transfer {
+  id: string; // the shared transfer_id
+  from: Transaction; // the "out" leg
+  to: Transaction; // the "in" leg
+}
+
+// Any mix of the filters may be given (see TransactionQueryBuilder)
+export interface TransactionFilters extends TransactionQueryFilters {
   userId: string;
-  type?: "income" | "expense";
-  categoryId?: string;
-  startDate?: string; // Accept date as string in YYYY-MM-DD format
-  endDate?: string; // Accept date as string in YYYY-MM-DD format
+  sort?: TransactionSortField; // defaults to date
+  order?: SortOrder; // defaults to desc, newest first
   limit?: number;
-  offset?: number;
+  offset?: number; // ignored when a cursor is given
+  cursor?: TransactionCursor;
 }
 
 export interface MonthlySummary {
@@ -59,7 +149,12 @@ export interface CategorySpending {
   transactionCount: number;
 }
 
-// Internal interface for database row mapping
+// Internal interfaces for database row mapping
+type TransactionPageRow = Transaction & {
+  cursor_value: string;
+  cursor_created_at: string;
+};
+
 interface CategorySpendingRow {
   category_id: string | null;
   category_name: string;
@@ -74,153 +169,357 @@ export class TransactionService {
   static async create(
     transactionData: CreateTransactionData
   ): Promise<Transaction> {
-    const { user_id, category_id, amount, description, type, date } =
-      transactionData;
+    const {
+      user_id,
+      category_id,
+      account_id,
+      amount,
+      currency,
+      description,
+      notes,
+      type,
+      date,
+      splits = [],
+      tags = [],
+    } = transactionData;
     // Use the provided date string or current date in YYYY-MM-DD format
     const transactionDate = date || new Date().toISOString().split("T")[0];
+    // Split transactions take their categories from the split lines
+    const categoryId = splits.length > 0 ? null : category_id || null;
+
+    const created = await sql.begin(async (tx) => {
+      const result = await tx`
+        INSERT INTO transactions (user_id, category_id, account_id, amount, currency, description, notes, type, date)
+        VALUES (${user_id}, ${categoryId}, ${account_id || null}, ${amount}, ${
+        currency || null
+      }, ${description}, ${notes || null}, ${type}, ${transactionDate})
+        RETURNING *
+      `;
+      const transaction = result[0] as Transaction;
+      transaction.splits = await this.insertSplits(tx, transaction.id, splits);
+      transaction.tags = await this.linkTags(
+        tx,
+        user_id,
+        tags.map((name) => ({ transaction_id: transaction.id, name }))
+      );
+
+      return transaction;
+    });
+
+    BudgetAlertService.schedule(user_id);
+    NotificationEventService.largeTransactions(user_id, [created.id]).catch(
+      console.error
+    );
+    BillService.matchTransactions(user_id, [created.id]).catch(console.error);
+    return created;
+  }
 
-    const result = await sql`
-      INSERT INTO transactions (user_id, category_id, amount, description, type, date)
-      VALUES (${user_id}, ${
-      category_id || null
-    }, ${amount}, ${description}, ${type}, ${transactionDate})
-      RETURNING *
-    `;
-
-    return result[0] as Transaction;
+  // Compare in cents so float rounding cannot reject a valid split
+  static splitsMatchAmount(amount: number, splits: SplitData[]): boolean {
+    const total = splits.reduce(
+      (sum, split) => sum + Math.round(split.amount * 100),
+      0
+    );
+    return total === Math.round(amount * 100);
   }
 
-  // Find transaction by ID
-  static async findById(
-    id: string,
-    userId: string
-  ): Promise<Transaction | null> {
+  // Check that every split's category belongs to the user
+  static async splitCategoriesBelongToUser(
+    userId: string,
+    splits: SplitData[]
+  ): Promise<boolean> {
+    const ids = [
+      ...new Set(
+        splits
+          .map((split) => split.category_id)
+          .filter((id): id is string => !!id)
+      ),
+    ];
+    if (ids.length === 0) {
+      return true;
+    }
+
     const result = await sql`
-      SELECT t.*, c.name as category_name, c.color as category_color
-      FROM transactions t
-      LEFT JOIN categories c ON t.category_id = c.id
-      WHERE t.id = ${id} AND t.user_id = ${userId}
+      SELECT COUNT(*) as count
+      FROM categories
+      WHERE user_id = ${userId} AND id IN ${sql(ids)}
     `;
-    return result.length > 0 ? (result[0] as Transaction) : null;
+
+    return parseInt((result[0] as any).count) === ids.length;
   }
 
-  // Get transactions with filters
-  static async findMany(filters: TransactionFilters): Promise<{
-    transactions: Transaction[];
-    total: number;
-  }> {
-    const {
-      userId,
-      type,
-      categoryId,
-      startDate,
-      endDate,
-      limit = env.DEFAULT_PAGE_SIZE,
-      offset = 0,
-    } = filters;
+  // Write split lines for a transaction inside the caller's DB transaction
+  private static async insertSplits(
+    tx: typeof sql,
+    transactionId: string,
+    splits: SplitData[]
+  ): Promise<TransactionSplit[]> {
+    if (splits.length === 0) {
+      return [];
+    }
 
-    // Handle different filter combinations
-    if (type && categoryId && startDate && endDate) {
-      const result = await sql`
-        SELECT t.*, c.name as category_name, c.color as category_color
-        FROM transactions t
-        LEFT JOIN categories c ON t.category_id = c.id
-        WHERE t.user_id = ${userId} AND t.type = ${type} AND t.category_id = ${categoryId} AND t.date >= ${startDate} AND t.date <= ${endDate}
-        ORDER BY t.date DESC, t.created_at DESC
-        LIMIT ${limit} OFFSET ${offset}
-      `;
+    const rows = splits.map((split) => ({
+      transaction_id: transactionId,
+      category_id: split.category_id || null,
+      amount: split.amount,
+      memo: split.memo || null,
+    }));
 
-      const countResult = await sql`
-        SELECT COUNT(*) as total FROM transactions t
-        WHERE t.user_id = ${userId} AND t.type = ${type} AND t.category_id = ${categoryId} AND t.date >= ${startDate} AND t.date <= ${endDate}
-      `;
+    return (await tx`
+      INSERT INTO transaction_splits ${tx(rows)}
+      RETURNING *
+    `) as TransactionSplit[];
+  }
 
-      return {
-        transactions: result as Transaction[],
-        total: parseInt(countResult[0]?.total || "0"),
-      };
+  // Attach tags by name inside the caller's DB transaction, creating tags the
+  // user doesn't have yet. Returns the distinct tags involved, by name.
+  static async linkTags(
+    tx: typeof sql,
+    userId: string,
+    links: TagLink[]
+  ): Promise<TransactionTag[]> {
+    const names = Array.from(new Set(links.map((link) => link.name)));
+    if (names.length === 0) {
+      return [];
     }
 
-    if (type) {
-      const result = await sql`
-        SELECT t.*, c.name as category_name, c.color as category_color
-        FROM transactions t
-        LEFT JOIN categories c ON t.category_id = c.id
-        WHERE t.user_id = ${userId} AND t.type = ${type}
-        ORDER BY t.date DESC, t.created_at DESC
-        LIMIT ${limit} OFFSET ${offset}
-      `;
+    await tx`
+      INSERT INTO tags ${tx(names.map((name) => ({ user_id: userId, name })))}
+      ON CONFLICT (user_id, name) DO NOTHING
+    `;
+    await tx`
+      INSERT INTO transaction_tags (transaction_id, tag_id)
+      SELECT l.transaction_id, tg.id
+      FROM json_to_recordset(${JSON.stringify(links)}::json)
+        AS l(transaction_id uuid, name text)
+      JOIN tags tg ON tg.user_id = ${userId} AND tg.name = l.name
+      ON CONFLICT DO NOTHING
+    `;
 
-      const countResult = await sql`
-        SELECT COUNT(*) as total FROM transactions t
-        WHERE t.user_id = ${userId} AND t.type = ${type}
-      `;
+    return (await tx`
+      SELECT id, name, color FROM tags
+      WHERE user_id = ${userId} AND name IN ${tx(names)}
+      ORDER BY name
+    `) as TransactionTag[];
+  }
 
-      return {
-        transactions: result as Transaction[],
-        total: parseInt(countResult[0]?.total || "0"),
-      };
+  // Load the split lines and tags of the given transactions
+  private static async attachDetails(
+    transactions: Transaction[]
+  ): Promise<Transaction[]> {
+    if (transactions.length === 0) {
+      return transactions;
     }
 
-    if (categoryId) {
-      const result = await sql`
-        SELECT t.*, c.name as category_name, c.color as category_color
-        FROM transactions t
-        LEFT JOIN categories c ON t.category_id = c.id
-        WHERE t.user_id = ${userId} AND t.category_id = ${categoryId}
-        ORDER BY t.date DESC, t.created_at DESC
-        LIMIT ${limit} OFFSET ${offset}
-      `;
+    const ids = transactions.map((t) => t.id);
+    const [splitRows, tagRows] = await Promise.all([
+      sql`
+        SELECT s.*, c.name as category_name, c.color as category_color
+        FROM transaction_splits s
+        LEFT JOIN categories c ON s.category_id = c.id
+        WHERE s.transaction_id IN ${sql(ids)}
+        ORDER BY s.created_at, s.id
+      `,
+      sql`
+        SELECT tt.transaction_id, tg.id, tg.name, tg.color
+        FROM transaction_tags tt
+        JOIN tags tg ON tg.id = tt.tag_id
+        WHERE tt.transaction_id IN ${sql(ids)}
+        ORDER BY tg.name
+      `,
+    ]);
+
+    const splitsByTransaction = new Map<string, TransactionSplit[]>();
+    for (const split of splitRows as TransactionSplit[]) {
+      const splits = splitsByTransaction.get(split.transaction_id) || [];
+      splits.push(split);
+      splitsByTransaction.set(split.transaction_id, splits);
+    }
 
-      const countResult = await sql`
-        SELECT COUNT(*) as total FROM transactions t
-        WHERE t.user_id = ${userId} AND t.category_id = ${categoryId}
-      `;
+    const tagsByTransaction = new Map<string, TransactionTag[]>();
+    for (const { transaction_id, ...tag } of tagRows as (TransactionTag & {
+      transaction_id: string;
+    })[]) {
+      const tags = tagsByTransaction.get(transaction_id) || [];
+      tags.push(tag);
+      tagsByTransaction.set(transaction_id, tags);
+    }
+
+    return transactions.map((transaction) => ({
+      ...transaction,
+      splits: splitsByTransaction.get(transaction.id) || [],
+      tags: tagsByTransaction.get(transaction.id) || [],
+    }));
+  }
 
-      return {
-        transactions: result as Transaction[],
-        total: parseInt(countResult[0]?.total || "0"),
-      };
+  // Create many transactions in a single database transaction (all or nothing).
+  // Rows whose external_id already exists for the user are silently skipped,
+  // so only the newly inserted transactions are returned.
+  static async createMany(
+    transactionsData: CreateTransactionData[]
+  ): Promise<Transaction[]> {
+    if (transactionsData.length === 0) {
+      return [];
     }
 
-    if (startDate && endDate) {
-      const result = await sql`
-        SELECT t.*, c.name as category_name, c.color as category_color
-        FROM transactions t
-        LEFT JOIN categories c ON t.category_id = c.id
-        WHERE t.user_id = ${userId} AND t.date >= ${startDate} AND t.date <= ${endDate}
-        ORDER BY t.date DESC, t.created_at DESC
-        LIMIT ${limit} OFFSET ${offset}
-      `;
+    const today = new Date().toISOString().split("T")[0];
+    // IDs are generated here so tags can be linked to the rows that were
+    // actually inserted
+    const rows = transactionsData.map((data) => ({
+      id: crypto.randomUUID(),
+      user_id: data.user_id,
+      category_id: data.category_id || null,
+      account_id: data.account_id || null,
+      amount: data.amount,
+      currency: data.currency || null,
+      description: data.description,
+      notes: data.notes || null,
+      type: data.type,
+      date: data.date || today,
+      external_id: data.external_id || null,
+    }));
 
-      const countResult = await sql`
-        SELECT COUNT(*) as total FROM transactions t
-        WHERE t.user_id = ${userId} AND t.date >= ${startDate} AND t.date <= ${endDate}
-      `;
+    const inserted: Transaction[] = await sql.begin(async (tx) => {
+      const created: Transaction[] = [];
+
+      for (let i = 0; i < rows.length; i += env.IMPORT_BATCH_SIZE) {
+        const batch = rows.slice(i, i + env.IMPORT_BATCH_SIZE);
+        const result = await tx`
+          INSERT INTO transactions ${tx(batch)}
+          ON CONFLICT DO NOTHING
+          RETURNING *
+        `;
+        created.push(...(result as Transaction[]));
+      }
+
+      const createdIds = new Set(created.map((transaction) => transaction.id));
+      const linksByUser = new Map<string, TagLink[]>();
+      rows.forEach((row, i) => {
+        if (!createdIds.has(row.id)) {
+          return;
+        }
+        const links = linksByUser.get(row.user_id) || [];
+        for (const name of transactionsData[i].tags || []) {
+          links.push({ transaction_id: row.id, name });
+        }
+        linksByUser.set(row.user_id, links);
+      });
+      for (const [userId, links] of linksByUser) {
+        await this.linkTags(tx, userId, links);
+      }
+
+      return created;
+    });
+
+    for (const userId of new Set(inserted.map((t) => t.user_id))) {
+      BudgetAlertService.schedule(userId);
+      const ids = inserted.filter((t) => t.user_id === userId).map((t) => t.id);
+      NotificationEventService.largeTransactions(userId, ids).catch(
+        console.error
+      );
+      BillService.matchTransactions(userId, ids).catch(console.error);
+    }
+    return inserted;
+  }
 
-      return {
-        transactions: result as Transaction[],
-        total: parseInt(countResult[0]?.total || "0"),
-      };
+  // Return which of the given external IDs the user has already imported
+  static async findExistingExternalIds(
+    userId: string,
+    externalIds: string[]
+  ): Promise<Set<string>> {
+    if (externalIds.length === 0) {
+      return new Set();
     }
 
-    // Default: get all transactions
     const result = await sql`
-      SELECT t.*, c.name as category_name, c.color as category_color
+      SELECT external_id FROM transactions
+      WHERE user_id = ${userId} AND external_id IN ${sql(externalIds)}
+    `;
+
+    return new Set(
+      result.map((row: { external_id: string }) => row.external_id)
+    );
+  }
+
+  // Find transaction by ID
+  static async findById(
+    id: string,
+    userId: string
+  ): Promise<Transaction | null> {
+    const result = await sql`
+      SELECT t.*, c.name as category_name, c.color as category_color,
+        a.name as account_name, ta.name as transfer_account_name,
+        to_base_currency(t.user_id, t.amount, t.currency, t.date) as base_amount
       FROM transactions t
       LEFT JOIN categories c ON t.category_id = c.id
-      WHERE t.user_id = ${userId}
-      ORDER BY t.date DESC, t.created_at DESC
-      LIMIT ${limit} OFFSET ${offset}
+      LEFT JOIN accounts a ON t.account_id = a.id
+      LEFT JOIN transactions tp ON tp.transfer_id = t.transfer_id AND tp.id != t.id
+      LEFT JOIN accounts ta ON tp.account_id = ta.id
+      WHERE t.id = ${id} AND t.user_id = ${userId}
     `;
+    if (result.length === 0) {
+      return null;
+    }
+
+    const [transaction] = await this.attachDetails(result as Transaction[]);
+    return transaction;
+  }
+
+  // Get one page of transactions matching any combination of filters. Pass
+  // the returned nextCursor back as cursor to fetch the following page.
+  static async findMany(filters: TransactionFilters): Promise<{
+    transactions: Transaction[];
+    total: number;
+    nextCursor: string | null;
+  }> {
+    const {
+      userId,
+      sort = "date",
+      order = "desc",
+      limit = env.DEFAULT_PAGE_SIZE,
+      offset,
+      cursor,
+      ...queryFilters
+    } = filters;
+
+    const builder = new TransactionQueryBuilder(userId).applyFilters(
+      queryFilters
+    );
+    // One extra row tells whether there is a next page
+    const page = builder.buildSelect({
+      sort,
+      order,
+      limit: limit + 1,
+      offset,
+      cursor,
+    });
+    const count = builder.buildCount();
+
+    const [rows, countResult] = await Promise.all([
+      sql.unsafe(page.query, page.values),
+      sql.unsafe(count.query, count.values),
+    ]);
+
+    const hasMore = rows.length > limit;
+    const pageRows = (rows as TransactionPageRow[]).slice(0, limit);
+    const last = pageRows[pageRows.length - 1];
+    const nextCursor =
+      hasMore && last
+        ? TransactionQueryBuilder.encodeCursor({
+            sort,
+            order,
+            values: [last.cursor_value, last.cursor_created_at, last.id],
+          })
+        : null;
+
+    const transactions = pageRows.map(
+      ({ cursor_value, cursor_created_at, ...transaction }) => transaction
+    );
 
-    const countResult = await sql`
-      SELECT COUNT(*) as total FROM transactions t
-      WHERE t.user_id = ${userId}
-    `;
     return {
-      transactions: result as Transaction[],
+      transactions: await this.attachDetails(transactions),
       total: parseInt(countResult[0]?.total || "0"),
+      nextCursor,
     };
   }
 
@@ -230,7 +529,18 @@ export class TransactionService {
     userId: string,
     updateData: UpdateTransactionData
   ): Promise<Transaction | null> {
-    const { amount, description, type, date, category_id } = updateData;
+    const {
+      amount,
+      currency,
+      description,
+      notes,
+      type,
+      date,
+      category_id,
+      account_id,
+      splits,
+      tags,
+    } = updateData;
 
     // Build update query based on provided fields
     const updateFields: string[] = [];
@@ -241,11 +551,21 @@ export class TransactionService {
       values.push(amount);
     }
 
+    if (currency !== undefined) {
+      updateFields.push("currency = $" + (values.length + 1));
+      values.push(currency);
+    }
+
     if (description !== undefined) {
       updateFields.push("description = $" + (values.length + 1));
       values.push(description);
     }
 
+    if (notes !== undefined) {
+      updateFields.push("notes = $" + (values.length + 1));
+      values.push(notes);
+    }
+
     if (type !== undefined) {
       updateFields.push("type = $" + (values.length + 1));
       values.push(type);
@@ -256,12 +576,24 @@ export class TransactionService {
       values.push(date);
     }
 
-    if (category_id !== undefined) {
+    // Split transactions take their categories from the split lines
+    if (splits !== undefined && splits.length > 0) {
+      updateFields.push("category_id = NULL");
+    } else if (category_id !== undefined) {
       updateFields.push("category_id = $" + (values.length + 1));
       values.push(category_id);
     }
 
-    if (updateFields.length === 0) {
+    if (account_id !== undefined) {
+      updateFields.push("account_id = $" + (values.length + 1));
+      values.push(account_id);
+    }
+
+    if (
+      updateFields.length === 0 &&
+      splits === undefined &&
+      tags === undefined
+    ) {
       return null; // No fields to update
     }
 
@@ -283,33 +615,167 @@ export class TransactionService {
       RETURNING *
     `;
 
-    const result = await sql.unsafe(query, values);
-    return result.length > 0 ? (result[0] as Transaction) : null;
-  } // Delete transaction
+    const updated = await sql.begin(async (tx) => {
+      const result = await tx.unsafe(query, values);
+      if (result.length === 0) {
+        return false;
+      }
+
+      if (splits !== undefined) {
+        await tx`DELETE FROM transaction_splits WHERE transaction_id = ${id}`;
+        await this.insertSplits(tx, id, splits);
+      }
+      if (tags !== undefined) {
+        await tx`DELETE FROM transaction_tags WHERE transaction_id = ${id}`;
+        await this.linkTags(
+          tx,
+          userId,
+          tags.map((name) => ({ transaction_id: id, name }))
+        );
+      }
+      return true;
+    });
+
+    if (!updated) {
+      return null;
+    }
+
+    BudgetAlertService.schedule(userId);
+    NotificationEventService.largeTransactions(userId, [id]).catch(
+      console.error
+    );
+    BillService.matchTransactions(userId, [id]).catch(console.error);
+    return this.findById(id, userId);
+  }
+
+  // Delete transaction (both legs when it is part of a transfer)
   static async delete(id: string, userId: string): Promise<boolean> {
     const result = await sql`
       DELETE FROM transactions 
-      WHERE id = ${id} AND user_id = ${userId}
+      WHERE user_id = ${userId}
+        AND (id = ${id} OR transfer_id = (
+          SELECT transfer_id FROM transactions WHERE id = ${id} AND user_id = ${userId}
+        ))
       RETURNING id
     `;
 
     return result.length > 0;
   }
+
+  // Create a transfer as two linked legs: money leaves the source account
+  // ("out") and arrives in the destination account ("in")
+  static async createTransfer(
+    transferData: CreateTransferData
+  ): Promise<Transfer> {
+    const {
+      user_id,
+      from_account_id,
+      to_account_id,
+      amount,
+      description,
+      date,
+    } = transferData;
+    const transferDate = date || new Date().toISOString().split("T")[0];
+    const transferId = crypto.randomUUID();
+
+    // A single statement, so either both legs are written or neither is.
+    // Both legs are in the source account's currency; the destination
+    // account converts the incoming leg at the transfer date's rate.
+    await sql`
+      INSERT INTO transactions (user_id, account_id, amount, currency, description, type, date, transfer_id, transfer_direction)
+      SELECT ${user_id}, leg.account_id, ${amount}, a.currency, ${description}, 'transfer', ${transferDate}, ${transferId}, leg.direction
+      FROM (VALUES (${from_account_id}::uuid, 'out'), (${to_account_id}::uuid, 'in')) AS leg(account_id, direction)
+      CROSS JOIN (SELECT currency FROM accounts WHERE id = ${from_account_id}) a
+    `;
+
+    return (await this.findTransfer(transferId, user_id)) as Transfer;
+  }
+
+  // Find both legs of a transfer by its transfer ID
+  static async findTransfer(
+    transferId: string,
+    userId: string
+  ): Promise<Transfer | null> {
+    const result = await sql`
+      SELECT t.*, a.name as account_name, ta.name as transfer_account_name,
+        to_base_currency(t.user_id, t.amount, t.currency, t.date) as base_amount
+      FROM transactions t
+      LEFT JOIN accounts a ON t.account_id = a.id
+      LEFT JOIN transactions tp ON tp.transfer_id = t.transfer_id AND tp.id != t.id
+      LEFT JOIN accounts ta ON tp.account_id = ta.id
+      WHERE t.transfer_id = ${transferId} AND t.user_id = ${userId}
+    `;
+
+    const from = result.find(
+      (row: Transaction) => row.transfer_direction === "out"
+    );
+    const to = result.find(
+      (row: Transaction) => row.transfer_direction === "in"
+    );
+    return from && to ? { id: transferId, from, to } : null;
+  }
+
+  // Update a transfer; amount, description and date are shared by both legs
+  // so they are always written to both in the same statement
+  static async updateTransfer(
+    transferId: string,
+    userId: string,
+    updateData: UpdateTransferData
+  ): Promise<Transfer | null> {
+    const { from_account_id, to_account_id, amount, description, date } =
+      updateData;
+
+    const result = await sql`
+      UPDATE transactions
+      SET amount = COALESCE(${amount ?? null}::numeric, amount),
+        description = COALESCE(${description ?? null}::text, description),
+        date = COALESCE(${date ?? null}::date, date),
+        account_id = CASE transfer_direction
+          WHEN 'out' THEN COALESCE(${from_account_id ?? null}::uuid, account_id)
+          ELSE COALESCE(${to_account_id ?? null}::uuid, account_id)
+        END,
+        currency = COALESCE(
+          (SELECT currency FROM accounts WHERE id = ${from_account_id ?? null}),
+          currency
+        ),
+        updated_at = NOW()
+      WHERE transfer_id = ${transferId} AND user_id = ${userId}
+      RETURNING id
+    `;
+
+    return result.length > 0 ? this.findTransfer(transferId, userId) : null;
+  }
+
   // Get monthly summary
   static async getMonthlySummary(
     userId: string,
     year: number,
     month: number
+  ): Promise<MonthlySummary> {
+    const monthStart = `${year}-${String(month).padStart(2, "0")}-01`;
+    const monthEnd = new Date(Date.UTC(year, month, 0))
+      .toISOString()
+      .split("T")[0];
+
+    return this.getSummary(userId, monthStart, monthEnd);
+  }
+
+  // Get income and expense totals between two dates (inclusive)
+  static async getSummary(
+    userId: string,
+    startDate: string,
+    endDate: string
   ): Promise<MonthlySummary> {
     const result = await sql`
       SELECT 
-        COALESCE(SUM(CASE WHEN type = 'income' THEN amount ELSE 0 END), 0) as total_income,
-        COALESCE(SUM(CASE WHEN type = 'expense' THEN amount ELSE 0 END), 0) as total_expenses,
+        COALESCE(SUM(CASE WHEN type = 'income' THEN to_base_currency(user_id, amount, currency, date) ELSE 0 END), 0) as total_income,
+        COALESCE(SUM(CASE WHEN type = 'expense' THEN to_base_currency(user_id, amount, currency, date) ELSE 0 END), 0) as total_expenses,
         COUNT(*) as transaction_count
       FROM transactions
       WHERE user_id = ${userId} 
-        AND EXTRACT(YEAR FROM date) = ${year} 
-        AND EXTRACT(MONTH FROM date) = ${month}
+        AND type != 'transfer'
+        AND date >= ${startDate}
+        AND date <= ${endDate}
     `;
 
     const row = result[0];
@@ -332,9 +798,9 @@ export class TransactionService {
       SELECT 
         t.category_id,
         COALESCE(c.name, 'Uncategorized') as category_name,
-        SUM(t.amount) as amount,
-        COUNT(*) as transaction_count
-      FROM transactions t
+        SUM(t.base_amount) as amount,
+        COUNT(DISTINCT t.transaction_id) as transaction_count
+      FROM transaction_lines t
       LEFT JOIN categories c ON t.category_id = c.id
       WHERE t.user_id = ${userId} 
         AND t.type = 'expense'
@@ -357,14 +823,19 @@ export class TransactionService {
     limit: number = env.DASHBOARD_STATS_LIMIT
   ): Promise<Transaction[]> {
     const result = await sql`
-      SELECT t.*, c.name as category_name, c.color as category_color
+      SELECT t.*, c.name as category_name, c.color as category_color,
+        a.name as account_name, ta.name as transfer_account_name,
+        to_base_currency(t.user_id, t.amount, t.currency, t.date) as base_amount
       FROM transactions t
       LEFT JOIN categories c ON t.category_id = c.id
+      LEFT JOIN accounts a ON t.account_id = a.id
+      LEFT JOIN transactions tp ON tp.transfer_id = t.transfer_id AND tp.id != t.id
+      LEFT JOIN accounts ta ON tp.account_id = ta.id
       WHERE t.user_id = ${userId}
       ORDER BY t.created_at DESC
       LIMIT ${limit}
     `;
 
-    return result as Transaction[];
+    return this.attachDetails(result as Transaction[]);
   }
 }
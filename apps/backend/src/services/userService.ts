@@ -1,6 +1,8 @@
 import { sql } from "../db/connection";
 import { env } from "../config/env";
 
+export type DigestFrequency = "none" | "weekly" | "monthly";
+
 export interface User {
   id: string;
   email: string;
@@ -9,6 +11,10 @@ export interface User {
   created_at: Date;
   updated_at: Date;
   email_verified: boolean;
+  base_currency: string; // ISO 4217 code that reports are converted into
+  envelope_budgeting: boolean; // income is assigned to category envelopes
+  digest_frequency: DigestFrequency;
+  digest_sent_through: Date | null; // last day of the latest digest period sent
   email_verification_token?: string;
   password_reset_token?: string;
   password_reset_expires?: Date;
@@ -174,6 +180,51 @@ export class UserService {
     return result && result.length > 0 ? (result[0] as User) : null;
   }
 
+  // Set the currency that summaries, charts and budgets are reported in
+  static async setBaseCurrency(
+    id: string,
+    currency: string
+  ): Promise<User | null> {
+    const result = await sql`
+      UPDATE users
+      SET base_currency = ${currency}, updated_at = NOW()
+      WHERE id = ${id}
+      RETURNING *
+    `;
+
+    return result.length > 0 ? (result[0] as User) : null;
+  }
+
+  // Turn envelope budgeting on or off
+  static async setEnvelopeBudgeting(
+    id: string,
+    enabled: boolean
+  ): Promise<User | null> {
+    const result = await sql`
+      UPDATE users
+      SET envelope_budgeting = ${enabled}, updated_at = NOW()
+      WHERE id = ${id}
+      RETURNING *
+    `;
+
+    return result.length > 0 ? (result[0] as User) : null;
+  }
+
+  // Set how often the user is emailed a digest
+  static async setDigestFrequency(
+    id: string,
+    frequency: DigestFrequency
+  ): Promise<User | null> {
+    const result = await sql`
+      UPDATE users
+      SET digest_frequency = ${frequency}, updated_at = NOW()
+      WHERE id = ${id}
+      RETURNING *
+    `;
+
+    return result.length > 0 ? (result[0] as User) : null;
+  }
+
   // Delete user
   static async delete(id: string): Promise<boolean> {
     const result = await sql`DELETE FROM users WHERE id = ${id}`;
@@ -238,8 +289,8 @@ export class UserService {
       SELECT 
         COUNT(t.id) as total_transactions,
         COUNT(DISTINCT c.id) as total_categories,
-        COALESCE(SUM(CASE WHEN t.type = 'income' THEN t.amount ELSE 0 END), 0) as total_income,
-        COALESCE(SUM(CASE WHEN t.type = 'expense' THEN t.amount ELSE 0 END), 0) as total_expenses
+        COALESCE(SUM(CASE WHEN t.type = 'income' THEN to_base_currency(t.user_id, t.amount, t.currency, t.date) ELSE 0 END), 0) as total_income,
+        COALESCE(SUM(CASE WHEN t.type = 'expense' THEN to_base_currency(t.user_id, t.amount, t.currency, t.date) ELSE 0 END), 0) as total_expenses
       FROM users u
       LEFT JOIN transactions t ON u.id = t.user_id
       LEFT JOIN categories c ON u.id = c.user_id
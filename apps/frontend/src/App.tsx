@@ -4,6 +4,13 @@ import { Layout } from "@/components/layout/Layout";
 import { Dashboard } from "@/pages/Dashboard";
 import { Transactions } from "@/pages/Transactions";
 import { Categories } from "@/pages/Categories";
+import { Budgets } from "@/pages/Budgets";
+import { Envelopes } from "@/pages/Envelopes";
+import { Accounts } from "@/pages/Accounts";
+import { Recurring } from "@/pages/Recurring";
+import { Bills } from "@/pages/Bills";
+import { Rules } from "@/pages/Rules";
+import { Tags } from "@/pages/Tags";
 import { Settings } from "@/pages/Settings";
 import { AuthPage } from "@/components/auth/AuthPage";
 import { ToastProvider } from "@/components/ui/toast";
@@ -129,6 +136,13 @@ function App() {
               <Route path="/" element={<Dashboard />} />
               <Route path="/transactions" element={<Transactions />} />
               <Route path="/categories" element={<Categories />} />
+              <Route path="/budgets" element={<Budgets />} />
+              <Route path="/envelopes" element={<Envelopes />} />
+              <Route path="/accounts" element={<Accounts />} />
+              <Route path="/recurring" element={<Recurring />} />
+              <Route path="/bills" element={<Bills />} />
+              <Route path="/rules" element={<Rules />} />
+              <Route path="/tags" element={<Tags />} />
               <Route path="/settings" element={<Settings />} />
             </Routes>
           </Layout>
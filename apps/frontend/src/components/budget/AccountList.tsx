@@ -0,0 +1,252 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  MoreHorizontal,
+  Edit,
+  Trash2,
+  Landmark,
+  PiggyBank,
+  CreditCard,
+  Banknote,
+  Wallet,
+} from "lucide-react";
+import { toast } from "react-hot-toast";
+import {
+  AddAccountForm,
+  accountTypeLabels,
+} from "@/components/budget/AddAccountForm";
+import { accountsAPI } from "@/services/api";
+import { useBudgetStore } from "@/stores/budgetStore";
+import type { Account, AccountType } from "@/stores/budgetStore";
+import { formatMoney } from "@/lib/utils";
+
+interface AccountListProps {
+  accounts: Account[];
+  selectedAccountId?: string;
+  onSelect: (account: Account) => void;
+  emptyMessage?: string;
+}
+
+const accountIcons: Record<AccountType, typeof Wallet> = {
+  checking: Landmark,
+  savings: PiggyBank,
+  credit_card: CreditCard,
+  cash: Banknote,
+};
+
+function AccountCard({
+  account,
+  isSelected,
+  onSelect,
+}: {
+  account: Account;
+  isSelected: boolean;
+  onSelect: () => void;
+}) {
+  const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const { refreshAllData } = useBudgetStore();
+  const Icon = accountIcons[account.type] || Wallet;
+  const balance = account.balance ?? account.opening_balance;
+
+  const handleDelete = async () => {
+    try {
+      await accountsAPI.delete(account.id);
+      await refreshAllData();
+      toast.success("Account deleted successfully");
+    } catch (error) {
+      console.error("Delete account error:", error);
+      toast.error("Failed to delete account");
+    }
+  };
+
+  return (
+    <>
+      <motion.div
+        layout
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: -20 }}
+        className="group"
+      >
+        <Card
+          onClick={onSelect}
+          className={`border shadow-lg bg-slate-900 hover:bg-slate-800/50 transition-all duration-200 cursor-pointer ${
+            isSelected ? "border-blue-600" : "border-slate-800"
+          }`}
+        >
+          <CardContent className="p-6">
+            <div className="flex items-start justify-between mb-4">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 rounded-full bg-slate-800 text-slate-300">
+                  <Icon className="h-4 w-4" />
+                </div>
+                <div>
+                  <h3 className="font-semibold text-white">{account.name}</h3>
+                  <p className="text-sm text-slate-400">
+                    {accountTypeLabels[account.type]}
+                  </p>
+                </div>
+              </div>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => e.stopPropagation()}
+                    className="h-8 w-8 p-0 text-slate-400 hover:text-white hover:bg-slate-700 opacity-0 group-hover:opacity-100 transition-opacity"
+                  >
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent
+                  align="end"
+                  onClick={(e) => e.stopPropagation()}
+                  className="bg-slate-800 border-slate-700 text-slate-200"
+                >
+                  <DropdownMenuItem
+                    onClick={() => setEditDialogOpen(true)}
+                    className="hover:bg-slate-700 focus:bg-slate-700"
+                  >
+                    <Edit className="h-4 w-4 mr-2" />
+                    Edit
+                  </DropdownMenuItem>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <DropdownMenuItem
+                        className="hover:bg-slate-700 focus:bg-slate-700 text-red-400 focus:text-red-300"
+                        onSelect={(e) => e.preventDefault()}
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Delete
+                      </DropdownMenuItem>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent className="bg-slate-900 border-slate-700">
+                      <AlertDialogHeader>
+                        <AlertDialogTitle className="text-white">
+                          Delete Account
+                        </AlertDialogTitle>
+                        <AlertDialogDescription className="text-slate-400">
+                          Delete "{account.name}"? Its{" "}
+                          {account.transaction_count || 0} transaction(s) are
+                          kept but will no longer belong to an account.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel className="bg-slate-800 text-slate-300 border-slate-600 hover:bg-slate-700">
+                          Cancel
+                        </AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={handleDelete}
+                          className="bg-red-600 text-white hover:bg-red-700"
+                        >
+                          Delete Account
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+
+            <div className="flex justify-between items-end">
+              <div>
+                <p className="text-sm text-slate-400">Balance</p>
+                <p
+                  className={`text-2xl font-semibold ${
+                    balance < 0 ? "text-red-400" : "text-white"
+                  }`}
+                >
+                  {formatMoney(balance, account.currency)}
+                </p>
+              </div>
+              <Badge
+                variant="outline"
+                className="text-xs text-slate-400 border-slate-700"
+              >
+                {account.transaction_count || 0} transactions
+              </Badge>
+            </div>
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
+        <DialogContent className="bg-slate-900 border-slate-700 text-white max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-white">Edit Account</DialogTitle>
+          </DialogHeader>
+          <AddAccountForm
+            onSuccess={() => setEditDialogOpen(false)}
+            onCancel={() => setEditDialogOpen(false)}
+            initialData={account}
+          />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+export function AccountList({
+  accounts,
+  selectedAccountId,
+  onSelect,
+  emptyMessage,
+}: AccountListProps) {
+  if (accounts.length === 0) {
+    return (
+      <Card className="border-0 shadow-lg bg-slate-900 border-slate-800">
+        <CardContent className="p-8 text-center">
+          <div className="w-16 h-16 mx-auto mb-4 bg-slate-800 rounded-full flex items-center justify-center">
+            <Wallet className="h-8 w-8 text-slate-400" />
+          </div>
+          <h3 className="text-lg font-medium text-white mb-2">
+            No accounts yet
+          </h3>
+          <p className="text-slate-400">
+            {emptyMessage ||
+              "Add your bank accounts, cards and cash to track each balance."}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+      {accounts.map((account) => (
+        <AccountCard
+          key={account.id}
+          account={account}
+          isSelected={account.id === selectedAccountId}
+          onSelect={() => onSelect(account)}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useBudgetStore } from "@/stores/budgetStore";
+import { useToast } from "@/components/ui/toast";
+import { accountsAPI } from "@/services/api";
+import type { Account, AccountType } from "@/stores/budgetStore";
+
+interface AddAccountFormProps {
+  onSuccess?: () => void;
+  onCancel?: () => void;
+  initialData?: Account;
+}
+
+export const accountTypeLabels: Record<AccountType, string> = {
+  checking: "Checking",
+  savings: "Savings",
+  credit_card: "Credit Card",
+  cash: "Cash",
+};
+
+const selectItemClass =
+  "text-slate-100 focus:bg-slate-700 focus:text-slate-100";
+
+export function AddAccountForm({
+  onSuccess,
+  onCancel,
+  initialData,
+}: AddAccountFormProps) {
+  const { loadAccounts } = useBudgetStore();
+  const { addToast } = useToast();
+  const isEditing = !!initialData;
+  const [formData, setFormData] = useState<{
+    name: string;
+    type: AccountType;
+    opening_balance: string;
+    currency: string;
+  }>({
+    name: initialData?.name || "",
+    type: initialData?.type || "checking",
+    opening_balance: initialData?.opening_balance.toString() || "",
+    currency: initialData?.currency || "USD",
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const openingBalance = formData.opening_balance
+      ? Number(formData.opening_balance)
+      : 0;
+    if (isNaN(openingBalance)) {
+      setError("Opening balance must be a number");
+      return;
+    }
+
+    const currency = formData.currency.trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      setError("Currency must be a 3-letter code, e.g. USD");
+      return;
+    }
+
+    const payload = {
+      name: formData.name.trim(),
+      type: formData.type,
+      opening_balance: openingBalance,
+      currency,
+    };
+
+    setIsSubmitting(true);
+    try {
+      if (isEditing && initialData) {
+        await accountsAPI.update(initialData.id, payload);
+      } else {
+        await accountsAPI.create(payload);
+      }
+      await loadAccounts();
+
+      addToast({
+        type: "success",
+        title: isEditing ? "Account Updated" : "Account Created",
+        description: `Account "${payload.name}" ${
+          isEditing ? "updated" : "created"
+        } successfully.`,
+      });
+
+      if (!isEditing) {
+        setFormData({
+          name: "",
+          type: "checking",
+          opening_balance: "",
+          currency: "USD",
+        });
+      }
+      onSuccess?.();
+    } catch (error: any) {
+      setError(
+        error.response?.data?.error ||
+          error.message ||
+          `Failed to ${isEditing ? "update" : "create"} account`
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="text-sm text-red-400 bg-red-950/50 border border-red-800 p-2 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="account-name" className="text-slate-200">
+          Name *
+        </Label>
+        <Input
+          id="account-name"
+          placeholder="e.g. Main Checking, Visa"
+          value={formData.name}
+          onChange={(e) =>
+            setFormData((prev) => ({ ...prev, name: e.target.value }))
+          }
+          required
+          disabled={isSubmitting}
+          className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-slate-200">Type</Label>
+        <Select
+          value={formData.type}
+          onValueChange={(value: AccountType) =>
+            setFormData((prev) => ({ ...prev, type: value }))
+          }
+          disabled={isSubmitting}
+        >
+          <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-600">
+            {(Object.keys(accountTypeLabels) as AccountType[]).map((type) => (
+              <SelectItem key={type} value={type} className={selectItemClass}>
+                {accountTypeLabels[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="account-opening-balance" className="text-slate-200">
+            Opening balance
+          </Label>
+          <Input
+            id="account-opening-balance"
+            type="number"
+            step="0.01"
+            placeholder="0.00"
+            value={formData.opening_balance}
+            onChange={(e) =>
+              setFormData((prev) => ({
+                ...prev,
+                opening_balance: e.target.value,
+              }))
+            }
+            disabled={isSubmitting}
+            className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="account-currency" className="text-slate-200">
+            Currency
+          </Label>
+          <Input
+            id="account-currency"
+            maxLength={3}
+            value={formData.currency}
+            onChange={(e) =>
+              setFormData((prev) => ({ ...prev, currency: e.target.value }))
+            }
+            disabled={isSubmitting}
+            className="bg-slate-800 border-slate-600 text-slate-100 uppercase"
+          />
+        </div>
+      </div>
+      {formData.type === "credit_card" && (
+        <p className="text-xs text-slate-400">
+          Enter money owed on the card as a negative opening balance.
+        </p>
+      )}
+
+      <div className="flex space-x-2 pt-4">
+        <Button
+          type="submit"
+          className="flex-1 bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white"
+          disabled={isSubmitting}
+        >
+          {isSubmitting
+            ? isEditing
+              ? "Updating..."
+              : "Creating..."
+            : isEditing
+            ? "Update Account"
+            : "Create Account"}
+        </Button>
+        {onCancel && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+          >
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -2,16 +2,29 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { useBudgetStore } from "@/stores/budgetStore";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useBudgetStore, useCategories } from "@/stores/budgetStore";
 import { useToast } from "@/components/ui/toast";
+import { getCategoryOptions, getDescendantIds } from "@/lib/categoryTree";
+import { formatThresholds, parseThresholds } from "@/lib/alertThresholds";
 import type { Category } from "@/stores/budgetStore";
 
 interface AddCategoryFormProps {
   onSuccess?: () => void;
   onCancel?: () => void;
   initialData?: Category;
+  defaultParentId?: string; // pre-selects the parent for a new subcategory
 }
 
+// Select value for "no parent", since Radix Select items can't be empty
+const NO_PARENT = "none";
+
 const colorOptions = [
   "#dc2626", // muted red
   "#ea580c", // muted orange
@@ -27,18 +40,32 @@ export function AddCategoryForm({
   onSuccess,
   onCancel,
   initialData,
+  defaultParentId,
 }: AddCategoryFormProps) {
   const [formData, setFormData] = useState({
+    parentId: initialData
+      ? initialData.parent_id ?? NO_PARENT
+      : defaultParentId ?? NO_PARENT,
     name: initialData?.name || "",
     budget: initialData?.budget.toString() || "",
     color: initialData?.color || colorOptions[0],
+    alertThresholds: formatThresholds(initialData?.alert_thresholds),
   });
   const [isLoading, setIsLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
-  const { createCategory, updateCategory } = useBudgetStore();
+  const { createCategory, saveCategory } = useBudgetStore();
+  const categories = useCategories();
   const { addToast } = useToast();
   const isEditing = !!initialData;
 
+  // A category can't be moved under itself or one of its subcategories
+  const excludedIds = initialData
+    ? getDescendantIds(categories, initialData.id)
+    : new Set<string>();
+  const parentOptions = getCategoryOptions(categories, [
+    initialData?.parent_id,
+  ]).filter((category) => !excludedIds.has(category.id));
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -52,23 +79,43 @@ export function AddCategoryForm({
         setIsLoading(false);
         return;
       }
+      const alertThresholds = parseThresholds(formData.alertThresholds);
+      if (!alertThresholds) {
+        setErrors({
+          alertThresholds: "Enter up to 5 percentages, e.g. 50, 80, 100",
+        });
+        setIsLoading(false);
+        return;
+      }
+      const parentId =
+        formData.parentId === NO_PARENT ? null : formData.parentId;
       if (isEditing && initialData) {
-        await updateCategory(initialData.id, {
+        await saveCategory(initialData.id, {
+          parent_id: parentId,
           name: formData.name.trim(),
           budget,
           color: formData.color,
+          alert_thresholds: alertThresholds,
         });
       } else {
         await createCategory({
+          ...(parentId && { parent_id: parentId }),
           name: formData.name.trim(),
           budget,
           color: formData.color,
+          alert_thresholds: alertThresholds,
         });
       }
       onSuccess?.();
       // Reset form only if creating new category
       if (!isEditing) {
-        setFormData({ name: "", budget: "", color: colorOptions[0] });
+        setFormData((prev) => ({
+          parentId: prev.parentId,
+          name: "",
+          budget: "",
+          color: colorOptions[0],
+          alertThresholds: prev.alertThresholds,
+        }));
       }
 
       // Show success toast
@@ -79,22 +126,20 @@ export function AddCategoryForm({
           isEditing ? "updated" : "created"
         } successfully with $${formData.budget} budget.`,
       });
-    } catch (error) {
+    } catch (error: any) {
+      const message =
+        error.response?.data?.error ||
+        (error instanceof Error ? error.message : undefined);
       setErrors({
         general:
-          error instanceof Error
-            ? error.message
-            : `Failed to ${isEditing ? "update" : "create"} category`,
+          message || `Failed to ${isEditing ? "update" : "create"} category`,
       });
 
       // Show error toast
       addToast({
         type: "error",
         title: `Failed to ${isEditing ? "Update" : "Create"} Category`,
-        description:
-          error instanceof Error
-            ? error.message
-            : "An unexpected error occurred.",
+        description: message || "An unexpected error occurred.",
       });
     } finally {
       setIsLoading(false);
@@ -138,9 +183,44 @@ export function AddCategoryForm({
         )}
       </div>
 
+      <div className="space-y-2">
+        <Label className="text-slate-200">Parent Category</Label>
+        <Select
+          value={formData.parentId}
+          onValueChange={(parentId) =>
+            setFormData((prev) => ({ ...prev, parentId }))
+          }
+          disabled={isLoading}
+        >
+          <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-600">
+            <SelectItem
+              value={NO_PARENT}
+              className="text-slate-100 focus:bg-slate-700 focus:text-slate-100"
+            >
+              None (top level)
+            </SelectItem>
+            {parentOptions.map((category) => (
+              <SelectItem
+                key={category.id}
+                value={category.id}
+                className="text-slate-100 focus:bg-slate-700 focus:text-slate-100"
+              >
+                {category.path}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-slate-400">
+          A parent's budget and spending include its subcategories
+        </p>
+      </div>
+
       <div className="space-y-2">
         <Label htmlFor="budget" className="text-slate-200">
-          Monthly Budget
+          Default Monthly Budget
         </Label>
         <Input
           id="budget"
@@ -158,6 +238,32 @@ export function AddCategoryForm({
         {errors.budget && (
           <div className="text-red-400 text-sm">{errors.budget}</div>
         )}
+        <p className="text-xs text-slate-400">
+          Used for any month without its own budget on the Budgets page
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="alertThresholds" className="text-slate-200">
+          Alert at % of budget
+        </Label>
+        <Input
+          id="alertThresholds"
+          name="alertThresholds"
+          type="text"
+          value={formData.alertThresholds}
+          onChange={handleChange}
+          placeholder="50, 80, 100"
+          disabled={isLoading}
+          className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+        />
+        {errors.alertThresholds && (
+          <div className="text-red-400 text-sm">{errors.alertThresholds}</div>
+        )}
+        <p className="text-xs text-slate-400">
+          You get an email and a notification the first time each one is reached
+          in a month
+        </p>
       </div>
 
       <div className="space-y-2">
@@ -1,6 +1,7 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import {
   Select,
@@ -9,9 +10,22 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { useBudgetStore, useCategories } from "@/stores/budgetStore";
+import {
+  useBudgetStore,
+  useCategories,
+  useAccounts,
+} from "@/stores/budgetStore";
+import { useUser } from "@/stores/authStore";
 import { useToast } from "@/components/ui/toast";
+import { transactionsAPI, CategorySuggestion } from "@/services/api";
+import {
+  SplitEditor,
+  SplitLine,
+  emptySplitLine,
+  splitLinesTotalCents,
+} from "@/components/budget/SplitEditor";
 import type { Transaction } from "@/stores/budgetStore";
+import { getCategoryOptions } from "@/lib/categoryTree";
 
 interface AddTransactionFormProps {
   onSuccess?: () => void;
@@ -26,26 +40,88 @@ export function AddTransactionForm({
 }: AddTransactionFormProps) {
   const { createTransaction, updateTransaction } = useBudgetStore();
   const categories = useCategories();
+  const accounts = useAccounts();
+  const user = useUser();
   const { addToast } = useToast();
   const isEditing = !!initialData;
   const [formData, setFormData] = useState<{
     amount: string;
+    currency: string; // blank uses the account's or base currency
     description: string;
+    notes: string;
     type: "income" | "expense";
     category_id: string | undefined;
+    account_id: string | undefined;
     date: string;
+    tags: string; // comma-separated
   }>({
     amount: initialData?.amount.toString() || "",
+    currency: initialData?.currency || "",
     description: initialData?.description || "",
-    type: initialData?.type || "expense",
+    notes: initialData?.notes || "",
+    // Transfers are edited with the TransferForm instead
+    type: initialData?.type === "income" ? "income" : "expense",
     category_id: initialData?.category_id || undefined,
+    account_id: initialData?.account_id || undefined,
     date: initialData?.date
       ? new Date(initialData.date).toISOString().split("T")[0]
       : new Date().toISOString().split("T")[0], // YYYY-MM-DD format
+    tags: initialData?.tags?.map((tag) => tag.name).join(", ") || "",
   });
 
+  const [isSplit, setIsSplit] = useState(!!initialData?.splits?.length);
+  const [splitLines, setSplitLines] = useState<SplitLine[]>(
+    initialData?.splits?.length
+      ? initialData.splits.map((split) => ({
+          category_id: split.category_id || undefined,
+          amount: split.amount.toString(),
+          memo: split.memo || "",
+        }))
+      : [emptySplitLine(), emptySplitLine()]
+  );
+
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<CategorySuggestion[]>([]);
+
+  // Suggest categories from past transactions once typing pauses
+  useEffect(() => {
+    const description = formData.description.trim();
+    if (
+      formData.type !== "expense" ||
+      formData.category_id ||
+      isSplit ||
+      description.length < 3
+    ) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await transactionsAPI.suggestCategory(
+          description,
+          formData.type
+        );
+        if (!cancelled) setSuggestions(result);
+      } catch (error) {
+        // Suggestions are a convenience; the form works without them
+        if (!cancelled) setSuggestions([]);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [formData.description, formData.type, formData.category_id, isSplit]);
+
+  // What the backend fills in when no currency is given
+  const defaultCurrency =
+    accounts.find((account) => account.id === formData.account_id)?.currency ||
+    user?.base_currency ||
+    "USD";
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -61,23 +137,70 @@ export function AddTransactionForm({
       return;
     }
 
+    const currency = formData.currency.trim().toUpperCase();
+    if (currency && !/^[A-Z]{3}$/.test(currency)) {
+      setError("Currency must be a 3-letter code, e.g. EUR");
+      return;
+    }
+
+    // Splits only apply to expenses, where categories are picked
+    const useSplits = isSplit && formData.type === "expense";
+    if (useSplits) {
+      if (splitLines.some((line) => !(Number(line.amount) > 0))) {
+        setError("Every split line needs a positive amount");
+        return;
+      }
+      if (
+        splitLinesTotalCents(splitLines) !==
+        Math.round(Number(formData.amount) * 100)
+      ) {
+        setError("Split amounts must add up to the transaction amount");
+        return;
+      }
+    }
+    const splits = useSplits
+      ? splitLines.map((line) => ({
+          category_id: line.category_id || null,
+          amount: Number(line.amount),
+          memo: line.memo || undefined,
+        }))
+      : undefined;
+    const tags = formData.tags
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+
     setIsSubmitting(true);
     try {
       if (isEditing && initialData) {
-        await updateTransaction(initialData.id, {
+        const updated = await transactionsAPI.update(initialData.id, {
           amount: Number(formData.amount),
+          currency: currency || undefined,
           description: formData.description,
+          notes: formData.notes.trim() || null,
           type: formData.type,
-          category_id: formData.category_id || undefined,
+          category_id: useSplits ? undefined : formData.category_id,
+          account_id: formData.account_id || null,
           date: formData.date,
+          // An empty list turns a split transaction back into a single line
+          splits: splits ?? (initialData.splits?.length ? [] : undefined),
+          tags,
         });
+        updateTransaction(initialData.id, updated);
       } else {
         await createTransaction({
           amount: Number(formData.amount),
+          currency: currency || undefined,
           description: formData.description,
+          notes: formData.notes.trim() || undefined,
           type: formData.type,
-          category_id: formData.category_id || undefined,
+          category_id: useSplits
+            ? undefined
+            : formData.category_id || undefined,
+          account_id: formData.account_id || undefined,
           date: formData.date, // This will be sent as YYYY-MM-DD to backend
+          splits,
+          tags,
         });
       }
 
@@ -85,20 +208,28 @@ export function AddTransactionForm({
       if (!isEditing) {
         setFormData({
           amount: "",
+          currency: formData.currency,
           description: "",
+          notes: "",
           type: "expense",
           category_id: undefined,
+          // Keep the account and tags so several entries for them can be
+          // added in a row
+          account_id: formData.account_id,
           date: new Date().toISOString().split("T")[0],
+          tags: formData.tags,
         });
+        setIsSplit(false);
+        setSplitLines([emptySplitLine(), emptySplitLine()]);
       }
 
       // Show success toast
       addToast({
         type: "success",
         title: isEditing ? "Transaction Updated" : "Transaction Created",
-        description: `${
-          formData.type === "income" ? "Income" : "Expense"
-        } of $${formData.amount} ${
+        description: `${formData.type === "income" ? "Income" : "Expense"} of ${
+          formData.amount
+        } ${currency || defaultCurrency} ${
           isEditing ? "updated" : "created"
         } successfully.`,
       });
@@ -106,7 +237,8 @@ export function AddTransactionForm({
       onSuccess?.();
     } catch (error: any) {
       setError(
-        error.message ||
+        error.response?.data?.error ||
+          error.message ||
           `Failed to ${isEditing ? "update" : "create"} transaction`
       );
 
@@ -160,23 +292,44 @@ export function AddTransactionForm({
         </Select>
       </div>
 
-      <div className="space-y-2">
-        <Label htmlFor="amount" className="text-slate-200">
-          Amount *
-        </Label>
-        <Input
-          id="amount"
-          type="number"
-          step="0.01"
-          placeholder="0.00"
-          value={formData.amount}
-          onChange={(e) =>
-            setFormData((prev) => ({ ...prev, amount: e.target.value }))
-          }
-          required
-          disabled={isSubmitting}
-          className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
-        />
+      <div className="grid grid-cols-[1fr_6rem] gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="amount" className="text-slate-200">
+            Amount *
+          </Label>
+          <Input
+            id="amount"
+            type="number"
+            step="0.01"
+            placeholder="0.00"
+            value={formData.amount}
+            onChange={(e) =>
+              setFormData((prev) => ({ ...prev, amount: e.target.value }))
+            }
+            required
+            disabled={isSubmitting}
+            className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="currency" className="text-slate-200">
+            Currency
+          </Label>
+          <Input
+            id="currency"
+            maxLength={3}
+            placeholder={defaultCurrency}
+            value={formData.currency}
+            onChange={(e) =>
+              setFormData((prev) => ({
+                ...prev,
+                currency: e.target.value.toUpperCase(),
+              }))
+            }
+            disabled={isSubmitting}
+            className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400 uppercase"
+          />
+        </div>
       </div>
 
       <div className="space-y-2">
@@ -199,9 +352,46 @@ export function AddTransactionForm({
         />
       </div>
 
-      {formData.type === "expense" && categories.length > 0 && (
+      {formData.type === "expense" && categories.length > 0 && isSplit && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-slate-200">Split across categories</Label>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsSplit(false)}
+              disabled={isSubmitting}
+              className="h-7 text-slate-300 hover:text-white hover:bg-slate-700"
+            >
+              Single category
+            </Button>
+          </div>
+          <SplitEditor
+            lines={splitLines}
+            onChange={setSplitLines}
+            categories={categories}
+            total={Number(formData.amount) || 0}
+            disabled={isSubmitting}
+          />
+        </div>
+      )}
+
+      {formData.type === "expense" && categories.length > 0 && !isSplit && (
         <div className="space-y-2">
-          <Label className="text-slate-200">Category (Optional)</Label>
+          <div className="flex items-center justify-between">
+            <Label className="text-slate-200">Category (Optional)</Label>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsSplit(true)}
+              disabled={isSubmitting}
+              className="h-7 text-slate-300 hover:text-white hover:bg-slate-700"
+            >
+              Split
+            </Button>
+          </div>
           <Select
             value={formData.category_id || ""}
             onValueChange={(value) =>
@@ -216,19 +406,86 @@ export function AddTransactionForm({
               <SelectValue placeholder="Select category" />
             </SelectTrigger>
             <SelectContent className="bg-slate-800 border-slate-600">
-              {categories.map((category) => (
+              {getCategoryOptions(categories, [formData.category_id]).map(
+                (category) => (
+                  <SelectItem
+                    key={category.id}
+                    value={category.id}
+                    className="text-slate-100 focus:bg-slate-700 focus:text-slate-100"
+                  >
+                    <div className="flex items-center space-x-2">
+                      <div
+                        className="w-3 h-3 rounded-full"
+                        style={{ backgroundColor: category.color }}
+                      />
+                      <span>{category.path}</span>
+                    </div>
+                  </SelectItem>
+                )
+              )}
+            </SelectContent>
+          </Select>
+          {suggestions.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="text-slate-400">Suggested:</span>
+              {suggestions.map((suggestion) => (
+                <button
+                  key={suggestion.category_id}
+                  type="button"
+                  onClick={() =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      category_id: suggestion.category_id,
+                    }))
+                  }
+                  disabled={isSubmitting}
+                  className="flex items-center space-x-1 rounded-full border border-slate-600 px-2 py-0.5 text-slate-200 hover:bg-slate-700"
+                >
+                  <div
+                    className="w-2 h-2 rounded-full"
+                    style={{ backgroundColor: suggestion.category_color }}
+                  />
+                  <span>{suggestion.category_name}</span>
+                  <span className="text-slate-400">
+                    {Math.round(suggestion.confidence * 100)}%
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {accounts.length > 0 && (
+        <div className="space-y-2">
+          <Label className="text-slate-200">Account (Optional)</Label>
+          <Select
+            value={formData.account_id || "none"}
+            onValueChange={(value) =>
+              setFormData((prev) => ({
+                ...prev,
+                account_id: value === "none" ? undefined : value,
+              }))
+            }
+            disabled={isSubmitting}
+          >
+            <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+              <SelectValue placeholder="Select account" />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-600">
+              <SelectItem
+                value="none"
+                className="text-slate-100 focus:bg-slate-700 focus:text-slate-100"
+              >
+                No account
+              </SelectItem>
+              {accounts.map((account) => (
                 <SelectItem
-                  key={category.id}
-                  value={category.id}
+                  key={account.id}
+                  value={account.id}
                   className="text-slate-100 focus:bg-slate-700 focus:text-slate-100"
                 >
-                  <div className="flex items-center space-x-2">
-                    <div
-                      className="w-3 h-3 rounded-full"
-                      style={{ backgroundColor: category.color }}
-                    />
-                    <span>{category.name}</span>
-                  </div>
+                  {account.name}
                 </SelectItem>
               ))}
             </SelectContent>
@@ -253,6 +510,38 @@ export function AddTransactionForm({
         />
       </div>
 
+      <div className="space-y-2">
+        <Label htmlFor="notes" className="text-slate-200">
+          Notes (Optional)
+        </Label>
+        <Textarea
+          id="notes"
+          placeholder="Anything worth remembering, e.g. who it was split with"
+          value={formData.notes}
+          onChange={(e) =>
+            setFormData((prev) => ({ ...prev, notes: e.target.value }))
+          }
+          disabled={isSubmitting}
+          className="min-h-[60px] bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="tags" className="text-slate-200">
+          Tags (Optional)
+        </Label>
+        <Input
+          id="tags"
+          placeholder="e.g. japan 2026, wedding"
+          value={formData.tags}
+          onChange={(e) =>
+            setFormData((prev) => ({ ...prev, tags: e.target.value }))
+          }
+          disabled={isSubmitting}
+          className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+        />
+      </div>
+
       <div className="flex space-x-2 pt-4">
         <Button
           type="submit"
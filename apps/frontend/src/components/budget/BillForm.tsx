@@ -0,0 +1,398 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "react-hot-toast";
+import { billsAPI, Bill, BillFrequency } from "@/services/api";
+
+interface BillFormProps {
+  onSuccess?: (bill: Bill) => void;
+  onCancel?: () => void;
+  initialData?: Bill;
+}
+
+const frequencyOptions: { value: BillFrequency; label: string }[] = [
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+  { value: "quarterly", label: "Quarterly" },
+  { value: "yearly", label: "Yearly" },
+];
+
+const weekdays = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const months = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+const selectItemClass =
+  "text-slate-100 focus:bg-slate-700 focus:text-slate-100";
+
+export function BillForm({ onSuccess, onCancel, initialData }: BillFormProps) {
+  const isEditing = !!initialData;
+  const [formData, setFormData] = useState<{
+    payee: string;
+    amount: string;
+    amount_type: Bill["amount_type"];
+    frequency: BillFrequency;
+    due_day: string;
+    due_month: string;
+    autopay: boolean;
+    match_text: string;
+    start_date: string;
+  }>({
+    payee: initialData?.payee || "",
+    amount: initialData?.amount.toString() || "",
+    amount_type: initialData?.amount_type || "fixed",
+    frequency: initialData?.frequency || "monthly",
+    due_day: initialData?.due_day.toString() || "1",
+    due_month: initialData?.due_month?.toString() || "1",
+    autopay: initialData?.autopay || false,
+    match_text: initialData?.match_text || "",
+    start_date: initialData?.start_date
+      ? initialData.start_date.split("T")[0]
+      : new Date().toISOString().split("T")[0],
+  });
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = <K extends keyof typeof formData>(
+    key: K,
+    value: (typeof formData)[K]
+  ) => setFormData((prev) => ({ ...prev, [key]: value }));
+
+  // Weekly bills are due on a weekday, so switching to or from weekly
+  // resets the due day to something valid for the new frequency
+  const handleFrequencyChange = (frequency: BillFrequency) =>
+    setFormData((prev) => ({
+      ...prev,
+      frequency,
+      due_day:
+        (frequency === "weekly") === (prev.frequency === "weekly")
+          ? prev.due_day
+          : "1",
+    }));
+
+  const needsMonth =
+    formData.frequency === "quarterly" || formData.frequency === "yearly";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!formData.payee || !formData.amount) {
+      setError("Please fill in all required fields");
+      return;
+    }
+
+    if (isNaN(Number(formData.amount)) || Number(formData.amount) <= 0) {
+      setError("Please enter a valid positive amount");
+      return;
+    }
+
+    const dueDay = Number(formData.due_day);
+    if (
+      formData.frequency !== "weekly" &&
+      !(Number.isInteger(dueDay) && dueDay >= 1 && dueDay <= 31)
+    ) {
+      setError("Please enter a due day between 1 and 31");
+      return;
+    }
+
+    const payload = {
+      payee: formData.payee,
+      amount: Number(formData.amount),
+      amount_type: formData.amount_type,
+      frequency: formData.frequency,
+      due_day: dueDay,
+      due_month: needsMonth ? Number(formData.due_month) : null,
+      autopay: formData.autopay,
+      match_text: formData.match_text.trim() || null,
+      start_date: formData.start_date,
+    };
+
+    setIsSubmitting(true);
+    try {
+      const bill =
+        isEditing && initialData
+          ? await billsAPI.update(initialData.id, payload)
+          : await billsAPI.create({
+              ...payload,
+              // The create endpoint treats missing fields as "not set"
+              due_month: payload.due_month || undefined,
+              match_text: payload.match_text || undefined,
+            });
+
+      toast.success(
+        isEditing ? "Bill updated" : `${formData.payee} added to your bills`
+      );
+      onSuccess?.(bill);
+    } catch (error: any) {
+      const message =
+        error.response?.data?.error ||
+        error.message ||
+        `Failed to ${isEditing ? "update" : "create"} bill`;
+      setError(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="text-sm text-red-400 bg-red-950/50 border border-red-800 p-2 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="bill-payee" className="text-slate-200">
+          Payee *
+        </Label>
+        <Input
+          id="bill-payee"
+          placeholder="e.g. Electricity, Netflix, Rent"
+          value={formData.payee}
+          onChange={(e) => update("payee", e.target.value)}
+          required
+          disabled={isSubmitting}
+          className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="bill-amount" className="text-slate-200">
+            Amount *
+          </Label>
+          <Input
+            id="bill-amount"
+            type="number"
+            step="0.01"
+            placeholder="0.00"
+            value={formData.amount}
+            onChange={(e) => update("amount", e.target.value)}
+            required
+            disabled={isSubmitting}
+            className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-slate-200">Amount is</Label>
+          <Select
+            value={formData.amount_type}
+            onValueChange={(value: Bill["amount_type"]) =>
+              update("amount_type", value)
+            }
+            disabled={isSubmitting}
+          >
+            <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-600">
+              <SelectItem value="fixed" className={selectItemClass}>
+                Fixed
+              </SelectItem>
+              <SelectItem value="estimated" className={selectItemClass}>
+                Estimated
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label className="text-slate-200">Due</Label>
+          <Select
+            value={formData.frequency}
+            onValueChange={handleFrequencyChange}
+            disabled={isSubmitting}
+          >
+            <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-600">
+              {frequencyOptions.map((option) => (
+                <SelectItem
+                  key={option.value}
+                  value={option.value}
+                  className={selectItemClass}
+                >
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {formData.frequency === "weekly" ? (
+          <div className="space-y-2">
+            <Label className="text-slate-200">On</Label>
+            <Select
+              value={formData.due_day}
+              onValueChange={(value) => update("due_day", value)}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-600">
+                {weekdays.map((weekday, day) => (
+                  <SelectItem
+                    key={weekday}
+                    value={day.toString()}
+                    className={selectItemClass}
+                  >
+                    {weekday}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="bill-due-day" className="text-slate-200">
+              Day of month
+            </Label>
+            <Input
+              id="bill-due-day"
+              type="number"
+              min={1}
+              max={31}
+              value={formData.due_day}
+              onChange={(e) => update("due_day", e.target.value)}
+              required
+              disabled={isSubmitting}
+              className="bg-slate-800 border-slate-600 text-slate-100"
+            />
+          </div>
+        )}
+      </div>
+
+      {needsMonth && (
+        <div className="space-y-2">
+          <Label className="text-slate-200">
+            {formData.frequency === "quarterly"
+              ? "A month it's due in"
+              : "Month"}
+          </Label>
+          <Select
+            value={formData.due_month}
+            onValueChange={(value) => update("due_month", value)}
+            disabled={isSubmitting}
+          >
+            <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-600">
+              {months.map((month, i) => (
+                <SelectItem
+                  key={month}
+                  value={(i + 1).toString()}
+                  className={selectItemClass}
+                >
+                  {month}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="bill-start" className="text-slate-200">
+          Starts on
+        </Label>
+        <Input
+          id="bill-start"
+          type="date"
+          value={formData.start_date}
+          onChange={(e) => update("start_date", e.target.value)}
+          required
+          disabled={isSubmitting}
+          className="bg-slate-800 border-slate-600 text-slate-100"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="bill-match" className="text-slate-200">
+          Match payments containing (Optional)
+        </Label>
+        <Input
+          id="bill-match"
+          placeholder={formData.payee || "Defaults to the payee"}
+          value={formData.match_text}
+          onChange={(e) => update("match_text", e.target.value)}
+          disabled={isSubmitting}
+          className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+        />
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm text-slate-300">
+        <input
+          type="checkbox"
+          checked={formData.autopay}
+          onChange={(e) => update("autopay", e.target.checked)}
+          disabled={isSubmitting}
+        />
+        <span>Paid automatically (autopay)</span>
+      </label>
+
+      <div className="flex space-x-2 pt-4">
+        <Button
+          type="submit"
+          className="flex-1 bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white"
+          disabled={isSubmitting}
+        >
+          {isSubmitting
+            ? isEditing
+              ? "Saving..."
+              : "Creating..."
+            : isEditing
+            ? "Save Changes"
+            : "Add Bill"}
+        </Button>
+        {onCancel && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+          >
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Pause, Play, Pencil, Trash2, Receipt } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { billsAPI, Bill } from "@/services/api";
+import { formatMoney } from "@/lib/utils";
+import { useUser } from "@/stores/authStore";
+import { BillForm } from "./BillForm";
+
+interface BillListProps {
+  bills: Bill[];
+  onChange: () => void;
+  emptyMessage?: string;
+}
+
+const weekdays = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const formatDate = (date: string) =>
+  format(parseISO(date.split("T")[0]), "MMM d, yyyy");
+
+function describeSchedule(bill: Bill): string {
+  switch (bill.frequency) {
+    case "weekly":
+      return `Weekly on ${weekdays[bill.due_day]}`;
+    case "monthly":
+      return `Monthly on day ${bill.due_day}`;
+    case "quarterly":
+      return `Quarterly on day ${bill.due_day}`;
+    case "yearly":
+      return `Yearly on ${format(
+        new Date(2000, (bill.due_month ?? 1) - 1, 1),
+        "MMMM"
+      )} ${bill.due_day}`;
+  }
+}
+
+export function BillList({
+  bills,
+  onChange,
+  emptyMessage = "No bills yet",
+}: BillListProps) {
+  // Bill amounts are in the base currency
+  const baseCurrency = useUser()?.base_currency ?? "USD";
+  const [editingBill, setEditingBill] = useState<Bill | null>(null);
+
+  const toggleActive = async (bill: Bill) => {
+    try {
+      await billsAPI.update(bill.id, { is_active: !bill.is_active });
+      toast.success(`${bill.payee} ${bill.is_active ? "paused" : "resumed"}`);
+      onChange();
+    } catch (error) {
+      console.error("Failed to update bill:", error);
+      toast.error("Failed to update bill");
+    }
+  };
+
+  const handleDelete = async (bill: Bill) => {
+    const confirmed = window.confirm(
+      `Delete "${bill.payee}"? Its payment history is removed too; the transactions themselves are kept.`
+    );
+    if (!confirmed) return;
+
+    try {
+      await billsAPI.delete(bill.id);
+      toast.success("Bill deleted");
+      onChange();
+    } catch (error) {
+      console.error("Failed to delete bill:", error);
+      toast.error("Failed to delete bill");
+    }
+  };
+
+  if (bills.length === 0) {
+    return (
+      <Card className="border-0 shadow-lg bg-slate-900 border-slate-800">
+        <CardContent className="p-12 text-center">
+          <Receipt className="h-12 w-12 text-slate-600 mx-auto mb-4" />
+          <p className="text-slate-400">{emptyMessage}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {bills.map((bill, index) => (
+        <motion.div
+          key={bill.id}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: index * 0.05 }}
+        >
+          <Card
+            className={`border-0 shadow-lg bg-slate-900 border-slate-800 ${
+              bill.is_active ? "" : "opacity-60"
+            }`}
+          >
+            <CardContent className="p-4">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-slate-100 truncate">
+                      {bill.payee}
+                    </p>
+                    {bill.autopay && (
+                      <Badge
+                        variant="outline"
+                        className="border-slate-600 text-slate-400"
+                      >
+                        Autopay
+                      </Badge>
+                    )}
+                    {!bill.is_active && (
+                      <Badge
+                        variant="outline"
+                        className="border-amber-700 text-amber-400"
+                      >
+                        Paused
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-slate-400">
+                    {describeSchedule(bill)}
+                    {bill.match_text && ` · matches "${bill.match_text}"`}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {bill.is_active && bill.next_due_date
+                      ? `Next due: ${formatDate(bill.next_due_date)}`
+                      : "Not tracking"}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-red-400 mr-2">
+                    {bill.amount_type === "estimated" && "~"}
+                    {formatMoney(bill.amount, baseCurrency)}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title={bill.is_active ? "Pause" : "Resume"}
+                    className="text-slate-400 hover:text-slate-100 hover:bg-slate-800"
+                    onClick={() => toggleActive(bill)}
+                  >
+                    {bill.is_active ? (
+                      <Pause className="h-4 w-4" />
+                    ) : (
+                      <Play className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Edit"
+                    className="text-slate-400 hover:text-slate-100 hover:bg-slate-800"
+                    onClick={() => setEditingBill(bill)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Delete"
+                    className="text-slate-400 hover:text-red-400 hover:bg-slate-800"
+                    onClick={() => handleDelete(bill)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </motion.div>
+      ))}
+
+      <Dialog
+        open={editingBill !== null}
+        onOpenChange={(open) => !open && setEditingBill(null)}
+      >
+        <DialogContent className="bg-slate-900 border-slate-700 max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-xl font-bold text-slate-100">
+              Edit Bill
+            </DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Payments already recorded are kept
+            </DialogDescription>
+          </DialogHeader>
+          {editingBill && (
+            <BillForm
+              initialData={editingBill}
+              onSuccess={() => {
+                setEditingBill(null);
+                onChange();
+              }}
+              onCancel={() => setEditingBill(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { motion } from "framer-motion";
 import {
   Card,
@@ -19,10 +19,16 @@ import {
   PiggyBank,
 } from "lucide-react";
 import {
+  useBudgetStore,
   useTransactions,
   useCategories,
+  useBudgets,
   useIsLoading,
+  inBaseCurrency,
 } from "@/stores/budgetStore";
+import { useUser } from "@/stores/authStore";
+import { formatMoney } from "@/lib/utils";
+import { getChildCategories, getDescendantIds } from "@/lib/categoryTree";
 
 import { AddTransactionForm } from "./AddTransactionForm";
 import { AddCategoryForm } from "./AddCategoryForm";
@@ -33,13 +39,15 @@ import {
   BudgetProgressChart,
 } from "./Charts";
 import { RecentTransactions, QuickStats } from "./TransactionWidgets";
+import { UpcomingBills } from "./UpcomingBills";
 import { DateFilterComponent, DateFilter } from "./DateFilter";
 import { isWithinInterval, startOfDay, endOfDay } from "date-fns";
 
 interface BudgetAnalysis {
   id: string;
   name: string;
-  budget: number;
+  budget: number; // including anything carried in from last month
+  carriedIn: number;
   spent: number;
   remaining: number;
   percentageUsed: number;
@@ -49,6 +57,9 @@ interface BudgetAnalysis {
 export function BudgetDashboard() {
   const transactions = useTransactions();
   const categories = useCategories();
+  const budgets = useBudgets();
+  const { loadBudgets } = useBudgetStore();
+  const baseCurrency = useUser()?.base_currency ?? "USD";
   const isLoading = useIsLoading();
   const [showAddForm, setShowAddForm] = useState<
     "transaction" | "category" | null
@@ -58,23 +69,28 @@ export function BudgetDashboard() {
     to: undefined,
     preset: undefined,
   });
-  // Calculate budget analysis from existing categories data
-  const budgetAnalysis: BudgetAnalysis[] = categories.map((category) => {
-    const spent = category.spent || 0;
-    const budget = category.budget || 0;
-    const remaining = budget - spent;
-    const percentageUsed = budget > 0 ? (spent / budget) * 100 : 0;
+  // Category whose subcategories the breakdown chart shows; null for the
+  // top level
+  const [breakdownParentId, setBreakdownParentId] = useState<string | null>(
+    null
+  );
 
-    return {
-      id: category.id,
-      name: category.name,
-      budget,
-      spent,
-      remaining,
-      percentageUsed,
-      color: category.color,
-    };
-  });
+  // Spending moves this month's budgets, so refetch them as it changes
+  useEffect(() => {
+    loadBudgets();
+  }, [transactions, loadBudgets]);
+
+  // This month's budgets: each category's explicit budget or its default
+  const budgetAnalysis: BudgetAnalysis[] = budgets.map((budget) => ({
+    id: budget.category_id,
+    name: budget.category_name,
+    budget: budget.effective_limit,
+    carriedIn: budget.carried_in,
+    spent: budget.spent_amount,
+    remaining: budget.remaining_amount,
+    percentageUsed: budget.percentage_used,
+    color: budget.category_color,
+  }));
 
   // Get recent transactions (last 5) - ensure transactions is always an array
   const safeTransactions = (() => {
@@ -113,11 +129,11 @@ export function BudgetDashboard() {
   // Calculate filtered totals for date-dependent sections
   const filteredIncome = filteredTransactions
     .filter((t) => t.type === "income")
-    .reduce((sum, t) => sum + (Number(t.amount) || 0), 0);
+    .reduce((sum, t) => sum + inBaseCurrency(t), 0);
 
   const filteredExpenses = filteredTransactions
     .filter((t) => t.type === "expense")
-    .reduce((sum, t) => sum + (Number(t.amount) || 0), 0);
+    .reduce((sum, t) => sum + inBaseCurrency(t), 0);
 
   const filteredBalance = filteredIncome - filteredExpenses;
 
@@ -143,7 +159,7 @@ export function BudgetDashboard() {
           : t.date;
         return t.type === "expense" && transactionDate === day.date;
       });
-      return dayExpenses.reduce((sum, t) => sum + (Number(t.amount) || 0), 0);
+      return dayExpenses.reduce((sum, t) => sum + inBaseCurrency(t), 0);
     });
 
     const incomeData = last7Days.map((day) => {
@@ -154,7 +170,7 @@ export function BudgetDashboard() {
           : t.date;
         return t.type === "income" && transactionDate === day.date;
       });
-      return dayIncome.reduce((sum, t) => sum + (Number(t.amount) || 0), 0);
+      return dayIncome.reduce((sum, t) => sum + inBaseCurrency(t), 0);
     });
 
     return {
@@ -177,21 +193,49 @@ export function BudgetDashboard() {
       ],
     };
   };
-  const generateCategoryBreakdownData = () => {
-    // Calculate actual spending per category using filtered transactions
-    const categorySpending = categories
-      .map((cat) => {
-        const spent = filteredTransactions
-          .filter((t) => t.category_id === cat.id && t.type === "expense")
-          .reduce((sum, t) => sum + (Number(t.amount) || 0), 0);
-
-        return {
-          name: cat.name,
-          value: spent,
-          color: cat.color || "#6b7280",
-        };
+  // Spending per slice at the current drill-down level. Each slice rolls
+  // up its subcategories; the parent's own spending gets a slice too.
+  const getCategoryBreakdown = () => {
+    const spentOn = (categoryIds: Set<string>) =>
+      filteredTransactions
+        .filter(
+          (t) =>
+            t.type === "expense" &&
+            !!t.category_id &&
+            categoryIds.has(t.category_id)
+        )
+        .reduce((sum, t) => sum + inBaseCurrency(t), 0);
+
+    const slices = getChildCategories(categories, breakdownParentId).map(
+      (cat) => ({
+        id: cat.id,
+        name: cat.name,
+        value: spentOn(getDescendantIds(categories, cat.id)),
+        color: cat.color || "#6b7280",
+        canDrillDown: getChildCategories(categories, cat.id).length > 0,
       })
-      .filter((cat) => cat.value > 0); // Only show categories with spending
+    );
+
+    const parent = categories.find((cat) => cat.id === breakdownParentId);
+    if (parent) {
+      slices.push({
+        id: parent.id,
+        name: `${parent.name} (other)`,
+        value: spentOn(new Set([parent.id])),
+        color: "#6b7280",
+        canDrillDown: false,
+      });
+    }
+
+    return {
+      title: parent ? parent.name : "Category Breakdown",
+      slices: slices.filter((slice) => slice.value > 0), // Only show categories with spending
+    };
+  };
+  const categoryBreakdown = getCategoryBreakdown();
+
+  const generateCategoryBreakdownData = () => {
+    const categorySpending = categoryBreakdown.slices;
 
     // If no spending data, show placeholder
     if (categorySpending.length === 0) {
@@ -370,7 +414,7 @@ export function BudgetDashboard() {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
           <StatCard
             title="Balance"
-            value={`$${filteredBalance.toFixed(2)}`}
+            value={formatMoney(filteredBalance, baseCurrency)}
             change={
               filteredBalance >= 0 ? "Positive balance" : "Negative balance"
             }
@@ -381,7 +425,7 @@ export function BudgetDashboard() {
           />
           <StatCard
             title="Income"
-            value={`$${filteredIncome.toFixed(2)}`}
+            value={formatMoney(filteredIncome, baseCurrency)}
             change={`${
               filteredTransactions.filter((t) => t.type === "income").length
             } transactions`}
@@ -392,7 +436,7 @@ export function BudgetDashboard() {
           />
           <StatCard
             title="Expenses"
-            value={`$${filteredExpenses.toFixed(2)}`}
+            value={formatMoney(filteredExpenses, baseCurrency)}
             change={`${
               filteredTransactions.filter((t) => t.type === "expense").length
             } transactions`}
@@ -430,6 +474,22 @@ export function BudgetDashboard() {
           <CategoryBreakdownChart
             data={generateCategoryBreakdownData()}
             index={8}
+            title={categoryBreakdown.title}
+            onSegmentClick={(segmentIndex) => {
+              const slice = categoryBreakdown.slices[segmentIndex];
+              if (slice?.canDrillDown) {
+                setBreakdownParentId(slice.id);
+              }
+            }}
+            onBack={
+              breakdownParentId
+                ? () =>
+                    setBreakdownParentId(
+                      categories.find((cat) => cat.id === breakdownParentId)
+                        ?.parent_id ?? null
+                    )
+                : undefined
+            }
           />
         </div>
       </motion.div>{" "}
@@ -447,7 +507,7 @@ export function BudgetDashboard() {
           </h3>
         </div>
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          <div className="lg:col-span-1">
+          <div className="lg:col-span-1 space-y-6">
             <QuickStats
               totalIncome={filteredIncome}
               totalExpenses={filteredExpenses}
@@ -455,6 +515,7 @@ export function BudgetDashboard() {
               transactionCount={filteredTransactions.length}
               index={9}
             />
+            <UpcomingBills index={10} />
           </div>
           <div className="lg:col-span-2">
             <RecentTransactions transactions={recentTransactions} index={10} />
@@ -503,12 +564,12 @@ export function BudgetDashboard() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  {budgetAnalysis.slice(0, 4).map((item, i) => (
+                  {budgetAnalysis.map((item, i) => (
                     <motion.div
                       key={item.id}
                       initial={{ opacity: 0, x: -20 }}
                       animate={{ opacity: 1, x: 0 }}
-                      transition={{ delay: 0.6 + i * 0.1 }}
+                      transition={{ delay: 0.6 + Math.min(i, 5) * 0.1 }}
                       className="flex items-center justify-between p-3 rounded-lg bg-slate-800/50 border border-slate-700"
                     >
                       <div className="flex items-center space-x-3">
@@ -521,9 +582,25 @@ export function BudgetDashboard() {
                             {item.name}
                           </p>
                           <p className="text-sm text-slate-400">
-                            ${item.spent.toFixed(2)} of $
-                            {item.budget.toFixed(2)}
+                            {formatMoney(item.spent, baseCurrency)} of{" "}
+                            {formatMoney(item.budget, baseCurrency)}
                           </p>
+                          {item.carriedIn !== 0 && (
+                            <p
+                              className={`text-xs ${
+                                item.carriedIn > 0
+                                  ? "text-green-400"
+                                  : "text-red-400"
+                              }`}
+                            >
+                              {item.carriedIn > 0 ? "+" : "-"}
+                              {formatMoney(
+                                Math.abs(item.carriedIn),
+                                baseCurrency
+                              )}{" "}
+                              carried in from last month
+                            </p>
+                          )}
                         </div>
                       </div>
                       <div className="text-right">
@@ -537,7 +614,7 @@ export function BudgetDashboard() {
                           {item.percentageUsed.toFixed(1)}%
                         </p>
                         <p className="text-sm text-slate-400">
-                          ${item.remaining.toFixed(2)} left
+                          {formatMoney(item.remaining, baseCurrency)} left
                         </p>
                       </div>
                     </motion.div>
@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "react-hot-toast";
+import {
+  budgetTemplatesAPI,
+  BudgetLimit,
+  BudgetTemplate,
+  RolloverMode,
+} from "@/services/api";
+import { useCategories } from "@/stores/budgetStore";
+import { getCategoryOptions } from "@/lib/categoryTree";
+
+interface BudgetTemplateFormProps {
+  onSuccess?: (template: BudgetTemplate) => void;
+  onCancel?: () => void;
+  initialData?: BudgetTemplate;
+}
+
+const ROLLOVER_LABELS: Record<RolloverMode, string> = {
+  none: "No rollover",
+  surplus: "Carry surplus",
+  deficit: "Carry deficit",
+  both: "Carry both",
+};
+
+// Amount text and rollover per category, as edited in the form
+type ItemDrafts = Record<string, { amount: string; rollover: RolloverMode }>;
+
+const toDrafts = (items: BudgetLimit[]): ItemDrafts =>
+  Object.fromEntries(
+    items.map((item) => [
+      item.category_id,
+      { amount: String(item.limit_amount), rollover: item.rollover_mode },
+    ])
+  );
+
+export function BudgetTemplateForm({
+  onSuccess,
+  onCancel,
+  initialData,
+}: BudgetTemplateFormProps) {
+  const categories = useCategories();
+  const [name, setName] = useState(initialData?.name || "");
+  const [drafts, setDrafts] = useState<ItemDrafts>(() =>
+    toDrafts(initialData?.items ?? [])
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isEditing = !!initialData;
+
+  const options = getCategoryOptions(categories, Object.keys(drafts));
+
+  const setDraft = (
+    categoryId: string,
+    change: Partial<{ amount: string; rollover: RolloverMode }>
+  ) =>
+    setDrafts((prev) => ({
+      ...prev,
+      [categoryId]: {
+        amount: prev[categoryId]?.amount ?? "",
+        rollover: prev[categoryId]?.rollover ?? "none",
+        ...change,
+      },
+    }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!name.trim()) {
+      setError("Please give the template a name");
+      return;
+    }
+
+    // Categories left empty aren't part of the template
+    const items: BudgetLimit[] = [];
+    for (const [categoryId, draft] of Object.entries(drafts)) {
+      if (draft.amount.trim() === "") continue;
+      const amount = parseFloat(draft.amount);
+      if (isNaN(amount) || amount <= 0) {
+        setError("Budget amounts must be positive");
+        return;
+      }
+      items.push({
+        category_id: categoryId,
+        limit_amount: amount,
+        rollover_mode: draft.rollover,
+      });
+    }
+
+    setIsSubmitting(true);
+    try {
+      const template =
+        isEditing && initialData
+          ? await budgetTemplatesAPI.update(initialData.id, {
+              name: name.trim(),
+              items,
+            })
+          : await budgetTemplatesAPI.create({ name: name.trim(), items });
+
+      toast.success(
+        `Template ${template.name} ${isEditing ? "updated" : "created"}`
+      );
+      onSuccess?.(template);
+    } catch (error: any) {
+      setError(
+        error.response?.data?.error ||
+          error.message ||
+          `Failed to ${isEditing ? "update" : "create"} template`
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="text-sm text-red-400 bg-red-950/50 border border-red-800 p-2 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="template-name" className="text-slate-200">
+          Name *
+        </Label>
+        <Input
+          id="template-name"
+          placeholder="e.g. Normal month"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={isSubmitting}
+          className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-slate-200">Monthly limits</Label>
+        <div className="max-h-80 overflow-y-auto space-y-2 pr-1">
+          {options.map((category) => (
+            <div key={category.id} className="flex items-center gap-2">
+              <span
+                className="flex-1 text-sm text-slate-300 truncate"
+                style={{ paddingLeft: `${category.depth}rem` }}
+              >
+                {category.name}
+              </span>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="—"
+                value={drafts[category.id]?.amount ?? ""}
+                onChange={(e) =>
+                  setDraft(category.id, { amount: e.target.value })
+                }
+                disabled={isSubmitting}
+                className="h-8 w-28 text-right bg-slate-800 border-slate-600 text-slate-100"
+              />
+              <Select
+                value={drafts[category.id]?.rollover ?? "none"}
+                onValueChange={(value) =>
+                  setDraft(category.id, { rollover: value as RolloverMode })
+                }
+                disabled={isSubmitting || !drafts[category.id]?.amount}
+              >
+                <SelectTrigger className="h-8 w-36 bg-slate-800 border-slate-600 text-slate-100">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-600">
+                  {Object.entries(ROLLOVER_LABELS).map(([mode, label]) => (
+                    <SelectItem
+                      key={mode}
+                      value={mode}
+                      className="text-slate-100 focus:bg-slate-700 focus:text-slate-100"
+                    >
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex space-x-2 pt-4">
+        <Button
+          type="submit"
+          className="flex-1 bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white"
+          disabled={isSubmitting}
+        >
+          {isSubmitting
+            ? isEditing
+              ? "Updating..."
+              : "Creating..."
+            : isEditing
+            ? "Update Template"
+            : "Create Template"}
+        </Button>
+        {onCancel && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+          >
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "react-hot-toast";
+import {
+  budgetsAPI,
+  BudgetConflictMode,
+  BudgetMonth,
+  BudgetTemplate,
+} from "@/services/api";
+
+interface BulkBudgetDialogProps {
+  templates: BudgetTemplate[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+// Source value for copying the month before the range starts
+const PREVIOUS_MONTH = "previous";
+
+const CONFLICT_LABELS: Record<BudgetConflictMode, string> = {
+  skip: "Keep the existing budget",
+  overwrite: "Replace it",
+  add: "Add to it",
+};
+
+// "YYYY-MM" as used by month inputs
+const toMonthValue = ({ month, year }: BudgetMonth) =>
+  `${year}-${String(month).padStart(2, "0")}`;
+
+const parseMonthValue = (value: string): BudgetMonth | null => {
+  const match = /^(\d{4})-(\d{2})$/.exec(value);
+  return match ? { year: Number(match[1]), month: Number(match[2]) } : null;
+};
+
+const previousMonth = ({ month, year }: BudgetMonth): BudgetMonth =>
+  month === 1 ? { month: 12, year: year - 1 } : { month: month - 1, year };
+
+export function BulkBudgetDialog({
+  templates,
+  open,
+  onOpenChange,
+  onSuccess,
+}: BulkBudgetDialogProps) {
+  const now = new Date();
+  const thisMonth = toMonthValue({
+    month: now.getMonth() + 1,
+    year: now.getFullYear(),
+  });
+  const [source, setSource] = useState(PREVIOUS_MONTH);
+  const [start, setStart] = useState(thisMonth);
+  const [end, setEnd] = useState(thisMonth);
+  const [conflict, setConflict] = useState<BudgetConflictMode>("skip");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = async () => {
+    setError(null);
+    const startMonth = parseMonthValue(start);
+    const endMonth = parseMonthValue(end);
+    if (!startMonth || !endMonth) {
+      setError("Pick the first and last month");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await budgetsAPI.bulkApply({
+        source:
+          source === PREVIOUS_MONTH
+            ? previousMonth(startMonth)
+            : { template_id: source },
+        start: startMonth,
+        end: endMonth,
+        conflict,
+      });
+      toast.success(
+        `${result.created} created, ${result.updated} updated, ${result.skipped} skipped`
+      );
+      onOpenChange(false);
+      onSuccess();
+    } catch (error: any) {
+      setError(error.response?.data?.error || "Failed to apply budgets");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-900 border-slate-700 text-white max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-white">Fill Months</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Set budgets for a range of months in one go
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <div className="text-sm text-red-400 bg-red-950/50 border border-red-800 p-2 rounded">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-slate-200">Budgets from</Label>
+            <Select
+              value={source}
+              onValueChange={setSource}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-600">
+                <SelectItem
+                  value={PREVIOUS_MONTH}
+                  className="text-slate-100 focus:bg-slate-700 focus:text-slate-100"
+                >
+                  The month before the first month
+                </SelectItem>
+                {templates.map((template) => (
+                  <SelectItem
+                    key={template.id}
+                    value={template.id}
+                    className="text-slate-100 focus:bg-slate-700 focus:text-slate-100"
+                  >
+                    Template: {template.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="bulk-start" className="text-slate-200">
+                First month
+              </Label>
+              <Input
+                id="bulk-start"
+                type="month"
+                value={start}
+                onChange={(e) => setStart(e.target.value)}
+                disabled={isSubmitting}
+                className="bg-slate-800 border-slate-600 text-slate-100"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-end" className="text-slate-200">
+                Last month
+              </Label>
+              <Input
+                id="bulk-end"
+                type="month"
+                value={end}
+                onChange={(e) => setEnd(e.target.value)}
+                disabled={isSubmitting}
+                className="bg-slate-800 border-slate-600 text-slate-100"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-slate-200">
+              When a month already has a budget
+            </Label>
+            <Select
+              value={conflict}
+              onValueChange={(value) =>
+                setConflict(value as BudgetConflictMode)
+              }
+              disabled={isSubmitting}
+            >
+              <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-600">
+                {Object.entries(CONFLICT_LABELS).map(([mode, label]) => (
+                  <SelectItem
+                    key={mode}
+                    value={mode}
+                    className="text-slate-100 focus:bg-slate-700 focus:text-slate-100"
+                  >
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex space-x-2 pt-2">
+            <Button
+              onClick={handleApply}
+              disabled={isSubmitting}
+              className="flex-1 bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white"
+            >
+              {isSubmitting ? "Applying..." : "Apply"}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+              className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -26,15 +26,30 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { MoreHorizontal, Edit, Trash2, Plus, Folder } from "lucide-react";
+import {
+  MoreHorizontal,
+  Edit,
+  Trash2,
+  Plus,
+  Folder,
+  ChevronDown,
+  ChevronRight,
+  Archive,
+  ArchiveRestore,
+  Merge,
+} from "lucide-react";
 import { AddCategoryForm } from "@/components/budget/AddCategoryForm";
-import { useBudgetStore } from "@/stores/budgetStore";
+import { MergeCategoryDialog } from "@/components/budget/MergeCategoryDialog";
+import { Badge } from "@/components/ui/badge";
+import { useBudgetStore, useBudgets } from "@/stores/budgetStore";
+import { getChildCategories } from "@/lib/categoryTree";
 import { toast } from "react-hot-toast";
 import type { Category } from "@/stores/budgetStore";
 
 interface CategoryListProps {
   categories: Category[];
   emptyMessage?: string;
+  showArchived?: boolean;
 }
 
 interface EditCategoryDialogProps {
@@ -49,6 +64,34 @@ interface DeleteCategoryDialogProps {
   trigger: React.ReactNode;
 }
 
+interface CategoryCardProps {
+  category: Category;
+  subcategoryCount: number;
+  isExpanded: boolean;
+  onToggle: () => void;
+}
+
+interface CategoryTreeNodeProps {
+  category: Category;
+  categories: Category[]; // all categories, to find subcategories
+  showArchived: boolean;
+}
+
+const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+
+// Archived categories are hidden unless asked for, but still shown when a
+// subcategory under them is not archived
+const isVisible = (
+  category: Category,
+  categories: Category[],
+  showArchived: boolean
+): boolean =>
+  showArchived ||
+  !category.is_archived ||
+  getChildCategories(categories, category.id).some((child) =>
+    isVisible(child, categories, showArchived)
+  );
+
 function EditCategoryDialog({
   category,
   isOpen,
@@ -85,7 +128,7 @@ function DeleteCategoryDialog({
           </AlertDialogTitle>
           <AlertDialogDescription className="text-slate-400">
             Are you sure you want to delete this category? This action cannot be
-            undone.
+            undone. Its subcategories move up to its parent.
             <div className="mt-3 p-3 bg-slate-800 rounded-lg border border-slate-700">
               <div className="flex items-center space-x-3">
                 <div
@@ -95,7 +138,7 @@ function DeleteCategoryDialog({
                 <div>
                   <div className="font-medium text-white">{category.name}</div>
                   <div className="text-sm text-slate-400">
-                    Budget: ${category.budget.toFixed(2)}
+                    Default budget: ${category.budget.toFixed(2)}
                   </div>
                 </div>
               </div>
@@ -118,14 +161,26 @@ function DeleteCategoryDialog({
   );
 }
 
-function CategoryCard({ category }: { category: Category }) {
+function CategoryCard({
+  category,
+  subcategoryCount,
+  isExpanded,
+  onToggle,
+}: CategoryCardProps) {
   const [editDialogOpen, setEditDialogOpen] = useState(false);
-  const { removeCategory } = useBudgetStore();
+  const [addSubcategoryOpen, setAddSubcategoryOpen] = useState(false);
+  const [mergeDialogOpen, setMergeDialogOpen] = useState(false);
+  const { removeCategory, saveCategory } = useBudgetStore();
+  // This month's budget: an explicit one for the month, else the default
+  const monthBudget = useBudgets().find(
+    (budget) => budget.category_id === category.id
+  );
+  const budget = monthBudget?.effective_limit ?? 0;
 
   // Calculate spent amount and percentage
   const spent = category.spent || 0;
-  const percentage = Math.min((spent / category.budget) * 100, 100);
-  const remaining = Math.max(category.budget - spent, 0);
+  const percentage = budget > 0 ? Math.min((spent / budget) * 100, 100) : 0;
+  const remaining = Math.max(budget - spent, 0);
 
   const handleDelete = async () => {
     try {
@@ -137,6 +192,17 @@ function CategoryCard({ category }: { category: Category }) {
     }
   };
 
+  const handleArchive = async () => {
+    const archiving = !category.is_archived;
+    try {
+      await saveCategory(category.id, { is_archived: archiving });
+      toast.success(archiving ? "Category archived" : "Category restored");
+    } catch (error) {
+      console.error("Archive category error:", error);
+      toast.error("Failed to update category");
+    }
+  };
+
   const getProgressColor = (percentage: number) => {
     if (percentage < 50) return "bg-green-500";
     if (percentage < 80) return "bg-yellow-500";
@@ -152,18 +218,49 @@ function CategoryCard({ category }: { category: Category }) {
         exit={{ opacity: 0, y: -20 }}
         className="group"
       >
-        <Card className="border-0 shadow-lg bg-slate-900 border-slate-800 hover:bg-slate-800/50 transition-all duration-200">
+        <Card
+          className={`border-0 shadow-lg bg-slate-900 border-slate-800 hover:bg-slate-800/50 transition-all duration-200 ${
+            category.is_archived ? "opacity-60" : ""
+          }`}
+        >
           <CardContent className="p-6">
             <div className="flex items-start justify-between mb-4">
               <div className="flex items-center space-x-3">
+                {subcategoryCount > 0 ? (
+                  <button
+                    type="button"
+                    onClick={onToggle}
+                    title={
+                      isExpanded ? "Hide subcategories" : "Show subcategories"
+                    }
+                    className="text-slate-400 hover:text-white"
+                  >
+                    {isExpanded ? (
+                      <ChevronDown className="h-4 w-4" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4" />
+                    )}
+                  </button>
+                ) : null}
                 <div
                   className="w-4 h-4 rounded-full"
                   style={{ backgroundColor: category.color }}
                 />
                 <div>
-                  <h3 className="font-semibold text-white">{category.name}</h3>
+                  <h3 className="font-semibold text-white flex items-center gap-2">
+                    {category.name}
+                    {category.is_archived && (
+                      <Badge variant="secondary" className="text-xs">
+                        Archived
+                      </Badge>
+                    )}
+                  </h3>
                   <p className="text-sm text-slate-400">
-                    ${category.budget.toFixed(2)} budget
+                    ${category.budget.toFixed(2)} default budget
+                    {subcategoryCount > 0 &&
+                      ` · ${subcategoryCount} subcategor${
+                        subcategoryCount === 1 ? "y" : "ies"
+                      }`}
                   </p>
                 </div>
               </div>
@@ -188,6 +285,31 @@ function CategoryCard({ category }: { category: Category }) {
                     <Edit className="h-4 w-4 mr-2" />
                     Edit
                   </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => setAddSubcategoryOpen(true)}
+                    className="hover:bg-slate-700 focus:bg-slate-700"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Subcategory
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => setMergeDialogOpen(true)}
+                    className="hover:bg-slate-700 focus:bg-slate-700"
+                  >
+                    <Merge className="h-4 w-4 mr-2" />
+                    Merge Into...
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={handleArchive}
+                    className="hover:bg-slate-700 focus:bg-slate-700"
+                  >
+                    {category.is_archived ? (
+                      <ArchiveRestore className="h-4 w-4 mr-2" />
+                    ) : (
+                      <Archive className="h-4 w-4 mr-2" />
+                    )}
+                    {category.is_archived ? "Unarchive" : "Archive"}
+                  </DropdownMenuItem>
                   <DeleteCategoryDialog
                     category={category}
                     onConfirm={handleDelete}
@@ -209,7 +331,8 @@ function CategoryCard({ category }: { category: Category }) {
               <div className="flex justify-between text-sm">
                 <span className="text-slate-400">Spent</span>
                 <span className="text-white font-medium">
-                  ${spent.toFixed(2)} of ${category.budget.toFixed(2)}
+                  ${spent.toFixed(2)} of ${budget.toFixed(2)}
+                  {monthBudget && !monthBudget.is_default && " this month"}
                 </span>
               </div>
 
@@ -252,11 +375,71 @@ function CategoryCard({ category }: { category: Category }) {
         isOpen={editDialogOpen}
         onOpenChange={setEditDialogOpen}
       />
+
+      <MergeCategoryDialog
+        category={category}
+        open={mergeDialogOpen}
+        onOpenChange={setMergeDialogOpen}
+      />
+
+      <Dialog open={addSubcategoryOpen} onOpenChange={setAddSubcategoryOpen}>
+        <DialogContent className="bg-slate-900 border-slate-700 text-white max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-white">
+              Add Subcategory to {category.name}
+            </DialogTitle>
+          </DialogHeader>
+          <AddCategoryForm
+            defaultParentId={category.id}
+            onSuccess={() => setAddSubcategoryOpen(false)}
+            onCancel={() => setAddSubcategoryOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
     </>
   );
 }
 
-export function CategoryList({ categories, emptyMessage }: CategoryListProps) {
+// A category card with its subcategories nested beneath it
+function CategoryTreeNode({
+  category,
+  categories,
+  showArchived,
+}: CategoryTreeNodeProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const subcategories = getChildCategories(categories, category.id)
+    .filter((subcategory) => isVisible(subcategory, categories, showArchived))
+    .sort(byName);
+
+  return (
+    <div className="space-y-3">
+      <CategoryCard
+        category={category}
+        subcategoryCount={subcategories.length}
+        isExpanded={isExpanded}
+        onToggle={() => setIsExpanded((expanded) => !expanded)}
+      />
+      {isExpanded && subcategories.length > 0 && (
+        <div className="ml-4 pl-4 border-l border-slate-700 space-y-3">
+          {subcategories.map((subcategory) => (
+            <CategoryTreeNode
+              key={subcategory.id}
+              category={subcategory}
+              categories={categories}
+              showArchived={showArchived}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function CategoryList({
+  categories,
+  emptyMessage,
+  showArchived = false,
+}: CategoryListProps) {
   if (categories.length === 0) {
     return (
       <motion.div
@@ -297,10 +480,18 @@ export function CategoryList({ categories, emptyMessage }: CategoryListProps) {
   }
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-      {categories.map((category) => (
-        <CategoryCard key={category.id} category={category} />
-      ))}
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 items-start">
+      {getChildCategories(categories, null)
+        .filter((category) => isVisible(category, categories, showArchived))
+        .sort(byName)
+        .map((category) => (
+          <CategoryTreeNode
+            key={category.id}
+            category={category}
+            categories={categories}
+            showArchived={showArchived}
+          />
+        ))}
     </div>
   );
 }
@@ -1,5 +1,7 @@
 import { motion } from "framer-motion";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft } from "lucide-react";
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -123,15 +125,27 @@ interface CategoryBreakdownProps {
     }[];
   };
   index: number;
+  title?: string;
+  // Drill-down: called with the index of the clicked segment
+  onSegmentClick?: (segmentIndex: number) => void;
+  onBack?: () => void; // shows a back button when set
 }
 
 export function CategoryBreakdownChart({
   data,
   index,
+  title = "Category Breakdown",
+  onSegmentClick,
+  onBack,
 }: CategoryBreakdownProps) {
   const options = {
     responsive: true,
     maintainAspectRatio: false,
+    onClick: (_event: unknown, elements: { index: number }[]) => {
+      if (elements.length > 0) {
+        onSegmentClick?.(elements[0].index);
+      }
+    },
     plugins: {
       legend: {
         position: "right" as const,
@@ -154,9 +168,20 @@ export function CategoryBreakdownChart({
       transition={{ delay: index * 0.1 }}
     >
       <Card className="border-0 shadow-lg bg-slate-900 border-slate-800">
-        <CardHeader className="pb-4">
+        <CardHeader className="pb-4 flex flex-row items-center gap-2 space-y-0">
+          {onBack && (
+            <Button
+              size="sm"
+              variant="ghost"
+              title="Back"
+              onClick={onBack}
+              className="h-8 w-8 p-0 text-slate-400 hover:text-slate-100 hover:bg-slate-800"
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          )}
           <CardTitle className="text-lg font-semibold text-slate-100">
-            Category Breakdown
+            {title}
           </CardTitle>
         </CardHeader>
         <CardContent>
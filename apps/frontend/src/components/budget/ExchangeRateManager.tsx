@@ -0,0 +1,241 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertTriangle, Trash2, Upload } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { exchangeRatesAPI, ExchangeRate } from "@/services/api";
+import { useBudgetStore } from "@/stores/budgetStore";
+import { format } from "date-fns";
+
+interface ExchangeRateManagerProps {
+  baseCurrency: string;
+}
+
+const PAGE_SIZE = 10;
+
+const getErrorMessage = (err: any, fallback: string) =>
+  err?.response?.data?.error || err?.message || fallback;
+
+export function ExchangeRateManager({
+  baseCurrency,
+}: ExchangeRateManagerProps) {
+  const { refreshAllData } = useBudgetStore();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [total, setTotal] = useState(0);
+  const [missing, setMissing] = useState<string[]>([]);
+  const [form, setForm] = useState({
+    from_currency: "",
+    rate: "",
+    date: new Date().toISOString().split("T")[0], // YYYY-MM-DD format
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const loadRates = useCallback(async () => {
+    try {
+      const [result, missingCurrencies] = await Promise.all([
+        exchangeRatesAPI.getAll({ limit: PAGE_SIZE }),
+        exchangeRatesAPI.getMissing(),
+      ]);
+      setRates(result.rates);
+      setTotal(result.total);
+      setMissing(missingCurrencies);
+    } catch (error) {
+      console.error("Failed to load exchange rates:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  // Converted amounts are computed by the backend, so reload them too
+  const afterChange = async () => {
+    await Promise.all([loadRates(), refreshAllData()]);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const from = form.from_currency.trim().toUpperCase();
+    const rate = Number(form.rate);
+
+    if (!/^[A-Z]{3}$/.test(from) || from === baseCurrency) {
+      toast.error(`Enter a 3-letter currency other than ${baseCurrency}`);
+      return;
+    }
+    if (!(rate > 0)) {
+      toast.error("Rate must be a positive number");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await exchangeRatesAPI.create({
+        from_currency: from,
+        to_currency: baseCurrency,
+        rate,
+        date: form.date,
+      });
+      setForm((prev) => ({ ...prev, from_currency: "", rate: "" }));
+      await afterChange();
+      toast.success("Exchange rate saved");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to save exchange rate"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const result = await exchangeRatesAPI.import(await file.text());
+      await afterChange();
+      if (result.errors.length > 0) {
+        toast.error(
+          `Imported ${result.imported} rate(s); ${result.errors.length} line(s) skipped (line ${result.errors[0].line}: ${result.errors[0].error})`
+        );
+      } else {
+        toast.success(`Imported ${result.imported} rate(s)`);
+      }
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to import exchange rates"));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await exchangeRatesAPI.delete(id);
+      await afterChange();
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to delete exchange rate"));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {missing.length > 0 && (
+        <div className="flex items-start space-x-2 text-sm text-amber-400 bg-amber-950/40 border border-amber-800 p-2 rounded">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>
+            No rate to {baseCurrency} for {missing.join(", ")}; those amounts
+            are counted one-to-one until a rate is added.
+          </span>
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="grid grid-cols-3 gap-2 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="rate-from" className="text-slate-300">
+            1 unit of
+          </Label>
+          <Input
+            id="rate-from"
+            maxLength={3}
+            placeholder="EUR"
+            value={form.from_currency}
+            onChange={(e) =>
+              setForm((prev) => ({
+                ...prev,
+                from_currency: e.target.value.toUpperCase(),
+              }))
+            }
+            disabled={isSaving}
+            className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400 uppercase"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rate-value" className="text-slate-300">
+            = {baseCurrency}
+          </Label>
+          <Input
+            id="rate-value"
+            type="number"
+            step="any"
+            placeholder="1.00"
+            value={form.rate}
+            onChange={(e) =>
+              setForm((prev) => ({ ...prev, rate: e.target.value }))
+            }
+            disabled={isSaving}
+            className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rate-date" className="text-slate-300">
+            From date
+          </Label>
+          <Input
+            id="rate-date"
+            type="date"
+            value={form.date}
+            onChange={(e) =>
+              setForm((prev) => ({ ...prev, date: e.target.value }))
+            }
+            disabled={isSaving}
+            className="bg-slate-800 border-slate-600 text-slate-100"
+          />
+        </div>
+        <Button
+          type="submit"
+          disabled={isSaving}
+          className="col-span-3 bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white"
+        >
+          {isSaving ? "Saving..." : "Add Rate"}
+        </Button>
+      </form>
+
+      <label className="flex items-center justify-center w-full p-3 border-2 border-dashed border-slate-600 rounded-lg cursor-pointer hover:bg-slate-800/50 transition-colors text-sm text-slate-300">
+        <Upload className="h-4 w-4 mr-2 text-slate-400" />
+        {isImporting
+          ? "Importing..."
+          : "Load rates from a CSV file (date, from, to, rate)"}
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          disabled={isImporting}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = "";
+          }}
+        />
+      </label>
+
+      {rates.length > 0 && (
+        <div className="space-y-1">
+          {rates.map((rate) => (
+            <div
+              key={rate.id}
+              className="flex items-center justify-between text-sm p-2 rounded bg-slate-800/50"
+            >
+              <span className="text-slate-300">
+                {format(new Date(rate.date), "MMM dd, yyyy")}
+              </span>
+              <span className="text-slate-100">
+                1 {rate.from_currency} = {rate.rate} {rate.to_currency}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDelete(rate.id)}
+                className="h-7 w-7 p-0 text-slate-400 hover:text-red-400 hover:bg-slate-700"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {total > rates.length && (
+            <p className="text-xs text-slate-500 text-center">
+              Showing the {rates.length} most recent of {total} rates
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
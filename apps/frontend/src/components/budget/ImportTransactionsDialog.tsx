@@ -0,0 +1,669 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Upload, AlertTriangle, CheckCircle2 } from "lucide-react";
+import { toast } from "react-hot-toast";
+import {
+  useBudgetStore,
+  useCategories,
+  useAccounts,
+} from "@/stores/budgetStore";
+import {
+  transactionsAPI,
+  CsvColumnMapping,
+  CsvImportRequest,
+  ImportDateFormat,
+  ImportPreview,
+  SignConvention,
+  StatementFormat,
+  StatementImportRequest,
+} from "@/services/api";
+import { getCategoryOptions } from "@/lib/categoryTree";
+
+type Step = "upload" | "map" | "preview";
+
+const NONE = "none";
+
+// Statement files are recognized by extension; anything else is treated as CSV
+const statementFormats: Record<string, StatementFormat> = {
+  ofx: "ofx",
+  qfx: "ofx",
+  qif: "qif",
+};
+
+const selectTriggerClass = "bg-slate-800 border-slate-600 text-slate-100";
+const selectContentClass = "bg-slate-800 border-slate-600";
+const selectItemClass =
+  "text-slate-100 focus:bg-slate-700 focus:text-slate-100";
+
+const dateFormats: ImportDateFormat[] = [
+  "YYYY-MM-DD",
+  "YYYY/MM/DD",
+  "MM/DD/YYYY",
+  "DD/MM/YYYY",
+  "DD.MM.YYYY",
+];
+
+const signConventions: { value: SignConvention; label: string }[] = [
+  { value: "negative_is_expense", label: "Negative amounts are expenses" },
+  { value: "positive_is_expense", label: "Positive amounts are expenses" },
+  { value: "debit_credit_columns", label: "Separate debit / credit columns" },
+];
+
+interface ColumnSelectProps {
+  label: string;
+  headers: string[];
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+  optional?: boolean;
+}
+
+function ColumnSelect({
+  label,
+  headers,
+  value,
+  onChange,
+  optional,
+}: ColumnSelectProps) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-slate-200">
+        {label}
+        {!optional && " *"}
+      </Label>
+      <Select
+        value={value === undefined ? NONE : String(value)}
+        onValueChange={(selected) =>
+          onChange(selected === NONE ? undefined : Number(selected))
+        }
+      >
+        <SelectTrigger className={selectTriggerClass}>
+          <SelectValue placeholder="Select column" />
+        </SelectTrigger>
+        <SelectContent className={selectContentClass}>
+          <SelectItem value={NONE} className={selectItemClass}>
+            {optional ? "Not mapped" : "Select column"}
+          </SelectItem>
+          {headers.map((header, i) => (
+            <SelectItem key={i} value={String(i)} className={selectItemClass}>
+              {header || `Column ${i + 1}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export function ImportTransactionsDialog() {
+  const { refreshAllData } = useBudgetStore();
+  const categories = useCategories();
+  const accounts = useAccounts();
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [content, setContent] = useState("");
+  const [statementFormat, setStatementFormat] =
+    useState<StatementFormat | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<Partial<CsvColumnMapping>>({});
+  const [hasHeader, setHasHeader] = useState(true);
+  const [signConvention, setSignConvention] = useState<SignConvention>(
+    "negative_is_expense"
+  );
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>("YYYY-MM-DD");
+  const [decimalSeparator, setDecimalSeparator] = useState<"." | ",">(".");
+  const [defaultCategoryId, setDefaultCategoryId] = useState<string>(NONE);
+  const [accountId, setAccountId] = useState<string>(NONE);
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setContent("");
+    setStatementFormat(null);
+    setHeaders([]);
+    setMapping({});
+    setPreview(null);
+    setSkipInvalid(false);
+    setError(null);
+  };
+
+  const getErrorMessage = (err: any, fallback: string) =>
+    err?.response?.data?.error || err?.message || fallback;
+
+  const buildRequest = (): CsvImportRequest => ({
+    csv: content,
+    has_header: hasHeader,
+    mapping: mapping as CsvColumnMapping,
+    sign_convention: signConvention,
+    date_format: dateFormat,
+    decimal_separator: decimalSeparator,
+    default_category_id:
+      defaultCategoryId === NONE ? undefined : defaultCategoryId,
+    account_id: accountId === NONE ? undefined : accountId,
+    skip_invalid: skipInvalid,
+  });
+
+  const buildStatementRequest = (): StatementImportRequest => ({
+    content,
+    format: statementFormat!,
+    date_format: dateFormat,
+    decimal_separator: decimalSeparator,
+    default_category_id:
+      defaultCategoryId === NONE ? undefined : defaultCategoryId,
+    account_id: accountId === NONE ? undefined : accountId,
+    skip_invalid: skipInvalid,
+  });
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setIsWorking(true);
+    try {
+      const text = await file.text();
+      const extension = file.name.split(".").pop()?.toLowerCase() || "";
+      const format = statementFormats[extension];
+
+      if (format) {
+        setFileName(file.name);
+        setContent(text);
+        setStatementFormat(format);
+        // Quicken writes US-style dates unless configured otherwise
+        if (format === "qif") setDateFormat("MM/DD/YYYY");
+        setStep("map");
+        return;
+      }
+
+      const result = await transactionsAPI.previewImport({
+        csv: text,
+        has_header: hasHeader,
+      });
+      setFileName(file.name);
+      setContent(text);
+      setHeaders(result.headers);
+      setMapping(result.suggestedMapping);
+      if (
+        result.suggestedMapping.amount === undefined &&
+        result.suggestedMapping.debit !== undefined &&
+        result.suggestedMapping.credit !== undefined
+      ) {
+        setSignConvention("debit_credit_columns");
+      }
+      setStep("map");
+    } catch (err) {
+      setError(getErrorMessage(err, "Could not read the file"));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const isMappingComplete =
+    statementFormat !== null ||
+    (mapping.date !== undefined &&
+      mapping.description !== undefined &&
+      (signConvention === "debit_credit_columns"
+        ? mapping.debit !== undefined && mapping.credit !== undefined
+        : mapping.amount !== undefined));
+
+  const handlePreview = async () => {
+    setError(null);
+    setIsWorking(true);
+    try {
+      const result = statementFormat
+        ? await transactionsAPI.previewStatementImport(buildStatementRequest())
+        : await transactionsAPI.previewImport(buildRequest());
+      setPreview(result);
+      setSkipInvalid(false);
+      setStep("preview");
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to preview import"));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    setError(null);
+    setIsWorking(true);
+    try {
+      const result = statementFormat
+        ? await transactionsAPI.commitStatementImport(buildStatementRequest())
+        : await transactionsAPI.commitImport(buildRequest());
+      toast.success(
+        `Imported ${result.imported} transaction(s)${
+          result.skipped ? `, skipped ${result.skipped}` : ""
+        }${result.duplicates ? `, ${result.duplicates} already imported` : ""}`
+      );
+      await refreshAllData();
+      setOpen(false);
+      reset();
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to import transactions"));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const updateMapping = (key: keyof CsvColumnMapping) => (value?: number) =>
+    setMapping((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="lg"
+          className="border-2 border-slate-600/30 hover:border-slate-500/50 hover:bg-slate-800/30 shadow-md text-slate-300 hover:text-slate-200"
+        >
+          <Upload className="mr-2 h-5 w-5" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-slate-900 border-slate-700 max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-slate-100">
+            Import Transactions
+          </DialogTitle>
+          <DialogDescription className="text-slate-400">
+            {step === "upload" &&
+              "Upload a CSV, OFX, QFX or QIF export from your bank"}
+            {step === "map" &&
+              (statementFormat
+                ? `Choose import options for ${fileName}`
+                : `Map the columns of ${fileName}`)}
+            {step === "preview" && "Review the rows before importing"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="text-sm text-red-400 bg-red-950/50 border border-red-800 p-2 rounded">
+            {error}
+          </div>
+        )}
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <label className="flex flex-col items-center justify-center w-full h-40 border-2 border-dashed border-slate-600 rounded-xl cursor-pointer hover:bg-slate-800/50 transition-colors">
+              <Upload className="h-8 w-8 text-slate-400 mb-2" />
+              <span className="text-slate-300">
+                {isWorking ? "Reading file..." : "Choose a statement file"}
+              </span>
+              <input
+                type="file"
+                accept=".csv,.ofx,.qfx,.qif,text/csv"
+                className="hidden"
+                disabled={isWorking}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                }}
+              />
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={hasHeader}
+                onChange={(e) => setHasHeader(e.target.checked)}
+              />
+              <span>First row contains column names</span>
+            </label>
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-4">
+            {statementFormat === "ofx" && (
+              <p className="text-sm text-slate-400">
+                OFX and QFX statements carry their own dates, amounts and
+                transaction IDs, so no column mapping is needed. Transactions
+                you have already imported will be skipped.
+              </p>
+            )}
+
+            {!statementFormat && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <ColumnSelect
+                  label="Date"
+                  headers={headers}
+                  value={mapping.date}
+                  onChange={updateMapping("date")}
+                />
+                <ColumnSelect
+                  label="Description"
+                  headers={headers}
+                  value={mapping.description}
+                  onChange={updateMapping("description")}
+                />
+                {signConvention === "debit_credit_columns" ? (
+                  <>
+                    <ColumnSelect
+                      label="Debit (money out)"
+                      headers={headers}
+                      value={mapping.debit}
+                      onChange={updateMapping("debit")}
+                    />
+                    <ColumnSelect
+                      label="Credit (money in)"
+                      headers={headers}
+                      value={mapping.credit}
+                      onChange={updateMapping("credit")}
+                    />
+                  </>
+                ) : (
+                  <ColumnSelect
+                    label="Amount"
+                    headers={headers}
+                    value={mapping.amount}
+                    onChange={updateMapping("amount")}
+                  />
+                )}
+                <ColumnSelect
+                  label="Category"
+                  headers={headers}
+                  value={mapping.category}
+                  onChange={updateMapping("category")}
+                  optional
+                />
+              </div>
+            )}
+
+            {statementFormat !== "ofx" && (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                {!statementFormat && (
+                  <div className="space-y-2">
+                    <Label className="text-slate-200">Sign convention</Label>
+                    <Select
+                      value={signConvention}
+                      onValueChange={(value: SignConvention) =>
+                        setSignConvention(value)
+                      }
+                    >
+                      <SelectTrigger className={selectTriggerClass}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className={selectContentClass}>
+                        {signConventions.map((option) => (
+                          <SelectItem
+                            key={option.value}
+                            value={option.value}
+                            className={selectItemClass}
+                          >
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label className="text-slate-200">Date format</Label>
+                  <Select
+                    value={dateFormat}
+                    onValueChange={(value: ImportDateFormat) =>
+                      setDateFormat(value)
+                    }
+                  >
+                    <SelectTrigger className={selectTriggerClass}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className={selectContentClass}>
+                      {dateFormats.map((format) => (
+                        <SelectItem
+                          key={format}
+                          value={format}
+                          className={selectItemClass}
+                        >
+                          {format}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-slate-200">Decimal separator</Label>
+                  <Select
+                    value={decimalSeparator}
+                    onValueChange={(value: "." | ",") =>
+                      setDecimalSeparator(value)
+                    }
+                  >
+                    <SelectTrigger className={selectTriggerClass}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className={selectContentClass}>
+                      <SelectItem value="." className={selectItemClass}>
+                        Period (1,234.56)
+                      </SelectItem>
+                      <SelectItem value="," className={selectItemClass}>
+                        Comma (1.234,56)
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            {categories.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-slate-200">
+                  Default category (Optional)
+                </Label>
+                <Select
+                  value={defaultCategoryId}
+                  onValueChange={setDefaultCategoryId}
+                >
+                  <SelectTrigger className={selectTriggerClass}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className={selectContentClass}>
+                    <SelectItem value={NONE} className={selectItemClass}>
+                      Uncategorized
+                    </SelectItem>
+                    {getCategoryOptions(categories, [defaultCategoryId]).map(
+                      (category) => (
+                        <SelectItem
+                          key={category.id}
+                          value={category.id}
+                          className={selectItemClass}
+                        >
+                          {category.path}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {accounts.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-slate-200">
+                  Import into account (Optional)
+                </Label>
+                <Select value={accountId} onValueChange={setAccountId}>
+                  <SelectTrigger className={selectTriggerClass}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className={selectContentClass}>
+                    <SelectItem value={NONE} className={selectItemClass}>
+                      No account
+                    </SelectItem>
+                    {accounts.map((account) => (
+                      <SelectItem
+                        key={account.id}
+                        value={account.id}
+                        className={selectItemClass}
+                      >
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="flex space-x-2 pt-2">
+              <Button
+                onClick={handlePreview}
+                disabled={!isMappingComplete || isWorking}
+                className="flex-1 bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white"
+              >
+                {isWorking ? "Validating..." : "Preview Import"}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={reset}
+                disabled={isWorking}
+                className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+              >
+                Start Over
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && preview && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Badge className="bg-green-900/50 text-green-300 border-green-700">
+                <CheckCircle2 className="h-3 w-3 mr-1" />
+                {preview.validCount} valid
+              </Badge>
+              {preview.errorCount > 0 && (
+                <Badge className="bg-red-900/50 text-red-300 border-red-700">
+                  <AlertTriangle className="h-3 w-3 mr-1" />
+                  {preview.errorCount} with errors
+                </Badge>
+              )}
+              {preview.duplicateCount > 0 && (
+                <Badge className="bg-slate-800 text-slate-400 border-slate-600">
+                  {preview.duplicateCount} already imported
+                </Badge>
+              )}
+            </div>
+
+            <div className="max-h-80 overflow-y-auto rounded-lg border border-slate-700">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-800 text-slate-300 sticky top-0">
+                  <tr>
+                    <th className="p-2 text-left">Line</th>
+                    <th className="p-2 text-left">Date</th>
+                    <th className="p-2 text-left">Description</th>
+                    <th className="p-2 text-right">Amount</th>
+                    <th className="p-2 text-left">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map((row) => (
+                    <tr
+                      key={row.line}
+                      className={`border-t border-slate-800 ${
+                        row.errors.length > 0
+                          ? "bg-red-950/30"
+                          : row.duplicate
+                          ? "text-slate-500"
+                          : "text-slate-200"
+                      }`}
+                    >
+                      <td className="p-2 text-slate-400">{row.line}</td>
+                      <td className="p-2">{row.transaction?.date || "-"}</td>
+                      <td className="p-2 truncate max-w-[200px]">
+                        {row.transaction?.description || row.raw.join(", ")}
+                      </td>
+                      <td
+                        className={`p-2 text-right ${
+                          row.transaction?.type === "income"
+                            ? "text-green-400"
+                            : "text-red-400"
+                        }`}
+                      >
+                        {row.transaction
+                          ? `${
+                              row.transaction.type === "income" ? "+" : "-"
+                            }$${row.transaction.amount.toFixed(2)}`
+                          : "-"}
+                      </td>
+                      <td className="p-2 text-xs">
+                        {row.errors.length > 0 ? (
+                          <span className="text-red-400">
+                            {row.errors.join("; ")}
+                          </span>
+                        ) : row.warnings.length > 0 ? (
+                          <span className="text-yellow-400">
+                            {row.warnings.join("; ")}
+                          </span>
+                        ) : (
+                          <span className="text-green-400">OK</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {preview.errorCount > 0 && (
+              <label className="flex items-center space-x-2 text-sm text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={skipInvalid}
+                  onChange={(e) => setSkipInvalid(e.target.checked)}
+                />
+                <span>Skip rows with errors and import the rest</span>
+              </label>
+            )}
+
+            <div className="flex space-x-2 pt-2">
+              <Button
+                onClick={handleCommit}
+                disabled={
+                  isWorking ||
+                  preview.validCount === 0 ||
+                  (preview.errorCount > 0 && !skipInvalid)
+                }
+                className="flex-1 bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white"
+              >
+                {isWorking
+                  ? "Importing..."
+                  : `Import ${preview.validCount} Transaction(s)`}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setStep("map")}
+                disabled={isWorking}
+                className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+              >
+                Back
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
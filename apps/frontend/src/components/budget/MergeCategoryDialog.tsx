@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "react-hot-toast";
+import { categoriesAPI, CategoryMergeSummary } from "@/services/api";
+import { useBudgetStore, useCategories } from "@/stores/budgetStore";
+import { getCategoryOptions, getDescendantIds } from "@/lib/categoryTree";
+import type { Category } from "@/stores/budgetStore";
+
+interface MergeCategoryDialogProps {
+  category: Category; // the category merged away
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const getErrorMessage = (err: any, fallback: string) =>
+  err?.response?.data?.error || err?.message || fallback;
+
+const summaryLines = (summary: CategoryMergeSummary) =>
+  [
+    [summary.transactions, "transaction(s)"],
+    [summary.splits, "split line(s)"],
+    [summary.budgets, "monthly budget(s)"],
+    [summary.rules, "rule(s)"],
+    [summary.recurring, "recurring transaction(s)"],
+    [summary.subcategories, "subcategory(ies)"],
+  ] as const;
+
+export function MergeCategoryDialog({
+  category,
+  open,
+  onOpenChange,
+}: MergeCategoryDialogProps) {
+  const categories = useCategories();
+  const { refreshAllData } = useBudgetStore();
+  const [targetId, setTargetId] = useState("");
+  // null until the preview for the chosen target has loaded
+  const [summary, setSummary] = useState<CategoryMergeSummary | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // The target can't be the category itself or one of its subcategories
+  const excludedIds = getDescendantIds(categories, category.id);
+  const targetOptions = getCategoryOptions(categories).filter(
+    (option) => !excludedIds.has(option.id)
+  );
+
+  useEffect(() => {
+    setSummary(null);
+    if (!open || !targetId) return;
+
+    let cancelled = false;
+    categoriesAPI
+      .previewMerge(category.id, targetId)
+      .then((preview) => !cancelled && setSummary(preview))
+      .catch((error) => {
+        if (!cancelled) {
+          toast.error(getErrorMessage(error, "Failed to preview the merge"));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, category.id, targetId]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setTargetId("");
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleMerge = async () => {
+    setIsWorking(true);
+    try {
+      await categoriesAPI.merge(category.id, targetId);
+      toast.success(`Merged ${category.name}`);
+      handleOpenChange(false);
+      // Transactions now show the target category
+      await refreshAllData();
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to merge categories"));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const hasConflicts = !!summary && summary.conflicts.length > 0;
+  const targetName = categories.find((c) => c.id === targetId)?.name;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-slate-900 border-slate-700 text-white max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-white">
+            Merge {category.name}
+          </DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Everything in {category.name} moves to the category you pick, then{" "}
+            {category.name} is deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-slate-200">Merge into</Label>
+            <Select
+              value={targetId}
+              onValueChange={setTargetId}
+              disabled={isWorking}
+            >
+              <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+                <SelectValue placeholder="Select category" />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-600">
+                {targetOptions.map((option) => (
+                  <SelectItem
+                    key={option.id}
+                    value={option.id}
+                    className="text-slate-100 focus:bg-slate-700 focus:text-slate-100"
+                  >
+                    {option.path}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {targetId && !summary && (
+            <p className="text-sm text-slate-400">Checking what will move...</p>
+          )}
+
+          {summary && (
+            <div className="p-3 bg-slate-800 rounded-lg border border-slate-700 space-y-1 text-sm">
+              {summaryLines(summary).map(([count, label]) => (
+                <div key={label} className="flex justify-between">
+                  <span className="text-slate-400">{label}</span>
+                  <span className="text-slate-100 font-medium">{count}</span>
+                </div>
+              ))}
+              <p className="text-slate-400 pt-1">
+                {summary.combine_budgets
+                  ? `${category.name}'s budget limits are added to ${targetName}'s.`
+                  : `${targetName}'s budgets already include ${category.name}'s spending, so ${category.name}'s budget limits are dropped.`}
+              </p>
+            </div>
+          )}
+
+          {hasConflicts && (
+            <div className="text-sm text-red-400 bg-red-950/50 border border-red-800 p-2 rounded">
+              Both categories have subcategories named{" "}
+              {summary.conflicts.join(", ")}. Rename or merge them first.
+            </div>
+          )}
+
+          <div className="flex space-x-2 pt-2">
+            <Button
+              onClick={handleMerge}
+              disabled={!summary || hasConflicts || isWorking}
+              className="flex-1 bg-red-600 text-white hover:bg-red-700"
+            >
+              {isWorking ? "Merging..." : "Merge Categories"}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isWorking}
+              className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "react-hot-toast";
+import { envelopesAPI, Envelope } from "@/services/api";
+
+interface MoveEnvelopeDialogProps {
+  envelopes: Array<Envelope & { path: string }>;
+  month: number;
+  year: number;
+  // Envelope to move money out of when the dialog opens
+  fromCategoryId?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+export function MoveEnvelopeDialog({
+  envelopes,
+  month,
+  year,
+  fromCategoryId,
+  open,
+  onOpenChange,
+  onSuccess,
+}: MoveEnvelopeDialogProps) {
+  const [from, setFrom] = useState(fromCategoryId ?? "");
+  const [to, setTo] = useState("");
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleMove = async () => {
+    setError(null);
+    const value = parseFloat(amount);
+    if (!from || !to) {
+      setError("Pick both envelopes");
+      return;
+    }
+    if (from === to) {
+      setError("Pick two different envelopes");
+      return;
+    }
+    if (isNaN(value) || value <= 0) {
+      setError("Enter a positive amount");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await envelopesAPI.move({
+        from_category_id: from,
+        to_category_id: to,
+        month,
+        year,
+        amount: value,
+        note: note.trim() || undefined,
+      });
+      toast.success("Money moved");
+      onOpenChange(false);
+      onSuccess();
+    } catch (error: any) {
+      setError(error.response?.data?.error || "Failed to move money");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const envelopeSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange} disabled={isSubmitting}>
+      <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+        <SelectValue placeholder="Select an envelope" />
+      </SelectTrigger>
+      <SelectContent className="bg-slate-800 border-slate-600">
+        {envelopes.map((envelope) => (
+          <SelectItem
+            key={envelope.category_id}
+            value={envelope.category_id}
+            className="text-slate-100 focus:bg-slate-700 focus:text-slate-100"
+          >
+            {envelope.path}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-900 border-slate-700 text-white max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-white">Move Money</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Cover overspending or change plans without touching the pool
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <div className="text-sm text-red-400 bg-red-950/50 border border-red-800 p-2 rounded">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-slate-200">From</Label>
+            {envelopeSelect(from, setFrom)}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-slate-200">To</Label>
+            {envelopeSelect(to, setTo)}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="move-amount" className="text-slate-200">
+              Amount
+            </Label>
+            <Input
+              id="move-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              disabled={isSubmitting}
+              className="bg-slate-800 border-slate-600 text-slate-100"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="move-note" className="text-slate-200">
+              Note
+            </Label>
+            <Input
+              id="move-note"
+              placeholder="Optional"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              disabled={isSubmitting}
+              className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+            />
+          </div>
+
+          <div className="flex space-x-2 pt-2">
+            <Button
+              onClick={handleMove}
+              disabled={isSubmitting}
+              className="flex-1 bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white"
+            >
+              {isSubmitting ? "Moving..." : "Move"}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+              className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
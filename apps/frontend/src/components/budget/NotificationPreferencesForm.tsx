@@ -0,0 +1,213 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "react-hot-toast";
+import {
+  notificationsAPI,
+  NotificationPreference,
+  NotificationType,
+} from "@/services/api";
+
+interface NotificationPreferencesFormProps {
+  baseCurrency: string;
+  onSuccess?: () => void;
+  onCancel?: () => void;
+}
+
+const EVENT_LABELS: Record<
+  NotificationType,
+  { label: string; description: string }
+> = {
+  budget_threshold: {
+    label: "Budget alerts",
+    description: "A budget reaches one of its alert percentages",
+  },
+  large_transaction: {
+    label: "Large transactions",
+    description: "An expense at or above the amount below",
+  },
+  upcoming_bill: {
+    label: "Upcoming bills",
+    description: "A recurring expense is due in the next few days",
+  },
+  new_login: {
+    label: "New sign-ins",
+    description: "Someone signs in from a new browser or address",
+  },
+};
+
+const CHANNELS: { key: "in_app" | "email" | "digest"; label: string }[] = [
+  { key: "in_app", label: "In-app" },
+  { key: "email", label: "Email" },
+  { key: "digest", label: "Digest" },
+];
+
+export function NotificationPreferencesForm({
+  baseCurrency,
+  onSuccess,
+  onCancel,
+}: NotificationPreferencesFormProps) {
+  const [events, setEvents] = useState<NotificationPreference[]>([]);
+  const [largeAmount, setLargeAmount] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    notificationsAPI
+      .getPreferences()
+      .then((preferences) => {
+        setEvents(preferences.events);
+        setLargeAmount(String(preferences.large_transaction_amount));
+      })
+      .catch((error: any) =>
+        setError(
+          error.response?.data?.error ||
+            "Failed to load notification preferences"
+        )
+      )
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const toggleChannel = (
+    event: NotificationType,
+    channel: "in_app" | "email" | "digest",
+    checked: boolean
+  ) => {
+    setEvents((prev) =>
+      prev.map((p) => (p.event === event ? { ...p, [channel]: checked } : p))
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const amount = parseFloat(largeAmount);
+    if (isNaN(amount) || amount <= 0) {
+      setError("Large transaction amount must be positive");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await notificationsAPI.updatePreferences({
+        events,
+        large_transaction_amount: amount,
+      });
+      toast.success("Notification preferences saved");
+      onSuccess?.();
+    } catch (error: any) {
+      setError(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to save notification preferences"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <p className="py-6 text-center text-sm text-slate-400">Loading...</p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="text-sm text-red-400 bg-red-950/50 border border-red-800 p-2 rounded">
+          {error}
+        </div>
+      )}
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-slate-400">
+            <th className="text-left font-medium pb-2">Event</th>
+            {CHANNELS.map((channel) => (
+              <th key={channel.key} className="font-medium pb-2 w-16">
+                {channel.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {events.map((preference) => (
+            <tr
+              key={preference.event}
+              className="border-t border-slate-800 align-top"
+            >
+              <td className="py-2 pr-2">
+                <p className="text-slate-200">
+                  {EVENT_LABELS[preference.event].label}
+                </p>
+                <p className="text-xs text-slate-400">
+                  {EVENT_LABELS[preference.event].description}
+                </p>
+              </td>
+              {CHANNELS.map((channel) => (
+                <td key={channel.key} className="py-2 text-center">
+                  <input
+                    type="checkbox"
+                    aria-label={`${EVENT_LABELS[preference.event].label} ${
+                      channel.label
+                    }`}
+                    checked={preference[channel.key]}
+                    onChange={(e) =>
+                      toggleChannel(
+                        preference.event,
+                        channel.key,
+                        e.target.checked
+                      )
+                    }
+                    disabled={isSubmitting}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="space-y-2">
+        <Label htmlFor="large-transaction-amount" className="text-slate-200">
+          Large transaction amount ({baseCurrency})
+        </Label>
+        <Input
+          id="large-transaction-amount"
+          type="number"
+          step="0.01"
+          min="0"
+          value={largeAmount}
+          onChange={(e) => setLargeAmount(e.target.value)}
+          disabled={isSubmitting}
+          className="bg-slate-800 border-slate-600 text-slate-100"
+        />
+      </div>
+
+      <div className="flex space-x-2 pt-4">
+        <Button
+          type="submit"
+          className="flex-1 bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white"
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? "Saving..." : "Save Preferences"}
+        </Button>
+        {onCancel && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+          >
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
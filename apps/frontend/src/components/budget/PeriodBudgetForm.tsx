@@ -0,0 +1,340 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "react-hot-toast";
+import {
+  periodBudgetsAPI,
+  BudgetPeriodUnit,
+  PeriodBudget,
+} from "@/services/api";
+import { useCategories } from "@/stores/budgetStore";
+import { getCategoryOptions } from "@/lib/categoryTree";
+import { formatThresholds, parseThresholds } from "@/lib/alertThresholds";
+
+interface PeriodBudgetFormProps {
+  onSuccess?: (budget: PeriodBudget) => void;
+  onCancel?: () => void;
+  initialData?: PeriodBudget;
+}
+
+// Common periods; anything else is entered as a custom length
+const PRESETS: Record<
+  string,
+  { label: string; unit: BudgetPeriodUnit; length: number }
+> = {
+  weekly: { label: "Weekly", unit: "week", length: 1 },
+  biweekly: { label: "Every 2 weeks", unit: "week", length: 2 },
+  monthly: { label: "Monthly", unit: "month", length: 1 },
+  quarterly: { label: "Quarterly", unit: "month", length: 3 },
+};
+const CUSTOM = "custom";
+
+const UNIT_LABELS: Record<BudgetPeriodUnit, string> = {
+  day: "days",
+  week: "weeks",
+  month: "months",
+};
+
+// "Weekly", "Quarterly", "Every 10 days" and so on
+export function describePeriod(unit: BudgetPeriodUnit, length: number) {
+  const preset = Object.values(PRESETS).find(
+    (p) => p.unit === unit && p.length === length
+  );
+  if (preset) return preset.label;
+  return length === 1
+    ? `Every ${UNIT_LABELS[unit].slice(0, -1)}`
+    : `Every ${length} ${UNIT_LABELS[unit]}`;
+}
+
+const presetFor = (unit: BudgetPeriodUnit, length: number) =>
+  Object.entries(PRESETS).find(
+    ([, p]) => p.unit === unit && p.length === length
+  )?.[0] ?? CUSTOM;
+
+export function PeriodBudgetForm({
+  onSuccess,
+  onCancel,
+  initialData,
+}: PeriodBudgetFormProps) {
+  const categories = useCategories();
+  const isEditing = !!initialData;
+  const [formData, setFormData] = useState({
+    category_id: initialData?.category_id || "",
+    limit_amount: initialData ? String(initialData.limit_amount) : "",
+    preset: initialData
+      ? presetFor(initialData.period_unit, initialData.period_length)
+      : "weekly",
+    unit: initialData?.period_unit || ("day" as BudgetPeriodUnit),
+    length: initialData ? String(initialData.period_length) : "10",
+    anchor_date: initialData?.anchor_date || format(new Date(), "yyyy-MM-dd"),
+    alert_thresholds: formatThresholds(initialData?.alert_thresholds),
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const options = getCategoryOptions(categories, [initialData?.category_id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!formData.category_id) {
+      setError("Please select a category");
+      return;
+    }
+    const amount = parseFloat(formData.limit_amount);
+    if (isNaN(amount) || amount <= 0) {
+      setError("Budget amount must be positive");
+      return;
+    }
+    const custom = formData.preset === CUSTOM;
+    const length = custom
+      ? parseInt(formData.length)
+      : PRESETS[formData.preset].length;
+    if (isNaN(length) || length < 1 || length > 366) {
+      setError("A period is 1 to 366 units long");
+      return;
+    }
+    const alertThresholds = parseThresholds(formData.alert_thresholds);
+    if (!alertThresholds) {
+      setError("Enter up to 5 alert percentages, e.g. 50, 80, 100");
+      return;
+    }
+    const period = {
+      period_unit: custom ? formData.unit : PRESETS[formData.preset].unit,
+      period_length: length,
+      anchor_date: formData.anchor_date,
+      limit_amount: amount,
+      alert_thresholds: alertThresholds,
+    };
+
+    setIsSubmitting(true);
+    try {
+      const budget =
+        isEditing && initialData
+          ? await periodBudgetsAPI.update(initialData.id, period)
+          : await periodBudgetsAPI.create({
+              category_id: formData.category_id,
+              ...period,
+            });
+
+      toast.success(`Period budget ${isEditing ? "updated" : "created"}`);
+      onSuccess?.(budget);
+    } catch (error: any) {
+      setError(
+        error.response?.data?.error ||
+          error.message ||
+          `Failed to ${isEditing ? "update" : "create"} period budget`
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="text-sm text-red-400 bg-red-950/50 border border-red-800 p-2 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label className="text-slate-200">Category *</Label>
+        <Select
+          value={formData.category_id}
+          onValueChange={(value) =>
+            setFormData((prev) => ({ ...prev, category_id: value }))
+          }
+          disabled={isSubmitting || isEditing}
+        >
+          <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+            <SelectValue placeholder="Select a category" />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-600">
+            {options.map((category) => (
+              <SelectItem
+                key={category.id}
+                value={category.id}
+                className="text-slate-100 focus:bg-slate-700 focus:text-slate-100"
+              >
+                {category.path}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="period-limit" className="text-slate-200">
+          Limit per period *
+        </Label>
+        <Input
+          id="period-limit"
+          type="number"
+          step="0.01"
+          min="0"
+          placeholder="0.00"
+          value={formData.limit_amount}
+          onChange={(e) =>
+            setFormData((prev) => ({ ...prev, limit_amount: e.target.value }))
+          }
+          disabled={isSubmitting}
+          className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-slate-200">Repeats</Label>
+        <Select
+          value={formData.preset}
+          onValueChange={(value) =>
+            setFormData((prev) => ({ ...prev, preset: value }))
+          }
+          disabled={isSubmitting}
+        >
+          <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-600">
+            {Object.entries(PRESETS).map(([key, preset]) => (
+              <SelectItem
+                key={key}
+                value={key}
+                className="text-slate-100 focus:bg-slate-700 focus:text-slate-100"
+              >
+                {preset.label}
+              </SelectItem>
+            ))}
+            <SelectItem
+              value={CUSTOM}
+              className="text-slate-100 focus:bg-slate-700 focus:text-slate-100"
+            >
+              Custom
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {formData.preset === CUSTOM && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-slate-300">Every</span>
+          <Input
+            type="number"
+            min="1"
+            max="366"
+            value={formData.length}
+            onChange={(e) =>
+              setFormData((prev) => ({ ...prev, length: e.target.value }))
+            }
+            disabled={isSubmitting}
+            className="w-24 bg-slate-800 border-slate-600 text-slate-100"
+          />
+          <Select
+            value={formData.unit}
+            onValueChange={(value) =>
+              setFormData((prev) => ({
+                ...prev,
+                unit: value as BudgetPeriodUnit,
+              }))
+            }
+            disabled={isSubmitting}
+          >
+            <SelectTrigger className="w-32 bg-slate-800 border-slate-600 text-slate-100">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-600">
+              {Object.entries(UNIT_LABELS).map(([unit, label]) => (
+                <SelectItem
+                  key={unit}
+                  value={unit}
+                  className="text-slate-100 focus:bg-slate-700 focus:text-slate-100"
+                >
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="period-anchor" className="text-slate-200">
+          A period starts on
+        </Label>
+        <Input
+          id="period-anchor"
+          type="date"
+          value={formData.anchor_date}
+          onChange={(e) =>
+            setFormData((prev) => ({ ...prev, anchor_date: e.target.value }))
+          }
+          disabled={isSubmitting}
+          className="bg-slate-800 border-slate-600 text-slate-100"
+        />
+        <p className="text-xs text-slate-400">
+          Pick a Monday for weeks starting Monday, or the 15th for a pay period
+          from the 15th
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="period-thresholds" className="text-slate-200">
+          Alert at % of budget
+        </Label>
+        <Input
+          id="period-thresholds"
+          placeholder="50, 80, 100"
+          value={formData.alert_thresholds}
+          onChange={(e) =>
+            setFormData((prev) => ({
+              ...prev,
+              alert_thresholds: e.target.value,
+            }))
+          }
+          disabled={isSubmitting}
+          className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+        />
+        <p className="text-xs text-slate-400">
+          Each one alerts once per period
+        </p>
+      </div>
+
+      <div className="flex space-x-2 pt-4">
+        <Button
+          type="submit"
+          className="flex-1 bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white"
+          disabled={isSubmitting}
+        >
+          {isSubmitting
+            ? isEditing
+              ? "Updating..."
+              : "Creating..."
+            : isEditing
+            ? "Update Budget"
+            : "Create Budget"}
+        </Button>
+        {onCancel && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+          >
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
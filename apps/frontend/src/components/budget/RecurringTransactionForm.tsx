@@ -0,0 +1,420 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCategories } from "@/stores/budgetStore";
+import { useToast } from "@/components/ui/toast";
+import {
+  recurringAPI,
+  RecurringFrequency,
+  RecurringTransaction,
+} from "@/services/api";
+import { getCategoryOptions } from "@/lib/categoryTree";
+
+interface RecurringTransactionFormProps {
+  onSuccess?: (rule: RecurringTransaction) => void;
+  onCancel?: () => void;
+  initialData?: RecurringTransaction;
+}
+
+type EndCondition = "never" | "on_date" | "after_count";
+
+const frequencyOptions: { value: RecurringFrequency; label: string }[] = [
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "biweekly", label: "Every 2 weeks" },
+  { value: "monthly", label: "Monthly" },
+  { value: "yearly", label: "Yearly" },
+];
+
+const selectItemClass =
+  "text-slate-100 focus:bg-slate-700 focus:text-slate-100";
+
+export function RecurringTransactionForm({
+  onSuccess,
+  onCancel,
+  initialData,
+}: RecurringTransactionFormProps) {
+  const categories = useCategories();
+  const { addToast } = useToast();
+  const isEditing = !!initialData;
+  const [formData, setFormData] = useState<{
+    amount: string;
+    description: string;
+    type: "income" | "expense";
+    category_id: string | undefined;
+    frequency: RecurringFrequency;
+    day_of_month: string;
+    start_date: string;
+    end_condition: EndCondition;
+    end_date: string;
+    max_occurrences: string;
+  }>({
+    amount: initialData?.amount.toString() || "",
+    description: initialData?.description || "",
+    type: initialData?.type || "expense",
+    category_id: initialData?.category_id || undefined,
+    frequency: initialData?.frequency || "monthly",
+    day_of_month: initialData?.day_of_month?.toString() || "",
+    start_date: initialData?.start_date
+      ? initialData.start_date.split("T")[0]
+      : new Date().toISOString().split("T")[0],
+    end_condition: initialData?.end_date
+      ? "on_date"
+      : initialData?.max_occurrences
+      ? "after_count"
+      : "never",
+    end_date: initialData?.end_date ? initialData.end_date.split("T")[0] : "",
+    max_occurrences: initialData?.max_occurrences?.toString() || "",
+  });
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = <K extends keyof typeof formData>(
+    key: K,
+    value: (typeof formData)[K]
+  ) => setFormData((prev) => ({ ...prev, [key]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!formData.amount || !formData.description) {
+      setError("Please fill in all required fields");
+      return;
+    }
+
+    if (isNaN(Number(formData.amount)) || Number(formData.amount) <= 0) {
+      setError("Please enter a valid positive amount");
+      return;
+    }
+
+    if (formData.end_condition === "on_date" && !formData.end_date) {
+      setError("Please choose an end date");
+      return;
+    }
+
+    if (
+      formData.end_condition === "after_count" &&
+      !(Number(formData.max_occurrences) > 0)
+    ) {
+      setError("Please enter how many times it repeats");
+      return;
+    }
+
+    const payload = {
+      amount: Number(formData.amount),
+      description: formData.description,
+      type: formData.type,
+      category_id: formData.category_id || null,
+      frequency: formData.frequency,
+      day_of_month:
+        formData.frequency === "monthly" && formData.day_of_month
+          ? Number(formData.day_of_month)
+          : null,
+      start_date: formData.start_date,
+      end_date: formData.end_condition === "on_date" ? formData.end_date : null,
+      max_occurrences:
+        formData.end_condition === "after_count"
+          ? Number(formData.max_occurrences)
+          : null,
+    };
+
+    setIsSubmitting(true);
+    try {
+      const rule =
+        isEditing && initialData
+          ? await recurringAPI.update(initialData.id, payload)
+          : await recurringAPI.create({
+              ...payload,
+              // The create endpoint treats missing fields as "not set"
+              category_id: payload.category_id || undefined,
+              day_of_month: payload.day_of_month || undefined,
+              end_date: payload.end_date || undefined,
+              max_occurrences: payload.max_occurrences || undefined,
+            });
+
+      addToast({
+        type: "success",
+        title: isEditing
+          ? "Recurring Transaction Updated"
+          : "Recurring Transaction Created",
+        description: isEditing
+          ? "Future occurrences will use the new details."
+          : `${formData.description} will be recorded automatically.`,
+      });
+
+      onSuccess?.(rule);
+    } catch (error: any) {
+      const message =
+        error.response?.data?.error ||
+        error.message ||
+        `Failed to ${isEditing ? "update" : "create"} recurring transaction`;
+      setError(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="text-sm text-red-400 bg-red-950/50 border border-red-800 p-2 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label className="text-slate-200">Type</Label>
+          <Select
+            value={formData.type}
+            onValueChange={(value: "income" | "expense") =>
+              update("type", value)
+            }
+            disabled={isSubmitting}
+          >
+            <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-600">
+              <SelectItem value="income" className={selectItemClass}>
+                Income
+              </SelectItem>
+              <SelectItem value="expense" className={selectItemClass}>
+                Expense
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="recurring-amount" className="text-slate-200">
+            Amount *
+          </Label>
+          <Input
+            id="recurring-amount"
+            type="number"
+            step="0.01"
+            placeholder="0.00"
+            value={formData.amount}
+            onChange={(e) => update("amount", e.target.value)}
+            required
+            disabled={isSubmitting}
+            className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="recurring-description" className="text-slate-200">
+          Description *
+        </Label>
+        <Input
+          id="recurring-description"
+          placeholder="e.g. Rent, Salary, Netflix"
+          value={formData.description}
+          onChange={(e) => update("description", e.target.value)}
+          required
+          disabled={isSubmitting}
+          className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+        />
+      </div>
+
+      {categories.length > 0 && (
+        <div className="space-y-2">
+          <Label className="text-slate-200">Category (Optional)</Label>
+          <Select
+            value={formData.category_id || ""}
+            onValueChange={(value) => update("category_id", value || undefined)}
+            disabled={isSubmitting}
+          >
+            <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+              <SelectValue placeholder="Select category" />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-600">
+              {getCategoryOptions(categories, [formData.category_id]).map(
+                (category) => (
+                  <SelectItem
+                    key={category.id}
+                    value={category.id}
+                    className={selectItemClass}
+                  >
+                    <div className="flex items-center space-x-2">
+                      <div
+                        className="w-3 h-3 rounded-full"
+                        style={{ backgroundColor: category.color }}
+                      />
+                      <span>{category.path}</span>
+                    </div>
+                  </SelectItem>
+                )
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label className="text-slate-200">Repeats</Label>
+          <Select
+            value={formData.frequency}
+            onValueChange={(value: RecurringFrequency) =>
+              update("frequency", value)
+            }
+            disabled={isSubmitting}
+          >
+            <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-600">
+              {frequencyOptions.map((option) => (
+                <SelectItem
+                  key={option.value}
+                  value={option.value}
+                  className={selectItemClass}
+                >
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {formData.frequency === "monthly" ? (
+          <div className="space-y-2">
+            <Label htmlFor="recurring-day" className="text-slate-200">
+              Day of month
+            </Label>
+            <Input
+              id="recurring-day"
+              type="number"
+              min={1}
+              max={31}
+              placeholder="Same as start"
+              value={formData.day_of_month}
+              onChange={(e) => update("day_of_month", e.target.value)}
+              disabled={isSubmitting}
+              className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+            />
+          </div>
+        ) : (
+          <div />
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="recurring-start" className="text-slate-200">
+          Starts on
+        </Label>
+        <Input
+          id="recurring-start"
+          type="date"
+          value={formData.start_date}
+          onChange={(e) => update("start_date", e.target.value)}
+          required
+          disabled={isSubmitting}
+          className="bg-slate-800 border-slate-600 text-slate-100"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label className="text-slate-200">Ends</Label>
+          <Select
+            value={formData.end_condition}
+            onValueChange={(value: EndCondition) =>
+              update("end_condition", value)
+            }
+            disabled={isSubmitting}
+          >
+            <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-600">
+              <SelectItem value="never" className={selectItemClass}>
+                Never
+              </SelectItem>
+              <SelectItem value="on_date" className={selectItemClass}>
+                On a date
+              </SelectItem>
+              <SelectItem value="after_count" className={selectItemClass}>
+                After a number of times
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {formData.end_condition === "on_date" && (
+          <div className="space-y-2">
+            <Label htmlFor="recurring-end" className="text-slate-200">
+              End date
+            </Label>
+            <Input
+              id="recurring-end"
+              type="date"
+              value={formData.end_date}
+              min={formData.start_date}
+              onChange={(e) => update("end_date", e.target.value)}
+              disabled={isSubmitting}
+              className="bg-slate-800 border-slate-600 text-slate-100"
+            />
+          </div>
+        )}
+
+        {formData.end_condition === "after_count" && (
+          <div className="space-y-2">
+            <Label htmlFor="recurring-count" className="text-slate-200">
+              Occurrences
+            </Label>
+            <Input
+              id="recurring-count"
+              type="number"
+              min={1}
+              value={formData.max_occurrences}
+              onChange={(e) => update("max_occurrences", e.target.value)}
+              disabled={isSubmitting}
+              className="bg-slate-800 border-slate-600 text-slate-100"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex space-x-2 pt-4">
+        <Button
+          type="submit"
+          className="flex-1 bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white"
+          disabled={isSubmitting}
+        >
+          {isSubmitting
+            ? isEditing
+              ? "Saving..."
+              : "Creating..."
+            : isEditing
+            ? "Save Changes"
+            : "Create Recurring Transaction"}
+        </Button>
+        {onCancel && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+          >
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
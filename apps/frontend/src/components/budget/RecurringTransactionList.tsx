@@ -0,0 +1,447 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Pause,
+  Play,
+  Pencil,
+  Trash2,
+  ChevronDown,
+  ChevronUp,
+  SkipForward,
+  Undo2,
+  Repeat,
+} from "lucide-react";
+import { toast } from "react-hot-toast";
+import {
+  recurringAPI,
+  RecurringTransaction,
+  UpcomingOccurrence,
+} from "@/services/api";
+import { RecurringTransactionForm } from "./RecurringTransactionForm";
+
+interface RecurringTransactionListProps {
+  rules: RecurringTransaction[];
+  onChange: () => void;
+  emptyMessage?: string;
+}
+
+const frequencyLabels: Record<RecurringTransaction["frequency"], string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  biweekly: "Every 2 weeks",
+  monthly: "Monthly",
+  yearly: "Yearly",
+};
+
+const formatDate = (date: string) =>
+  format(parseISO(date.split("T")[0]), "MMM d, yyyy");
+
+function describeSchedule(rule: RecurringTransaction): string {
+  let schedule = frequencyLabels[rule.frequency];
+  if (rule.frequency === "monthly" && rule.day_of_month) {
+    schedule += ` on day ${rule.day_of_month}`;
+  }
+  if (rule.end_date) {
+    schedule += ` until ${formatDate(rule.end_date)}`;
+  } else if (rule.max_occurrences) {
+    schedule += `, ${rule.max_occurrences} times`;
+  }
+  return schedule;
+}
+
+function UpcomingOccurrences({
+  rule,
+  onChange,
+}: {
+  rule: RecurringTransaction;
+  onChange: () => void;
+}) {
+  const [occurrences, setOccurrences] = useState<UpcomingOccurrence[] | null>(
+    null
+  );
+  const [editing, setEditing] = useState<string | null>(null);
+  const [editAmount, setEditAmount] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+
+  const load = async () => {
+    try {
+      setOccurrences(await recurringAPI.getOccurrences(rule.id, 6));
+    } catch (error) {
+      console.error("Failed to load occurrences:", error);
+      toast.error("Failed to load upcoming occurrences");
+    }
+  };
+
+  // Reload whenever the rule itself changes (edit, pause, resume)
+  useEffect(() => {
+    load();
+  }, [rule]);
+
+  const run = async (action: () => Promise<void>, message: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+      toast.success(message);
+      // The parent refetches the rules, which reloads this list
+      onChange();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || "Something went wrong");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (occurrences === null) {
+    return <p className="text-sm text-slate-400 py-2">Loading...</p>;
+  }
+
+  if (occurrences.length === 0) {
+    return (
+      <p className="text-sm text-slate-400 py-2">No upcoming occurrences</p>
+    );
+  }
+
+  return (
+    <div className="space-y-2 pt-3">
+      {occurrences.map((occurrence) => (
+        <div
+          key={occurrence.date}
+          className="flex items-center justify-between gap-2 text-sm bg-slate-800/50 rounded-lg px-3 py-2"
+        >
+          <div className="flex items-center gap-3 min-w-0">
+            <span
+              className={
+                occurrence.status === "skipped"
+                  ? "text-slate-500 line-through"
+                  : "text-slate-200"
+              }
+            >
+              {formatDate(occurrence.date)}
+            </span>
+            {editing === occurrence.date ? (
+              <Input
+                type="number"
+                step="0.01"
+                value={editAmount}
+                onChange={(e) => setEditAmount(e.target.value)}
+                className="h-8 w-28 bg-slate-800 border-slate-600 text-slate-100"
+                autoFocus
+              />
+            ) : (
+              <span
+                className={
+                  occurrence.status === "skipped"
+                    ? "text-slate-500 line-through"
+                    : rule.type === "income"
+                    ? "text-green-400"
+                    : "text-red-400"
+                }
+              >
+                ${occurrence.amount.toFixed(2)}
+              </span>
+            )}
+            {occurrence.status !== "scheduled" && (
+              <Badge
+                variant="outline"
+                className="border-slate-600 text-slate-400 capitalize"
+              >
+                {occurrence.status}
+              </Badge>
+            )}
+          </div>
+
+          <div className="flex items-center gap-1">
+            {editing === occurrence.date ? (
+              <>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={isWorking || !(Number(editAmount) > 0)}
+                  className="text-slate-300 hover:text-slate-100 hover:bg-slate-700"
+                  onClick={() =>
+                    run(async () => {
+                      await recurringAPI.updateOccurrence(
+                        rule.id,
+                        occurrence.date,
+                        { amount: Number(editAmount) }
+                      );
+                      setEditing(null);
+                    }, "Occurrence updated")
+                  }
+                >
+                  Save
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-slate-400 hover:text-slate-100 hover:bg-slate-700"
+                  onClick={() => setEditing(null)}
+                >
+                  Cancel
+                </Button>
+              </>
+            ) : occurrence.status === "scheduled" ? (
+              <>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  title="Change amount"
+                  disabled={isWorking}
+                  className="text-slate-400 hover:text-slate-100 hover:bg-slate-700"
+                  onClick={() => {
+                    setEditing(occurrence.date);
+                    setEditAmount(occurrence.amount.toString());
+                  }}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  title="Skip this occurrence"
+                  disabled={isWorking}
+                  className="text-slate-400 hover:text-slate-100 hover:bg-slate-700"
+                  onClick={() =>
+                    run(
+                      () =>
+                        recurringAPI.skipOccurrence(rule.id, occurrence.date),
+                      "Occurrence skipped"
+                    )
+                  }
+                >
+                  <SkipForward className="h-4 w-4" />
+                </Button>
+              </>
+            ) : (
+              <Button
+                size="sm"
+                variant="ghost"
+                title="Restore"
+                disabled={isWorking}
+                className="text-slate-400 hover:text-slate-100 hover:bg-slate-700"
+                onClick={() =>
+                  run(
+                    () =>
+                      recurringAPI.restoreOccurrence(rule.id, occurrence.date),
+                    "Occurrence restored"
+                  )
+                }
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function RecurringTransactionList({
+  rules,
+  onChange,
+  emptyMessage = "No recurring transactions yet",
+}: RecurringTransactionListProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [editingRule, setEditingRule] = useState<RecurringTransaction | null>(
+    null
+  );
+
+  const togglePaused = async (rule: RecurringTransaction) => {
+    try {
+      if (rule.is_paused) {
+        await recurringAPI.resume(rule.id);
+        toast.success(`${rule.description} resumed`);
+      } else {
+        await recurringAPI.pause(rule.id);
+        toast.success(`${rule.description} paused`);
+      }
+      onChange();
+    } catch (error) {
+      console.error("Failed to update recurring transaction:", error);
+      toast.error("Failed to update recurring transaction");
+    }
+  };
+
+  const handleDelete = async (rule: RecurringTransaction) => {
+    const confirmed = window.confirm(
+      `Delete "${rule.description}"? Transactions it already created are kept.`
+    );
+    if (!confirmed) return;
+
+    try {
+      await recurringAPI.delete(rule.id);
+      toast.success("Recurring transaction deleted");
+      onChange();
+    } catch (error) {
+      console.error("Failed to delete recurring transaction:", error);
+      toast.error("Failed to delete recurring transaction");
+    }
+  };
+
+  if (rules.length === 0) {
+    return (
+      <Card className="border-0 shadow-lg bg-slate-900 border-slate-800">
+        <CardContent className="p-12 text-center">
+          <Repeat className="h-12 w-12 text-slate-600 mx-auto mb-4" />
+          <p className="text-slate-400">{emptyMessage}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {rules.map((rule, index) => (
+        <motion.div
+          key={rule.id}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: index * 0.05 }}
+        >
+          <Card
+            className={`border-0 shadow-lg bg-slate-900 border-slate-800 ${
+              rule.is_paused ? "opacity-60" : ""
+            }`}
+          >
+            <CardContent className="p-4">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  <div
+                    className="w-3 h-3 rounded-full flex-shrink-0"
+                    style={{
+                      backgroundColor: rule.category_color || "#64748b",
+                    }}
+                  />
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-slate-100 truncate">
+                        {rule.description}
+                      </p>
+                      {rule.is_paused && (
+                        <Badge
+                          variant="outline"
+                          className="border-amber-700 text-amber-400"
+                        >
+                          Paused
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-slate-400">
+                      {describeSchedule(rule)}
+                      {rule.category_name && ` · ${rule.category_name}`}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {rule.next_occurrence
+                        ? `Next: ${formatDate(rule.next_occurrence)}`
+                        : "Finished"}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <span
+                    className={`font-semibold mr-2 ${
+                      rule.type === "income" ? "text-green-400" : "text-red-400"
+                    }`}
+                  >
+                    {rule.type === "income" ? "+" : "-"}$
+                    {rule.amount.toFixed(2)}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title={rule.is_paused ? "Resume" : "Pause"}
+                    className="text-slate-400 hover:text-slate-100 hover:bg-slate-800"
+                    onClick={() => togglePaused(rule)}
+                  >
+                    {rule.is_paused ? (
+                      <Play className="h-4 w-4" />
+                    ) : (
+                      <Pause className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Edit"
+                    className="text-slate-400 hover:text-slate-100 hover:bg-slate-800"
+                    onClick={() => setEditingRule(rule)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Delete"
+                    className="text-slate-400 hover:text-red-400 hover:bg-slate-800"
+                    onClick={() => handleDelete(rule)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Upcoming occurrences"
+                    className="text-slate-400 hover:text-slate-100 hover:bg-slate-800"
+                    onClick={() =>
+                      setExpanded(expanded === rule.id ? null : rule.id)
+                    }
+                  >
+                    {expanded === rule.id ? (
+                      <ChevronUp className="h-4 w-4" />
+                    ) : (
+                      <ChevronDown className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              </div>
+
+              {expanded === rule.id && (
+                <UpcomingOccurrences rule={rule} onChange={onChange} />
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      ))}
+
+      <Dialog
+        open={editingRule !== null}
+        onOpenChange={(open) => !open && setEditingRule(null)}
+      >
+        <DialogContent className="bg-slate-900 border-slate-700 max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-xl font-bold text-slate-100">
+              Edit Recurring Transaction
+            </DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Changes apply to future occurrences only
+            </DialogDescription>
+          </DialogHeader>
+          {editingRule && (
+            <RecurringTransactionForm
+              initialData={editingRule}
+              onSuccess={() => {
+                setEditingRule(null);
+                onChange();
+              }}
+              onCancel={() => setEditingRule(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
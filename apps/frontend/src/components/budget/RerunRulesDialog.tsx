@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowRight } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { rulesAPI, RerunParams, RuleChange } from "@/services/api";
+
+interface RerunRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApplied?: () => void;
+}
+
+const getErrorMessage = (err: any, fallback: string) =>
+  err?.response?.data?.error || err?.message || fallback;
+
+export function RerunRulesDialog({
+  open,
+  onOpenChange,
+  onApplied,
+}: RerunRulesDialogProps) {
+  const [options, setOptions] = useState({
+    start_date: "",
+    end_date: "",
+    overwrite_categories: false,
+  });
+  // null until a preview has been run for the current options
+  const [changes, setChanges] = useState<RuleChange[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const params = (): RerunParams => ({
+    start_date: options.start_date || undefined,
+    end_date: options.end_date || undefined,
+    overwrite_categories: options.overwrite_categories,
+  });
+
+  const updateOption = <K extends keyof typeof options>(
+    key: K,
+    value: (typeof options)[K]
+  ) => {
+    setOptions((prev) => ({ ...prev, [key]: value }));
+    setChanges(null);
+  };
+
+  const handlePreview = async () => {
+    setIsWorking(true);
+    try {
+      setChanges(await rulesAPI.previewRerun(params()));
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to preview rule changes"));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleApply = async () => {
+    setIsWorking(true);
+    try {
+      const applied = await rulesAPI.rerun(params());
+      toast.success(`Updated ${applied.length} transaction(s)`);
+      setChanges(null);
+      onOpenChange(false);
+      onApplied?.();
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to re-run rules"));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-900 border-slate-700 max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-slate-100">
+            Re-run Rules on Past Transactions
+          </DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Preview what your active rules would change, then apply it
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="rerun-start" className="text-slate-300">
+              From
+            </Label>
+            <Input
+              id="rerun-start"
+              type="date"
+              value={options.start_date}
+              onChange={(e) => updateOption("start_date", e.target.value)}
+              className="bg-slate-800 border-slate-600 text-slate-100"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rerun-end" className="text-slate-300">
+              To
+            </Label>
+            <Input
+              id="rerun-end"
+              type="date"
+              value={options.end_date}
+              onChange={(e) => updateOption("end_date", e.target.value)}
+              className="bg-slate-800 border-slate-600 text-slate-100"
+            />
+          </div>
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={options.overwrite_categories}
+            onChange={(e) =>
+              updateOption("overwrite_categories", e.target.checked)
+            }
+          />
+          <span>
+            Also recategorize transactions that already have a category
+          </span>
+        </label>
+
+        {changes !== null && (
+          <div className="max-h-80 overflow-y-auto space-y-2">
+            {changes.length === 0 ? (
+              <p className="text-sm text-slate-400 text-center py-6">
+                Nothing would change
+              </p>
+            ) : (
+              changes.map((change) => (
+                <div
+                  key={change.transaction_id}
+                  className="p-3 rounded-lg bg-slate-800/50 border border-slate-700 text-sm"
+                >
+                  <div className="flex justify-between text-slate-300">
+                    <span>
+                      {format(new Date(change.date), "MMM dd, yyyy")} ·{" "}
+                      {change.amount.toFixed(2)}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2 text-slate-100">
+                    <span className="truncate">{change.description}</span>
+                    {change.new_description && (
+                      <>
+                        <ArrowRight className="h-3 w-3 text-slate-500 shrink-0" />
+                        <span className="truncate text-green-400">
+                          {change.new_description}
+                        </span>
+                      </>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1 mt-1">
+                    {change.new_category_id && (
+                      <span className="text-slate-400">
+                        {change.category_name || "Uncategorized"}{" "}
+                        <ArrowRight className="inline h-3 w-3" />{" "}
+                        <span className="text-green-400">
+                          {change.new_category_name}
+                        </span>
+                      </span>
+                    )}
+                    {change.add_tags.map((tag) => (
+                      <Badge
+                        key={tag}
+                        variant="outline"
+                        className="text-xs border-sky-800 text-sky-300"
+                      >
+                        +#{tag}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        <div className="flex space-x-2 pt-2">
+          {changes === null ? (
+            <Button
+              onClick={handlePreview}
+              disabled={isWorking}
+              className="flex-1 bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white"
+            >
+              {isWorking ? "Checking..." : "Preview Changes"}
+            </Button>
+          ) : (
+            <Button
+              onClick={handleApply}
+              disabled={isWorking || changes.length === 0}
+              className="flex-1 bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white"
+            >
+              {isWorking
+                ? "Applying..."
+                : `Apply to ${changes.length} transaction(s)`}
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isWorking}
+            className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+          >
+            Cancel
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,363 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCategories } from "@/stores/budgetStore";
+import { useToast } from "@/components/ui/toast";
+import { rulesAPI, Rule, RuleInput, DescriptionOperator } from "@/services/api";
+import { getCategoryOptions } from "@/lib/categoryTree";
+
+interface RuleFormProps {
+  onSuccess?: (rule: Rule) => void;
+  onCancel?: () => void;
+  initialData?: Rule;
+}
+
+// Radix Select can't hold an empty value, so "any"/"none" stand in for null
+type OperatorOption = DescriptionOperator | "any";
+
+const operatorOptions: { value: OperatorOption; label: string }[] = [
+  { value: "any", label: "Any description" },
+  { value: "contains", label: "Contains" },
+  { value: "starts_with", label: "Starts with" },
+  { value: "equals", label: "Equals" },
+  { value: "regex", label: "Matches pattern" },
+];
+
+const selectItemClass =
+  "text-slate-100 focus:bg-slate-700 focus:text-slate-100";
+
+const inputClass =
+  "bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400";
+
+export function RuleForm({ onSuccess, onCancel, initialData }: RuleFormProps) {
+  const categories = useCategories();
+  const { addToast } = useToast();
+  const isEditing = !!initialData;
+  const [formData, setFormData] = useState<{
+    name: string;
+    description_operator: OperatorOption;
+    description_value: string;
+    min_amount: string;
+    max_amount: string;
+    match_type: "income" | "expense" | "any";
+    set_category_id: string;
+    set_description: string;
+    add_tags: string; // comma-separated
+  }>({
+    name: initialData?.name || "",
+    description_operator: initialData?.description_operator || "contains",
+    description_value: initialData?.description_value || "",
+    min_amount: initialData?.min_amount?.toString() ?? "",
+    max_amount: initialData?.max_amount?.toString() ?? "",
+    match_type: initialData?.match_type || "any",
+    set_category_id: initialData?.set_category_id || "none",
+    set_description: initialData?.set_description || "",
+    add_tags: initialData?.add_tags.join(", ") || "",
+  });
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = <K extends keyof typeof formData>(
+    key: K,
+    value: (typeof formData)[K]
+  ) => setFormData((prev) => ({ ...prev, [key]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const hasDescription =
+      formData.description_operator !== "any" &&
+      formData.description_value.trim() !== "";
+    const tags = formData.add_tags
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+
+    if (!formData.name.trim()) {
+      setError("Please give the rule a name");
+      return;
+    }
+
+    if (
+      !hasDescription &&
+      !formData.min_amount &&
+      !formData.max_amount &&
+      formData.match_type === "any"
+    ) {
+      setError("Add at least one condition");
+      return;
+    }
+
+    if (
+      formData.set_category_id === "none" &&
+      !formData.set_description.trim() &&
+      tags.length === 0
+    ) {
+      setError("Add at least one action");
+      return;
+    }
+
+    // null clears a condition or action when editing
+    const payload: RuleInput = {
+      name: formData.name.trim(),
+      description_operator: hasDescription
+        ? (formData.description_operator as DescriptionOperator)
+        : null,
+      description_value: hasDescription
+        ? formData.description_value.trim()
+        : null,
+      min_amount: formData.min_amount ? Number(formData.min_amount) : null,
+      max_amount: formData.max_amount ? Number(formData.max_amount) : null,
+      match_type: formData.match_type === "any" ? null : formData.match_type,
+      set_category_id:
+        formData.set_category_id === "none" ? null : formData.set_category_id,
+      set_description: formData.set_description.trim() || null,
+      add_tags: tags,
+    };
+
+    setIsSubmitting(true);
+    try {
+      let rule: Rule;
+      if (isEditing && initialData) {
+        rule = await rulesAPI.update(initialData.id, payload);
+      } else {
+        // Omit empty fields rather than sending nulls for a new rule
+        rule = await rulesAPI.create(
+          Object.fromEntries(
+            Object.entries(payload).filter(([, value]) => value !== null)
+          ) as RuleInput
+        );
+      }
+
+      addToast({
+        type: "success",
+        title: isEditing ? "Rule Updated" : "Rule Created",
+        description: `"${rule.name}" ${
+          isEditing ? "updated" : "created"
+        } successfully.`,
+      });
+      onSuccess?.(rule);
+    } catch (error: any) {
+      setError(
+        error.response?.data?.error ||
+          error.message ||
+          `Failed to ${isEditing ? "update" : "create"} rule`
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="text-sm text-red-400 bg-red-950/50 border border-red-800 p-2 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="rule-name" className="text-slate-200">
+          Name *
+        </Label>
+        <Input
+          id="rule-name"
+          placeholder="e.g. Coffee shops"
+          value={formData.name}
+          onChange={(e) => update("name", e.target.value)}
+          disabled={isSubmitting}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="space-y-3 rounded-lg border border-slate-700 p-3">
+        <p className="text-sm font-medium text-slate-300">
+          When all of these match
+        </p>
+
+        <div className="grid grid-cols-[10rem_1fr] gap-2">
+          <Select
+            value={formData.description_operator}
+            onValueChange={(value: OperatorOption) =>
+              update("description_operator", value)
+            }
+            disabled={isSubmitting}
+          >
+            <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-600">
+              {operatorOptions.map((option) => (
+                <SelectItem
+                  key={option.value}
+                  value={option.value}
+                  className={selectItemClass}
+                >
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder={
+              formData.description_operator === "regex"
+                ? "e.g. ^(starbucks|costa)"
+                : "e.g. starbucks"
+            }
+            value={formData.description_value}
+            onChange={(e) => update("description_value", e.target.value)}
+            disabled={isSubmitting || formData.description_operator === "any"}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <Input
+            type="number"
+            step="0.01"
+            placeholder="Min amount"
+            value={formData.min_amount}
+            onChange={(e) => update("min_amount", e.target.value)}
+            disabled={isSubmitting}
+            className={inputClass}
+          />
+          <Input
+            type="number"
+            step="0.01"
+            placeholder="Max amount"
+            value={formData.max_amount}
+            onChange={(e) => update("max_amount", e.target.value)}
+            disabled={isSubmitting}
+            className={inputClass}
+          />
+          <Select
+            value={formData.match_type}
+            onValueChange={(value: "income" | "expense" | "any") =>
+              update("match_type", value)
+            }
+            disabled={isSubmitting}
+          >
+            <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-600">
+              <SelectItem value="any" className={selectItemClass}>
+                Any type
+              </SelectItem>
+              <SelectItem value="expense" className={selectItemClass}>
+                Expense
+              </SelectItem>
+              <SelectItem value="income" className={selectItemClass}>
+                Income
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-3 rounded-lg border border-slate-700 p-3">
+        <p className="text-sm font-medium text-slate-300">Then</p>
+
+        <div className="space-y-2">
+          <Label className="text-slate-200">Set category</Label>
+          <Select
+            value={formData.set_category_id}
+            onValueChange={(value) => update("set_category_id", value)}
+            disabled={isSubmitting}
+          >
+            <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-600">
+              <SelectItem value="none" className={selectItemClass}>
+                Leave unchanged
+              </SelectItem>
+              {getCategoryOptions(categories, [formData.set_category_id]).map(
+                (category) => (
+                  <SelectItem
+                    key={category.id}
+                    value={category.id}
+                    className={selectItemClass}
+                  >
+                    <div className="flex items-center space-x-2">
+                      <div
+                        className="w-3 h-3 rounded-full"
+                        style={{ backgroundColor: category.color }}
+                      />
+                      <span>{category.path}</span>
+                    </div>
+                  </SelectItem>
+                )
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="rule-description" className="text-slate-200">
+            Rename to
+          </Label>
+          <Input
+            id="rule-description"
+            placeholder="Leave blank to keep the description"
+            value={formData.set_description}
+            onChange={(e) => update("set_description", e.target.value)}
+            disabled={isSubmitting}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="rule-tags" className="text-slate-200">
+            Add tags
+          </Label>
+          <Input
+            id="rule-tags"
+            placeholder="e.g. coffee, work"
+            value={formData.add_tags}
+            onChange={(e) => update("add_tags", e.target.value)}
+            disabled={isSubmitting}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="flex space-x-2 pt-2">
+        <Button
+          type="submit"
+          className="flex-1 bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white"
+          disabled={isSubmitting}
+        >
+          {isSubmitting
+            ? isEditing
+              ? "Updating..."
+              : "Creating..."
+            : isEditing
+            ? "Update Rule"
+            : "Create Rule"}
+        </Button>
+        {onCancel && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+          >
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  ArrowDown,
+  ArrowUp,
+  Pause,
+  Play,
+  Pencil,
+  Trash2,
+  Wand2,
+} from "lucide-react";
+import { toast } from "react-hot-toast";
+import { rulesAPI, Rule } from "@/services/api";
+import { RuleForm } from "./RuleForm";
+
+interface RuleListProps {
+  rules: Rule[];
+  onChange: () => void;
+  emptyMessage?: string;
+}
+
+const operatorLabels: Record<
+  NonNullable<Rule["description_operator"]>,
+  string
+> = {
+  contains: "contains",
+  starts_with: "starts with",
+  equals: "is",
+  regex: "matches",
+};
+
+function describeConditions(rule: Rule): string {
+  const parts: string[] = [];
+  if (rule.description_operator && rule.description_value) {
+    parts.push(
+      `description ${operatorLabels[rule.description_operator]} "${
+        rule.description_value
+      }"`
+    );
+  }
+  if (rule.min_amount !== null && rule.max_amount !== null) {
+    parts.push(`amount between ${rule.min_amount} and ${rule.max_amount}`);
+  } else if (rule.min_amount !== null) {
+    parts.push(`amount at least ${rule.min_amount}`);
+  } else if (rule.max_amount !== null) {
+    parts.push(`amount at most ${rule.max_amount}`);
+  }
+  if (rule.match_type) {
+    parts.push(`type is ${rule.match_type}`);
+  }
+  return `When ${parts.join(" and ")}`;
+}
+
+export function RuleList({
+  rules,
+  onChange,
+  emptyMessage = "No rules yet",
+}: RuleListProps) {
+  const [editingRule, setEditingRule] = useState<Rule | null>(null);
+
+  const toggleActive = async (rule: Rule) => {
+    try {
+      await rulesAPI.update(rule.id, { is_active: !rule.is_active });
+      toast.success(`${rule.name} ${rule.is_active ? "paused" : "resumed"}`);
+      onChange();
+    } catch (error) {
+      console.error("Failed to update rule:", error);
+      toast.error("Failed to update rule");
+    }
+  };
+
+  // Swap a rule with its neighbour in the priority order
+  const move = async (index: number, offset: -1 | 1) => {
+    const ids = rules.map((rule) => rule.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+
+    try {
+      await rulesAPI.reorder(ids);
+      onChange();
+    } catch (error) {
+      console.error("Failed to reorder rules:", error);
+      toast.error("Failed to reorder rules");
+    }
+  };
+
+  const handleDelete = async (rule: Rule) => {
+    const confirmed = window.confirm(
+      `Delete "${rule.name}"? Transactions it already changed are kept.`
+    );
+    if (!confirmed) return;
+
+    try {
+      await rulesAPI.delete(rule.id);
+      toast.success("Rule deleted");
+      onChange();
+    } catch (error) {
+      console.error("Failed to delete rule:", error);
+      toast.error("Failed to delete rule");
+    }
+  };
+
+  if (rules.length === 0) {
+    return (
+      <Card className="border-0 shadow-lg bg-slate-900 border-slate-800">
+        <CardContent className="p-12 text-center">
+          <Wand2 className="h-12 w-12 text-slate-600 mx-auto mb-4" />
+          <p className="text-slate-400">{emptyMessage}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {rules.map((rule, index) => (
+        <motion.div
+          key={rule.id}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: index * 0.05 }}
+        >
+          <Card
+            className={`border-0 shadow-lg bg-slate-900 border-slate-800 ${
+              rule.is_active ? "" : "opacity-60"
+            }`}
+          >
+            <CardContent className="p-4">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  <span className="text-sm font-mono text-slate-500 w-6 text-right">
+                    {index + 1}
+                  </span>
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-slate-100 truncate">
+                        {rule.name}
+                      </p>
+                      {!rule.is_active && (
+                        <Badge
+                          variant="outline"
+                          className="border-amber-700 text-amber-400"
+                        >
+                          Paused
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-slate-400">
+                      {describeConditions(rule)}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-1 mt-1">
+                      {rule.set_category_id && (
+                        <Badge
+                          variant="outline"
+                          className="text-xs border-slate-600 text-slate-300"
+                        >
+                          <div
+                            className="w-2 h-2 rounded-full mr-1"
+                            style={{
+                              backgroundColor: rule.category_color || "#64748b",
+                            }}
+                          />
+                          {rule.category_name}
+                        </Badge>
+                      )}
+                      {rule.set_description && (
+                        <Badge
+                          variant="outline"
+                          className="text-xs border-slate-600 text-slate-300"
+                        >
+                          Rename to "{rule.set_description}"
+                        </Badge>
+                      )}
+                      {rule.add_tags.map((tag) => (
+                        <Badge
+                          key={tag}
+                          variant="outline"
+                          className="text-xs border-sky-800 text-sky-300"
+                        >
+                          #{tag}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-1">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Move up"
+                    disabled={index === 0}
+                    className="text-slate-400 hover:text-slate-100 hover:bg-slate-800"
+                    onClick={() => move(index, -1)}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Move down"
+                    disabled={index === rules.length - 1}
+                    className="text-slate-400 hover:text-slate-100 hover:bg-slate-800"
+                    onClick={() => move(index, 1)}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title={rule.is_active ? "Pause" : "Resume"}
+                    className="text-slate-400 hover:text-slate-100 hover:bg-slate-800"
+                    onClick={() => toggleActive(rule)}
+                  >
+                    {rule.is_active ? (
+                      <Pause className="h-4 w-4" />
+                    ) : (
+                      <Play className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Edit"
+                    className="text-slate-400 hover:text-slate-100 hover:bg-slate-800"
+                    onClick={() => setEditingRule(rule)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Delete"
+                    className="text-slate-400 hover:text-red-400 hover:bg-slate-800"
+                    onClick={() => handleDelete(rule)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </motion.div>
+      ))}
+
+      <Dialog
+        open={editingRule !== null}
+        onOpenChange={(open) => !open && setEditingRule(null)}
+      >
+        <DialogContent className="bg-slate-900 border-slate-700 max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="text-xl font-bold text-slate-100">
+              Edit Rule
+            </DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Changes apply to new transactions; re-run the rules to update past
+              ones
+            </DialogDescription>
+          </DialogHeader>
+          {editingRule && (
+            <RuleForm
+              initialData={editingRule}
+              onSuccess={() => {
+                setEditingRule(null);
+                onChange();
+              }}
+              onCancel={() => setEditingRule(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
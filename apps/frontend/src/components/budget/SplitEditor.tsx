@@ -0,0 +1,147 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import type { Category } from "@/stores/budgetStore";
+import { getCategoryOptions } from "@/lib/categoryTree";
+
+// Form state for one split line; amount is kept as typed
+export interface SplitLine {
+  category_id: string | undefined;
+  amount: string;
+  memo: string;
+}
+
+interface SplitEditorProps {
+  lines: SplitLine[];
+  onChange: (lines: SplitLine[]) => void;
+  categories: Category[];
+  total: number; // the transaction amount the lines must add up to
+  disabled?: boolean;
+}
+
+export const emptySplitLine = (): SplitLine => ({
+  category_id: undefined,
+  amount: "",
+  memo: "",
+});
+
+// Sum in cents so the comparison with the total is exact
+export const splitLinesTotalCents = (lines: SplitLine[]) =>
+  lines.reduce(
+    (sum, line) => sum + Math.round((Number(line.amount) || 0) * 100),
+    0
+  );
+
+const selectItemClass =
+  "text-slate-100 focus:bg-slate-700 focus:text-slate-100";
+
+export function SplitEditor({
+  lines,
+  onChange,
+  categories,
+  total,
+  disabled,
+}: SplitEditorProps) {
+  const remainingCents = Math.round(total * 100) - splitLinesTotalCents(lines);
+
+  const updateLine = (index: number, changes: Partial<SplitLine>) => {
+    onChange(
+      lines.map((line, i) => (i === index ? { ...line, ...changes } : line))
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      {lines.map((line, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Select
+            value={line.category_id || ""}
+            onValueChange={(value) => updateLine(index, { category_id: value })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-36 bg-slate-800 border-slate-600 text-slate-100">
+              <SelectValue placeholder="Category" />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-600">
+              {getCategoryOptions(categories, [line.category_id]).map(
+                (category) => (
+                  <SelectItem
+                    key={category.id}
+                    value={category.id}
+                    className={selectItemClass}
+                  >
+                    <div className="flex items-center space-x-2">
+                      <div
+                        className="w-3 h-3 rounded-full"
+                        style={{ backgroundColor: category.color }}
+                      />
+                      <span>{category.path}</span>
+                    </div>
+                  </SelectItem>
+                )
+              )}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            step="0.01"
+            placeholder="0.00"
+            value={line.amount}
+            onChange={(e) => updateLine(index, { amount: e.target.value })}
+            disabled={disabled}
+            className="w-24 bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+          />
+          <Input
+            placeholder="Memo"
+            value={line.memo}
+            onChange={(e) => updateLine(index, { memo: e.target.value })}
+            disabled={disabled}
+            className="flex-1 bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(lines.filter((_, i) => i !== index))}
+            disabled={disabled || lines.length <= 2}
+            className="h-8 w-8 p-0 text-slate-400 hover:text-white hover:bg-slate-700"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange([...lines, emptySplitLine()])}
+          disabled={disabled}
+          className="text-slate-300 hover:text-white hover:bg-slate-700"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add line
+        </Button>
+        <span
+          className={`text-sm ${
+            remainingCents === 0 ? "text-green-400" : "text-amber-400"
+          }`}
+        >
+          {remainingCents === 0
+            ? "Fully allocated"
+            : `${remainingCents > 0 ? "Unallocated" : "Over by"} $${(
+                Math.abs(remainingCents) / 100
+              ).toFixed(2)}`}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/toast";
+import { tagsAPI, Tag } from "@/services/api";
+
+interface TagFormProps {
+  onSuccess?: (tag: Tag) => void;
+  onCancel?: () => void;
+  initialData?: Tag;
+}
+
+const colorOptions = [
+  "#dc2626", // muted red
+  "#ea580c", // muted orange
+  "#ca8a04", // muted yellow
+  "#16a34a", // muted green
+  "#2563eb", // muted blue
+  "#7c3aed", // muted violet
+  "#be185d", // muted pink
+  "#6b7280", // professional gray
+];
+
+export function TagForm({ onSuccess, onCancel, initialData }: TagFormProps) {
+  const [formData, setFormData] = useState({
+    name: initialData?.name || "",
+    color: initialData?.color ?? null,
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { addToast } = useToast();
+  const isEditing = !!initialData;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!formData.name.trim()) {
+      setError("Please give the tag a name");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const tag =
+        isEditing && initialData
+          ? await tagsAPI.update(initialData.id, {
+              name: formData.name.trim(),
+              color: formData.color,
+            })
+          : await tagsAPI.create({
+              name: formData.name.trim(),
+              color: formData.color ?? undefined,
+            });
+
+      addToast({
+        type: "success",
+        title: isEditing ? "Tag Updated" : "Tag Created",
+        description: `#${tag.name} ${
+          isEditing ? "updated" : "created"
+        } successfully.`,
+      });
+      onSuccess?.(tag);
+    } catch (error: any) {
+      setError(
+        error.response?.data?.error ||
+          error.message ||
+          `Failed to ${isEditing ? "update" : "create"} tag`
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="text-sm text-red-400 bg-red-950/50 border border-red-800 p-2 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="tag-name" className="text-slate-200">
+          Name *
+        </Label>
+        <Input
+          id="tag-name"
+          placeholder="e.g. japan 2026"
+          value={formData.name}
+          onChange={(e) =>
+            setFormData((prev) => ({ ...prev, name: e.target.value }))
+          }
+          disabled={isSubmitting}
+          className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-slate-200">Color (Optional)</Label>
+        <div className="flex space-x-2">
+          {colorOptions.map((color) => (
+            <button
+              key={color}
+              type="button"
+              className={`w-8 h-8 rounded-full border-2 transition-all ${
+                formData.color === color
+                  ? "border-slate-300 scale-110 shadow-md"
+                  : "border-slate-500 hover:border-slate-400"
+              }`}
+              style={{ backgroundColor: color }}
+              onClick={() =>
+                // Clicking the selected color again clears it
+                setFormData((prev) => ({
+                  ...prev,
+                  color: prev.color === color ? null : color,
+                }))
+              }
+              disabled={isSubmitting}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex space-x-2 pt-4">
+        <Button
+          type="submit"
+          className="flex-1 bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white"
+          disabled={isSubmitting}
+        >
+          {isSubmitting
+            ? isEditing
+              ? "Updating..."
+              : "Creating..."
+            : isEditing
+            ? "Update Tag"
+            : "Create Tag"}
+        </Button>
+        {onCancel && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+          >
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { motion } from "framer-motion";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { List, Pencil, Tag as TagIcon, Trash2 } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { tagsAPI, Tag, TagSpending } from "@/services/api";
+import { useUser } from "@/stores/authStore";
+import { formatMoney } from "@/lib/utils";
+import { TagForm } from "./TagForm";
+
+interface TagListProps {
+  tags: Tag[];
+  spending: TagSpending[]; // totals for the selected period
+  onChange: () => void;
+  emptyMessage?: string;
+}
+
+export function TagList({
+  tags,
+  spending,
+  onChange,
+  emptyMessage = "No tags yet",
+}: TagListProps) {
+  const [editingTag, setEditingTag] = useState<Tag | null>(null);
+  const baseCurrency = useUser()?.base_currency ?? "USD";
+
+  const spendingByTag = new Map(spending.map((row) => [row.tagId, row]));
+  // Biggest spend first, like the category breakdown
+  const expensesOf = (tag: Tag) => spendingByTag.get(tag.id)?.expenses ?? 0;
+  const sortedTags = [...tags].sort(
+    (a, b) => expensesOf(b) - expensesOf(a) || a.name.localeCompare(b.name)
+  );
+
+  const handleDelete = async (tag: Tag) => {
+    const confirmed = window.confirm(
+      `Delete #${tag.name}? It is removed from its transactions, which are kept.`
+    );
+    if (!confirmed) return;
+
+    try {
+      await tagsAPI.delete(tag.id);
+      toast.success("Tag deleted");
+      onChange();
+    } catch (error) {
+      console.error("Failed to delete tag:", error);
+      toast.error("Failed to delete tag");
+    }
+  };
+
+  if (tags.length === 0) {
+    return (
+      <Card className="border-0 shadow-lg bg-slate-900 border-slate-800">
+        <CardContent className="p-12 text-center">
+          <TagIcon className="h-12 w-12 text-slate-600 mx-auto mb-4" />
+          <p className="text-slate-400">{emptyMessage}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {sortedTags.map((tag, index) => {
+        const totals = spendingByTag.get(tag.id);
+        return (
+          <motion.div
+            key={tag.id}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: index * 0.05 }}
+          >
+            <Card className="border-0 shadow-lg bg-slate-900 border-slate-800">
+              <CardContent className="p-4">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <div
+                      className="w-3 h-3 rounded-full shrink-0"
+                      style={{ backgroundColor: tag.color || "#64748b" }}
+                    />
+                    <div className="min-w-0">
+                      <p className="font-medium text-slate-100 truncate">
+                        #{tag.name}
+                      </p>
+                      <p className="text-sm text-slate-400">
+                        {totals?.transactionCount ?? 0} transaction(s) in period
+                        · {tag.transaction_count ?? 0} in total
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-4">
+                    <div className="text-right">
+                      <p className="font-semibold text-red-400">
+                        -{formatMoney(totals?.expenses ?? 0, baseCurrency)}
+                      </p>
+                      {!!totals?.income && (
+                        <p className="text-xs text-green-400">
+                          +{formatMoney(totals.income, baseCurrency)}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        asChild
+                        size="sm"
+                        variant="ghost"
+                        title="View transactions"
+                        className="text-slate-400 hover:text-slate-100 hover:bg-slate-800"
+                      >
+                        <Link to={`/transactions?tag=${tag.id}`}>
+                          <List className="h-4 w-4" />
+                        </Link>
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Edit"
+                        className="text-slate-400 hover:text-slate-100 hover:bg-slate-800"
+                        onClick={() => setEditingTag(tag)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Delete"
+                        className="text-slate-400 hover:text-red-400 hover:bg-slate-800"
+                        onClick={() => handleDelete(tag)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </motion.div>
+        );
+      })}
+
+      <Dialog
+        open={editingTag !== null}
+        onOpenChange={(open) => !open && setEditingTag(null)}
+      >
+        <DialogContent className="bg-slate-900 border-slate-700 max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-xl font-bold text-slate-100">
+              Edit Tag
+            </DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Renaming a tag renames it on all of its transactions
+            </DialogDescription>
+          </DialogHeader>
+          {editingTag && (
+            <TagForm
+              initialData={editingTag}
+              onSuccess={() => {
+                setEditingTag(null);
+                onChange();
+              }}
+              onCancel={() => setEditingTag(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
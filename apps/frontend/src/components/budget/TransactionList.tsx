@@ -33,14 +33,18 @@ import {
   Trash2,
   TrendingUp,
   TrendingDown,
+  ArrowLeftRight,
   Plus,
   Calendar,
 } from "lucide-react";
 import { format } from "date-fns";
 import { toast } from "react-hot-toast";
 import { AddTransactionForm } from "@/components/budget/AddTransactionForm";
+import { TransferForm } from "@/components/budget/TransferForm";
 import type { Transaction } from "@/stores/budgetStore";
 import { useBudgetStore } from "@/stores/budgetStore";
+import { useUser } from "@/stores/authStore";
+import { formatMoney } from "@/lib/utils";
 
 interface TransactionListProps {
   transactions: Transaction[];
@@ -68,13 +72,23 @@ function EditTransactionDialog({
     <Dialog open={isOpen} onOpenChange={onOpenChange}>
       <DialogContent className="bg-slate-900 border-slate-700 text-white max-w-md">
         <DialogHeader>
-          <DialogTitle className="text-white">Edit Transaction</DialogTitle>
+          <DialogTitle className="text-white">
+            {transaction.transfer_id ? "Edit Transfer" : "Edit Transaction"}
+          </DialogTitle>
         </DialogHeader>
-        <AddTransactionForm
-          onSuccess={() => onOpenChange(false)}
-          onCancel={() => onOpenChange(false)}
-          initialData={transaction}
-        />
+        {transaction.transfer_id ? (
+          <TransferForm
+            onSuccess={() => onOpenChange(false)}
+            onCancel={() => onOpenChange(false)}
+            transferId={transaction.transfer_id}
+          />
+        ) : (
+          <AddTransactionForm
+            onSuccess={() => onOpenChange(false)}
+            onCancel={() => onOpenChange(false)}
+            initialData={transaction}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -94,22 +108,19 @@ function DeleteTransactionDialog({
             Delete Transaction
           </AlertDialogTitle>
           <AlertDialogDescription className="text-slate-400">
-            Are you sure you want to delete this transaction? This action cannot
-            be undone.
+            Are you sure you want to delete this transaction?{" "}
+            {transaction.transfer_id &&
+              "Both sides of the transfer will be deleted. "}
+            This action cannot be undone.
             <div className="mt-3 p-3 bg-slate-800 rounded-lg border border-slate-700">
               <div className="flex justify-between items-center">
                 <span className="font-medium text-white">
                   {transaction.description}
                 </span>
                 <span
-                  className={`font-semibold ${
-                    transaction.type === "income"
-                      ? "text-green-400"
-                      : "text-red-400"
-                  }`}
+                  className={`font-semibold ${getAmountColor(transaction)}`}
                 >
-                  {transaction.type === "income" ? "+" : "-"}$
-                  {Math.abs(transaction.amount).toFixed(2)}
+                  {formatAmount(transaction)}
                 </span>
               </div>
               <div className="text-sm text-slate-400 mt-1">
@@ -134,9 +145,35 @@ function DeleteTransactionDialog({
   );
 }
 
+// Income and incoming transfer legs add money; everything else takes it out
+const isInflow = (transaction: Transaction) =>
+  transaction.type === "income" || transaction.transfer_direction === "in";
+
+const formatAmount = (transaction: Transaction) => {
+  const prefix = isInflow(transaction) ? "+" : "-";
+  return `${prefix}${formatMoney(
+    Math.abs(transaction.amount),
+    transaction.currency
+  )}`;
+};
+
+// Transfers only move money between accounts, so they stay neutral
+const getAmountColor = (transaction: Transaction) => {
+  if (transaction.type === "transfer") {
+    return "text-blue-400";
+  }
+  return transaction.type === "income" ? "text-green-400" : "text-red-400";
+};
+
 function TransactionCard({ transaction }: { transaction: Transaction }) {
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const { removeTransaction } = useBudgetStore();
+  const baseCurrency = useUser()?.base_currency ?? "USD";
+  // Foreign amounts also show what they count as in totals
+  const showBaseAmount =
+    !!transaction.currency &&
+    transaction.currency !== baseCurrency &&
+    transaction.base_amount !== undefined;
 
   const handleDelete = async () => {
     try {
@@ -148,15 +185,6 @@ function TransactionCard({ transaction }: { transaction: Transaction }) {
     }
   };
 
-  const formatAmount = (amount: number, type: "income" | "expense") => {
-    const prefix = type === "income" ? "+" : "-";
-    return `${prefix}$${Math.abs(amount).toFixed(2)}`;
-  };
-
-  const getAmountColor = (type: "income" | "expense") => {
-    return type === "income" ? "text-green-400" : "text-red-400";
-  };
-
   return (
     <>
       <motion.div
@@ -172,12 +200,16 @@ function TransactionCard({ transaction }: { transaction: Transaction }) {
               <div className="flex items-center space-x-3 flex-1 min-w-0">
                 <div
                   className={`p-2 rounded-full ${
-                    transaction.type === "income"
+                    transaction.type === "transfer"
+                      ? "bg-blue-500/20 text-blue-400"
+                      : transaction.type === "income"
                       ? "bg-green-500/20 text-green-400"
                       : "bg-red-500/20 text-red-400"
                   }`}
                 >
-                  {transaction.type === "income" ? (
+                  {transaction.type === "transfer" ? (
+                    <ArrowLeftRight className="h-4 w-4" />
+                  ) : transaction.type === "income" ? (
                     <TrendingUp className="h-4 w-4" />
                   ) : (
                     <TrendingDown className="h-4 w-4" />
@@ -187,6 +219,11 @@ function TransactionCard({ transaction }: { transaction: Transaction }) {
                   <p className="font-medium text-white truncate">
                     {transaction.description}
                   </p>
+                  {transaction.notes && (
+                    <p className="text-xs text-slate-400 truncate">
+                      {transaction.notes}
+                    </p>
+                  )}
                   <div className="flex items-center space-x-2 mt-1">
                     <p className="text-sm text-slate-400">
                       {format(new Date(transaction.date), "MMM dd, yyyy")}
@@ -204,17 +241,82 @@ function TransactionCard({ transaction }: { transaction: Transaction }) {
                         {transaction.category_name}
                       </Badge>
                     )}
+                    {transaction.splits?.map((split, index) => (
+                      <Badge
+                        key={split.id ?? index}
+                        variant="secondary"
+                        className="text-xs bg-slate-800 text-slate-300 border-slate-700"
+                        style={{
+                          backgroundColor: split.category_color + "20",
+                          color: split.category_color || "#94a3b8",
+                          borderColor: split.category_color + "40",
+                        }}
+                        title={split.memo || undefined}
+                      >
+                        {split.category_name || "Uncategorized"} $
+                        {split.amount.toFixed(2)}
+                      </Badge>
+                    ))}
+                    {transaction.account_name && (
+                      <Badge
+                        variant="outline"
+                        className="text-xs text-slate-400 border-slate-700"
+                      >
+                        {transaction.account_name}
+                      </Badge>
+                    )}
+                    {transaction.transfer_account_name && (
+                      <Badge
+                        variant="outline"
+                        className="text-xs text-blue-300 border-blue-700"
+                      >
+                        {transaction.transfer_direction === "out"
+                          ? "To"
+                          : "From"}{" "}
+                        {transaction.transfer_account_name}
+                      </Badge>
+                    )}
+                    {transaction.tags?.map((tag) => (
+                      <Badge
+                        key={tag.id}
+                        variant="outline"
+                        className="text-xs border-sky-800 text-sky-300"
+                        style={
+                          tag.color
+                            ? {
+                                color: tag.color,
+                                borderColor: tag.color + "80",
+                              }
+                            : undefined
+                        }
+                      >
+                        #{tag.name}
+                      </Badge>
+                    ))}
                   </div>
                 </div>
               </div>
               <div className="flex items-center space-x-3">
-                <p
-                  className={`font-semibold text-lg ${getAmountColor(
-                    transaction.type
-                  )}`}
-                >
-                  {formatAmount(transaction.amount, transaction.type)}
-                </p>
+                <div className="text-right">
+                  <p
+                    className={`font-semibold text-lg ${getAmountColor(
+                      transaction
+                    )}`}
+                  >
+                    {formatAmount(transaction)}
+                  </p>
+                  {showBaseAmount && (
+                    <p className="text-xs text-slate-400">
+                      ≈ {formatMoney(transaction.base_amount!, baseCurrency)}
+                    </p>
+                  )}
+                  {transaction.running_balance !== undefined && (
+                    <p className="text-xs text-slate-500">
+                      Balance {transaction.running_balance < 0 ? "-" : ""}$
+                      {Math.abs(transaction.running_balance).toFixed(2)}
+                    </p>
+                  )}
+                </div>
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
                     <Button
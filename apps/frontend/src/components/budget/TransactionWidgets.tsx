@@ -9,9 +9,12 @@ import {
   MoreHorizontal,
   TrendingUp,
   TrendingDown,
+  ArrowLeftRight,
 } from "lucide-react";
 import { format } from "date-fns";
 import type { Transaction } from "@/stores/budgetStore";
+import { formatMoney } from "@/lib/utils";
+import { useUser } from "@/stores/authStore";
 
 interface RecentTransactionsProps {
   transactions: Transaction[];
@@ -22,12 +25,19 @@ export function RecentTransactions({
   transactions,
   index,
 }: RecentTransactionsProps) {
-  const formatAmount = (amount: number, type: "income" | "expense") => {
-    const prefix = type === "income" ? "+" : "-";
-    return `${prefix}$${Math.abs(amount).toFixed(2)}`;
+  const formatAmount = (transaction: Transaction) => {
+    const inflow =
+      transaction.type === "income" || transaction.transfer_direction === "in";
+    return `${inflow ? "+" : "-"}${formatMoney(
+      Math.abs(transaction.amount),
+      transaction.currency
+    )}`;
   };
-  const getAmountColor = (type: "income" | "expense") => {
-    return type === "income" ? "text-green-400" : "text-red-400";
+  const getAmountColor = (transaction: Transaction) => {
+    if (transaction.type === "transfer") {
+      return "text-blue-400";
+    }
+    return transaction.type === "income" ? "text-green-400" : "text-red-400";
   };
   return (
     <motion.div
@@ -71,12 +81,16 @@ export function RecentTransactions({
                 <div className="flex items-center space-x-3">
                   <div
                     className={`p-2 rounded-full ${
-                      transaction.type === "income"
+                      transaction.type === "transfer"
+                        ? "bg-blue-900/50 text-blue-400"
+                        : transaction.type === "income"
                         ? "bg-green-900/50 text-green-400"
                         : "bg-red-900/50 text-red-400"
                     }`}
                   >
-                    {transaction.type === "income" ? (
+                    {transaction.type === "transfer" ? (
+                      <ArrowLeftRight className="h-4 w-4" />
+                    ) : transaction.type === "income" ? (
                       <ArrowUpRight className="h-4 w-4" />
                     ) : (
                       <ArrowDownRight className="h-4 w-4" />
@@ -106,12 +120,8 @@ export function RecentTransactions({
                   </div>
                 </div>
                 <div className="text-right">
-                  <p
-                    className={`font-semibold ${getAmountColor(
-                      transaction.type
-                    )}`}
-                  >
-                    {formatAmount(transaction.amount, transaction.type)}
+                  <p className={`font-semibold ${getAmountColor(transaction)}`}>
+                    {formatAmount(transaction)}
                   </p>
                 </div>
               </motion.div>
@@ -138,6 +148,8 @@ export function QuickStats({
   transactionCount,
   index,
 }: QuickStatsProps) {
+  // Totals are converted to the base currency
+  const baseCurrency = useUser()?.base_currency ?? "USD";
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -158,7 +170,7 @@ export function QuickStats({
                 <span className="text-sm text-slate-400">Income</span>
               </div>{" "}
               <p className="text-2xl font-bold text-green-400">
-                ${(totalIncome || 0).toFixed(2)}
+                {formatMoney(totalIncome || 0, baseCurrency)}
               </p>{" "}
               <p className="text-xs text-slate-400">Total earnings</p>
             </div>
@@ -169,7 +181,7 @@ export function QuickStats({
                 <span className="text-sm text-slate-400">Expenses</span>
               </div>{" "}
               <p className="text-2xl font-bold text-red-400">
-                ${(totalExpenses || 0).toFixed(2)}
+                {formatMoney(totalExpenses || 0, baseCurrency)}
               </p>{" "}
               <p className="text-xs text-slate-400">Total spending</p>
             </div>
@@ -183,7 +195,7 @@ export function QuickStats({
                   (totalBalance || 0) >= 0 ? "text-green-400" : "text-red-400"
                 }`}
               >
-                ${(totalBalance || 0).toFixed(2)}
+                {formatMoney(totalBalance || 0, baseCurrency)}
               </span>
             </div>
             <div className="flex justify-between items-center mt-2">
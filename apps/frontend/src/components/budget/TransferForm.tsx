@@ -0,0 +1,273 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useBudgetStore, useAccounts } from "@/stores/budgetStore";
+import { useToast } from "@/components/ui/toast";
+import { transactionsAPI } from "@/services/api";
+
+interface TransferFormProps {
+  onSuccess?: () => void;
+  onCancel?: () => void;
+  transferId?: string; // edit an existing transfer
+}
+
+const selectItemClass =
+  "text-slate-100 focus:bg-slate-700 focus:text-slate-100";
+
+export function TransferForm({
+  onSuccess,
+  onCancel,
+  transferId,
+}: TransferFormProps) {
+  const { refreshAllData } = useBudgetStore();
+  const accounts = useAccounts();
+  const { addToast } = useToast();
+  const isEditing = !!transferId;
+  const [formData, setFormData] = useState<{
+    from_account_id: string | undefined;
+    to_account_id: string | undefined;
+    amount: string;
+    description: string;
+    date: string;
+  }>({
+    from_account_id: undefined,
+    to_account_id: undefined,
+    amount: "",
+    description: "",
+    date: new Date().toISOString().split("T")[0], // YYYY-MM-DD format
+  });
+  const [isLoading, setIsLoading] = useState(isEditing);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Both legs are needed to know the source and destination accounts
+  useEffect(() => {
+    if (!transferId) return;
+
+    transactionsAPI
+      .getTransfer(transferId)
+      .then((transfer) =>
+        setFormData({
+          from_account_id: transfer.from.account_id || undefined,
+          to_account_id: transfer.to.account_id || undefined,
+          amount: Number(transfer.from.amount).toString(),
+          description: transfer.from.description,
+          date: new Date(transfer.from.date).toISOString().split("T")[0],
+        })
+      )
+      .catch((error) => {
+        console.error("Failed to load transfer:", error);
+        setError("Failed to load transfer");
+      })
+      .finally(() => setIsLoading(false));
+  }, [transferId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (
+      !formData.from_account_id ||
+      !formData.to_account_id ||
+      !formData.amount ||
+      !formData.description
+    ) {
+      setError("Please fill in all required fields");
+      return;
+    }
+
+    if (formData.from_account_id === formData.to_account_id) {
+      setError("Choose two different accounts");
+      return;
+    }
+
+    if (isNaN(Number(formData.amount)) || Number(formData.amount) <= 0) {
+      setError("Please enter a valid positive amount");
+      return;
+    }
+
+    const payload = {
+      from_account_id: formData.from_account_id,
+      to_account_id: formData.to_account_id,
+      amount: Number(formData.amount),
+      description: formData.description,
+      date: formData.date,
+    };
+
+    setIsSubmitting(true);
+    try {
+      if (isEditing && transferId) {
+        await transactionsAPI.updateTransfer(transferId, payload);
+      } else {
+        await transactionsAPI.createTransfer(payload);
+      }
+      // Both legs and both account balances change
+      await refreshAllData();
+
+      if (!isEditing) {
+        setFormData((prev) => ({
+          ...prev,
+          amount: "",
+          description: "",
+        }));
+      }
+
+      addToast({
+        type: "success",
+        title: isEditing ? "Transfer Updated" : "Transfer Created",
+        description: `Transfer of $${formData.amount} ${
+          isEditing ? "updated" : "created"
+        } successfully.`,
+      });
+
+      onSuccess?.();
+    } catch (error: any) {
+      setError(
+        error.response?.data?.error ||
+          error.message ||
+          `Failed to ${isEditing ? "update" : "create"} transfer`
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderAccountSelect = (
+    field: "from_account_id" | "to_account_id",
+    label: string
+  ) => (
+    <div className="space-y-2">
+      <Label className="text-slate-200">{label} *</Label>
+      <Select
+        value={formData[field] || ""}
+        onValueChange={(value) =>
+          setFormData((prev) => ({ ...prev, [field]: value }))
+        }
+        disabled={isSubmitting || isLoading}
+      >
+        <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+          <SelectValue placeholder="Select account" />
+        </SelectTrigger>
+        <SelectContent className="bg-slate-800 border-slate-600">
+          {accounts.map((account) => (
+            <SelectItem
+              key={account.id}
+              value={account.id}
+              className={selectItemClass}
+            >
+              {account.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="text-sm text-red-400 bg-red-950/50 border border-red-800 p-2 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        {renderAccountSelect("from_account_id", "From")}
+        {renderAccountSelect("to_account_id", "To")}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="transfer-amount" className="text-slate-200">
+          Amount *
+        </Label>
+        <Input
+          id="transfer-amount"
+          type="number"
+          step="0.01"
+          placeholder="0.00"
+          value={formData.amount}
+          onChange={(e) =>
+            setFormData((prev) => ({ ...prev, amount: e.target.value }))
+          }
+          required
+          disabled={isSubmitting || isLoading}
+          className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="transfer-description" className="text-slate-200">
+          Description *
+        </Label>
+        <Input
+          id="transfer-description"
+          placeholder="e.g. Monthly savings, Card payment"
+          value={formData.description}
+          onChange={(e) =>
+            setFormData((prev) => ({ ...prev, description: e.target.value }))
+          }
+          required
+          disabled={isSubmitting || isLoading}
+          className="bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-400"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="transfer-date" className="text-slate-200">
+          Date
+        </Label>
+        <Input
+          id="transfer-date"
+          type="date"
+          value={formData.date}
+          onChange={(e) =>
+            setFormData((prev) => ({ ...prev, date: e.target.value }))
+          }
+          required
+          disabled={isSubmitting || isLoading}
+          className="bg-slate-800 border-slate-600 text-slate-100"
+        />
+      </div>
+
+      <p className="text-xs text-slate-400">
+        Transfers move money between your accounts and are not counted as income
+        or expenses.
+      </p>
+
+      <div className="flex space-x-2 pt-4">
+        <Button
+          type="submit"
+          className="flex-1 bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white"
+          disabled={isSubmitting || isLoading}
+        >
+          {isSubmitting
+            ? isEditing
+              ? "Updating..."
+              : "Creating..."
+            : isEditing
+            ? "Update Transfer"
+            : "Create Transfer"}
+        </Button>
+        {onCancel && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+          >
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { Link } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Receipt } from "lucide-react";
+import { billsAPI, BillOccurrence } from "@/services/api";
+import { formatMoney } from "@/lib/utils";
+import { useUser } from "@/stores/authStore";
+
+interface UpcomingBillsProps {
+  index: number;
+  days?: number;
+}
+
+export function UpcomingBills({ index, days = 14 }: UpcomingBillsProps) {
+  // Bill amounts are in the base currency
+  const baseCurrency = useUser()?.base_currency ?? "USD";
+  const [occurrences, setOccurrences] = useState<BillOccurrence[] | null>(null);
+
+  useEffect(() => {
+    billsAPI
+      .getUpcoming(days)
+      .then(setOccurrences)
+      .catch((error) => {
+        console.error("Failed to load upcoming bills:", error);
+        setOccurrences([]);
+      });
+  }, [days]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: index * 0.1 }}
+    >
+      <Card className="border-0 shadow-lg bg-slate-900 border-slate-800">
+        <CardHeader className="flex flex-row items-center justify-between pb-4">
+          <CardTitle className="text-lg font-semibold text-slate-100">
+            Upcoming Bills
+          </CardTitle>
+          <Button
+            asChild
+            variant="ghost"
+            size="sm"
+            className="h-8 text-slate-400 hover:bg-slate-800 hover:text-slate-100"
+          >
+            <Link to="/bills">View all</Link>
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {occurrences === null ? (
+            <p className="text-sm text-slate-400">Loading...</p>
+          ) : occurrences.length === 0 ? (
+            <div className="text-center py-6">
+              <div className="w-12 h-12 mx-auto mb-3 bg-slate-800 rounded-full flex items-center justify-center">
+                <Receipt className="h-6 w-6 text-slate-400" />
+              </div>
+              <p className="text-sm text-slate-400">
+                Nothing due in the next {days} days
+              </p>
+            </div>
+          ) : (
+            occurrences.map((occurrence) => (
+              <div
+                key={`${occurrence.bill_id}-${occurrence.due_date}`}
+                className="flex items-center justify-between gap-2 p-3 rounded-lg bg-slate-800/50 border border-slate-700"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-slate-100 truncate">
+                    {occurrence.payee}
+                  </p>
+                  <div className="flex items-center gap-2 mt-1">
+                    <span className="text-xs text-slate-400">
+                      {format(parseISO(occurrence.due_date), "MMM d")}
+                    </span>
+                    {occurrence.status === "overdue" && (
+                      <Badge
+                        variant="outline"
+                        className="text-xs border-red-800 text-red-400"
+                      >
+                        Overdue
+                      </Badge>
+                    )}
+                    {occurrence.autopay && (
+                      <Badge
+                        variant="outline"
+                        className="text-xs border-slate-600 text-slate-400"
+                      >
+                        Autopay
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <p className="font-semibold text-red-400 whitespace-nowrap">
+                  {occurrence.amount_type === "estimated" && "~"}
+                  {formatMoney(occurrence.amount, baseCurrency)}
+                </p>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
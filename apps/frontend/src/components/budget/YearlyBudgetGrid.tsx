@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { toast } from "react-hot-toast";
+import { budgetsAPI, BudgetEntry } from "@/services/api";
+import { useCategories } from "@/stores/budgetStore";
+import type { Category } from "@/stores/budgetStore";
+import { useUser } from "@/stores/authStore";
+import { formatMoney } from "@/lib/utils";
+import { getCategoryOptions } from "@/lib/categoryTree";
+
+interface YearlyBudgetGridProps {
+  year: number;
+  entries: BudgetEntry[];
+  onChange: () => void;
+}
+
+const MONTHS = Array.from({ length: 12 }, (_, i) => i + 1);
+
+const cellKey = (categoryId: string, month: number) => `${categoryId}:${month}`;
+
+// Limits for every category and month of a year. A cell is saved when it
+// loses focus: a new amount creates the budget, a changed one updates it and
+// an emptied one deletes it. Empty cells show the category's default budget,
+// which applies to them.
+export function YearlyBudgetGrid({
+  year,
+  entries,
+  onChange,
+}: YearlyBudgetGridProps) {
+  const categories = useCategories();
+  const baseCurrency = useUser()?.base_currency ?? "USD";
+  // Text typed into cells that haven't been saved yet
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  const entryByCell = new Map(
+    entries.map((entry) => [cellKey(entry.category_id, entry.month), entry])
+  );
+  // Archived categories still show while they have budgets this year
+  const rows = getCategoryOptions(
+    categories,
+    entries.map((entry) => entry.category_id)
+  );
+
+  const clearDraft = (key: string) =>
+    setDrafts((prev) => {
+      const { [key]: _, ...rest } = prev;
+      return rest;
+    });
+
+  const saveCell = async (categoryId: string, month: number) => {
+    const key = cellKey(categoryId, month);
+    const draft = drafts[key];
+    if (draft === undefined) return;
+
+    const existing = entryByCell.get(key);
+    const amount = draft.trim() === "" ? null : parseFloat(draft);
+    if (amount !== null && (isNaN(amount) || amount <= 0)) {
+      toast.error("Enter a positive amount, or clear the cell to remove it");
+      clearDraft(key);
+      return;
+    }
+    if (amount === (existing?.limit_amount ?? null)) {
+      clearDraft(key);
+      return;
+    }
+
+    setSavingKey(key);
+    try {
+      if (amount === null) {
+        await budgetsAPI.delete(existing!.id);
+      } else if (existing) {
+        await budgetsAPI.update(existing.id, { limit_amount: amount });
+      } else {
+        await budgetsAPI.create({
+          category_id: categoryId,
+          month,
+          year,
+          limit_amount: amount,
+        });
+      }
+      onChange();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || "Failed to save budget");
+    } finally {
+      clearDraft(key);
+      setSavingKey(null);
+    }
+  };
+
+  const cellValue = (categoryId: string, month: number) => {
+    const key = cellKey(categoryId, month);
+    if (drafts[key] !== undefined) return drafts[key];
+    const entry = entryByCell.get(key);
+    return entry ? String(entry.limit_amount) : "";
+  };
+
+  // What a cell budgets, counting the default for empty cells the same way
+  // the server does: archived categories have no default
+  const cellAmount = (category: Category, month: number) =>
+    entryByCell.get(cellKey(category.id, month))?.limit_amount ??
+    (category.is_archived ? 0 : category.budget);
+
+  const rowTotal = (category: Category) =>
+    MONTHS.reduce((sum, month) => sum + cellAmount(category, month), 0);
+
+  const monthTotal = (month: number) =>
+    rows.reduce((sum, category) => sum + cellAmount(category, month), 0);
+
+  if (rows.length === 0) {
+    return (
+      <Card className="border-0 shadow-lg bg-slate-900 border-slate-800">
+        <CardContent className="p-12 text-center text-slate-400">
+          Add categories to start budgeting
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="border-0 shadow-lg bg-slate-900 border-slate-800">
+      <CardContent className="p-4 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-slate-400">
+              <th className="text-left font-medium p-2 min-w-[10rem]">
+                Category
+              </th>
+              {MONTHS.map((month) => (
+                <th key={month} className="font-medium p-2 text-center">
+                  {format(new Date(year, month - 1, 1), "MMM")}
+                </th>
+              ))}
+              <th className="font-medium p-2 text-right">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((category) => (
+              <tr key={category.id} className="border-t border-slate-800">
+                <td
+                  className={`p-2 text-slate-100 ${
+                    category.is_archived ? "opacity-60" : ""
+                  }`}
+                  style={{ paddingLeft: `${0.5 + category.depth * 1.25}rem` }}
+                >
+                  <div className="flex items-center gap-2">
+                    <div
+                      className="w-3 h-3 rounded-full shrink-0"
+                      style={{ backgroundColor: category.color }}
+                    />
+                    <span className="truncate">{category.name}</span>
+                  </div>
+                </td>
+                {MONTHS.map((month) => {
+                  const key = cellKey(category.id, month);
+                  return (
+                    <td key={month} className="p-1">
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={cellValue(category.id, month)}
+                        placeholder={
+                          category.budget > 0 && !category.is_archived
+                            ? String(category.budget)
+                            : ""
+                        }
+                        onChange={(e) =>
+                          setDrafts((prev) => ({
+                            ...prev,
+                            [key]: e.target.value,
+                          }))
+                        }
+                        onBlur={() => saveCell(category.id, month)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") e.currentTarget.blur();
+                        }}
+                        disabled={savingKey === key}
+                        className="h-8 w-24 px-2 text-right bg-slate-800 border-slate-700 text-slate-100"
+                      />
+                    </td>
+                  );
+                })}
+                <td className="p-2 text-right text-slate-300 whitespace-nowrap">
+                  {formatMoney(rowTotal(category), baseCurrency)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="border-t border-slate-700 text-slate-300">
+              <td className="p-2 font-medium">Total</td>
+              {MONTHS.map((month) => (
+                <td
+                  key={month}
+                  className="p-2 text-right text-xs whitespace-nowrap"
+                >
+                  {formatMoney(monthTotal(month), baseCurrency)}
+                </td>
+              ))}
+              <td className="p-2 text-right font-semibold whitespace-nowrap">
+                {formatMoney(
+                  MONTHS.reduce((sum, month) => sum + monthTotal(month), 0),
+                  baseCurrency
+                )}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
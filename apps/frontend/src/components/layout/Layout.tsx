@@ -4,6 +4,13 @@ import {
   LayoutDashboard,
   CreditCard,
   FolderOpen,
+  PiggyBank,
+  Mail,
+  Wallet,
+  Repeat,
+  Receipt,
+  Wand2,
+  Tag,
   Settings,
   Menu,
   X,
@@ -11,6 +18,7 @@ import {
   User,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { NotificationBell } from "./NotificationBell";
 import { useLogout, useUser } from "@/stores/authStore";
 import { useBudgetStore } from "@/stores/budgetStore";
 
@@ -22,6 +30,13 @@ const navigation = [
   { name: "Dashboard", href: "/", icon: LayoutDashboard },
   { name: "Transactions", href: "/transactions", icon: CreditCard },
   { name: "Categories", href: "/categories", icon: FolderOpen },
+  { name: "Budgets", href: "/budgets", icon: PiggyBank },
+  { name: "Envelopes", href: "/envelopes", icon: Mail },
+  { name: "Accounts", href: "/accounts", icon: Wallet },
+  { name: "Recurring", href: "/recurring", icon: Repeat },
+  { name: "Bills", href: "/bills", icon: Receipt },
+  { name: "Rules", href: "/rules", icon: Wand2 },
+  { name: "Tags", href: "/tags", icon: Tag },
   { name: "Settings", href: "/settings", icon: Settings },
 ];
 
@@ -129,26 +144,28 @@ export function Layout({ children }: LayoutProps) {
       </div>{" "}
       {/* Main content */}
       <div className="flex-1 flex flex-col">
-        {/* Top bar - Mobile */}
-        <div className="sticky top-0 z-30 bg-slate-900/95 backdrop-blur-sm border-b border-slate-800 lg:hidden">
-          <div className="flex h-16 items-center justify-between px-4">
+        {/* Top bar - menu and title on mobile only, one bell for all sizes */}
+        <div className="sticky top-0 z-30 bg-slate-900/95 backdrop-blur-sm border-b border-slate-800">
+          <div className="flex h-16 lg:h-14 items-center justify-between px-4 lg:px-6">
             <Button
               variant="ghost"
               size="sm"
               onClick={() => setSidebarOpen(true)}
-              className="text-slate-400 hover:text-white hover:bg-slate-800"
+              className="text-slate-400 hover:text-white hover:bg-slate-800 lg:hidden"
             >
               <Menu className="w-5 h-5" />
             </Button>{" "}
-            <div className="flex items-center space-x-2">
+            <div className="flex items-center space-x-2 lg:hidden">
               <div className="w-6 h-6 bg-gradient-to-r from-slate-600 to-slate-700 rounded flex items-center justify-center">
                 <LayoutDashboard className="w-4 h-4 text-slate-200" />
               </div>
               <span className="font-bold text-slate-200">Budget Tracker</span>
             </div>
-            <div className="w-10" /> {/* Spacer for centering */}
+            <div className="lg:ml-auto">
+              <NotificationBell />
+            </div>
           </div>
-        </div>{" "}
+        </div>
         {/* Page content */}
         <main className="flex-1 overflow-auto">{children}</main>
       </div>
@@ -0,0 +1,192 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { notificationsAPI, Notification } from "@/services/api";
+
+// How often the unread badge is refreshed
+const POLL_INTERVAL_MS = 60 * 1000;
+
+export function NotificationBell() {
+  const navigate = useNavigate();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadUnreadCount = useCallback(async () => {
+    try {
+      setUnreadCount(await notificationsAPI.getUnreadCount());
+    } catch (error) {
+      console.error("Failed to load unread notifications:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUnreadCount();
+    const interval = setInterval(loadUnreadCount, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadUnreadCount]);
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open) return;
+    setIsLoading(true);
+    try {
+      setNotifications(await notificationsAPI.getAll({ limit: 20 }));
+      await loadUnreadCount();
+    } catch (error) {
+      console.error("Failed to load notifications:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSelect = async (notification: Notification) => {
+    if (!notification.read_at) {
+      try {
+        const updated = await notificationsAPI.markRead(notification.id);
+        setNotifications((prev) =>
+          prev.map((n) => (n.id === updated.id ? updated : n))
+        );
+        setUnreadCount((count) => Math.max(0, count - 1));
+      } catch (error) {
+        console.error("Failed to mark notification as read:", error);
+      }
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  const handleDelete = async (
+    e: React.MouseEvent,
+    notification: Notification
+  ) => {
+    // Keep the menu open and don't follow the notification's link
+    e.preventDefault();
+    e.stopPropagation();
+    try {
+      await notificationsAPI.delete(notification.id);
+      setNotifications((prev) => prev.filter((n) => n.id !== notification.id));
+      if (!notification.read_at) {
+        setUnreadCount((count) => Math.max(0, count - 1));
+      }
+    } catch (error) {
+      console.error("Failed to delete notification:", error);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationsAPI.markAllRead();
+      const now = new Date().toISOString();
+      setNotifications((prev) =>
+        prev.map((n) => ({ ...n, read_at: n.read_at ?? now }))
+      );
+      setUnreadCount(0);
+    } catch (error) {
+      console.error("Failed to mark notifications as read:", error);
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative text-slate-400 hover:text-white hover:bg-slate-800"
+          aria-label="Notifications"
+        >
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-600 text-[10px] font-semibold leading-[1.1rem] text-white text-center">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="end"
+        className="w-80 bg-slate-800 border-slate-700 text-slate-200"
+      >
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel className="text-slate-200">
+            Notifications
+          </DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleMarkAllRead}
+              className="h-7 text-xs text-slate-400 hover:text-slate-100 hover:bg-slate-700"
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator className="bg-slate-700" />
+        <div className="max-h-96 overflow-y-auto">
+          {isLoading && notifications.length === 0 ? (
+            <p className="px-2 py-6 text-center text-sm text-slate-400">
+              Loading...
+            </p>
+          ) : notifications.length === 0 ? (
+            <p className="px-2 py-6 text-center text-sm text-slate-400">
+              No notifications yet
+            </p>
+          ) : (
+            notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                onClick={() => handleSelect(notification)}
+                className="flex items-start gap-2 hover:bg-slate-700 focus:bg-slate-700"
+              >
+                <span
+                  className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${
+                    notification.read_at ? "bg-transparent" : "bg-blue-500"
+                  }`}
+                />
+                <div className="min-w-0 flex-1">
+                  <p
+                    className={`text-sm ${
+                      notification.read_at
+                        ? "text-slate-300"
+                        : "font-medium text-slate-100"
+                    }`}
+                  >
+                    {notification.title}
+                  </p>
+                  <p className="text-xs text-slate-400">
+                    {notification.message}
+                  </p>
+                  <p className="mt-1 text-xs text-slate-500">
+                    {formatDistanceToNow(new Date(notification.created_at), {
+                      addSuffix: true,
+                    })}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  aria-label="Delete notification"
+                  onClick={(e) => handleDelete(e, notification)}
+                  className="mt-0.5 text-slate-500 hover:text-slate-200"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </DropdownMenuItem>
+            ))
+          )}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,24 @@
+// Budget alert thresholds are percentages of a budget, entered as text like
+// "50, 80, 100"
+
+export const DEFAULT_ALERT_THRESHOLDS = [100];
+
+export const formatThresholds = (thresholds?: number[]) =>
+  (thresholds ?? DEFAULT_ALERT_THRESHOLDS).join(", ");
+
+// Sorted, de-duplicated thresholds, or null if the text isn't a valid list
+export function parseThresholds(text: string): number[] | null {
+  const parts = text
+    .split(",")
+    .map((part) => part.trim().replace(/%$/, ""))
+    .filter(Boolean);
+  const thresholds = parts.map(Number);
+  if (
+    thresholds.length === 0 ||
+    thresholds.length > 5 ||
+    thresholds.some((t) => !Number.isInteger(t) || t < 1 || t > 1000)
+  ) {
+    return null;
+  }
+  return [...new Set(thresholds)].sort((a, b) => a - b);
+}
@@ -0,0 +1,81 @@
+import type { Category } from "@/stores/budgetStore";
+
+// Direct subcategories of a category, or the top-level categories for null
+export function getChildCategories(
+  categories: Category[],
+  parentId: string | null
+): Category[] {
+  return categories.filter(
+    (category) => (category.parent_id ?? null) === parentId
+  );
+}
+
+// IDs of a category and everything nested under it
+export function getDescendantIds(
+  categories: Category[],
+  categoryId: string
+): Set<string> {
+  const ids = new Set([categoryId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const category of categories) {
+      if (
+        category.parent_id &&
+        ids.has(category.parent_id) &&
+        !ids.has(category.id)
+      ) {
+        ids.add(category.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+// Full names like "Food › Restaurants", by category ID
+export function getCategoryPaths(categories: Category[]): Map<string, string> {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const paths = new Map<string, string>();
+
+  const pathOf = (category: Category): string => {
+    const known = paths.get(category.id);
+    if (known) return known;
+    const parent = category.parent_id ? byId.get(category.parent_id) : null;
+    const path = parent
+      ? `${pathOf(parent)} › ${category.name}`
+      : category.name;
+    paths.set(category.id, path);
+    return path;
+  };
+
+  categories.forEach(pathOf);
+  return paths;
+}
+
+// Categories in tree order (each parent followed by its subcategories) with
+// their full names, for category pickers. Archived categories are left out
+// unless their ID is in keepIds, e.g. the one already selected.
+export function getCategoryOptions(
+  categories: Category[],
+  keepIds: (string | null | undefined)[] = []
+): Array<Category & { path: string; depth: number }> {
+  const options: Array<Category & { path: string; depth: number }> = [];
+
+  const visit = (parentId: string | null, prefix: string, depth: number) => {
+    const children = getChildCategories(categories, parentId).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+    for (const category of children) {
+      const path = prefix ? `${prefix} › ${category.name}` : category.name;
+      if (!category.is_archived || keepIds.includes(category.id)) {
+        options.push({ ...category, path, depth });
+      }
+      // Subcategories of an archived category can still be picked
+      visit(category.id, path, depth + 1);
+    }
+  };
+
+  visit(null, "", 0);
+  return options;
+}
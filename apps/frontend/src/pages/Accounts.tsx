@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Plus } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { useAccounts, useTransactions } from "@/stores/budgetStore";
+import type { Transaction } from "@/stores/budgetStore";
+import { useEnsureData } from "@/stores/dataHooks";
+import { accountsAPI } from "@/services/api";
+import { AddAccountForm } from "@/components/budget/AddAccountForm";
+import { AccountList } from "@/components/budget/AccountList";
+import { TransactionList } from "@/components/budget/TransactionList";
+import { formatMoney } from "@/lib/utils";
+
+const LEDGER_PAGE_SIZE = 50;
+
+export function Accounts() {
+  const accounts = useAccounts();
+  // Reload the ledger whenever transactions change elsewhere in the app
+  const transactions = useTransactions();
+  useEnsureData(); // Ensure data is loaded
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [selectedAccountId, setSelectedAccountId] = useState<string>();
+  const [ledger, setLedger] = useState<Transaction[]>([]);
+  const [ledgerTotal, setLedgerTotal] = useState(0);
+  const [isLoadingLedger, setIsLoadingLedger] = useState(false);
+
+  const selectedAccount = accounts.find(
+    (account) => account.id === selectedAccountId
+  );
+
+  const loadLedger = async (accountId: string, offset: number) => {
+    setIsLoadingLedger(true);
+    try {
+      const page = await accountsAPI.getLedger(accountId, {
+        limit: LEDGER_PAGE_SIZE,
+        offset,
+      });
+      setLedger((prev) =>
+        offset === 0 ? page.entries : [...prev, ...page.entries]
+      );
+      setLedgerTotal(page.total);
+    } catch (error) {
+      console.error("Failed to load ledger:", error);
+      toast.error("Failed to load account ledger");
+    } finally {
+      setIsLoadingLedger(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedAccountId) {
+      loadLedger(selectedAccountId, 0);
+    } else {
+      setLedger([]);
+      setLedgerTotal(0);
+    }
+  }, [selectedAccountId, transactions]);
+
+  // Drop the selection if the account was deleted
+  useEffect(() => {
+    if (selectedAccountId && !selectedAccount) {
+      setSelectedAccountId(undefined);
+    }
+  }, [selectedAccountId, selectedAccount]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="space-y-6 p-6 bg-slate-950"
+    >
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4"
+      >
+        <div>
+          <h1 className="text-4xl font-bold text-slate-200">Accounts</h1>
+          <p className="text-slate-400 mt-1">
+            Track and reconcile each bank account, card and cash wallet
+          </p>
+        </div>
+
+        <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+          <DialogTrigger asChild>
+            <Button
+              className="bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white shadow-lg hover:shadow-xl transition-all duration-300"
+              size="lg"
+            >
+              <Plus className="mr-2 h-5 w-5" />
+              Add Account
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="bg-slate-900 border-slate-700 text-slate-100 max-w-md">
+            <DialogHeader>
+              <DialogTitle className="text-xl font-bold text-slate-100">
+                Add Account
+              </DialogTitle>
+              <DialogDescription className="text-slate-400">
+                Add a checking, savings, credit card or cash account
+              </DialogDescription>
+            </DialogHeader>
+            <AddAccountForm onSuccess={() => setShowAddDialog(false)} />
+          </DialogContent>
+        </Dialog>
+      </motion.div>
+
+      {/* Account List */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+      >
+        <AccountList
+          accounts={accounts}
+          selectedAccountId={selectedAccountId}
+          onSelect={(account) =>
+            setSelectedAccountId((current) =>
+              current === account.id ? undefined : account.id
+            )
+          }
+        />
+      </motion.div>
+
+      {/* Ledger */}
+      {selectedAccount && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="space-y-4"
+        >
+          <div className="flex items-center gap-3 mb-4">
+            <div className="h-2 w-2 rounded-full bg-slate-500"></div>
+            <h3 className="text-xl font-semibold text-slate-200">
+              {selectedAccount.name} Ledger
+            </h3>
+            <Badge
+              variant="outline"
+              className="text-xs text-blue-300 border-blue-600 bg-blue-900/20"
+            >
+              Opening balance{" "}
+              {formatMoney(
+                selectedAccount.opening_balance,
+                selectedAccount.currency
+              )}
+            </Badge>
+          </div>
+          <TransactionList
+            transactions={ledger}
+            emptyMessage="No transactions have been assigned to this account yet."
+          />
+          {ledger.length < ledgerTotal && (
+            <div className="flex justify-center">
+              <Button
+                variant="outline"
+                disabled={isLoadingLedger}
+                onClick={() => loadLedger(selectedAccount.id, ledger.length)}
+                className="border-slate-600 bg-slate-800 hover:bg-slate-700 text-slate-200"
+              >
+                {isLoadingLedger ? "Loading..." : "Load more"}
+              </Button>
+            </div>
+          )}
+        </motion.div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,309 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import {
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Check, Plus, Undo2 } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { billsAPI, Bill, BillOccurrence } from "@/services/api";
+import { formatMoney } from "@/lib/utils";
+import { useUser } from "@/stores/authStore";
+import { BillForm } from "@/components/budget/BillForm";
+import { BillList } from "@/components/budget/BillList";
+
+const statusClasses: Record<BillOccurrence["status"], string> = {
+  paid: "border-green-800 text-green-400",
+  overdue: "border-red-800 text-red-400",
+  upcoming: "border-slate-600 text-slate-400",
+};
+
+export function Bills() {
+  // Bill amounts are in the base currency
+  const baseCurrency = useUser()?.base_currency ?? "USD";
+  const [bills, setBills] = useState<Bill[]>([]);
+  const [occurrences, setOccurrences] = useState<BillOccurrence[]>([]);
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(
+    () => new Date()
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [showAddDialog, setShowAddDialog] = useState(false);
+
+  const loadBills = async () => {
+    try {
+      setBills(await billsAPI.getAll());
+    } catch (error) {
+      console.error("Failed to load bills:", error);
+      toast.error("Failed to load bills");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // The calendar also shows the days of neighbouring months that fill
+  // its first and last weeks
+  const loadCalendar = async () => {
+    try {
+      setOccurrences(
+        await billsAPI.getCalendar(
+          format(startOfWeek(startOfMonth(month)), "yyyy-MM-dd"),
+          format(endOfWeek(endOfMonth(month)), "yyyy-MM-dd")
+        )
+      );
+    } catch (error) {
+      console.error("Failed to load bill calendar:", error);
+      toast.error("Failed to load bill calendar");
+    }
+  };
+
+  useEffect(() => {
+    loadBills();
+  }, []);
+
+  useEffect(() => {
+    loadCalendar();
+  }, [month]);
+
+  const handleChange = async () => {
+    await Promise.all([loadBills(), loadCalendar()]);
+  };
+
+  const togglePaid = async (occurrence: BillOccurrence) => {
+    setIsWorking(true);
+    try {
+      if (occurrence.payment) {
+        await billsAPI.markUnpaid(occurrence.bill_id, occurrence.due_date);
+        toast.success(`${occurrence.payee} marked as unpaid`);
+      } else {
+        await billsAPI.markPaid(occurrence.bill_id, occurrence.due_date);
+        toast.success(`${occurrence.payee} marked as paid`);
+      }
+      await handleChange();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || "Failed to update bill");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const datesWithStatus = (status: BillOccurrence["status"]) =>
+    occurrences
+      .filter((occurrence) => occurrence.status === status)
+      .map((occurrence) => parseISO(occurrence.due_date));
+
+  const selectedOccurrences = selectedDay
+    ? occurrences.filter((occurrence) =>
+        isSameDay(parseISO(occurrence.due_date), selectedDay)
+      )
+    : [];
+
+  const monthOccurrences = occurrences.filter(
+    (occurrence) => occurrence.due_date.slice(0, 7) === format(month, "yyyy-MM")
+  );
+  const monthTotal = monthOccurrences.reduce(
+    (sum, occurrence) =>
+      sum + (occurrence.payment?.amount ?? occurrence.amount),
+    0
+  );
+  const monthUnpaid = monthOccurrences
+    .filter((occurrence) => !occurrence.payment)
+    .reduce((sum, occurrence) => sum + occurrence.amount, 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="space-y-6 p-6 bg-slate-950"
+    >
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4"
+      >
+        <div>
+          <h1 className="text-4xl font-bold text-slate-200">Bills</h1>
+          <p className="text-slate-400 mt-1">
+            Know what's due and what's already paid
+          </p>
+        </div>
+
+        <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+          <DialogTrigger asChild>
+            <Button
+              className="bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white shadow-lg hover:shadow-xl transition-all duration-300"
+              size="lg"
+            >
+              <Plus className="mr-2 h-5 w-5" />
+              Add Bill
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="bg-slate-900 border-slate-700 max-w-md">
+            <DialogHeader>
+              <DialogTitle className="text-xl font-bold text-slate-100">
+                Add Bill
+              </DialogTitle>
+              <DialogDescription className="text-slate-400">
+                Matching transactions mark each due date as paid
+              </DialogDescription>
+            </DialogHeader>
+            <BillForm
+              onSuccess={() => {
+                setShowAddDialog(false);
+                handleChange();
+              }}
+            />
+          </DialogContent>
+        </Dialog>
+      </motion.div>
+
+      {/* Calendar */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="grid grid-cols-1 lg:grid-cols-3 gap-6"
+      >
+        <Card className="border-0 shadow-lg bg-slate-900 border-slate-800">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg font-semibold text-slate-100">
+              {format(month, "MMMM yyyy")}
+            </CardTitle>
+            <p className="text-sm text-slate-400">
+              {formatMoney(monthTotal, baseCurrency)} due ·{" "}
+              {formatMoney(monthUnpaid, baseCurrency)} unpaid
+            </p>
+          </CardHeader>
+          <CardContent className="flex justify-center">
+            <Calendar
+              mode="single"
+              month={month}
+              onMonthChange={setMonth}
+              selected={selectedDay}
+              onSelect={setSelectedDay}
+              modifiers={{
+                paid: datesWithStatus("paid"),
+                overdue: datesWithStatus("overdue"),
+                upcoming: datesWithStatus("upcoming"),
+              }}
+              modifiersClassNames={{
+                paid: "text-green-400 font-semibold",
+                overdue: "text-red-400 font-semibold",
+                upcoming: "text-amber-400 font-semibold",
+              }}
+              className="bg-transparent text-slate-200"
+            />
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2 border-0 shadow-lg bg-slate-900 border-slate-800">
+          <CardHeader className="pb-4">
+            <CardTitle className="text-lg font-semibold text-slate-100">
+              {selectedDay
+                ? `Due ${format(selectedDay, "EEEE, MMM d")}`
+                : "Pick a day"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {selectedOccurrences.length === 0 ? (
+              <p className="text-sm text-slate-400">
+                {selectedDay
+                  ? "Nothing due on this day"
+                  : "Select a day on the calendar to see its bills"}
+              </p>
+            ) : (
+              selectedOccurrences.map((occurrence) => (
+                <div
+                  key={occurrence.bill_id}
+                  className="flex items-center justify-between gap-2 text-sm bg-slate-800/50 rounded-lg px-3 py-2"
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <span className="text-slate-100 truncate">
+                      {occurrence.payee}
+                    </span>
+                    <span className="text-red-400">
+                      {formatMoney(
+                        occurrence.payment?.amount ?? occurrence.amount,
+                        baseCurrency
+                      )}
+                    </span>
+                    <Badge
+                      variant="outline"
+                      className={`capitalize ${
+                        statusClasses[occurrence.status]
+                      }`}
+                    >
+                      {occurrence.status}
+                    </Badge>
+                    {occurrence.payment && (
+                      <span className="text-xs text-slate-500">
+                        {occurrence.payment.transaction_id
+                          ? "Matched"
+                          : "Marked paid"}{" "}
+                        on{" "}
+                        {format(parseISO(occurrence.payment.paid_on), "MMM d")}
+                      </span>
+                    )}
+                  </div>
+
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title={
+                      occurrence.payment ? "Mark as unpaid" : "Mark as paid"
+                    }
+                    disabled={isWorking}
+                    className="text-slate-400 hover:text-slate-100 hover:bg-slate-700"
+                    onClick={() => togglePaid(occurrence)}
+                  >
+                    {occurrence.payment ? (
+                      <Undo2 className="h-4 w-4" />
+                    ) : (
+                      <Check className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      {/* Bill List */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+      >
+        {isLoading ? (
+          <p className="text-slate-400">Loading bills...</p>
+        ) : (
+          <BillList
+            bills={bills}
+            onChange={handleChange}
+            emptyMessage="Add rent, utilities and subscriptions to see when they're due"
+          />
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
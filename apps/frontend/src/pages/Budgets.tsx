@@ -0,0 +1,450 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  CalendarClock,
+  CalendarRange,
+  ChevronLeft,
+  ChevronRight,
+  LayoutTemplate,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { toast } from "react-hot-toast";
+import {
+  budgetsAPI,
+  budgetTemplatesAPI,
+  periodBudgetsAPI,
+  BudgetEntry,
+  BudgetTemplate,
+  PeriodBudget,
+} from "@/services/api";
+import { useUser } from "@/stores/authStore";
+import { formatMoney } from "@/lib/utils";
+import { YearlyBudgetGrid } from "@/components/budget/YearlyBudgetGrid";
+import { BudgetTemplateForm } from "@/components/budget/BudgetTemplateForm";
+import { BulkBudgetDialog } from "@/components/budget/BulkBudgetDialog";
+import {
+  PeriodBudgetForm,
+  describePeriod,
+} from "@/components/budget/PeriodBudgetForm";
+
+const formatDay = (date: string) => format(parseISO(date), "MMM d");
+
+export function Budgets() {
+  const baseCurrency = useUser()?.base_currency ?? "USD";
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [entries, setEntries] = useState<BudgetEntry[]>([]);
+  const [templates, setTemplates] = useState<BudgetTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showBulkDialog, setShowBulkDialog] = useState(false);
+  // undefined when the template dialog is closed, null for a new template
+  const [editingTemplate, setEditingTemplate] = useState<
+    BudgetTemplate | null | undefined
+  >(undefined);
+  const [periodBudgets, setPeriodBudgets] = useState<PeriodBudget[]>([]);
+  // undefined when the period budget dialog is closed, null for a new one
+  const [editingPeriodBudget, setEditingPeriodBudget] = useState<
+    PeriodBudget | null | undefined
+  >(undefined);
+
+  const loadEntries = async () => {
+    try {
+      setEntries(await budgetsAPI.getYear(year));
+    } catch (error) {
+      console.error("Failed to load budgets:", error);
+      toast.error("Failed to load budgets");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadTemplates = async () => {
+    try {
+      setTemplates(await budgetTemplatesAPI.getAll());
+    } catch (error) {
+      console.error("Failed to load budget templates:", error);
+      toast.error("Failed to load budget templates");
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, [year]);
+
+  const loadPeriodBudgets = async () => {
+    try {
+      setPeriodBudgets(await periodBudgetsAPI.getAll());
+    } catch (error) {
+      console.error("Failed to load period budgets:", error);
+      toast.error("Failed to load period budgets");
+    }
+  };
+
+  useEffect(() => {
+    loadTemplates();
+    loadPeriodBudgets();
+  }, []);
+
+  const handleDeletePeriodBudget = async (budget: PeriodBudget) => {
+    const confirmed = window.confirm(
+      `Delete the ${describePeriod(
+        budget.period_unit,
+        budget.period_length
+      ).toLowerCase()} budget for ${budget.category_name}?`
+    );
+    if (!confirmed) return;
+
+    try {
+      await periodBudgetsAPI.delete(budget.id);
+      toast.success("Period budget deleted");
+      loadPeriodBudgets();
+    } catch (error) {
+      console.error("Failed to delete period budget:", error);
+      toast.error("Failed to delete period budget");
+    }
+  };
+
+  const handleDeleteTemplate = async (template: BudgetTemplate) => {
+    const confirmed = window.confirm(
+      `Delete the ${template.name} template? Budgets created from it are kept.`
+    );
+    if (!confirmed) return;
+
+    try {
+      await budgetTemplatesAPI.delete(template.id);
+      toast.success("Template deleted");
+      loadTemplates();
+    } catch (error) {
+      console.error("Failed to delete budget template:", error);
+      toast.error("Failed to delete template");
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="space-y-6 p-6 bg-slate-950"
+    >
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4"
+      >
+        <div>
+          <h1 className="text-4xl font-bold text-slate-200">Budgets</h1>
+          <p className="text-slate-400 mt-1">
+            Monthly limits per category for the whole year, and budgets with
+            their own periods
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setYear((prev) => prev - 1)}
+            className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-lg font-semibold text-slate-200 w-16 text-center">
+            {year}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setYear((prev) => prev + 1)}
+            className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button
+            onClick={() => setShowBulkDialog(true)}
+            className="bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white shadow-lg hover:shadow-xl transition-all duration-300"
+            size="lg"
+          >
+            <CalendarRange className="mr-2 h-5 w-5" />
+            Fill Months
+          </Button>
+        </div>
+      </motion.div>
+
+      {/* Yearly Grid */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+      >
+        {isLoading ? (
+          <p className="text-slate-400">Loading budgets...</p>
+        ) : (
+          <YearlyBudgetGrid
+            year={year}
+            entries={entries}
+            onChange={loadEntries}
+          />
+        )}
+      </motion.div>
+
+      {/* Period Budgets */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.25 }}
+        className="space-y-4"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-slate-200">
+            Period Budgets
+          </h2>
+          <Button
+            variant="outline"
+            onClick={() => setEditingPeriodBudget(null)}
+            className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            New Period Budget
+          </Button>
+        </div>
+
+        {periodBudgets.length === 0 ? (
+          <Card className="border-0 shadow-lg bg-slate-900 border-slate-800">
+            <CardContent className="p-8 text-center">
+              <CalendarClock className="h-10 w-10 text-slate-600 mx-auto mb-3" />
+              <p className="text-slate-400">
+                Budget by week, pay period or quarter instead of by month
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {periodBudgets.map((budget) => (
+              <Card
+                key={budget.id}
+                className="border-0 shadow-lg bg-slate-900 border-slate-800"
+              >
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-center gap-2">
+                      <div
+                        className="w-3 h-3 rounded-full shrink-0"
+                        style={{ backgroundColor: budget.category_color }}
+                      />
+                      <div>
+                        <p className="font-medium text-slate-100">
+                          {budget.category_name}
+                        </p>
+                        <p className="text-sm text-slate-400">
+                          {describePeriod(
+                            budget.period_unit,
+                            budget.period_length
+                          )}
+                          , now {formatDay(budget.period_start)} –{" "}
+                          {formatDay(budget.period_end)}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditingPeriodBudget(budget)}
+                        className="h-8 w-8 p-0 hover:bg-slate-800 text-slate-400"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeletePeriodBudget(budget)}
+                        className="h-8 w-8 p-0 hover:bg-slate-800 text-red-400"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="w-full bg-slate-800 rounded-full h-2">
+                    <div
+                      className={`h-2 rounded-full ${
+                        budget.percentage_used < 80
+                          ? "bg-green-500"
+                          : budget.percentage_used <= 100
+                          ? "bg-yellow-500"
+                          : "bg-red-500"
+                      }`}
+                      style={{
+                        width: `${Math.min(budget.percentage_used, 100)}%`,
+                      }}
+                    />
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-slate-400">
+                      {formatMoney(budget.spent_amount, baseCurrency)} of{" "}
+                      {formatMoney(budget.limit_amount, baseCurrency)}
+                    </span>
+                    <span
+                      className={
+                        budget.remaining_amount < 0
+                          ? "text-red-400"
+                          : "text-slate-300"
+                      }
+                    >
+                      {formatMoney(budget.remaining_amount, baseCurrency)} left
+                    </span>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </motion.div>
+
+      {/* Templates */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.3 }}
+        className="space-y-4"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-slate-200">Templates</h2>
+          <Button
+            variant="outline"
+            onClick={() => setEditingTemplate(null)}
+            className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            New Template
+          </Button>
+        </div>
+
+        {templates.length === 0 ? (
+          <Card className="border-0 shadow-lg bg-slate-900 border-slate-800">
+            <CardContent className="p-8 text-center">
+              <LayoutTemplate className="h-10 w-10 text-slate-600 mx-auto mb-3" />
+              <p className="text-slate-400">
+                Save a set of limits as a template to fill months with it
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {templates.map((template) => (
+              <Card
+                key={template.id}
+                className="border-0 shadow-lg bg-slate-900 border-slate-800"
+              >
+                <CardContent className="p-4 flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-slate-100">
+                      {template.name}
+                    </p>
+                    <p className="text-sm text-slate-400">
+                      {template.items.length} categories,{" "}
+                      {formatMoney(
+                        template.items.reduce(
+                          (sum, item) => sum + item.limit_amount,
+                          0
+                        ),
+                        baseCurrency
+                      )}{" "}
+                      a month
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditingTemplate(template)}
+                      className="h-8 w-8 p-0 hover:bg-slate-800 text-slate-400"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteTemplate(template)}
+                      className="h-8 w-8 p-0 hover:bg-slate-800 text-red-400"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </motion.div>
+
+      <BulkBudgetDialog
+        templates={templates}
+        open={showBulkDialog}
+        onOpenChange={setShowBulkDialog}
+        onSuccess={loadEntries}
+      />
+
+      <Dialog
+        open={editingPeriodBudget !== undefined}
+        onOpenChange={(open) => !open && setEditingPeriodBudget(undefined)}
+      >
+        <DialogContent className="bg-slate-900 border-slate-700 max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-xl font-bold text-slate-100">
+              {editingPeriodBudget ? "Edit Period Budget" : "New Period Budget"}
+            </DialogTitle>
+            <DialogDescription className="text-slate-400">
+              A limit that resets every period instead of every month
+            </DialogDescription>
+          </DialogHeader>
+          <PeriodBudgetForm
+            key={editingPeriodBudget?.id ?? "new"}
+            initialData={editingPeriodBudget ?? undefined}
+            onSuccess={() => {
+              setEditingPeriodBudget(undefined);
+              loadPeriodBudgets();
+            }}
+            onCancel={() => setEditingPeriodBudget(undefined)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={editingTemplate !== undefined}
+        onOpenChange={(open) => !open && setEditingTemplate(undefined)}
+      >
+        <DialogContent className="bg-slate-900 border-slate-700 max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="text-xl font-bold text-slate-100">
+              {editingTemplate ? "Edit Template" : "New Template"}
+            </DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Leave a category empty to keep it out of the template
+            </DialogDescription>
+          </DialogHeader>
+          <BudgetTemplateForm
+            key={editingTemplate?.id ?? "new"}
+            initialData={editingTemplate ?? undefined}
+            onSuccess={() => {
+              setEditingTemplate(undefined);
+              loadTemplates();
+            }}
+            onCancel={() => setEditingTemplate(undefined)}
+          />
+        </DialogContent>
+      </Dialog>
+    </motion.div>
+  );
+}
@@ -9,7 +9,7 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Plus } from "lucide-react";
+import { Plus, Archive } from "lucide-react";
 import { useCategories } from "@/stores/budgetStore";
 import { useEnsureData } from "@/stores/dataHooks";
 import { CategoryList } from "@/components/budget/CategoryList";
@@ -19,6 +19,8 @@ export function Categories() {
   const categories = useCategories();
   useEnsureData(); // Ensure data is loaded
   const [showAddDialog, setShowAddDialog] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const archivedCount = categories.filter((c) => c.is_archived).length;
 
   return (
     <motion.div
@@ -40,28 +42,41 @@ export function Categories() {
           </p>
         </div>
 
-        <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
-          <DialogTrigger asChild>
+        <div className="flex gap-2">
+          {archivedCount > 0 && (
             <Button
-              className="bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white shadow-lg hover:shadow-xl transition-all duration-300"
+              variant="outline"
               size="lg"
+              onClick={() => setShowArchived((show) => !show)}
+              className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
             >
-              <Plus className="mr-2 h-5 w-5" />
-              Add Category
+              <Archive className="mr-2 h-5 w-5" />
+              {showArchived ? "Hide" : "Show"} Archived ({archivedCount})
             </Button>
-          </DialogTrigger>{" "}
-          <DialogContent className="bg-slate-900 border-slate-700 text-slate-100 max-w-md">
-            <DialogHeader>
-              <DialogTitle className="text-xl font-bold text-slate-100">
+          )}
+          <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+            <DialogTrigger asChild>
+              <Button
+                className="bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white shadow-lg hover:shadow-xl transition-all duration-300"
+                size="lg"
+              >
+                <Plus className="mr-2 h-5 w-5" />
                 Add Category
-              </DialogTitle>
-              <DialogDescription className="text-slate-400">
-                Create a new category to track your spending
-              </DialogDescription>
-            </DialogHeader>
-            <AddCategoryForm onSuccess={() => setShowAddDialog(false)} />
-          </DialogContent>
-        </Dialog>
+              </Button>
+            </DialogTrigger>{" "}
+            <DialogContent className="bg-slate-900 border-slate-700 text-slate-100 max-w-md">
+              <DialogHeader>
+                <DialogTitle className="text-xl font-bold text-slate-100">
+                  Add Category
+                </DialogTitle>
+                <DialogDescription className="text-slate-400">
+                  Create a new category to track your spending
+                </DialogDescription>
+              </DialogHeader>
+              <AddCategoryForm onSuccess={() => setShowAddDialog(false)} />
+            </DialogContent>
+          </Dialog>
+        </div>
       </motion.div>
 
       {/* Categories List */}
@@ -72,6 +87,7 @@ export function Categories() {
       >
         <CategoryList
           categories={categories}
+          showArchived={showArchived}
           emptyMessage="Create your first category to start organizing your expenses"
         />
       </motion.div>
@@ -0,0 +1,469 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  ArrowRightLeft,
+  ChevronLeft,
+  ChevronRight,
+  Mail,
+  Power,
+} from "lucide-react";
+import { toast } from "react-hot-toast";
+import {
+  envelopesAPI,
+  usersAPI,
+  EnvelopeAssignment,
+  EnvelopeMonth,
+} from "@/services/api";
+import { useSetUser, useUser } from "@/stores/authStore";
+import { useBudgetStore, useCategories } from "@/stores/budgetStore";
+import { formatMoney } from "@/lib/utils";
+import { getCategoryOptions } from "@/lib/categoryTree";
+import { MoveEnvelopeDialog } from "@/components/budget/MoveEnvelopeDialog";
+
+// Zero-based budgeting: income goes into a "to be assigned" pool, and every
+// month the user gives each envelope (category) a job from it. Assigned
+// amounts are saved when a cell loses focus, as the difference from what was
+// assigned before, so the ledger keeps every change.
+export function Envelopes() {
+  const user = useUser();
+  const setUser = useSetUser();
+  const categories = useCategories();
+  const { loadBudgets } = useBudgetStore();
+  const baseCurrency = user?.base_currency ?? "USD";
+  const isEnabled = !!user?.envelope_budgeting;
+
+  const now = new Date();
+  const [month, setMonth] = useState(now.getMonth() + 1);
+  const [year, setYear] = useState(now.getFullYear());
+  const [data, setData] = useState<EnvelopeMonth | null>(null);
+  const [history, setHistory] = useState<EnvelopeAssignment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isToggling, setIsToggling] = useState(false);
+  // Text typed into assigned cells that hasn't been saved yet
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  // undefined when the move dialog is closed
+  const [moveFrom, setMoveFrom] = useState<string | null | undefined>(
+    undefined
+  );
+
+  const loadMonth = async () => {
+    try {
+      const [envelopeMonth, entries] = await Promise.all([
+        envelopesAPI.getMonth(month, year),
+        envelopesAPI.getHistory(month, year),
+      ]);
+      setData(envelopeMonth);
+      setHistory(entries);
+    } catch (error) {
+      console.error("Failed to load envelopes:", error);
+      toast.error("Failed to load envelopes");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isEnabled) loadMonth();
+  }, [month, year, isEnabled]);
+
+  // Assignments become budgets, so budget reports need reloading too
+  const handleChange = () => {
+    loadMonth();
+    loadBudgets();
+  };
+
+  const changeMonth = (delta: number) => {
+    const index = year * 12 + month - 1 + delta;
+    setYear(Math.floor(index / 12));
+    setMonth((index % 12) + 1);
+    setDrafts({});
+  };
+
+  const handleToggle = async () => {
+    setIsToggling(true);
+    try {
+      const response = await usersAPI.updateProfile({
+        envelope_budgeting: !isEnabled,
+      });
+      if (response.data?.user) {
+        setUser(response.data.user);
+      }
+      toast.success(
+        isEnabled
+          ? "Envelope budgeting turned off"
+          : "Envelope budgeting turned on"
+      );
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || "Failed to update settings");
+    } finally {
+      setIsToggling(false);
+    }
+  };
+
+  const clearDraft = (categoryId: string) =>
+    setDrafts((prev) => {
+      const { [categoryId]: _, ...rest } = prev;
+      return rest;
+    });
+
+  const saveAssigned = async (categoryId: string, current: number) => {
+    const draft = drafts[categoryId];
+    if (draft === undefined) return;
+
+    const amount = draft.trim() === "" ? 0 : parseFloat(draft);
+    if (isNaN(amount)) {
+      toast.error("Enter an amount");
+      clearDraft(categoryId);
+      return;
+    }
+    const delta = Math.round((amount - current) * 100) / 100;
+    if (delta === 0) {
+      clearDraft(categoryId);
+      return;
+    }
+
+    setSavingId(categoryId);
+    try {
+      await envelopesAPI.assign({
+        category_id: categoryId,
+        month,
+        year,
+        amount: delta,
+      });
+      handleChange();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || "Failed to assign money");
+    } finally {
+      clearDraft(categoryId);
+      setSavingId(null);
+    }
+  };
+
+  if (!isEnabled) {
+    return (
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        className="space-y-6 p-6 bg-slate-950"
+      >
+        <h1 className="text-4xl font-bold text-slate-200">Envelopes</h1>
+        <Card className="border-0 shadow-lg bg-slate-900 border-slate-800">
+          <CardContent className="p-12 text-center space-y-4">
+            <Mail className="h-12 w-12 text-slate-600 mx-auto" />
+            <p className="text-slate-300 max-w-md mx-auto">
+              With envelope budgeting, income lands in a pool and you assign
+              every bit of it to categories. Whatever is left in an envelope
+              carries into the next month.
+            </p>
+            <Button
+              onClick={handleToggle}
+              disabled={isToggling}
+              className="bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white"
+            >
+              <Power className="mr-2 h-4 w-4" />
+              {isToggling ? "Turning on..." : "Turn On Envelopes"}
+            </Button>
+          </CardContent>
+        </Card>
+      </motion.div>
+    );
+  }
+
+  const envelopeById = new Map(
+    (data?.envelopes ?? []).map((envelope) => [envelope.category_id, envelope])
+  );
+  // Tree order with full names; archived categories only show while their
+  // envelope has a history
+  const rows = getCategoryOptions(categories, [...envelopeById.keys()])
+    .filter((category) => envelopeById.has(category.id))
+    .map((category) => ({
+      ...envelopeById.get(category.id)!,
+      path: category.path,
+      depth: category.depth,
+    }));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="space-y-6 p-6 bg-slate-950"
+    >
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4"
+      >
+        <div>
+          <h1 className="text-4xl font-bold text-slate-200">Envelopes</h1>
+          <p className="text-slate-400 mt-1">Give all of your income a job</p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => changeMonth(-1)}
+            className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-lg font-semibold text-slate-200 w-36 text-center">
+            {format(new Date(year, month - 1, 1), "MMMM yyyy")}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => changeMonth(1)}
+            className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button
+            onClick={() => setMoveFrom(null)}
+            className="bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white shadow-lg hover:shadow-xl transition-all duration-300"
+            size="lg"
+          >
+            <ArrowRightLeft className="mr-2 h-5 w-5" />
+            Move Money
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleToggle}
+            disabled={isToggling}
+            className="text-slate-400 hover:bg-slate-800 hover:text-slate-100"
+          >
+            <Power className="mr-2 h-4 w-4" />
+            Turn Off
+          </Button>
+        </div>
+      </motion.div>
+
+      {isLoading || !data ? (
+        <p className="text-slate-400">Loading envelopes...</p>
+      ) : (
+        <>
+          {/* To Be Assigned */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+          >
+            <Card
+              className={`border-0 shadow-lg ${
+                data.toBeAssigned < 0 ? "bg-red-950/60" : "bg-slate-900"
+              }`}
+            >
+              <CardContent className="p-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm text-slate-400">To be assigned</p>
+                  <p
+                    className={`text-3xl font-bold ${
+                      data.toBeAssigned < 0 ? "text-red-400" : "text-green-400"
+                    }`}
+                  >
+                    {formatMoney(data.toBeAssigned, baseCurrency)}
+                  </p>
+                  {data.toBeAssigned < 0 && (
+                    <p className="text-sm text-red-300 mt-1">
+                      More is assigned than has come in. Take some back from an
+                      envelope.
+                    </p>
+                  )}
+                </div>
+                <div className="text-sm text-slate-400 sm:text-right">
+                  <p>Income so far: {formatMoney(data.income, baseCurrency)}</p>
+                  <p>
+                    Assigned so far: {formatMoney(data.assigned, baseCurrency)}
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          </motion.div>
+
+          {/* Envelopes */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2 }}
+          >
+            <Card className="border-0 shadow-lg bg-slate-900 border-slate-800">
+              <CardContent className="p-4 overflow-x-auto">
+                {rows.length === 0 ? (
+                  <p className="p-8 text-center text-slate-400">
+                    Add categories to start budgeting
+                  </p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-slate-400">
+                        <th className="text-left font-medium p-2">Envelope</th>
+                        <th className="text-right font-medium p-2">
+                          Carried in
+                        </th>
+                        <th className="text-right font-medium p-2">Assigned</th>
+                        <th className="text-right font-medium p-2">Spent</th>
+                        <th className="text-right font-medium p-2">
+                          Available
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map((envelope) => (
+                        <tr
+                          key={envelope.category_id}
+                          className="border-t border-slate-800"
+                        >
+                          <td
+                            className="p-2 text-slate-100"
+                            style={{
+                              paddingLeft: `${0.5 + envelope.depth * 1.25}rem`,
+                            }}
+                          >
+                            <div className="flex items-center gap-2">
+                              <div
+                                className="w-3 h-3 rounded-full shrink-0"
+                                style={{
+                                  backgroundColor: envelope.category_color,
+                                }}
+                              />
+                              <span className="truncate">
+                                {envelope.category_name}
+                              </span>
+                            </div>
+                          </td>
+                          <td className="p-2 text-right text-slate-300 whitespace-nowrap">
+                            {formatMoney(envelope.carried_in, baseCurrency)}
+                          </td>
+                          <td className="p-1 text-right">
+                            <Input
+                              type="number"
+                              step="0.01"
+                              value={
+                                drafts[envelope.category_id] ??
+                                (envelope.assigned !== 0
+                                  ? String(envelope.assigned)
+                                  : "")
+                              }
+                              placeholder="0"
+                              onChange={(e) =>
+                                setDrafts((prev) => ({
+                                  ...prev,
+                                  [envelope.category_id]: e.target.value,
+                                }))
+                              }
+                              onBlur={() =>
+                                saveAssigned(
+                                  envelope.category_id,
+                                  envelope.assigned
+                                )
+                              }
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") e.currentTarget.blur();
+                              }}
+                              disabled={savingId === envelope.category_id}
+                              className="h-8 w-28 ml-auto px-2 text-right bg-slate-800 border-slate-700 text-slate-100"
+                            />
+                          </td>
+                          <td className="p-2 text-right text-slate-300 whitespace-nowrap">
+                            {formatMoney(envelope.activity, baseCurrency)}
+                          </td>
+                          <td className="p-2 text-right whitespace-nowrap">
+                            <button
+                              type="button"
+                              onClick={() => setMoveFrom(envelope.category_id)}
+                              title="Move money out of this envelope"
+                              className={`rounded px-2 py-0.5 font-medium ${
+                                envelope.available < 0
+                                  ? "bg-red-900/60 text-red-300"
+                                  : envelope.available > 0
+                                  ? "bg-green-900/40 text-green-300"
+                                  : "text-slate-400"
+                              }`}
+                            >
+                              {formatMoney(envelope.available, baseCurrency)}
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+          </motion.div>
+
+          {/* Ledger */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+          >
+            <Card className="border-0 shadow-lg bg-slate-900 border-slate-800">
+              <CardHeader>
+                <CardTitle className="text-slate-200">
+                  This Month's Activity
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {history.length === 0 ? (
+                  <p className="text-slate-400">Nothing assigned yet</p>
+                ) : (
+                  <div className="space-y-2">
+                    {history.map((entry) => (
+                      <div
+                        key={entry.id}
+                        className="flex items-center justify-between text-sm border-b border-slate-800 pb-2"
+                      >
+                        <div>
+                          <p className="text-slate-200">
+                            {entry.category_name}
+                            {entry.move_id && (
+                              <span className="ml-2 text-xs text-slate-500">
+                                {entry.amount < 0 ? "moved out" : "moved in"}
+                              </span>
+                            )}
+                          </p>
+                          <p className="text-xs text-slate-500">
+                            {format(new Date(entry.created_at), "MMM d, HH:mm")}
+                            {entry.note && ` · ${entry.note}`}
+                          </p>
+                        </div>
+                        <span
+                          className={
+                            entry.amount < 0 ? "text-red-400" : "text-green-400"
+                          }
+                        >
+                          {entry.amount > 0 && "+"}
+                          {formatMoney(entry.amount, baseCurrency)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </motion.div>
+        </>
+      )}
+
+      {moveFrom !== undefined && (
+        <MoveEnvelopeDialog
+          envelopes={rows}
+          month={month}
+          year={year}
+          fromCategoryId={moveFrom ?? undefined}
+          open
+          onOpenChange={(open) => !open && setMoveFrom(undefined)}
+          onSuccess={handleChange}
+        />
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Plus } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { useBudgetStore } from "@/stores/budgetStore";
+import { useEnsureData } from "@/stores/dataHooks";
+import { recurringAPI, RecurringTransaction } from "@/services/api";
+import { RecurringTransactionForm } from "@/components/budget/RecurringTransactionForm";
+import { RecurringTransactionList } from "@/components/budget/RecurringTransactionList";
+
+export function Recurring() {
+  useEnsureData(); // Categories are needed by the form
+  const { refreshAllData } = useBudgetStore();
+  const [rules, setRules] = useState<RecurringTransaction[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showAddDialog, setShowAddDialog] = useState(false);
+
+  const loadRules = async () => {
+    try {
+      setRules(await recurringAPI.getAll());
+    } catch (error) {
+      console.error("Failed to load recurring transactions:", error);
+      toast.error("Failed to load recurring transactions");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  // Creating, editing or resuming a rule can record due occurrences
+  const handleChange = async () => {
+    await loadRules();
+    refreshAllData();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="space-y-6 p-6 bg-slate-950"
+    >
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4"
+      >
+        <div>
+          <h1 className="text-4xl font-bold text-slate-200">Recurring</h1>
+          <p className="text-slate-400 mt-1">
+            Rent, salary and subscriptions, recorded automatically
+          </p>
+        </div>
+
+        <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+          <DialogTrigger asChild>
+            <Button
+              className="bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white shadow-lg hover:shadow-xl transition-all duration-300"
+              size="lg"
+            >
+              <Plus className="mr-2 h-5 w-5" />
+              Add Recurring
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="bg-slate-900 border-slate-700 max-w-md">
+            <DialogHeader>
+              <DialogTitle className="text-xl font-bold text-slate-100">
+                Add Recurring Transaction
+              </DialogTitle>
+              <DialogDescription className="text-slate-400">
+                Occurrences are added to your transactions as they fall due
+              </DialogDescription>
+            </DialogHeader>
+            <RecurringTransactionForm
+              onSuccess={() => {
+                setShowAddDialog(false);
+                handleChange();
+              }}
+            />
+          </DialogContent>
+        </Dialog>
+      </motion.div>
+
+      {/* Recurring List */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+      >
+        {isLoading ? (
+          <p className="text-slate-400">Loading recurring transactions...</p>
+        ) : (
+          <RecurringTransactionList
+            rules={rules}
+            onChange={handleChange}
+            emptyMessage="Add rent, salary or subscriptions so you never have to enter them by hand"
+          />
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Plus, RotateCcw } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { useBudgetStore } from "@/stores/budgetStore";
+import { useEnsureData } from "@/stores/dataHooks";
+import { rulesAPI, Rule } from "@/services/api";
+import { RuleForm } from "@/components/budget/RuleForm";
+import { RuleList } from "@/components/budget/RuleList";
+import { RerunRulesDialog } from "@/components/budget/RerunRulesDialog";
+
+export function Rules() {
+  useEnsureData(); // Categories are needed by the form
+  const { refreshAllData } = useBudgetStore();
+  const [rules, setRules] = useState<Rule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [showRerunDialog, setShowRerunDialog] = useState(false);
+
+  const loadRules = async () => {
+    try {
+      setRules(await rulesAPI.getAll());
+    } catch (error) {
+      console.error("Failed to load rules:", error);
+      toast.error("Failed to load rules");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="space-y-6 p-6 bg-slate-950"
+    >
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4"
+      >
+        <div>
+          <h1 className="text-4xl font-bold text-slate-200">Rules</h1>
+          <p className="text-slate-400 mt-1">
+            Categorize, rename and tag new and imported transactions
+            automatically
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="lg"
+            disabled={rules.length === 0}
+            onClick={() => setShowRerunDialog(true)}
+            className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+          >
+            <RotateCcw className="mr-2 h-5 w-5" />
+            Re-run Rules
+          </Button>
+          <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+            <DialogTrigger asChild>
+              <Button
+                className="bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white shadow-lg hover:shadow-xl transition-all duration-300"
+                size="lg"
+              >
+                <Plus className="mr-2 h-5 w-5" />
+                Add Rule
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="bg-slate-900 border-slate-700 max-w-lg">
+              <DialogHeader>
+                <DialogTitle className="text-xl font-bold text-slate-100">
+                  Add Rule
+                </DialogTitle>
+                <DialogDescription className="text-slate-400">
+                  New rules run after your existing ones
+                </DialogDescription>
+              </DialogHeader>
+              <RuleForm
+                onSuccess={() => {
+                  setShowAddDialog(false);
+                  loadRules();
+                }}
+                onCancel={() => setShowAddDialog(false)}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
+      </motion.div>
+
+      {/* Rule List */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+      >
+        {isLoading ? (
+          <p className="text-slate-400">Loading rules...</p>
+        ) : (
+          <RuleList
+            rules={rules}
+            onChange={loadRules}
+            emptyMessage='Add a rule such as "description contains Starbucks → Coffee" to stop categorizing by hand'
+          />
+        )}
+      </motion.div>
+
+      <RerunRulesDialog
+        open={showRerunDialog}
+        onOpenChange={setShowRerunDialog}
+        onApplied={refreshAllData}
+      />
+    </motion.div>
+  );
+}
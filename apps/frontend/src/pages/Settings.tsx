@@ -10,6 +10,13 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useState, useEffect } from "react";
 import {
   User,
@@ -18,20 +25,36 @@ import {
   Shield,
   Bell,
   Palette,
+  Download,
+  Coins,
+  Mail,
 } from "lucide-react";
 import { useLogout, useUser, useSetUser } from "@/stores/authStore";
-import { usersAPI } from "@/services/api";
+import {
+  usersAPI,
+  digestsAPI,
+  ExportParams,
+  DigestFrequency,
+} from "@/services/api";
 import { toast } from "react-hot-toast";
+import { useBudgetStore } from "@/stores/budgetStore";
+import { ExchangeRateManager } from "@/components/budget/ExchangeRateManager";
+import { NotificationPreferencesForm } from "@/components/budget/NotificationPreferencesForm";
 
 export function Settings() {
   const user = useUser();
   const logout = useLogout();
   const setUser = useSetUser();
+  const { refreshAllData } = useBudgetStore();
   const [editProfileOpen, setEditProfileOpen] = useState(false);
   const [changePasswordOpen, setChangePasswordOpen] = useState(false);
+  const [notificationsOpen, setNotificationsOpen] = useState(false);
+  const [isSavingDigest, setIsSavingDigest] = useState(false);
+  const [isSendingDigest, setIsSendingDigest] = useState(false);
   const [profileForm, setProfileForm] = useState({
     name: user?.name || "",
     email: user?.email || "",
+    base_currency: user?.base_currency || "USD",
   });
   const [passwordForm, setPasswordForm] = useState({
     currentPassword: "",
@@ -39,12 +62,28 @@ export function Settings() {
     confirmPassword: "",
   });
 
+  const [exportForm, setExportForm] = useState<{
+    format: ExportParams["format"];
+    resource: NonNullable<ExportParams["resource"]>;
+    type: "all" | "income" | "expense" | "transfer";
+    startDate: string;
+    endDate: string;
+  }>({
+    format: "csv",
+    resource: "transactions",
+    type: "all",
+    startDate: "",
+    endDate: "",
+  });
+  const [isExporting, setIsExporting] = useState(false);
+
   // Update profileForm when user data changes
   useEffect(() => {
     if (user) {
       setProfileForm({
         name: user.name || "",
         email: user.email || "",
+        base_currency: user.base_currency || "USD",
       });
     }
   }, [user]);
@@ -56,10 +95,16 @@ export function Settings() {
   const handleProfileUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
-      const updateData: { name?: string; email?: string } = {};
+      const updateData: {
+        name?: string;
+        email?: string;
+        base_currency?: string;
+      } = {};
       if (profileForm.name !== user?.name) updateData.name = profileForm.name;
       if (profileForm.email !== user?.email)
         updateData.email = profileForm.email;
+      if (profileForm.base_currency !== user?.base_currency)
+        updateData.base_currency = profileForm.base_currency;
 
       if (Object.keys(updateData).length === 0) {
         toast("No changes detected", { icon: "ℹ️" });
@@ -82,6 +127,11 @@ export function Settings() {
         setUser(updatedUser);
       }
 
+      // Converted amounts depend on the base currency
+      if (updateData.base_currency) {
+        await refreshAllData();
+      }
+
       toast.success("Profile updated successfully");
       setEditProfileOpen(false);
     } catch (error: any) {
@@ -117,6 +167,84 @@ export function Settings() {
     }
   };
 
+  const digestFrequency: DigestFrequency = user?.digest_frequency || "none";
+
+  const handleDigestChange = async (frequency: DigestFrequency) => {
+    setIsSavingDigest(true);
+    try {
+      const response = await usersAPI.updateProfile({
+        digest_frequency: frequency,
+      });
+      if (response.data?.user) {
+        setUser(response.data.user);
+      }
+      toast.success(
+        frequency === "none"
+          ? "Email digest turned off"
+          : `You'll get a ${frequency} digest by email`
+      );
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || "Failed to update settings");
+    } finally {
+      setIsSavingDigest(false);
+    }
+  };
+
+  const handleSendDigest = async () => {
+    if (digestFrequency === "none") return;
+    setIsSendingDigest(true);
+    try {
+      const response = await digestsAPI.sendTest(digestFrequency);
+      toast.success(response.message || "Digest sent");
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || "Failed to send digest");
+    } finally {
+      setIsSendingDigest(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (
+      exportForm.startDate &&
+      exportForm.endDate &&
+      exportForm.startDate > exportForm.endDate
+    ) {
+      toast.error("Start date must be before end date");
+      return;
+    }
+    setIsExporting(true);
+    try {
+      const { blob, fileName } = await usersAPI.exportData({
+        format: exportForm.format,
+        resource: exportForm.format === "csv" ? exportForm.resource : undefined,
+        // The type picker is only shown for JSON and OFX exports
+        type:
+          exportForm.format === "csv" || exportForm.type === "all"
+            ? undefined
+            : exportForm.type,
+        start_date: exportForm.startDate || undefined,
+        end_date: exportForm.endDate || undefined,
+      });
+
+      // Trigger a browser download of the streamed file
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+
+      toast.success("Export downloaded");
+    } catch (error: any) {
+      console.error("Export error:", error);
+      toast.error("Failed to export data");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -175,6 +303,14 @@ export function Settings() {
                   Name
                 </label>
                 <p className="text-slate-100 mt-1">{user?.name || "Not set"}</p>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-slate-300">
+                  Base Currency
+                </label>
+                <p className="text-slate-100 mt-1">
+                  {user?.base_currency || "USD"}
+                </p>
               </div>{" "}
               <Dialog open={editProfileOpen} onOpenChange={setEditProfileOpen}>
                 <DialogTrigger asChild>
@@ -225,6 +361,28 @@ export function Settings() {
                         className="bg-slate-800 border-slate-600 text-slate-100"
                       />
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="base_currency" className="text-slate-300">
+                        Base Currency
+                      </Label>
+                      <Input
+                        id="base_currency"
+                        maxLength={3}
+                        pattern="[A-Z]{3}"
+                        title="3-letter currency code, e.g. USD"
+                        value={profileForm.base_currency}
+                        onChange={(e) =>
+                          setProfileForm((prev) => ({
+                            ...prev,
+                            base_currency: e.target.value.toUpperCase(),
+                          }))
+                        }
+                        className="bg-slate-800 border-slate-600 text-slate-100 uppercase"
+                      />
+                      <p className="text-xs text-slate-400">
+                        Totals, charts and budgets are shown in this currency
+                      </p>
+                    </div>
                     <div className="flex gap-2">
                       <Button type="submit" className="flex-1">
                         Update
@@ -422,18 +580,73 @@ export function Settings() {
                       Notifications
                     </span>
                   </div>{" "}
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
-                    onClick={() =>
-                      toast("Notification settings coming soon!", {
-                        icon: "🔔",
-                      })
-                    }
+                  <Dialog
+                    open={notificationsOpen}
+                    onOpenChange={setNotificationsOpen}
                   >
-                    Configure
-                  </Button>
+                    <DialogTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+                      >
+                        Configure
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="sm:max-w-[560px] bg-slate-900 border-slate-700">
+                      <DialogHeader>
+                        <DialogTitle className="text-slate-100">
+                          Notifications
+                        </DialogTitle>
+                      </DialogHeader>
+                      <NotificationPreferencesForm
+                        baseCurrency={user?.base_currency || "USD"}
+                        onSuccess={() => setNotificationsOpen(false)}
+                        onCancel={() => setNotificationsOpen(false)}
+                      />
+                    </DialogContent>
+                  </Dialog>
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Mail className="w-4 h-4 text-slate-400" />
+                    <span className="text-sm text-slate-300">Email digest</span>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {digestFrequency !== "none" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleSendDigest}
+                        disabled={isSendingDigest}
+                        className="text-slate-400 hover:bg-slate-800 hover:text-slate-100"
+                      >
+                        {isSendingDigest ? "Sending..." : "Send now"}
+                      </Button>
+                    )}
+                    <Select
+                      value={digestFrequency}
+                      onValueChange={(value) =>
+                        handleDigestChange(value as DigestFrequency)
+                      }
+                      disabled={isSavingDigest}
+                    >
+                      <SelectTrigger className="w-28 h-8 bg-slate-800 border-slate-600 text-slate-100">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-800 border-slate-600">
+                        <SelectItem value="none" className="text-slate-100">
+                          Off
+                        </SelectItem>
+                        <SelectItem value="weekly" className="text-slate-100">
+                          Weekly
+                        </SelectItem>
+                        <SelectItem value="monthly" className="text-slate-100">
+                          Monthly
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-2">
@@ -459,6 +672,194 @@ export function Settings() {
           </Card>
         </motion.div>
 
+        {/* Export Data Card */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.35 }}
+        >
+          <Card className="border-0 shadow-lg bg-slate-900 border-slate-800">
+            <CardHeader className="pb-4">
+              <div className="flex items-center space-x-3">
+                <div className="w-12 h-12 rounded-full bg-gradient-to-r from-sky-700 to-sky-800 flex items-center justify-center">
+                  <Download className="w-6 h-6 text-white" />
+                </div>
+                <div>
+                  <CardTitle className="text-lg text-slate-100">
+                    Export Data
+                  </CardTitle>
+                  <p className="text-sm text-slate-400">
+                    Download your transactions, categories and budgets
+                  </p>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label className="text-slate-300">Format</Label>
+                  <Select
+                    value={exportForm.format}
+                    onValueChange={(value: ExportParams["format"]) =>
+                      setExportForm((prev) => ({ ...prev, format: value }))
+                    }
+                  >
+                    <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-600">
+                      <SelectItem value="csv" className="text-slate-100">
+                        CSV
+                      </SelectItem>
+                      <SelectItem value="json" className="text-slate-100">
+                        JSON archive
+                      </SelectItem>
+                      <SelectItem value="ofx" className="text-slate-100">
+                        OFX statement
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {exportForm.format === "csv" ? (
+                  <div className="space-y-2">
+                    <Label className="text-slate-300">Data</Label>
+                    <Select
+                      value={exportForm.resource}
+                      onValueChange={(
+                        value: NonNullable<ExportParams["resource"]>
+                      ) =>
+                        setExportForm((prev) => ({ ...prev, resource: value }))
+                      }
+                    >
+                      <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-800 border-slate-600">
+                        <SelectItem
+                          value="transactions"
+                          className="text-slate-100"
+                        >
+                          Transactions
+                        </SelectItem>
+                        <SelectItem
+                          value="categories"
+                          className="text-slate-100"
+                        >
+                          Categories
+                        </SelectItem>
+                        <SelectItem value="budgets" className="text-slate-100">
+                          Budgets
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Label className="text-slate-300">Type</Label>
+                    <Select
+                      value={exportForm.type}
+                      onValueChange={(
+                        value: "all" | "income" | "expense" | "transfer"
+                      ) => setExportForm((prev) => ({ ...prev, type: value }))}
+                    >
+                      <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-100">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-800 border-slate-600">
+                        <SelectItem value="all" className="text-slate-100">
+                          All transactions
+                        </SelectItem>
+                        <SelectItem value="income" className="text-slate-100">
+                          Income only
+                        </SelectItem>
+                        <SelectItem value="expense" className="text-slate-100">
+                          Expenses only
+                        </SelectItem>
+                        <SelectItem value="transfer" className="text-slate-100">
+                          Transfers only
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="exportStart" className="text-slate-300">
+                    From
+                  </Label>
+                  <Input
+                    id="exportStart"
+                    type="date"
+                    value={exportForm.startDate}
+                    onChange={(e) =>
+                      setExportForm((prev) => ({
+                        ...prev,
+                        startDate: e.target.value,
+                      }))
+                    }
+                    className="bg-slate-800 border-slate-600 text-slate-100"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="exportEnd" className="text-slate-300">
+                    To
+                  </Label>
+                  <Input
+                    id="exportEnd"
+                    type="date"
+                    value={exportForm.endDate}
+                    onChange={(e) =>
+                      setExportForm((prev) => ({
+                        ...prev,
+                        endDate: e.target.value,
+                      }))
+                    }
+                    className="bg-slate-800 border-slate-600 text-slate-100"
+                  />
+                </div>
+              </div>
+              <Button
+                onClick={handleExport}
+                disabled={isExporting}
+                variant="outline"
+                className="w-full border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                {isExporting ? "Preparing export..." : "Download Export"}
+              </Button>
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {/* Exchange Rates Card */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.375 }}
+        >
+          <Card className="border-0 shadow-lg bg-slate-900 border-slate-800">
+            <CardHeader className="pb-4">
+              <div className="flex items-center space-x-3">
+                <div className="w-12 h-12 rounded-full bg-gradient-to-r from-amber-700 to-amber-800 flex items-center justify-center">
+                  <Coins className="w-6 h-6 text-white" />
+                </div>
+                <div>
+                  <CardTitle className="text-lg text-slate-100">
+                    Exchange Rates
+                  </CardTitle>
+                  <p className="text-sm text-slate-400">
+                    Convert foreign amounts to {user?.base_currency || "USD"}
+                  </p>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <ExchangeRateManager
+                baseCurrency={user?.base_currency || "USD"}
+              />
+            </CardContent>
+          </Card>
+        </motion.div>
+
         {/* Account Actions Card */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Plus } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { useBudgetStore } from "@/stores/budgetStore";
+import { tagsAPI, Tag, TagSpending } from "@/services/api";
+import { TagForm } from "@/components/budget/TagForm";
+import { TagList } from "@/components/budget/TagList";
+import {
+  DateFilterComponent,
+  DateFilter,
+} from "@/components/budget/DateFilter";
+
+export function Tags() {
+  const { refreshAllData } = useBudgetStore();
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [spending, setSpending] = useState<TagSpending[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  // No range means all time, so a trip's full cost shows by default
+  const [dateFilter, setDateFilter] = useState<DateFilter>({
+    from: undefined,
+    to: undefined,
+    preset: undefined,
+  });
+
+  const loadTags = async () => {
+    try {
+      const [tagList, tagSpending] = await Promise.all([
+        tagsAPI.getAll(),
+        tagsAPI.getSpending(
+          dateFilter.from && format(dateFilter.from, "yyyy-MM-dd"),
+          dateFilter.to && format(dateFilter.to, "yyyy-MM-dd")
+        ),
+      ]);
+      setTags(tagList);
+      setSpending(tagSpending);
+    } catch (error) {
+      console.error("Failed to load tags:", error);
+      toast.error("Failed to load tags");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTags();
+  }, [dateFilter.from, dateFilter.to]);
+
+  // Renaming or deleting a tag changes how transactions show it
+  const handleChange = async () => {
+    await loadTags();
+    refreshAllData();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="space-y-6 p-6 bg-slate-950"
+    >
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4"
+      >
+        <div>
+          <h1 className="text-4xl font-bold text-slate-200">Tags</h1>
+          <p className="text-slate-400 mt-1">
+            What trips and projects cost, across all categories
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <DateFilterComponent
+            dateFilter={dateFilter}
+            onDateFilterChange={setDateFilter}
+          />
+          <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+            <DialogTrigger asChild>
+              <Button
+                className="bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white shadow-lg hover:shadow-xl transition-all duration-300"
+                size="lg"
+              >
+                <Plus className="mr-2 h-5 w-5" />
+                Add Tag
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="bg-slate-900 border-slate-700 max-w-md">
+              <DialogHeader>
+                <DialogTitle className="text-xl font-bold text-slate-100">
+                  Add Tag
+                </DialogTitle>
+                <DialogDescription className="text-slate-400">
+                  Tags typed on a transaction are also created automatically
+                </DialogDescription>
+              </DialogHeader>
+              <TagForm
+                onSuccess={() => {
+                  setShowAddDialog(false);
+                  loadTags();
+                }}
+                onCancel={() => setShowAddDialog(false)}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
+      </motion.div>
+
+      {/* Tag List */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+      >
+        {isLoading ? (
+          <p className="text-slate-400">Loading tags...</p>
+        ) : (
+          <TagList
+            tags={tags}
+            spending={spending}
+            onChange={handleChange}
+            emptyMessage='Add tags like "japan 2026" to transactions to see what a trip or project costs'
+          />
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -1,5 +1,6 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { motion } from "framer-motion";
+import { useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -10,10 +11,26 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Plus } from "lucide-react";
-import { useTransactions } from "@/stores/budgetStore";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Plus, ArrowLeftRight, Search } from "lucide-react";
+import {
+  useTransactions,
+  useAccounts,
+  normalizeTransaction,
+  Transaction,
+} from "@/stores/budgetStore";
+import { transactionsAPI } from "@/services/api";
 import { useEnsureData } from "@/stores/dataHooks";
 import { AddTransactionForm } from "@/components/budget/AddTransactionForm";
+import { TransferForm } from "@/components/budget/TransferForm";
+import { ImportTransactionsDialog } from "@/components/budget/ImportTransactionsDialog";
 import { TransactionList } from "@/components/budget/TransactionList";
 import {
   DateFilterComponent,
@@ -23,23 +40,96 @@ import { isWithinInterval, startOfDay, endOfDay } from "date-fns";
 
 export function Transactions() {
   const transactions = useTransactions();
+  const accounts = useAccounts();
   useEnsureData(); // Ensure data is loaded
-  const [filter, setFilter] = useState<"all" | "income" | "expense">("all");
+  const [filter, setFilter] = useState<
+    "all" | "income" | "expense" | "transfer"
+  >("all");
+  const [accountFilter, setAccountFilter] = useState<string>("all");
+  // The Tags page links here with ?tag=<id>
+  const [searchParams] = useSearchParams();
+  const [tagFilter, setTagFilter] = useState<string>(
+    searchParams.get("tag") || "all"
+  );
   const [showAddDialog, setShowAddDialog] = useState(false);
+  const [showTransferDialog, setShowTransferDialog] = useState(false);
   const [dateFilter, setDateFilter] = useState<DateFilter>({
     from: undefined,
     to: undefined,
     preset: undefined,
   });
+  const [searchQuery, setSearchQuery] = useState("");
+  // null while the search box is empty
+  const [searchResults, setSearchResults] = useState<Transaction[] | null>(
+    null
+  );
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  // Search runs on the server once typing pauses; it is redone when the
+  // loaded transactions change so edits show up in the results
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults(null);
+      setSearchError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await transactionsAPI.search(query, 100);
+        if (!cancelled) {
+          setSearchResults(result.transactions.map(normalizeTransaction));
+          setSearchError(null);
+        }
+      } catch (error: any) {
+        if (!cancelled) {
+          setSearchResults([]);
+          setSearchError(
+            error.response?.data?.error || "Failed to search transactions"
+          );
+        }
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, transactions]);
 
-  // Apply both type and date filters
-  const filteredTransactions = transactions.filter((transaction) => {
+  const searchedTransactions = searchResults ?? transactions;
+
+  // Tags in use, for the tag filter
+  const tags = Array.from(
+    new Map(
+      transactions.flatMap((transaction) =>
+        (transaction.tags || []).map((tag) => [tag.id, tag] as const)
+      )
+    ).values()
+  ).sort((a, b) => a.name.localeCompare(b.name));
+
+  // Apply type, account, tag and date filters
+  const filteredTransactions = searchedTransactions.filter((transaction) => {
     // Type filter
     const matchesType = filter === "all" || transaction.type === filter;
 
+    // Account filter ("none" matches transactions without an account)
+    const matchesAccount =
+      accountFilter === "all" ||
+      (accountFilter === "none"
+        ? !transaction.account_id
+        : transaction.account_id === accountFilter);
+
+    // Tag filter
+    const matchesTag =
+      tagFilter === "all" ||
+      !!transaction.tags?.some((tag) => tag.id === tagFilter);
+
     // Date filter
     if (!dateFilter.from && !dateFilter.to) {
-      return matchesType; // No date filter applied
+      return matchesType && matchesAccount && matchesTag; // No date filter applied
     }
 
     const transactionDate = new Date(transaction.date);
@@ -56,7 +146,7 @@ export function Transactions() {
       matchesDate = transactionDate <= endOfDay(dateFilter.to);
     }
 
-    return matchesType && matchesDate;
+    return matchesType && matchesAccount && matchesTag && matchesDate;
   });
 
   return (
@@ -78,32 +168,87 @@ export function Transactions() {
               Manage and track all your financial transactions
             </p>
           </div>
-          <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
-            <DialogTrigger asChild>
-              <Button
-                className="bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white shadow-lg hover:shadow-xl transition-all duration-300"
-                size="lg"
+          <div className="flex items-center gap-3">
+            <ImportTransactionsDialog />
+            {accounts.length >= 2 && (
+              <Dialog
+                open={showTransferDialog}
+                onOpenChange={setShowTransferDialog}
               >
-                <Plus className="mr-2 h-5 w-5" />
-                Add Transaction
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="bg-slate-900 border-slate-700 max-w-md">
-              <DialogHeader>
-                <DialogTitle className="text-xl font-bold text-slate-100">
-                  Add New Transaction
-                </DialogTitle>
-                <DialogDescription className="text-slate-400">
-                  Record a new income or expense transaction
-                </DialogDescription>
-              </DialogHeader>
-              <AddTransactionForm onSuccess={() => setShowAddDialog(false)} />
-            </DialogContent>
-          </Dialog>
+                <DialogTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="lg"
+                    className="border-slate-600 bg-slate-800 hover:bg-slate-700 text-slate-200"
+                  >
+                    <ArrowLeftRight className="mr-2 h-5 w-5" />
+                    Transfer
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="bg-slate-900 border-slate-700 text-slate-100 max-w-md">
+                  <DialogHeader>
+                    <DialogTitle className="text-xl font-bold text-slate-100">
+                      Transfer Between Accounts
+                    </DialogTitle>
+                    <DialogDescription className="text-slate-400">
+                      Move money from one of your accounts to another
+                    </DialogDescription>
+                  </DialogHeader>
+                  <TransferForm
+                    onSuccess={() => setShowTransferDialog(false)}
+                  />
+                </DialogContent>
+              </Dialog>
+            )}
+            <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+              <DialogTrigger asChild>
+                <Button
+                  className="bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white shadow-lg hover:shadow-xl transition-all duration-300"
+                  size="lg"
+                >
+                  <Plus className="mr-2 h-5 w-5" />
+                  Add Transaction
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="bg-slate-900 border-slate-700 max-w-md">
+                <DialogHeader>
+                  <DialogTitle className="text-xl font-bold text-slate-100">
+                    Add New Transaction
+                  </DialogTitle>
+                  <DialogDescription className="text-slate-400">
+                    Record a new income or expense transaction
+                  </DialogDescription>
+                </DialogHeader>
+                <AddTransactionForm onSuccess={() => setShowAddDialog(false)} />
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
-        {/* Date and Type Filters */}
+        {/* Search, Date and Type Filters */}
         <div className="space-y-4">
+          {/* Search */}
+          <div className="bg-slate-900/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-4 space-y-2">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+              <Input
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search, e.g. coffee amount>5 category:Groceries before:2026-01-01"
+                className="pl-9 bg-slate-800 border-slate-600 text-slate-100 placeholder:text-slate-500"
+              />
+            </div>
+            {searchError ? (
+              <p className="text-sm text-red-400">{searchError}</p>
+            ) : (
+              <p className="text-xs text-slate-500">
+                Words match descriptions and notes; use "quotes" for phrases and
+                -word to exclude. Filters: amount&gt;50, amount&lt;=20,
+                category:, account:, tag:, type:, before:, after:, on:
+              </p>
+            )}
+          </div>
+
           {/* Date Filter */}
           <div className="bg-slate-900/50 backdrop-blur-sm border border-slate-700/50 rounded-xl p-4">
             <DateFilterComponent
@@ -155,10 +300,76 @@ export function Transactions() {
                 >
                   Expenses
                 </Button>
+                <Button
+                  variant={filter === "transfer" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setFilter("transfer")}
+                  className={
+                    filter === "transfer"
+                      ? "bg-blue-600 hover:bg-blue-700 text-white"
+                      : "border-slate-600 bg-slate-800 hover:bg-slate-700 text-slate-200"
+                  }
+                >
+                  Transfers
+                </Button>
               </div>
-              {filteredTransactions.length !== transactions.length && (
+              {accounts.length > 0 && (
+                <Select value={accountFilter} onValueChange={setAccountFilter}>
+                  <SelectTrigger className="w-48 bg-slate-800 border-slate-600 text-slate-200">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-600">
+                    <SelectItem
+                      value="all"
+                      className="text-slate-100 focus:bg-slate-700 focus:text-slate-100"
+                    >
+                      All accounts
+                    </SelectItem>
+                    {accounts.map((account) => (
+                      <SelectItem
+                        key={account.id}
+                        value={account.id}
+                        className="text-slate-100 focus:bg-slate-700 focus:text-slate-100"
+                      >
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                    <SelectItem
+                      value="none"
+                      className="text-slate-100 focus:bg-slate-700 focus:text-slate-100"
+                    >
+                      No account
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+              {tags.length > 0 && (
+                <Select value={tagFilter} onValueChange={setTagFilter}>
+                  <SelectTrigger className="w-48 bg-slate-800 border-slate-600 text-slate-200">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-600">
+                    <SelectItem
+                      value="all"
+                      className="text-slate-100 focus:bg-slate-700 focus:text-slate-100"
+                    >
+                      All tags
+                    </SelectItem>
+                    {tags.map((tag) => (
+                      <SelectItem
+                        key={tag.id}
+                        value={tag.id}
+                        className="text-slate-100 focus:bg-slate-700 focus:text-slate-100"
+                      >
+                        #{tag.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {filteredTransactions.length !== searchedTransactions.length && (
                 <Badge variant="secondary" className="ml-auto">
-                  {filteredTransactions.length} of {transactions.length}{" "}
+                  {filteredTransactions.length} of {searchedTransactions.length}{" "}
                   transactions
                 </Badge>
               )}
@@ -1,4 +1,11 @@
 export { Dashboard } from "./Dashboard";
 export { Transactions } from "./Transactions";
 export { Categories } from "./Categories";
+export { Budgets } from "./Budgets";
+export { Envelopes } from "./Envelopes";
+export { Accounts } from "./Accounts";
+export { Recurring } from "./Recurring";
+export { Bills } from "./Bills";
+export { Rules } from "./Rules";
+export { Tags } from "./Tags";
 export { Settings } from "./Settings";
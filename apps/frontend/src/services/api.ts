@@ -1,5 +1,10 @@
 import axios, { AxiosInstance, AxiosResponse } from "axios";
-import { Transaction, Category } from "@/stores/budgetStore";
+import {
+  Transaction,
+  TransactionInput,
+  Category,
+  Account,
+} from "@/stores/budgetStore";
 
 const API_BASE_URL = import.meta.env.VITE_API_URL;
 
@@ -128,11 +133,115 @@ export const authAPI = {
   },
 };
 
+// CSV import types (mirror the backend ImportService)
+export type SignConvention =
+  | "negative_is_expense"
+  | "positive_is_expense"
+  | "debit_credit_columns";
+
+export type ImportDateFormat =
+  | "YYYY-MM-DD"
+  | "YYYY/MM/DD"
+  | "MM/DD/YYYY"
+  | "DD/MM/YYYY"
+  | "DD.MM.YYYY";
+
+export interface CsvColumnMapping {
+  date: number;
+  description: number;
+  amount?: number;
+  debit?: number;
+  credit?: number;
+  category?: number;
+}
+
+export interface CsvImportRequest {
+  csv: string;
+  has_header?: boolean;
+  mapping?: CsvColumnMapping;
+  sign_convention?: SignConvention;
+  date_format?: ImportDateFormat;
+  decimal_separator?: "." | ",";
+  default_category_id?: string;
+  account_id?: string;
+  skip_invalid?: boolean;
+}
+
+export type StatementFormat = "ofx" | "qif";
+
+export interface StatementImportRequest {
+  content: string;
+  format?: StatementFormat;
+  date_format?: ImportDateFormat;
+  decimal_separator?: "." | ",";
+  default_category_id?: string;
+  account_id?: string;
+  skip_invalid?: boolean;
+}
+
+export interface ImportRowResult {
+  line: number;
+  raw: string[];
+  transaction: {
+    amount: number;
+    description: string;
+    type: "income" | "expense";
+    date: string;
+    category_id?: string;
+    external_id?: string;
+  } | null;
+  errors: string[];
+  warnings: string[];
+  duplicate: boolean;
+}
+
+export interface ImportPreview {
+  headers: string[];
+  suggestedMapping: Partial<CsvColumnMapping>;
+  rows: ImportRowResult[];
+  validCount: number;
+  errorCount: number;
+  duplicateCount: number;
+}
+
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+  duplicates: number;
+}
+
 // Transactions API
+export interface TransferRequest {
+  from_account_id: string;
+  to_account_id: string;
+  amount: number;
+  description: string;
+  date?: string;
+}
+
+// Both legs of a transfer
+export interface Transfer {
+  id: string;
+  from: Transaction;
+  to: Transaction;
+}
+
+// A category ranked for a description by the user's own history
+export interface CategorySuggestion {
+  category_id: string;
+  category_name: string;
+  category_color: string;
+  confidence: number; // 0-1
+}
+
 export const transactionsAPI = {
   getAll: async (): Promise<Transaction[]> => {
     const response = await api.get<
-      ApiResponse<{ transactions: Transaction[]; total: number }>
+      ApiResponse<{
+        transactions: Transaction[];
+        total: number;
+        nextCursor: string | null;
+      }>
     >("/transactions");
     const transactions = response.data.data?.transactions || [];
     // Normalize the transaction data to ensure amounts are numbers
@@ -145,9 +254,7 @@ export const transactionsAPI = {
     }));
   },
 
-  create: async (
-    transaction: Omit<Transaction, "id" | "user_id">
-  ): Promise<Transaction> => {
+  create: async (transaction: TransactionInput): Promise<Transaction> => {
     const response = await api.post<ApiResponse<Transaction>>(
       "/transactions",
       transaction
@@ -164,7 +271,7 @@ export const transactionsAPI = {
   },
   update: async (
     id: string,
-    transaction: Partial<Transaction>
+    transaction: Partial<TransactionInput>
   ): Promise<Transaction> => {
     const response = await api.put<ApiResponse<Transaction>>(
       `/transactions/${id}`,
@@ -185,6 +292,66 @@ export const transactionsAPI = {
     await api.delete(`/transactions/${id}`);
   },
 
+  // Search with the query language, e.g. amount>50 category:Groceries "coffee"
+  search: async (
+    query: string,
+    limit?: number
+  ): Promise<{
+    transactions: Transaction[];
+    total: number;
+    nextCursor: string | null;
+  }> => {
+    const response = await api.get<
+      ApiResponse<{
+        transactions: Transaction[];
+        total: number;
+        nextCursor: string | null;
+      }>
+    >("/transactions", { params: { q: query, limit } });
+    return (
+      response.data.data || { transactions: [], total: 0, nextCursor: null }
+    );
+  },
+
+  suggestCategory: async (
+    description: string,
+    type?: "income" | "expense"
+  ): Promise<CategorySuggestion[]> => {
+    const params = new URLSearchParams({ description });
+    if (type) params.append("type", type);
+
+    const response = await api.get<ApiResponse<CategorySuggestion[]>>(
+      `/transactions/suggest-category?${params.toString()}`
+    );
+    return response.data.data || [];
+  },
+
+  createTransfer: async (transfer: TransferRequest): Promise<Transfer> => {
+    const response = await api.post<ApiResponse<Transfer>>(
+      "/transactions/transfers",
+      transfer
+    );
+    return response.data.data!;
+  },
+
+  getTransfer: async (id: string): Promise<Transfer> => {
+    const response = await api.get<ApiResponse<Transfer>>(
+      `/transactions/transfers/${id}`
+    );
+    return response.data.data!;
+  },
+
+  updateTransfer: async (
+    id: string,
+    transfer: Partial<TransferRequest>
+  ): Promise<Transfer> => {
+    const response = await api.put<ApiResponse<Transfer>>(
+      `/transactions/transfers/${id}`,
+      transfer
+    );
+    return response.data.data!;
+  },
+
   getSummary: async (startDate?: string, endDate?: string) => {
     const params = new URLSearchParams();
     if (startDate) params.append("start_date", startDate);
@@ -195,8 +362,61 @@ export const transactionsAPI = {
     );
     return response.data.data;
   },
+
+  previewImport: async (request: CsvImportRequest): Promise<ImportPreview> => {
+    const response = await api.post<ApiResponse<ImportPreview>>(
+      "/transactions/import",
+      { ...request, dry_run: true }
+    );
+    return response.data.data!;
+  },
+
+  commitImport: async (request: CsvImportRequest): Promise<ImportResult> => {
+    const response = await api.post<ApiResponse<ImportResult>>(
+      "/transactions/import",
+      { ...request, dry_run: false },
+      // Large files can take a while to validate and insert
+      { timeout: 60000 }
+    );
+    return response.data.data!;
+  },
+
+  previewStatementImport: async (
+    request: StatementImportRequest
+  ): Promise<ImportPreview> => {
+    const response = await api.post<ApiResponse<ImportPreview>>(
+      "/transactions/import/statement",
+      { ...request, dry_run: true }
+    );
+    return response.data.data!;
+  },
+
+  commitStatementImport: async (
+    request: StatementImportRequest
+  ): Promise<ImportResult> => {
+    const response = await api.post<ApiResponse<ImportResult>>(
+      "/transactions/import/statement",
+      { ...request, dry_run: false },
+      { timeout: 60000 }
+    );
+    return response.data.data!;
+  },
 };
 
+// What merging one category into another moves over
+export interface CategoryMergeSummary {
+  transactions: number;
+  splits: number;
+  budgets: number;
+  rules: number;
+  recurring: number;
+  subcategories: number;
+  // false when merging into one of its parents, whose budgets already cover
+  // its spending; its budget limits are then dropped instead of added
+  combine_budgets: boolean;
+  conflicts: string[]; // subcategory names both categories have
+}
+
 // Categories API
 export const categoriesAPI = {
   getAll: async (): Promise<Category[]> => {
@@ -265,6 +485,28 @@ export const categoriesAPI = {
     await api.delete(`/categories/${id}`);
   },
 
+  previewMerge: async (
+    id: string,
+    targetId: string
+  ): Promise<CategoryMergeSummary> => {
+    const response = await api.post<ApiResponse<CategoryMergeSummary>>(
+      `/categories/${id}/merge/preview`,
+      { target_id: targetId }
+    );
+    return response.data.data!;
+  },
+
+  merge: async (
+    id: string,
+    targetId: string
+  ): Promise<CategoryMergeSummary> => {
+    const response = await api.post<ApiResponse<CategoryMergeSummary>>(
+      `/categories/${id}/merge`,
+      { target_id: targetId }
+    );
+    return response.data.data!;
+  },
+
   getWithSpending: async (startDate?: string, endDate?: string) => {
     const params = new URLSearchParams();
     if (startDate) params.append("start_date", startDate);
@@ -284,6 +526,940 @@ export const categoriesAPI = {
   },
 };
 
+export interface AccountLedger {
+  account: Account;
+  entries: Transaction[]; // newest first, each with a running_balance
+  total: number;
+}
+
+export interface LedgerParams {
+  start_date?: string;
+  end_date?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// Accounts API
+export const accountsAPI = {
+  getAll: async (): Promise<Account[]> => {
+    const response = await api.get<ApiResponse<Account[]>>("/accounts");
+    return response.data.data || [];
+  },
+
+  create: async (
+    account: Omit<Account, "id" | "user_id" | "balance" | "transaction_count">
+  ): Promise<Account> => {
+    const response = await api.post<ApiResponse<Account>>("/accounts", account);
+    return response.data.data!;
+  },
+
+  update: async (id: string, account: Partial<Account>): Promise<Account> => {
+    const response = await api.put<ApiResponse<Account>>(
+      `/accounts/${id}`,
+      account
+    );
+    return response.data.data!;
+  },
+
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/accounts/${id}`);
+  },
+
+  getLedger: async (
+    id: string,
+    params: LedgerParams = {}
+  ): Promise<AccountLedger> => {
+    const response = await api.get<ApiResponse<AccountLedger>>(
+      `/accounts/${id}/ledger`,
+      { params }
+    );
+    const ledger = response.data.data!;
+    return {
+      ...ledger,
+      entries: ledger.entries.map((entry: any) => ({
+        ...entry,
+        amount: Number(entry.amount) || 0,
+      })),
+    };
+  },
+};
+
+// Recurring transaction types (mirror the backend RecurringService)
+export type RecurringFrequency =
+  | "daily"
+  | "weekly"
+  | "biweekly"
+  | "monthly"
+  | "yearly";
+
+export interface RecurringTransaction {
+  id: string;
+  user_id: string;
+  category_id: string | null;
+  amount: number;
+  description: string;
+  type: "income" | "expense";
+  frequency: RecurringFrequency;
+  day_of_month: number | null;
+  start_date: string;
+  end_date: string | null;
+  max_occurrences: number | null;
+  is_paused: boolean;
+  materialized_through: string | null;
+  next_occurrence: string | null;
+  category_name?: string;
+  category_color?: string;
+}
+
+export interface RecurringTransactionInput {
+  category_id?: string | null;
+  amount: number;
+  description: string;
+  type: "income" | "expense";
+  frequency: RecurringFrequency;
+  day_of_month?: number | null;
+  start_date: string;
+  end_date?: string | null;
+  max_occurrences?: number | null;
+}
+
+export interface UpcomingOccurrence {
+  date: string;
+  status: "scheduled" | "skipped" | "overridden";
+  amount: number;
+  description: string;
+  category_id: string | null;
+}
+
+// Recurring Transactions API
+export const recurringAPI = {
+  getAll: async (): Promise<RecurringTransaction[]> => {
+    const response = await api.get<ApiResponse<RecurringTransaction[]>>(
+      "/recurring"
+    );
+    return (response.data.data || []).map((rule: any) => ({
+      ...rule,
+      amount: parseFloat(rule.amount) || 0,
+    }));
+  },
+
+  create: async (
+    rule: RecurringTransactionInput
+  ): Promise<RecurringTransaction> => {
+    const response = await api.post<ApiResponse<RecurringTransaction>>(
+      "/recurring",
+      rule
+    );
+    return response.data.data!;
+  },
+
+  update: async (
+    id: string,
+    rule: Partial<RecurringTransactionInput>
+  ): Promise<RecurringTransaction> => {
+    const response = await api.put<ApiResponse<RecurringTransaction>>(
+      `/recurring/${id}`,
+      rule
+    );
+    return response.data.data!;
+  },
+
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/recurring/${id}`);
+  },
+
+  pause: async (id: string): Promise<RecurringTransaction> => {
+    const response = await api.post<ApiResponse<RecurringTransaction>>(
+      `/recurring/${id}/pause`
+    );
+    return response.data.data!;
+  },
+
+  resume: async (id: string): Promise<RecurringTransaction> => {
+    const response = await api.post<ApiResponse<RecurringTransaction>>(
+      `/recurring/${id}/resume`
+    );
+    return response.data.data!;
+  },
+
+  getOccurrences: async (
+    id: string,
+    count?: number
+  ): Promise<UpcomingOccurrence[]> => {
+    const params = new URLSearchParams();
+    if (count) params.append("count", String(count));
+
+    const response = await api.get<ApiResponse<UpcomingOccurrence[]>>(
+      `/recurring/${id}/occurrences?${params.toString()}`
+    );
+    return response.data.data || [];
+  },
+
+  skipOccurrence: async (id: string, date: string): Promise<void> => {
+    await api.post(`/recurring/${id}/occurrences/${date}/skip`);
+  },
+
+  updateOccurrence: async (
+    id: string,
+    date: string,
+    override: {
+      amount?: number;
+      description?: string;
+      category_id?: string | null;
+    }
+  ): Promise<void> => {
+    await api.put(`/recurring/${id}/occurrences/${date}`, override);
+  },
+
+  restoreOccurrence: async (id: string, date: string): Promise<void> => {
+    await api.delete(`/recurring/${id}/occurrences/${date}`);
+  },
+};
+
+// Bills and subscriptions (mirror the backend BillService)
+export type BillFrequency = "weekly" | "monthly" | "quarterly" | "yearly";
+
+export interface Bill {
+  id: string;
+  payee: string;
+  amount: number; // in the base currency
+  amount_type: "fixed" | "estimated";
+  frequency: BillFrequency;
+  due_day: number; // weekday (0 = Sunday) for weekly bills, else day of month
+  due_month: number | null; // quarterly and yearly only
+  autopay: boolean;
+  match_text: string | null; // text in payment descriptions, defaults to payee
+  start_date: string;
+  is_active: boolean;
+  next_due_date: string | null;
+}
+
+export interface BillInput {
+  payee: string;
+  amount: number;
+  amount_type: Bill["amount_type"];
+  frequency: BillFrequency;
+  due_day: number;
+  due_month?: number | null;
+  autopay: boolean;
+  match_text?: string | null;
+  start_date?: string;
+  is_active?: boolean;
+}
+
+// One due date of a bill
+export interface BillOccurrence {
+  bill_id: string;
+  payee: string;
+  amount: number;
+  amount_type: Bill["amount_type"];
+  autopay: boolean;
+  due_date: string; // YYYY-MM-DD
+  status: "paid" | "overdue" | "upcoming";
+  payment: {
+    transaction_id: string | null; // null when marked paid by hand
+    amount: number;
+    paid_on: string;
+  } | null;
+}
+
+export const billsAPI = {
+  getAll: async (): Promise<Bill[]> => {
+    const response = await api.get<ApiResponse<Bill[]>>("/bills");
+    return response.data.data || [];
+  },
+
+  create: async (bill: BillInput): Promise<Bill> => {
+    const response = await api.post<ApiResponse<Bill>>("/bills", bill);
+    return response.data.data!;
+  },
+
+  update: async (id: string, bill: Partial<BillInput>): Promise<Bill> => {
+    const response = await api.put<ApiResponse<Bill>>(`/bills/${id}`, bill);
+    return response.data.data!;
+  },
+
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/bills/${id}`);
+  },
+
+  getCalendar: async (
+    start: string,
+    end: string
+  ): Promise<BillOccurrence[]> => {
+    const response = await api.get<ApiResponse<BillOccurrence[]>>(
+      "/bills/calendar",
+      { params: { start, end } }
+    );
+    return response.data.data || [];
+  },
+
+  getUpcoming: async (days?: number): Promise<BillOccurrence[]> => {
+    const response = await api.get<ApiResponse<BillOccurrence[]>>(
+      "/bills/upcoming",
+      { params: { days } }
+    );
+    return response.data.data || [];
+  },
+
+  markPaid: async (id: string, dueDate: string): Promise<void> => {
+    await api.post(`/bills/${id}/payments/${dueDate}`, {});
+  },
+
+  markUnpaid: async (id: string, dueDate: string): Promise<void> => {
+    await api.delete(`/bills/${id}/payments/${dueDate}`);
+  },
+};
+
+// Categorization rules (mirror the backend RuleService)
+export type DescriptionOperator =
+  | "contains"
+  | "starts_with"
+  | "equals"
+  | "regex";
+
+export interface Rule {
+  id: string;
+  name: string;
+  priority: number; // lower runs first
+  is_active: boolean;
+  description_operator: DescriptionOperator | null;
+  description_value: string | null;
+  min_amount: number | null;
+  max_amount: number | null;
+  match_type: "income" | "expense" | null;
+  set_category_id: string | null;
+  set_description: string | null;
+  add_tags: string[];
+  category_name?: string;
+  category_color?: string;
+}
+
+export type RuleInput = Partial<
+  Omit<Rule, "id" | "priority" | "category_name" | "category_color">
+> & { name: string };
+
+export interface RerunParams {
+  start_date?: string;
+  end_date?: string;
+  overwrite_categories?: boolean;
+}
+
+// A past transaction that re-running the rules changes
+export interface RuleChange {
+  transaction_id: string;
+  date: string;
+  amount: number;
+  type: "income" | "expense";
+  description: string;
+  category_id: string | null;
+  category_name: string | null;
+  new_description: string | null;
+  new_category_id: string | null;
+  new_category_name: string | null;
+  add_tags: string[];
+  rule_ids: string[];
+}
+
+// Rules API
+export const rulesAPI = {
+  getAll: async (): Promise<Rule[]> => {
+    const response = await api.get<ApiResponse<Rule[]>>("/rules");
+    return response.data.data || [];
+  },
+
+  create: async (rule: RuleInput): Promise<Rule> => {
+    const response = await api.post<ApiResponse<Rule>>("/rules", rule);
+    return response.data.data!;
+  },
+
+  update: async (id: string, rule: Partial<RuleInput>): Promise<Rule> => {
+    const response = await api.put<ApiResponse<Rule>>(`/rules/${id}`, rule);
+    return response.data.data!;
+  },
+
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/rules/${id}`);
+  },
+
+  // Rule IDs in the order they should be applied
+  reorder: async (ids: string[]): Promise<Rule[]> => {
+    const response = await api.put<ApiResponse<Rule[]>>("/rules/reorder", {
+      ids,
+    });
+    return response.data.data || [];
+  },
+
+  previewRerun: async (params: RerunParams): Promise<RuleChange[]> => {
+    const response = await api.post<ApiResponse<RuleChange[]>>(
+      "/rules/rerun/preview",
+      params
+    );
+    return response.data.data || [];
+  },
+
+  rerun: async (params: RerunParams): Promise<RuleChange[]> => {
+    const response = await api.post<ApiResponse<RuleChange[]>>(
+      "/rules/rerun",
+      params
+    );
+    return response.data.data || [];
+  },
+};
+
+// Tag types (mirror the backend TagService)
+export interface Tag {
+  id: string;
+  name: string;
+  color: string | null;
+  created_at: string;
+  transaction_count?: number;
+}
+
+export interface TagSpending {
+  tagId: string;
+  tagName: string;
+  tagColor: string | null;
+  expenses: number; // in the base currency
+  income: number;
+  transactionCount: number;
+}
+
+// Tags API
+export const tagsAPI = {
+  getAll: async (): Promise<Tag[]> => {
+    const response = await api.get<ApiResponse<Tag[]>>("/tags");
+    return response.data.data || [];
+  },
+
+  create: async (tag: { name: string; color?: string }): Promise<Tag> => {
+    const response = await api.post<ApiResponse<Tag>>("/tags", tag);
+    return response.data.data!;
+  },
+
+  update: async (
+    id: string,
+    tag: { name?: string; color?: string | null }
+  ): Promise<Tag> => {
+    const response = await api.put<ApiResponse<Tag>>(`/tags/${id}`, tag);
+    return response.data.data!;
+  },
+
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/tags/${id}`);
+  },
+
+  getSpending: async (
+    startDate?: string,
+    endDate?: string
+  ): Promise<TagSpending[]> => {
+    const params = new URLSearchParams();
+    if (startDate) params.append("start_date", startDate);
+    if (endDate) params.append("end_date", endDate);
+
+    const response = await api.get<ApiResponse<TagSpending[]>>(
+      `/tags/spending?${params.toString()}`
+    );
+    return response.data.data || [];
+  },
+};
+
+// Budget types (mirror the backend BudgetService)
+export type RolloverMode = "none" | "surplus" | "deficit" | "both";
+
+// A category's budget for a month: its explicit budget, or else its default
+// monthly budget (is_default, with no id)
+export interface Budget {
+  id: string | null;
+  category_id: string;
+  category_parent_id: string | null;
+  category_name: string;
+  category_color: string;
+  is_default: boolean;
+  month: number;
+  year: number;
+  limit_amount: number;
+  rollover_mode: RolloverMode;
+  carried_in: number; // from the previous month; negative for a deficit
+  effective_limit: number; // limit_amount + carried_in
+  spent_amount: number; // in the base currency, including subcategories
+  remaining_amount: number;
+  percentage_used: number;
+}
+
+export interface BudgetInput {
+  category_id: string;
+  month: number;
+  year: number;
+  limit_amount: number;
+  rollover_mode?: RolloverMode;
+}
+
+// A category's limit as copied between months and templates
+export interface BudgetLimit {
+  category_id: string;
+  limit_amount: number;
+  rollover_mode: RolloverMode;
+}
+
+// A budget row as stored, without spending
+export interface BudgetEntry extends BudgetLimit {
+  id: string;
+  month: number;
+  year: number;
+}
+
+export interface BudgetMonth {
+  month: number;
+  year: number;
+}
+
+export type BudgetConflictMode = "skip" | "overwrite" | "add";
+
+export interface BulkApplyParams {
+  source: { template_id: string } | BudgetMonth;
+  start: BudgetMonth;
+  end: BudgetMonth;
+  conflict: BudgetConflictMode;
+}
+
+export interface BulkApplyResult {
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+export type BudgetPeriodUnit = "day" | "week" | "month";
+
+// A budget that repeats every period_length units, with one period starting
+// on anchor_date, e.g. weekly from a Monday or monthly from the 15th
+export interface PeriodBudget {
+  id: string;
+  category_id: string;
+  category_name: string;
+  category_color: string;
+  period_unit: BudgetPeriodUnit;
+  period_length: number;
+  anchor_date: string; // YYYY-MM-DD
+  limit_amount: number;
+  alert_thresholds: number[]; // percentages of the limit that send an alert
+  // The current period and what was spent in it
+  period_start: string;
+  period_end: string;
+  spent_amount: number;
+  remaining_amount: number;
+  percentage_used: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PeriodBudgetInput {
+  category_id: string;
+  period_unit: BudgetPeriodUnit;
+  period_length: number;
+  anchor_date: string;
+  limit_amount: number;
+  alert_thresholds?: number[];
+}
+
+export type NotificationType =
+  | "budget_threshold"
+  | "large_transaction"
+  | "upcoming_bill"
+  | "new_login";
+
+// Which channels an event is delivered through
+export interface NotificationPreference {
+  event: NotificationType;
+  in_app: boolean;
+  email: boolean;
+  digest: boolean;
+}
+
+export interface NotificationPreferences {
+  events: NotificationPreference[];
+  large_transaction_amount: number; // in the base currency
+}
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link: string | null; // app path to open, e.g. /budgets
+  data: Record<string, unknown> | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+// How often the spending summary email is sent
+export type DigestFrequency = "none" | "weekly" | "monthly";
+
+export interface BudgetTemplate {
+  id: string;
+  name: string;
+  items: BudgetLimit[];
+  created_at: string;
+  updated_at: string;
+}
+
+// A category's envelope for a month; balances carry from month to month
+export interface Envelope {
+  category_id: string;
+  category_name: string;
+  category_color: string;
+  category_parent_id: string | null;
+  carried_in: number;
+  assigned: number;
+  activity: number; // spent this month
+  available: number;
+}
+
+export interface EnvelopeMonth {
+  month: number;
+  year: number;
+  income: number;
+  assigned: number;
+  toBeAssigned: number;
+  envelopes: Envelope[];
+}
+
+export interface EnvelopeAssignment {
+  id: string;
+  category_id: string;
+  category_name: string;
+  month: number;
+  year: number;
+  amount: number; // negative when taken out of the envelope
+  move_id: string | null; // shared by both sides of a move
+  note: string | null;
+  created_at: string;
+}
+
+export interface BudgetSummary {
+  totalBudgets: number;
+  totalBudgetAmount: number;
+  totalCarriedIn: number;
+  totalSpent: number;
+  totalRemaining: number;
+  overBudgetCategories: number;
+}
+
+// Budgets API. Month and year default to the current month.
+export const budgetsAPI = {
+  getAll: async (month?: number, year?: number): Promise<Budget[]> => {
+    const response = await api.get<ApiResponse<Budget[]>>("/budgets", {
+      params: { month, year },
+    });
+    return response.data.data || [];
+  },
+
+  getSummary: async (month?: number, year?: number): Promise<BudgetSummary> => {
+    const response = await api.get<ApiResponse<BudgetSummary>>(
+      "/budgets/summary",
+      { params: { month, year } }
+    );
+    return response.data.data!;
+  },
+
+  // Every budget set in a year, without spending
+  getYear: async (year: number): Promise<BudgetEntry[]> => {
+    const response = await api.get<ApiResponse<BudgetEntry[]>>(
+      "/budgets/yearly",
+      {
+        params: { year },
+      }
+    );
+    return response.data.data || [];
+  },
+
+  bulkApply: async (params: BulkApplyParams): Promise<BulkApplyResult> => {
+    const response = await api.post<ApiResponse<BulkApplyResult>>(
+      "/budgets/bulk",
+      params
+    );
+    return response.data.data!;
+  },
+
+  create: async (budget: BudgetInput): Promise<Budget> => {
+    const response = await api.post<ApiResponse<Budget>>("/budgets", budget);
+    return response.data.data!;
+  },
+
+  update: async (
+    id: string,
+    budget: { limit_amount?: number; rollover_mode?: RolloverMode }
+  ): Promise<Budget> => {
+    const response = await api.put<ApiResponse<Budget>>(
+      `/budgets/${id}`,
+      budget
+    );
+    return response.data.data!;
+  },
+
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/budgets/${id}`);
+  },
+};
+
+// Period Budgets API
+export const periodBudgetsAPI = {
+  getAll: async (date?: string): Promise<PeriodBudget[]> => {
+    const response = await api.get<ApiResponse<PeriodBudget[]>>(
+      "/period-budgets",
+      { params: { date } }
+    );
+    return response.data.data || [];
+  },
+
+  create: async (budget: PeriodBudgetInput): Promise<PeriodBudget> => {
+    const response = await api.post<ApiResponse<PeriodBudget>>(
+      "/period-budgets",
+      budget
+    );
+    return response.data.data!;
+  },
+
+  update: async (
+    id: string,
+    budget: Partial<Omit<PeriodBudgetInput, "category_id">>
+  ): Promise<PeriodBudget> => {
+    const response = await api.put<ApiResponse<PeriodBudget>>(
+      `/period-budgets/${id}`,
+      budget
+    );
+    return response.data.data!;
+  },
+
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/period-budgets/${id}`);
+  },
+};
+
+// Notifications API
+export const notificationsAPI = {
+  getAll: async (
+    params: { unread?: boolean; limit?: number } = {}
+  ): Promise<Notification[]> => {
+    const response = await api.get<ApiResponse<Notification[]>>(
+      "/notifications",
+      { params }
+    );
+    return response.data.data || [];
+  },
+
+  getUnreadCount: async (): Promise<number> => {
+    const response = await api.get<ApiResponse<{ count: number }>>(
+      "/notifications/unread-count"
+    );
+    return response.data.data?.count ?? 0;
+  },
+
+  markRead: async (id: string): Promise<Notification> => {
+    const response = await api.put<ApiResponse<Notification>>(
+      `/notifications/${id}/read`
+    );
+    return response.data.data!;
+  },
+
+  markAllRead: async (): Promise<void> => {
+    await api.put("/notifications/read-all");
+  },
+
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/notifications/${id}`);
+  },
+
+  getPreferences: async (): Promise<NotificationPreferences> => {
+    const response = await api.get<ApiResponse<NotificationPreferences>>(
+      "/notifications/preferences"
+    );
+    return response.data.data!;
+  },
+
+  updatePreferences: async (
+    preferences: Partial<NotificationPreferences>
+  ): Promise<NotificationPreferences> => {
+    const response = await api.put<ApiResponse<NotificationPreferences>>(
+      "/notifications/preferences",
+      preferences
+    );
+    return response.data.data!;
+  },
+};
+
+// Email digest API
+export const digestsAPI = {
+  // Email the latest digest now, regardless of the user's schedule
+  sendTest: async (frequency: Exclude<DigestFrequency, "none">) => {
+    const response = await api.post<ApiResponse<null>>("/digests/send", {
+      frequency,
+    });
+    return response.data;
+  },
+};
+
+// Envelope budgeting API
+export const envelopesAPI = {
+  getMonth: async (month: number, year: number): Promise<EnvelopeMonth> => {
+    const response = await api.get<ApiResponse<EnvelopeMonth>>(
+      "/budgets/envelopes",
+      { params: { month, year } }
+    );
+    return response.data.data!;
+  },
+
+  getHistory: async (
+    month: number,
+    year: number
+  ): Promise<EnvelopeAssignment[]> => {
+    const response = await api.get<ApiResponse<EnvelopeAssignment[]>>(
+      "/budgets/envelopes/history",
+      { params: { month, year } }
+    );
+    return response.data.data || [];
+  },
+
+  assign: async (assignment: {
+    category_id: string;
+    month: number;
+    year: number;
+    amount: number;
+    note?: string;
+  }): Promise<EnvelopeAssignment> => {
+    const response = await api.post<ApiResponse<EnvelopeAssignment>>(
+      "/budgets/envelopes/assign",
+      assignment
+    );
+    return response.data.data!;
+  },
+
+  move: async (move: {
+    from_category_id: string;
+    to_category_id: string;
+    month: number;
+    year: number;
+    amount: number;
+    note?: string;
+  }): Promise<EnvelopeAssignment[]> => {
+    const response = await api.post<ApiResponse<EnvelopeAssignment[]>>(
+      "/budgets/envelopes/move",
+      move
+    );
+    return response.data.data || [];
+  },
+};
+
+// Budget Templates API
+export const budgetTemplatesAPI = {
+  getAll: async (): Promise<BudgetTemplate[]> => {
+    const response = await api.get<ApiResponse<BudgetTemplate[]>>(
+      "/budget-templates"
+    );
+    return response.data.data || [];
+  },
+
+  create: async (template: {
+    name: string;
+    items: BudgetLimit[];
+  }): Promise<BudgetTemplate> => {
+    const response = await api.post<ApiResponse<BudgetTemplate>>(
+      "/budget-templates",
+      template
+    );
+    return response.data.data!;
+  },
+
+  update: async (
+    id: string,
+    template: { name?: string; items?: BudgetLimit[] }
+  ): Promise<BudgetTemplate> => {
+    const response = await api.put<ApiResponse<BudgetTemplate>>(
+      `/budget-templates/${id}`,
+      template
+    );
+    return response.data.data!;
+  },
+
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/budget-templates/${id}`);
+  },
+};
+
+export interface ExchangeRate {
+  id: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number; // 1 from_currency = rate to_currency
+  date: string;
+  created_at: string;
+}
+
+export interface ExchangeRateInput {
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  date: string; // YYYY-MM-DD
+}
+
+export interface RateImportResult {
+  imported: number;
+  errors: Array<{ line: number; error: string }>;
+}
+
+// Exchange Rates API
+export const exchangeRatesAPI = {
+  getAll: async (
+    params: { currency?: string; limit?: number; offset?: number } = {}
+  ): Promise<{ rates: ExchangeRate[]; total: number }> => {
+    const response = await api.get<
+      ApiResponse<{ rates: ExchangeRate[]; total: number }>
+    >("/exchange-rates", { params });
+    return response.data.data || { rates: [], total: 0 };
+  },
+
+  // Currencies with transactions but no rate to the base currency
+  getMissing: async (): Promise<string[]> => {
+    const response = await api.get<ApiResponse<string[]>>(
+      "/exchange-rates/missing"
+    );
+    return response.data.data || [];
+  },
+
+  create: async (rate: ExchangeRateInput): Promise<ExchangeRate> => {
+    const response = await api.post<ApiResponse<ExchangeRate>>(
+      "/exchange-rates",
+      rate
+    );
+    return response.data.data!;
+  },
+
+  // CSV with date, from, to and rate columns
+  import: async (csv: string): Promise<RateImportResult> => {
+    const response = await api.post<ApiResponse<RateImportResult>>(
+      "/exchange-rates/import",
+      { csv }
+    );
+    return response.data.data!;
+  },
+
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/exchange-rates/${id}`);
+  },
+};
+
+export interface ExportParams {
+  format: "csv" | "json" | "ofx";
+  resource?: "transactions" | "categories" | "budgets"; // CSV only
+  type?: "income" | "expense" | "transfer";
+  category_id?: string;
+  account_id?: string;
+  tag_id?: string;
+  start_date?: string;
+  end_date?: string;
+  q?: string; // search box query, as for the transaction list
+}
+
 // Users API
 export const usersAPI = {
   getProfile: async () => {
@@ -293,7 +1469,13 @@ export const usersAPI = {
     return response.data;
   },
 
-  updateProfile: async (data: { name?: string; email?: string }) => {
+  updateProfile: async (data: {
+    name?: string;
+    email?: string;
+    base_currency?: string;
+    envelope_budgeting?: boolean;
+    digest_frequency?: DigestFrequency;
+  }) => {
     const response = await api.put<ApiResponse<{ user: any }>>(
       "/users/profile",
       data
@@ -311,6 +1493,22 @@ export const usersAPI = {
     );
     return response.data;
   },
+
+  exportData: async (
+    params: ExportParams
+  ): Promise<{ blob: Blob; fileName: string }> => {
+    const response = await api.get<Blob>("/users/export", {
+      params,
+      responseType: "blob",
+      // Full histories are streamed and can take a while
+      timeout: 120000,
+    });
+    const disposition = String(response.headers["content-disposition"] || "");
+    const fileName =
+      disposition.match(/filename="([^"]+)"/)?.[1] ||
+      `budget-export.${params.format}`;
+    return { blob: response.data, fileName };
+  },
 };
 
 export default api;
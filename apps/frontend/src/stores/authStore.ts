@@ -1,6 +1,6 @@
 import { create } from "zustand";
 import { immer } from "zustand/middleware/immer";
-import { authAPI } from "@/services/api";
+import { authAPI, DigestFrequency } from "@/services/api";
 
 interface User {
   id: string;
@@ -9,6 +9,9 @@ interface User {
   created_at: string;
   updated_at: string;
   email_verified: boolean;
+  base_currency: string; // ISO 4217 code totals are reported in
+  envelope_budgeting: boolean; // income is assigned to category envelopes
+  digest_frequency: DigestFrequency; // summary emails, "none" when off
 }
 
 interface AuthState {
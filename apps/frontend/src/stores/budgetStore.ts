@@ -1,15 +1,55 @@
 import { create } from "zustand";
 import { devtools, subscribeWithSelector } from "zustand/middleware";
 import { immer } from "zustand/middleware/immer";
+import type { Budget } from "@/services/api";
+
+// Transfers move money between accounts and count as neither income nor expense
+export type TransactionType = "income" | "expense" | "transfer";
 
 export interface Transaction {
   id: string;
   amount: number;
+  currency?: string; // ISO 4217 code the amount is in
+  // amount converted to the user's base currency at the transaction-date rate
+  base_amount?: number;
   description: string;
+  notes?: string | null; // searched along with the description
   category_id?: string;
-  type: "income" | "expense";
+  account_id?: string | null;
+  type: TransactionType;
   date: string;
   user_id: string;
+  // Both legs of a transfer share a transfer_id
+  transfer_id?: string | null;
+  transfer_direction?: "in" | "out" | null;
+  // Fields populated by backend joins
+  category_name?: string;
+  category_color?: string;
+  account_name?: string;
+  transfer_account_name?: string;
+  // Only present on account ledger entries
+  running_balance?: number;
+  // Category lines of a split transaction; they add up to amount
+  splits?: TransactionSplit[];
+  tags?: TransactionTag[];
+}
+
+export interface TransactionTag {
+  id: string;
+  name: string;
+  color?: string | null;
+}
+
+// What the forms send; tags go by name and missing ones are created
+export type TransactionInput = Omit<Transaction, "id" | "user_id" | "tags"> & {
+  tags?: string[];
+};
+
+export interface TransactionSplit {
+  id?: string;
+  category_id?: string | null;
+  amount: number;
+  memo?: string | null;
   // Fields populated by backend joins
   category_name?: string;
   category_color?: string;
@@ -17,18 +57,38 @@ export interface Transaction {
 
 export interface Category {
   id: string;
+  parent_id?: string | null; // null for top-level categories
   name: string;
   budget: number;
   color: string;
+  is_archived?: boolean; // hidden from pickers, history is kept
+  alert_thresholds?: number[]; // percentages of the budget that send an alert
   user_id?: string;
-  // Calculated fields from backend
+  // Calculated fields from backend, including spending in subcategories
   spent?: number;
   transaction_count?: number;
 }
 
+export type AccountType = "checking" | "savings" | "credit_card" | "cash";
+
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  opening_balance: number;
+  currency: string;
+  user_id?: string;
+  // Calculated fields from backend
+  balance?: number;
+  transaction_count?: number;
+}
+
 export interface BudgetState {
   transactions: Transaction[];
   categories: Category[];
+  accounts: Account[];
+  // This month's budget per category, explicit or the category's default
+  budgets: Budget[];
   totalBalance: number;
   totalIncome: number;
   totalExpenses: number;
@@ -45,20 +105,22 @@ export interface BudgetActions {
   deleteCategory: (id: string) => void;
   setTransactions: (transactions: Transaction[]) => void;
   setCategories: (categories: Category[]) => void;
+  setAccounts: (accounts: Account[]) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
   calculateTotals: () => void;
   reset: () => void;
   // API integration methods  loadTransactions: () => Promise<void>;
   loadCategories: () => Promise<void>;
+  loadAccounts: () => Promise<void>;
+  loadBudgets: () => Promise<void>;
   loadDashboardData: () => Promise<void>;
   refreshAllData: () => Promise<void>;
-  createTransaction: (
-    transaction: Omit<Transaction, "id" | "user_id">
-  ) => Promise<void>;
+  createTransaction: (transaction: TransactionInput) => Promise<void>;
   createCategory: (
     category: Omit<Category, "id" | "spent" | "user_id">
   ) => Promise<void>;
+  saveCategory: (id: string, category: Partial<Category>) => Promise<void>;
   removeTransaction: (id: string) => Promise<void>;
   removeCategory: (id: string) => Promise<void>;
 }
@@ -68,6 +130,8 @@ export type BudgetStore = BudgetState & BudgetActions;
 const initialState: BudgetState = {
   transactions: [],
   categories: [],
+  accounts: [],
+  budgets: [],
   totalBalance: 0,
   totalIncome: 0,
   totalExpenses: 0,
@@ -76,14 +140,27 @@ const initialState: BudgetState = {
 };
 
 // Helper function to normalize transaction data from API
-const normalizeTransaction = (transaction: any): Transaction => ({
+export const normalizeTransaction = (transaction: any): Transaction => ({
   ...transaction,
   amount:
     typeof transaction.amount === "string"
       ? parseFloat(transaction.amount) || 0
       : Number(transaction.amount) || 0,
+  ...(transaction.base_amount != null && {
+    base_amount: Number(transaction.base_amount) || 0,
+  }),
+  ...(Array.isArray(transaction.splits) && {
+    splits: transaction.splits.map((split: any) => ({
+      ...split,
+      amount: Number(split.amount) || 0,
+    })),
+  }),
 });
 
+// Totals and charts add up amounts in the user's base currency
+export const inBaseCurrency = (transaction: Transaction) =>
+  Number(transaction.base_amount ?? transaction.amount) || 0;
+
 // Helper function to normalize category data from API
 const normalizeCategory = (category: any): Category => ({
   ...category,
@@ -97,6 +174,13 @@ const normalizeCategory = (category: any): Category => ({
       : Number(category.spent) || 0,
 });
 
+// Helper function to normalize account data from API
+const normalizeAccount = (account: any): Account => ({
+  ...account,
+  opening_balance: Number(account.opening_balance) || 0,
+  balance: Number(account.balance) || 0,
+});
+
 // Helper function to normalize transactions array
 const normalizeTransactions = (transactions: any[]): Transaction[] => {
   if (!Array.isArray(transactions)) return [];
@@ -109,6 +193,12 @@ const normalizeCategories = (categories: any[]): Category[] => {
   return categories.map(normalizeCategory);
 };
 
+// Helper function to normalize accounts array
+const normalizeAccounts = (accounts: any[]): Account[] => {
+  if (!Array.isArray(accounts)) return [];
+  return accounts.map(normalizeAccount);
+};
+
 // Enhanced Zustand v5 store with immer and subscribeWithSelector
 export const useBudgetStore = create<BudgetStore>()(
   subscribeWithSelector(
@@ -200,6 +290,12 @@ export const useBudgetStore = create<BudgetStore>()(
             );
           });
         },
+        setAccounts: (accounts) => {
+          set((state) => {
+            state.accounts = normalizeAccounts(accounts);
+          });
+          get().calculateTotals();
+        },
 
         setLoading: (loading) => {
           set((state) => {
@@ -217,16 +313,21 @@ export const useBudgetStore = create<BudgetStore>()(
             const totalIncome = state.transactions
               .filter((t: Transaction) => t.type === "income")
               .reduce(
-                (sum: number, t: Transaction) => sum + Number(t.amount),
+                (sum: number, t: Transaction) => sum + inBaseCurrency(t),
                 0
               );
             const totalExpenses = state.transactions
               .filter((t: Transaction) => t.type === "expense")
               .reduce(
-                (sum: number, t: Transaction) => sum + Number(t.amount),
+                (sum: number, t: Transaction) => sum + inBaseCurrency(t),
                 0
               );
-            const totalBalance = totalIncome - totalExpenses;
+            // Accounts may have started with money in them
+            const openingBalances = state.accounts.reduce(
+              (sum: number, a: Account) => sum + Number(a.opening_balance),
+              0
+            );
+            const totalBalance = openingBalances + totalIncome - totalExpenses;
 
             state.totalIncome = totalIncome;
             state.totalExpenses = totalExpenses;
@@ -290,6 +391,42 @@ export const useBudgetStore = create<BudgetStore>()(
           }
         },
 
+        loadAccounts: async () => {
+          try {
+            const { accountsAPI } = await import("@/services/api");
+            const accounts = await accountsAPI.getAll();
+            set((state) => {
+              state.accounts = normalizeAccounts(accounts);
+            });
+
+            get().calculateTotals();
+          } catch (error) {
+            set((state) => {
+              state.error =
+                error instanceof Error
+                  ? error.message
+                  : "Failed to load accounts";
+            });
+          }
+        },
+
+        loadBudgets: async () => {
+          try {
+            const { budgetsAPI } = await import("@/services/api");
+            const budgets = await budgetsAPI.getAll();
+            set((state) => {
+              state.budgets = budgets;
+            });
+          } catch (error) {
+            set((state) => {
+              state.error =
+                error instanceof Error
+                  ? error.message
+                  : "Failed to load budgets";
+            });
+          }
+        },
+
         loadDashboardData: async () => {
           try {
             set((state) => {
@@ -297,18 +434,22 @@ export const useBudgetStore = create<BudgetStore>()(
               state.error = null;
             });
 
-            const { transactionsAPI, categoriesAPI } = await import(
-              "@/services/api"
-            );
-            const [transactions, categories] = await Promise.all([
-              transactionsAPI.getAll(),
-              categoriesAPI.getAll(),
-            ]);
+            const { transactionsAPI, categoriesAPI, accountsAPI, budgetsAPI } =
+              await import("@/services/api");
+            const [transactions, categories, accounts, budgets] =
+              await Promise.all([
+                transactionsAPI.getAll(),
+                categoriesAPI.getAll(),
+                accountsAPI.getAll(),
+                budgetsAPI.getAll(),
+              ]);
             set((state) => {
               state.transactions = normalizeTransactions(transactions);
               state.categories = normalizeCategories(
                 Array.isArray(categories) ? categories : []
               );
+              state.accounts = normalizeAccounts(accounts);
+              state.budgets = budgets;
               state.isLoading = false;
             });
 
@@ -371,6 +512,8 @@ export const useBudgetStore = create<BudgetStore>()(
               }
               state.isLoading = false;
             });
+            // Its default budget counts as this month's budget
+            await get().loadBudgets();
           } catch (error) {
             set((state) => {
               state.error =
@@ -379,6 +522,7 @@ export const useBudgetStore = create<BudgetStore>()(
                   : "Failed to create category";
               state.isLoading = false;
             });
+            throw error; // Re-throw so UI can handle it
           }
         },
         removeTransaction: async (id) => {
@@ -391,14 +535,19 @@ export const useBudgetStore = create<BudgetStore>()(
             const { transactionsAPI } = await import("@/services/api");
             await transactionsAPI.delete(id);
 
-            // Remove from local state
+            // Remove from local state, including the other leg of a transfer
             set((state) => {
-              const index = state.transactions.findIndex(
+              const removed = state.transactions.find(
                 (t: Transaction) => t.id === id
               );
-              if (index !== -1) {
-                state.transactions.splice(index, 1);
-              }
+              state.transactions = state.transactions.filter(
+                (t: Transaction) =>
+                  t.id !== id &&
+                  !(
+                    removed?.transfer_id &&
+                    t.transfer_id === removed.transfer_id
+                  )
+              );
               state.isLoading = false;
             });
 
@@ -415,6 +564,32 @@ export const useBudgetStore = create<BudgetStore>()(
           }
         },
 
+        saveCategory: async (id, category) => {
+          try {
+            set((state) => {
+              state.isLoading = true;
+              state.error = null;
+            });
+
+            const { categoriesAPI } = await import("@/services/api");
+            await categoriesAPI.update(id, category);
+
+            // Reload rather than patch: moving a category changes the
+            // rolled-up spending of its old and new parents, and its default
+            // budget may be this month's budget
+            await Promise.all([get().loadCategories(), get().loadBudgets()]);
+          } catch (error) {
+            set((state) => {
+              state.error =
+                error instanceof Error
+                  ? error.message
+                  : "Failed to update category";
+              state.isLoading = false;
+            });
+            throw error; // Re-throw so UI can handle it
+          }
+        },
+
         removeCategory: async (id) => {
           try {
             set((state) => {
@@ -435,6 +610,9 @@ export const useBudgetStore = create<BudgetStore>()(
               }
               state.isLoading = false;
             });
+            // Its subcategories moved up a level and its parents' rolled-up
+            // spending changed
+            await Promise.all([get().loadCategories(), get().loadBudgets()]);
           } catch (error) {
             set((state) => {
               state.error =
@@ -454,19 +632,23 @@ export const useBudgetStore = create<BudgetStore>()(
               state.error = null;
             });
 
-            const { transactionsAPI, categoriesAPI } = await import(
-              "@/services/api"
-            );
-            const [transactions, categories] = await Promise.all([
-              transactionsAPI.getAll(),
-              categoriesAPI.getAll(),
-            ]);
+            const { transactionsAPI, categoriesAPI, accountsAPI, budgetsAPI } =
+              await import("@/services/api");
+            const [transactions, categories, accounts, budgets] =
+              await Promise.all([
+                transactionsAPI.getAll(),
+                categoriesAPI.getAll(),
+                accountsAPI.getAll(),
+                budgetsAPI.getAll(),
+              ]);
 
             set((state) => {
               state.transactions = normalizeTransactions(transactions);
               state.categories = normalizeCategories(
                 Array.isArray(categories) ? categories : []
               );
+              state.accounts = normalizeAccounts(accounts);
+              state.budgets = budgets;
               state.isLoading = false;
             });
 
@@ -496,6 +678,14 @@ export const useCategories = () => {
   const categories = useBudgetStore((state) => state.categories);
   return Array.isArray(categories) ? categories : [];
 };
+export const useBudgets = () => {
+  const budgets = useBudgetStore((state) => state.budgets);
+  return Array.isArray(budgets) ? budgets : [];
+};
+export const useAccounts = () => {
+  const accounts = useBudgetStore((state) => state.accounts);
+  return Array.isArray(accounts) ? accounts : [];
+};
 
 // Fixed: Use individual selectors instead of object creation to prevent infinite loops
 export const useTotalBalance = () =>